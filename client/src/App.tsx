@@ -1,6 +1,7 @@
 import { BrowserRouter } from 'react-router-dom';
 import { Toaster } from 'sonner';
 import { AuthProvider } from './contexts/AuthContext';
+import { RealtimeProvider } from './providers/RealtimeProvider';
 import { ThemeProvider } from './providers/ThemeProvider';
 import { AppRoutes } from './routes';
 
@@ -8,10 +9,12 @@ function App() {
     return (
         <BrowserRouter>
             <AuthProvider>
-                <ThemeProvider defaultTheme="light">
-                    <AppRoutes />
-                    <Toaster position="bottom-center" />
-                </ThemeProvider>
+                <RealtimeProvider>
+                    <ThemeProvider defaultTheme="light">
+                        <AppRoutes />
+                        <Toaster position="bottom-center" />
+                    </ThemeProvider>
+                </RealtimeProvider>
             </AuthProvider>
         </BrowserRouter>
     );
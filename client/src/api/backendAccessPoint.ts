@@ -3,7 +3,7 @@ import {
     clearTokens,
     getAccessToken,
     getRefreshToken,
-    setAccessToken,
+    setTokens,
 } from '../utils/tokenManager';
 import { apiBaseUrl, toApiUrl } from './apiBaseUrl';
 
@@ -15,6 +15,43 @@ export const backendAccessPoint = axios.create({
     timeout: 60000, // 60 second timeout for AI/LLM requests
 });
 
+let pendingRefresh: Promise<string> | null = null;
+
+/**
+ * Exchanges the refresh token for a new access token and stores both. The server revokes the
+ * refresh token it was sent, so the rotated one has to replace it for the next refresh to work.
+ * Concurrent callers share one request, so a burst of 401s (or the realtime connection
+ * refreshing at the same time) only refreshes once.
+ * @returns {Promise<string>} The new access token
+ */
+export const refreshAccessToken = (): Promise<string> => {
+    if (!pendingRefresh) {
+        pendingRefresh = (async () => {
+            const refreshToken = getRefreshToken();
+            if (!refreshToken) {
+                throw new Error('No refresh token available');
+            }
+
+            const response = await axios.post(toApiUrl('/api/auth/refresh-token'), {
+                RefreshToken: refreshToken,
+            });
+            if (!response.data.accessToken || !response.data.refreshToken) {
+                throw new Error('Refresh did not return new tokens');
+            }
+
+            setTokens({
+                accessToken: response.data.accessToken,
+                refreshToken: response.data.refreshToken,
+            });
+            return response.data.accessToken as string;
+        })().finally(() => {
+            pendingRefresh = null;
+        });
+    }
+
+    return pendingRefresh;
+};
+
 // Request interceptor to add Authorization header
 backendAccessPoint.interceptors.request.use(
     config => {
@@ -38,18 +75,11 @@ backendAccessPoint.interceptors.response.use(
         if (error.response?.status === 401 && !originalRequest._retry) {
             originalRequest._retry = true;
 
-            const refreshToken = getRefreshToken();
-            if (refreshToken) {
+            if (getRefreshToken()) {
                 try {
-                    const response = await axios.post(toApiUrl('/api/auth/refresh-token'), {
-                        RefreshToken: refreshToken,
-                    });
-
-                    if (response.data.accessToken) {
-                        setAccessToken(response.data.accessToken);
-                        originalRequest.headers.Authorization = `Bearer ${response.data.accessToken}`;
-                        return backendAccessPoint(originalRequest);
-                    }
+                    const accessToken = await refreshAccessToken();
+                    originalRequest.headers.Authorization = `Bearer ${accessToken}`;
+                    return backendAccessPoint(originalRequest);
                 } catch (refreshError) {
                     // Refresh failed, clear tokens and redirect to login
                     clearTokens();
@@ -36,11 +36,11 @@ export type SendConversationQueryRequest = {
     limit?: number;
 };
 
-export type QueryIntent =
-    | "Factual"
-    | "Comprehensive"
-    | "Exploratory"
-    | "Comparative";
+/**
+ * Mirrors the server's QueryIntent: Regular retrieves the closest chunks, Exhaustive everything
+ * related to the query
+ */
+export type QueryIntent = "Regular" | "Exhaustive";
 
 export type RetrievalConfig = {
     maxK: number;
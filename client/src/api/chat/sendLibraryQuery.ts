@@ -0,0 +1,69 @@
+import { useMutation } from "@tanstack/react-query";
+import { backendAccessPoint } from "../backendAccessPoint";
+import { QueryIntent } from "./sendConversationQuery";
+
+type LibraryQueryRequestDto = {
+    query: string;
+};
+
+type LibraryQueryResponseDto = {
+    originalQuery: string;
+    intent: QueryIntent;
+    llmResponse: string;
+    sources: Array<{
+        documentId: number;
+        documentTitle: string;
+        relevanceScore: number;
+        chunksUsed: number;
+    }>;
+    totalChunks: number;
+    uniqueDocuments: number;
+};
+
+export type LibrarySource = {
+    documentId: string;
+    documentTitle: string;
+    relevanceScore: number;
+    chunksUsed: number;
+};
+
+export type SendLibraryQueryResponse = {
+    originalQuery: string;
+    intent: QueryIntent;
+    llmResponse: string;
+    sources: LibrarySource[];
+    totalChunks: number;
+    uniqueDocuments: number;
+};
+
+/**
+ * Asks a one-off question of the user's library documents alone; nothing is saved to a conversation.
+ */
+export const sendLibraryQuery = async (query: string): Promise<SendLibraryQueryResponse> => {
+    const payload: LibraryQueryRequestDto = { query };
+
+    const response = await backendAccessPoint.post<LibraryQueryResponseDto>(
+        "/api/query/library",
+        payload
+    );
+    return {
+        originalQuery: response.data.originalQuery,
+        intent: response.data.intent,
+        llmResponse: response.data.llmResponse,
+        sources: response.data.sources.map((source) => ({
+            ...source,
+            documentId: source.documentId.toString(),
+        })),
+        totalChunks: response.data.totalChunks,
+        uniqueDocuments: response.data.uniqueDocuments,
+    };
+};
+
+export const useSendLibraryQuery = () => {
+    return useMutation({
+        mutationFn: sendLibraryQuery,
+        onError: (error) => {
+            console.error("Error querying your documents:", error);
+        },
+    });
+};
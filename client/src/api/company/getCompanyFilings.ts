@@ -7,6 +7,14 @@ type CompanyFilingsDto = {
     tickers: string[];
     exchanges: string[];
     availableFilingTypes: CompanyFilingTypeDto[];
+    filings: CompanyFilingDto[];
+};
+
+type CompanyFilingDto = {
+    accessionNumber: string;
+    formType: string;
+    filingDate: string;
+    reportDate: string | null;
 };
 
 type CompanyFilingTypeDto = {
@@ -21,6 +29,18 @@ export type CompanyFilings = {
     tickers: string[];
     exchanges: string[];
     availableFilingTypes: CompanyFilingType[];
+    filings: CompanyFiling[];
+};
+
+/**
+ * A single filing that can be picked for ingestion.
+ * reportDate is the end of the period the filing covers (e.g. fiscal year end for a 10-K).
+ */
+export type CompanyFiling = {
+    accessionNumber: string;
+    formType: string;
+    filingDate: string;
+    reportDate: string | null;
 };
 
 export type CompanyFilingType = {
@@ -46,6 +66,12 @@ export const getCompanyFilings = async (
             filingCount: filing.filingCount,
             latestFilingDate: filing.latestFilingDate,
         })),
+        filings: (response.data.filings ?? []).map((filing) => ({
+            accessionNumber: filing.accessionNumber,
+            formType: filing.formType,
+            filingDate: filing.filingDate,
+            reportDate: filing.reportDate,
+        })),
     };
 };
 
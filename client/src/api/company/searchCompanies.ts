@@ -0,0 +1,44 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { backendAccessPoint } from "../backendAccessPoint";
+import { Company } from "./getCompanyList";
+
+type CompanyDto = {
+    cik: string;
+    cikNumber: number;
+    name: string;
+    ticker: string | null;
+    exchange: string | null;
+};
+
+/**
+ * Searches the full SEC company directory by name, ticker or CIK.
+ */
+export const searchCompanies = async (
+    query: string,
+    limit = 20,
+): Promise<Company[]> => {
+    const response = await backendAccessPoint.get<CompanyDto[]>("/api/companies/search", {
+        params: { q: query, limit },
+    });
+
+    return response.data.map((company) => ({
+        cik: company.cik,
+        cikNumber: company.cikNumber,
+        name: company.name,
+        ticker: company.ticker,
+        exchange: company.exchange,
+    }));
+};
+
+export const useSearchCompanies = (query: string) => {
+    const trimmedQuery = query.trim();
+
+    return useQuery({
+        queryKey: ["company-search", trimmedQuery],
+        queryFn: () => searchCompanies(trimmedQuery),
+        enabled: trimmedQuery.length > 0,
+        staleTime: 1000 * 60 * 60,
+        // Keep showing the previous results while the next keystroke's search loads
+        placeholderData: keepPreviousData,
+    });
+};
@@ -0,0 +1,91 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { backendAccessPoint } from "../backendAccessPoint";
+import { ConversationCompany, IngestionStatus } from "./getConversationById";
+
+type AddConversationCompanyRequestDto = {
+    companyName: string;
+    companyTicker: string;
+    filingTypes: string[];
+    accessionNumbers?: string[];
+};
+
+type AddConversationCompanyResponseDto = {
+    id: string;
+    title: string;
+    companies: Array<{
+        id: number | string;
+        companyName: string;
+        ticker: string;
+        ingestionStatus: IngestionStatus | null;
+    }>;
+    ingestionStatus: IngestionStatus | null;
+    createdAt: string;
+    updatedAt: string;
+};
+
+export type AddConversationCompanyRequest = {
+    conversationId: string;
+    companyName: string;
+    companyTicker: string;
+    filingTypes: string[];
+    accessionNumbers?: string[];
+};
+
+export type AddConversationCompanyResponse = {
+    id: string;
+    title: string;
+    companies: ConversationCompany[];
+    ingestionStatus: IngestionStatus | null;
+    createdAt: string;
+    updatedAt: string;
+};
+
+/**
+ * Adds another company to a conversation for side-by-side comparison.
+ * Only the new company's filings are ingested; existing companies are left as they are.
+ */
+export const addConversationCompany = async (
+    data: AddConversationCompanyRequest
+): Promise<AddConversationCompanyResponse> => {
+    const payload: AddConversationCompanyRequestDto = {
+        companyName: data.companyName,
+        companyTicker: data.companyTicker,
+        filingTypes: data.filingTypes,
+        accessionNumbers: data.accessionNumbers,
+    };
+    const response = await backendAccessPoint.post<AddConversationCompanyResponseDto>(
+        `/api/conversation/${data.conversationId}/companies`,
+        payload
+    );
+
+    return {
+        id: response.data.id.toString(),
+        title: response.data.title,
+        companies: response.data.companies.map((company) => ({
+            id: company.id.toString(),
+            companyName: company.companyName,
+            ticker: company.ticker,
+            ingestionStatus: company.ingestionStatus,
+        })),
+        ingestionStatus: response.data.ingestionStatus,
+        createdAt: response.data.createdAt,
+        updatedAt: response.data.updatedAt,
+    };
+};
+
+export const useAddConversationCompany = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (data: AddConversationCompanyRequest) => addConversationCompany(data),
+        onSuccess: (updatedConversation) => {
+            queryClient.invalidateQueries({ queryKey: ["conversations"] });
+            queryClient.invalidateQueries({
+                queryKey: ["conversation", updatedConversation.id],
+            });
+        },
+        onError: (error) => {
+            console.error("Error adding conversation company:", error);
+        },
+    });
+};
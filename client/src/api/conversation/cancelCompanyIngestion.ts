@@ -0,0 +1,73 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { backendAccessPoint } from "../backendAccessPoint";
+import { ConversationCompany, IngestionStatus } from "./getConversationById";
+
+type CancelCompanyIngestionResponseDto = {
+    id: string;
+    title: string;
+    companies: Array<{
+        id: number | string;
+        companyName: string;
+        ticker: string;
+        ingestionStatus: IngestionStatus | null;
+    }>;
+    ingestionStatus: IngestionStatus | null;
+    createdAt: string;
+    updatedAt: string;
+};
+
+export type CancelCompanyIngestionRequest = {
+    conversationId: string;
+    ticker: string;
+};
+
+export type CancelCompanyIngestionResponse = {
+    id: string;
+    title: string;
+    companies: ConversationCompany[];
+    ingestionStatus: IngestionStatus | null;
+    createdAt: string;
+    updatedAt: string;
+};
+
+/**
+ * Cancels a company's in-flight ingestion. Filings that already completed stay searchable.
+ */
+export const cancelCompanyIngestion = async (
+    data: CancelCompanyIngestionRequest
+): Promise<CancelCompanyIngestionResponse> => {
+    const response = await backendAccessPoint.post<CancelCompanyIngestionResponseDto>(
+        `/api/conversation/${data.conversationId}/companies/${encodeURIComponent(data.ticker)}/cancel`
+    );
+
+    return {
+        id: response.data.id.toString(),
+        title: response.data.title,
+        companies: response.data.companies.map((company) => ({
+            id: company.id.toString(),
+            companyName: company.companyName,
+            ticker: company.ticker,
+            ingestionStatus: company.ingestionStatus,
+        })),
+        ingestionStatus: response.data.ingestionStatus,
+        createdAt: response.data.createdAt,
+        updatedAt: response.data.updatedAt,
+    };
+};
+
+export const useCancelCompanyIngestion = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (data: CancelCompanyIngestionRequest) => cancelCompanyIngestion(data),
+        onSuccess: (updatedConversation) => {
+            queryClient.invalidateQueries({ queryKey: ["conversations"] });
+            queryClient.invalidateQueries({
+                queryKey: ["conversation", updatedConversation.id],
+            });
+        },
+        onError: (error) => {
+            console.error("Error cancelling company ingestion:", error);
+        },
+    });
+};
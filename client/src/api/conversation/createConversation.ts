@@ -16,6 +16,7 @@ type CreateConversationResponseDto = {
         id: number | string;
         companyName: string;
         ticker: string;
+        ingestionStatus: import("./getConversationById").IngestionStatus | null;
     }>;
 };
 
@@ -45,6 +46,7 @@ export const createConversation = async (
             id: company.id.toString(),
             companyName: company.companyName,
             ticker: company.ticker,
+            ingestionStatus: company.ingestionStatus,
         })),
     };
 };
@@ -1,11 +1,22 @@
 import { useQuery } from "@tanstack/react-query";
 import { backendAccessPoint } from "../backendAccessPoint";
+import {
+    DocumentIngestionStatus,
+    INGESTION_POLL_INTERVAL_MS,
+    isIngesting,
+} from "../document/getLibraryDocumentList";
+import {
+    MessageMetadata,
+    parseMessageMetadata,
+} from "../message/getMessageListByConversation";
 
 export type DocumentSource = {
     documentId: number;
     documentTitle: string;
     documentLink: string;
     fileName: string | null;
+    companyName: string | null;
+    companyTicker: string | null;
     relevanceScore: number;
     chunksUsed: number;
 };
@@ -14,6 +25,7 @@ export type ConversationCompany = {
     id: string;
     companyName: string;
     ticker: string;
+    ingestionStatus: IngestionStatus | null;
 };
 
 /**
@@ -28,8 +40,13 @@ export type IngestionStatus =
     | "GeneratingEmbeddings"
     | "PersistingEmbeddings"
     | "Completed"
-    | "Failed";
+    | "Failed"
+    | "Cancelled";
 
+/**
+ * A document the conversation's questions retrieve from: one of its companies' filings (with a
+ * company), an upload into the conversation, or a library document attached to it
+ */
 export type ConversationDocument = {
     id: string;
     originalFileName: string;
@@ -38,6 +55,17 @@ export type ConversationDocument = {
     uploadedAt: string;
     description: string;
     conversationId: string;
+    /** Folder the file sat in within an imported data-room archive */
+    folderPath: string | null;
+    title: string;
+    documentLink: string | null;
+    companyId: string | null;
+    companyName: string | null;
+    companyTicker: string | null;
+    /** Null for filings, which are tracked per company */
+    ingestionStatus: DocumentIngestionStatus | null;
+    ingestionError: string | null;
+    isAttached: boolean;
 };
 
 export type ConversationMessage = {
@@ -46,6 +74,9 @@ export type ConversationMessage = {
     role: "User" | "Assistant" | "System";
     timestamp: string;
     conversationId: string;
+    /** The message this one follows in its thread; siblings are alternative branches */
+    parentId: string | null;
+    metadata: MessageMetadata;
     sources?: DocumentSource[];
 };
 
@@ -70,6 +101,7 @@ type GetConversationByIdResponseDto = {
         id: number;
         companyName: string;
         ticker: string;
+        ingestionStatus: IngestionStatus | null;
     }>;
     documents: Array<{
         id: number;
@@ -78,13 +110,23 @@ type GetConversationByIdResponseDto = {
         fileSize: number;
         uploadedAt: string;
         description: string;
+        folderPath: string | null;
+        title: string;
+        documentLink: string | null;
+        conversationCompanyId: number | null;
+        companyName: string | null;
+        companyTicker: string | null;
+        ingestionStatus: DocumentIngestionStatus | null;
+        ingestionError: string | null;
+        isAttached: boolean;
     }>;
     messages: Array<{
         id: number;
         role: "User" | "Assistant" | "System";
         content: string;
         timestamp: string;
-        metadata: unknown | null;
+        metadata: string | null;
+        parentMessageId: number | null;
         sources?: DocumentSource[];
     }>;
 };
@@ -109,6 +151,7 @@ export const getConversationById = async (
             id: c.id.toString(),
             companyName: c.companyName,
             ticker: c.ticker ?? "",
+            ingestionStatus: c.ingestionStatus,
         })),
         documents: serverData.documents.map((doc) => ({
             id: doc.id.toString(),
@@ -118,6 +161,15 @@ export const getConversationById = async (
             uploadedAt: doc.uploadedAt,
             description: doc.description,
             conversationId: conversationId,
+            folderPath: doc.folderPath,
+            title: doc.title,
+            documentLink: doc.documentLink,
+            companyId: doc.conversationCompanyId?.toString() ?? null,
+            companyName: doc.companyName,
+            companyTicker: doc.companyTicker,
+            ingestionStatus: doc.ingestionStatus,
+            ingestionError: doc.ingestionError,
+            isAttached: doc.isAttached,
         })),
         messages: serverData.messages.map((msg) => ({
             id: msg.id.toString(),
@@ -125,16 +177,27 @@ export const getConversationById = async (
             role: msg.role,
             timestamp: msg.timestamp,
             conversationId: conversationId,
+            parentId: msg.parentMessageId?.toString() ?? null,
+            metadata: parseMessageMetadata(msg.metadata),
             sources: msg.sources,
         })),
     };
 };
 
-export const useGetConversationById = (conversationId: string) => {
+/**
+ * @param pollIngestion - Refetch while uploaded documents are being ingested. Turn it off while an
+ * answer is in flight, since a refetch replaces the messages shown in the chat.
+ */
+export const useGetConversationById = (conversationId: string, pollIngestion = true) => {
     return useQuery({
         queryKey: ["conversation", conversationId],
         queryFn: () => getConversationById(conversationId),
         enabled: !!conversationId,
         refetchOnMount: true,
+        // Keep polling until uploaded documents have finished ingesting
+        refetchInterval: (query) =>
+            pollIngestion && query.state.data?.documents.some(isIngesting)
+                ? INGESTION_POLL_INTERVAL_MS
+                : false,
     });
 };
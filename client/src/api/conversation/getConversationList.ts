@@ -12,6 +12,7 @@ type ConversationSummaryDto = {
         id: number;
         companyName: string;
         ticker: string;
+        ingestionStatus: IngestionStatus | null;
     }>;
 };
 
@@ -19,6 +20,7 @@ export type ConversationCompany = {
     id: string;
     companyName: string;
     ticker: string;
+    ingestionStatus: IngestionStatus | null;
 };
 
 export type ConversationSummary = {
@@ -47,6 +49,7 @@ export const getConversationList = async (): Promise<GetConversationListResponse
             id: company.id.toString(),
             companyName: company.companyName,
             ticker: company.ticker ?? "",
+            ingestionStatus: company.ingestionStatus,
         })),
     }));
 };
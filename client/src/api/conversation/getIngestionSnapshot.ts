@@ -0,0 +1,96 @@
+import { backendAccessPoint } from "../backendAccessPoint";
+import { IngestionStatus } from "./getConversationById";
+
+type IngestionDocumentSnapshotDto = {
+    fileName: string;
+    filingType: string;
+    accessionNumber: string;
+    filingDate: string;
+    stage: IngestionStatus;
+    errorMessage: string | null;
+    startedAt: string | null;
+    stageStartedAt: string | null;
+    completedAt: string | null;
+};
+
+type CompanyIngestionSnapshotDto = {
+    companyIdentifier: string;
+    stage: IngestionStatus;
+    progressPercent: number | null;
+    message: string;
+    errorMessage: string | null;
+    startedAt: string;
+    completedAt: string | null;
+    documents: IngestionDocumentSnapshotDto[];
+};
+
+type IngestionSnapshotDto = {
+    companies: CompanyIngestionSnapshotDto[];
+    timestamp: string;
+};
+
+export type IngestionDocumentSnapshot = {
+    fileName: string;
+    filingType: string;
+    accessionNumber: string;
+    filingDate: string;
+    stage: IngestionStatus;
+    errorMessage: string | null;
+    startedAt: string | null;
+    stageStartedAt: string | null;
+    completedAt: string | null;
+    companyIdentifier: string;
+};
+
+export type CompanyIngestionSnapshot = {
+    companyIdentifier: string;
+    stage: IngestionStatus;
+    progressPercent: number | null;
+    message: string;
+    errorMessage: string | null;
+    startedAt: string;
+    completedAt: string | null;
+    documents: IngestionDocumentSnapshot[];
+};
+
+export type IngestionSnapshot = {
+    companies: CompanyIngestionSnapshot[];
+    timestamp: string;
+};
+
+/**
+ * Fetches the current ingestion state of every company in a conversation, so progress can be
+ * shown on load instead of waiting for the next live update.
+ */
+export const getIngestionSnapshot = async (
+    conversationId: string
+): Promise<IngestionSnapshot> => {
+    const response = await backendAccessPoint.get<IngestionSnapshotDto>(
+        `/api/conversation/${conversationId}/ingestion`
+    );
+
+    return {
+        companies: response.data.companies.map((company) => ({
+            companyIdentifier: company.companyIdentifier,
+            stage: company.stage,
+            progressPercent: company.progressPercent,
+            message: company.message,
+            errorMessage: company.errorMessage,
+            startedAt: company.startedAt,
+            completedAt: company.completedAt,
+            documents: company.documents.map((document) => ({
+                fileName: document.fileName,
+                filingType: document.filingType,
+                accessionNumber: document.accessionNumber,
+                filingDate: document.filingDate,
+                stage: document.stage,
+                errorMessage: document.errorMessage,
+                startedAt: document.startedAt,
+                stageStartedAt: document.stageStartedAt,
+                completedAt: document.completedAt,
+                companyIdentifier: company.companyIdentifier,
+            })),
+        })),
+        timestamp: response.data.timestamp,
+    };
+};
@@ -0,0 +1,84 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { backendAccessPoint } from "../backendAccessPoint";
+import { ConversationCompany, IngestionStatus } from "./getConversationById";
+
+type RetryCompanyIngestionRequestDto = {
+    accessionNumbers?: string[];
+};
+
+type RetryCompanyIngestionResponseDto = {
+    id: string;
+    title: string;
+    companies: Array<{
+        id: number | string;
+        companyName: string;
+        ticker: string;
+        ingestionStatus: IngestionStatus | null;
+    }>;
+    ingestionStatus: IngestionStatus | null;
+    createdAt: string;
+    updatedAt: string;
+};
+
+export type RetryCompanyIngestionRequest = {
+    conversationId: string;
+    ticker: string;
+    /** Failed filings to retry; every failed filing when omitted */
+    accessionNumbers?: string[];
+};
+
+export type RetryCompanyIngestionResponse = {
+    id: string;
+    title: string;
+    companies: ConversationCompany[];
+    ingestionStatus: IngestionStatus | null;
+    createdAt: string;
+    updatedAt: string;
+};
+
+/**
+ * Re-runs ingestion for a company's failed or cancelled filings.
+ * Filings that already completed are kept as they are.
+ */
+export const retryCompanyIngestion = async (
+    data: RetryCompanyIngestionRequest
+): Promise<RetryCompanyIngestionResponse> => {
+    const payload: RetryCompanyIngestionRequestDto = {
+        accessionNumbers: data.accessionNumbers,
+    };
+    const response = await backendAccessPoint.post<RetryCompanyIngestionResponseDto>(
+        `/api/conversation/${data.conversationId}/companies/${encodeURIComponent(data.ticker)}/retry`,
+        payload
+    );
+
+    return {
+        id: response.data.id.toString(),
+        title: response.data.title,
+        companies: response.data.companies.map((company) => ({
+            id: company.id.toString(),
+            companyName: company.companyName,
+            ticker: company.ticker,
+            ingestionStatus: company.ingestionStatus,
+        })),
+        ingestionStatus: response.data.ingestionStatus,
+        createdAt: response.data.createdAt,
+        updatedAt: response.data.updatedAt,
+    };
+};
+
+export const useRetryCompanyIngestion = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (data: RetryCompanyIngestionRequest) => retryCompanyIngestion(data),
+        onSuccess: (updatedConversation) => {
+            queryClient.invalidateQueries({ queryKey: ["conversations"] });
+            queryClient.invalidateQueries({
+                queryKey: ["conversation", updatedConversation.id],
+            });
+        },
+        onError: (error) => {
+            console.error("Error retrying company ingestion:", error);
+        },
+    });
+};
@@ -6,6 +6,7 @@ type SetConversationCompanyRequestDto = {
     companyName: string;
     companyTicker?: string;
     filingTypes: string[];
+    accessionNumbers?: string[];
 };
 
 type SetConversationCompanyResponseDto = {
@@ -25,6 +26,7 @@ export type SetConversationCompanyRequest = {
     companyName: string;
     companyTicker?: string;
     filingTypes: string[];
+    accessionNumbers?: string[];
 };
 
 export type SetConversationCompanyResponse = {
@@ -50,6 +52,7 @@ export const setConversationCompany = async (
         companyName: data.companyName,
         companyTicker: data.companyTicker,
         filingTypes: data.filingTypes,
+        accessionNumbers: data.accessionNumbers,
     };
     const response = await backendAccessPoint.post<SetConversationCompanyResponseDto>(
         "/api/conversation/company",
@@ -16,6 +16,7 @@ type UpdateConversationResponseDto = {
         id: number | string;
         companyName: string;
         ticker: string;
+        ingestionStatus: import("./getConversationById").IngestionStatus | null;
     }>;
 };
 
@@ -46,6 +47,7 @@ export const updateConversation = async (
             id: company.id.toString(),
             companyName: company.companyName,
             ticker: company.ticker,
+            ingestionStatus: company.ingestionStatus,
         })),
     };
 };
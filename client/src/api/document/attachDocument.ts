@@ -0,0 +1,56 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { backendAccessPoint } from "../backendAccessPoint";
+import { DocumentAttachment } from "./getLibraryDocumentList";
+
+type AttachDocumentRequestDto = {
+    conversationId: number;
+};
+
+type AttachDocumentResponseDto = {
+    documentId: number;
+    conversationId: number;
+    conversationTitle: string;
+    attachedAt: string;
+};
+
+/**
+ * Attaches a library document to a conversation, so the conversation's questions retrieve from it.
+ */
+export const attachDocument = async (
+    documentId: string,
+    conversationId: string
+): Promise<DocumentAttachment> => {
+    const payload: AttachDocumentRequestDto = { conversationId: Number(conversationId) };
+
+    const response = await backendAccessPoint.post<AttachDocumentResponseDto>(
+        `/api/Document/${documentId}/attachments`,
+        payload
+    );
+    return {
+        conversationId: response.data.conversationId.toString(),
+        conversationTitle: response.data.conversationTitle,
+        attachedAt: response.data.attachedAt,
+    };
+};
+
+export const useAttachDocument = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({
+            documentId,
+            conversationId,
+        }: {
+            documentId: string;
+            conversationId: string;
+        }) => attachDocument(documentId, conversationId),
+        onSuccess: (_, { conversationId }) => {
+            queryClient.invalidateQueries({ queryKey: ["documents", "library"] });
+            queryClient.invalidateQueries({ queryKey: ["documents", conversationId] });
+            queryClient.invalidateQueries({ queryKey: ["conversation", conversationId] });
+        },
+        onError: (error) => {
+            console.error("Error attaching document:", error);
+        },
+    });
+};
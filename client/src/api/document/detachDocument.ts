@@ -0,0 +1,31 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { backendAccessPoint } from "../backendAccessPoint";
+
+/**
+ * Detaches a library document from a conversation; the document stays in the library.
+ */
+export const detachDocument = async (documentId: string, conversationId: string): Promise<void> => {
+    await backendAccessPoint.delete(`/api/Document/${documentId}/attachments/${conversationId}`);
+};
+
+export const useDetachDocument = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({
+            documentId,
+            conversationId,
+        }: {
+            documentId: string;
+            conversationId: string;
+        }) => detachDocument(documentId, conversationId),
+        onSuccess: (_, { conversationId }) => {
+            queryClient.invalidateQueries({ queryKey: ["documents", "library"] });
+            queryClient.invalidateQueries({ queryKey: ["documents", conversationId] });
+            queryClient.invalidateQueries({ queryKey: ["conversation", conversationId] });
+        },
+        onError: (error) => {
+            console.error("Error detaching document:", error);
+        },
+    });
+};
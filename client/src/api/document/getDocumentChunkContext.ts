@@ -0,0 +1,63 @@
+import { useQuery } from "@tanstack/react-query";
+import { backendAccessPoint } from "../backendAccessPoint";
+
+type ContextChunkDto = {
+    embeddingId: number;
+    chunkIndex: number;
+    text: string;
+    isCited: boolean;
+};
+
+type DocumentChunkContextDto = {
+    documentId: number;
+    chunkIndex: number;
+    chunks: ContextChunkDto[];
+};
+
+export type ContextChunk = {
+    embeddingId: number;
+    chunkIndex: number;
+    text: string;
+    isCited: boolean;
+};
+
+export type GetDocumentChunkContextResponse = {
+    documentId: number;
+    chunkIndex: number;
+    chunks: ContextChunk[];
+};
+
+export const getDocumentChunkContext = async (
+    documentId: number,
+    chunkIndex: number,
+    window: number
+): Promise<GetDocumentChunkContextResponse> => {
+    const response = await backendAccessPoint.get<DocumentChunkContextDto>(
+        `/api/Document/${documentId}/chunks/${chunkIndex}/context`,
+        { params: { window } }
+    );
+
+    return {
+        documentId: response.data.documentId,
+        chunkIndex: response.data.chunkIndex,
+        chunks: response.data.chunks.map((chunk) => ({
+            embeddingId: chunk.embeddingId,
+            chunkIndex: chunk.chunkIndex,
+            text: chunk.text,
+            isCited: chunk.isCited,
+        })),
+    };
+};
+
+export const useGetDocumentChunkContext = (
+    documentId: number,
+    chunkIndex: number,
+    enabled: boolean,
+    window = 1
+) => {
+    return useQuery({
+        queryKey: ["document-chunk-context", documentId, chunkIndex, window],
+        queryFn: () => getDocumentChunkContext(documentId, chunkIndex, window),
+        enabled,
+    });
+};
@@ -0,0 +1,54 @@
+import { useQuery } from "@tanstack/react-query";
+import { backendAccessPoint } from "../backendAccessPoint";
+
+type DocumentContentDto = {
+    id: number;
+    title: string;
+    originalFileName: string;
+    contentType: string;
+    description: string | null;
+    documentLink: string | null;
+    conversationId: number | null;
+    hasOriginalFile: boolean;
+    documentText: string;
+};
+
+export type DocumentContent = {
+    id: string;
+    title: string;
+    originalFileName: string;
+    contentType: string;
+    description: string | null;
+    documentLink: string | null;
+    conversationId: string | null;
+    hasOriginalFile: boolean;
+    documentText: string;
+};
+
+export const getDocumentContent = async (
+    documentId: string
+): Promise<DocumentContent> => {
+    const response = await backendAccessPoint.get<DocumentContentDto>(
+        `/api/Document/${documentId}/content`
+    );
+
+    return {
+        id: response.data.id.toString(),
+        title: response.data.title,
+        originalFileName: response.data.originalFileName,
+        contentType: response.data.contentType,
+        description: response.data.description,
+        documentLink: response.data.documentLink,
+        conversationId: response.data.conversationId?.toString() ?? null,
+        hasOriginalFile: response.data.hasOriginalFile,
+        documentText: response.data.documentText,
+    };
+};
+
+export const useGetDocumentContent = (documentId: string) => {
+    return useQuery({
+        queryKey: ["document-content", documentId],
+        queryFn: () => getDocumentContent(documentId),
+        enabled: !!documentId,
+    });
+};
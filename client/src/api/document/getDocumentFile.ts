@@ -0,0 +1,24 @@
+import { useQuery } from "@tanstack/react-query";
+import { backendAccessPoint } from "../backendAccessPoint";
+
+/**
+ * Downloads the original stored file (HTML filing, PDF, ...) as a Blob.
+ * Fetched through backendAccessPoint so the request carries the access token.
+ */
+export const getDocumentFile = async (documentId: string): Promise<Blob> => {
+    const response = await backendAccessPoint.get<Blob>(
+        `/api/Document/${documentId}/file`,
+        { responseType: "blob" }
+    );
+
+    return response.data;
+};
+
+export const useGetDocumentFile = (documentId: string, enabled: boolean) => {
+    return useQuery({
+        queryKey: ["document-file", documentId],
+        queryFn: () => getDocumentFile(documentId),
+        enabled: !!documentId && enabled,
+        staleTime: Infinity,
+    });
+};
@@ -0,0 +1,88 @@
+import { useQuery } from "@tanstack/react-query";
+import { backendAccessPoint } from "../backendAccessPoint";
+
+/**
+ * Mirrors the server's DocumentIngestionStatus for uploaded documents
+ */
+export type DocumentIngestionStatus = "Pending" | "Processing" | "Completed" | "Failed";
+
+type LibraryDocumentDto = {
+    id: number;
+    title: string;
+    originalFileName: string;
+    contentType: string;
+    fileSize: number;
+    uploadedAt: string;
+    description: string;
+    folderPath: string | null;
+    ingestionStatus: DocumentIngestionStatus | null;
+    ingestionError: string | null;
+    attachments: Array<{
+        conversationId: number;
+        conversationTitle: string;
+        attachedAt: string;
+    }>;
+};
+
+export type DocumentAttachment = {
+    conversationId: string;
+    conversationTitle: string;
+    attachedAt: string;
+};
+
+export type LibraryDocument = {
+    id: string;
+    title: string;
+    originalFileName: string;
+    contentType: string;
+    fileSize: number;
+    uploadedAt: string;
+    description: string;
+    /** Folder the file sat in within an imported data-room archive */
+    folderPath: string | null;
+    ingestionStatus: DocumentIngestionStatus | null;
+    ingestionError: string | null;
+    attachments: DocumentAttachment[];
+};
+
+export type GetLibraryDocumentListResponse = LibraryDocument[];
+
+// How often to re-check while uploads are still being ingested
+export const INGESTION_POLL_INTERVAL_MS = 3000;
+
+export const isIngesting = (document: { ingestionStatus: DocumentIngestionStatus | null }) =>
+    document.ingestionStatus === "Pending" || document.ingestionStatus === "Processing";
+
+/**
+ * Lists the user's library: their uploads that belong to no conversation, newest first.
+ */
+export const getLibraryDocumentList = async (): Promise<GetLibraryDocumentListResponse> => {
+    const response = await backendAccessPoint.get<LibraryDocumentDto[]>("/api/Document/library");
+    return response.data.map((document) => ({
+        id: document.id.toString(),
+        title: document.title,
+        originalFileName: document.originalFileName,
+        contentType: document.contentType,
+        fileSize: document.fileSize,
+        uploadedAt: document.uploadedAt,
+        description: document.description,
+        folderPath: document.folderPath,
+        ingestionStatus: document.ingestionStatus,
+        ingestionError: document.ingestionError,
+        attachments: document.attachments.map((attachment) => ({
+            conversationId: attachment.conversationId.toString(),
+            conversationTitle: attachment.conversationTitle,
+            attachedAt: attachment.attachedAt,
+        })),
+    }));
+};
+
+export const useGetLibraryDocumentList = () => {
+    return useQuery({
+        queryKey: ["documents", "library"],
+        queryFn: getLibraryDocumentList,
+        // Keep polling until every upload has finished ingesting
+        refetchInterval: (query) =>
+            query.state.data?.some(isIngesting) ? INGESTION_POLL_INTERVAL_MS : false,
+    });
+};
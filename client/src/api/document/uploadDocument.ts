@@ -1,14 +1,17 @@
 import { useMutation } from "@tanstack/react-query";
 import { backendAccessPoint } from "../backendAccessPoint";
+import { DocumentIngestionStatus } from "./getLibraryDocumentList";
 
-type UploadDocumentResponseDto = {
-    id: string;
+export type UploadDocumentResponseDto = {
+    id: number;
     originalFileName: string;
     contentType: string;
     fileSize: number;
     uploadedAt: string;
     description: string;
-    conversationId: string;
+    conversationId: number | null;
+    folderPath: string | null;
+    ingestionStatus: DocumentIngestionStatus | null;
 };
 
 type UploadDocumentRequestDto = FormData;
@@ -20,13 +23,38 @@ export type UploadDocumentResponse = {
     fileSize: number;
     uploadedAt: string;
     description: string;
-    conversationId: string;
+    conversationId: string | null;
+    /** Folder the file sat in within an imported data-room archive */
+    folderPath: string | null;
+    ingestionStatus: DocumentIngestionStatus | null;
+};
+
+export const toUploadDocumentResponse = (
+    dto: UploadDocumentResponseDto
+): UploadDocumentResponse => ({
+    id: dto.id.toString(),
+    originalFileName: dto.originalFileName,
+    contentType: dto.contentType,
+    fileSize: dto.fileSize,
+    uploadedAt: dto.uploadedAt,
+    description: dto.description,
+    conversationId: dto.conversationId?.toString() ?? null,
+    folderPath: dto.folderPath ?? null,
+    ingestionStatus: dto.ingestionStatus,
+});
+
+export type UploadDocumentOptions = {
+    /** Called as the file's bytes are sent, with the number sent so far */
+    onProgress?: (loadedBytes: number) => void;
+    /** Aborts the upload */
+    signal?: AbortSignal;
 };
 
 export const uploadDocument = async (
     conversationId: string | undefined,
     file: File,
-    description: string = ""
+    description: string = "",
+    { onProgress, signal }: UploadDocumentOptions = {}
 ): Promise<UploadDocumentResponse> => {
     const payload: UploadDocumentRequestDto = new FormData();
     payload.append("file", file);
@@ -42,18 +70,14 @@ export const uploadDocument = async (
             headers: {
                 "Content-Type": "multipart/form-data",
             },
+            // Large files on slow connections outlast the default timeout; progress shows they're moving
+            timeout: 0,
+            signal,
+            onUploadProgress: (event) => onProgress?.(event.loaded),
         }
     );
 
-    return {
-        id: response.data.id,
-        originalFileName: response.data.originalFileName,
-        contentType: response.data.contentType,
-        fileSize: response.data.fileSize,
-        uploadedAt: response.data.uploadedAt,
-        description: response.data.description,
-        conversationId: response.data.conversationId,
-    };
+    return toUploadDocumentResponse(response.data);
 };
 
 export const useUploadDocument = () => {
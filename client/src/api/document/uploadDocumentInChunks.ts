@@ -0,0 +1,180 @@
+import axios from "axios";
+import { backendAccessPoint } from "../backendAccessPoint";
+import {
+    toUploadDocumentResponse,
+    UploadDocumentOptions,
+    UploadDocumentResponse,
+    UploadDocumentResponseDto,
+} from "./uploadDocument";
+
+// How long to wait before resending a chunk that another request is still writing
+const CHUNK_IN_PROGRESS_RETRY_MS = 2_000;
+
+type StartUploadRequestDto = {
+    fileName: string;
+    fileSize: number;
+    description: string;
+    conversationId: number | null;
+};
+
+type UploadSessionDto = {
+    sessionId: string;
+    originalFileName: string;
+    totalBytes: number;
+    receivedBytes: number;
+    chunkSizeBytes: number;
+};
+
+export type UploadSession = UploadSessionDto;
+
+type SkippedArchiveEntryDto = {
+    path: string;
+    reason: string;
+};
+
+type ArchiveImportDto = {
+    archiveName: string;
+    documents: UploadDocumentResponseDto[];
+    skipped: SkippedArchiveEntryDto[];
+};
+
+export type SkippedArchiveEntry = SkippedArchiveEntryDto;
+
+export type ArchiveImport = {
+    archiveName: string;
+    documents: UploadDocumentResponse[];
+    skipped: SkippedArchiveEntry[];
+};
+
+export type ChunkedUploadOptions = UploadDocumentOptions & {
+    /** Called after each chunk the server has stored, with the bytes it holds so far */
+    onChunkStored?: (receivedBytes: number) => void;
+};
+
+/**
+ * Starts a chunked upload of the file; nothing is sent until uploadDocumentInChunks runs.
+ */
+export const startUploadSession = async (
+    conversationId: string | undefined,
+    file: File,
+    description: string = ""
+): Promise<UploadSession> => {
+    const payload: StartUploadRequestDto = {
+        fileName: file.name,
+        fileSize: file.size,
+        description,
+        conversationId: conversationId ? Number(conversationId) : null,
+    };
+
+    const response = await backendAccessPoint.post<UploadSessionDto>(
+        "/api/Document/uploads",
+        payload
+    );
+    return response.data;
+};
+
+export const getUploadSession = async (sessionId: string): Promise<UploadSession> => {
+    const response = await backendAccessPoint.get<UploadSessionDto>(
+        `/api/Document/uploads/${sessionId}`
+    );
+    return response.data;
+};
+
+/**
+ * Abandons a chunked upload; the server deletes what it received.
+ */
+export const cancelUploadSession = async (sessionId: string): Promise<void> => {
+    await backendAccessPoint.delete(`/api/Document/uploads/${sessionId}`);
+};
+
+/**
+ * Sends the file to an upload session chunk by chunk, starting from whatever the server already
+ * has. Aborting stops between or during chunks; calling it again with the same session picks up
+ * where it stopped.
+ */
+const sendChunks = async (
+    sessionId: string,
+    file: File,
+    { onProgress, onChunkStored, signal }: ChunkedUploadOptions
+): Promise<void> => {
+    const session = await getUploadSession(sessionId);
+    let offset = session.receivedBytes;
+    onProgress?.(offset);
+
+    while (offset < file.size) {
+        const chunk = file.slice(offset, offset + session.chunkSizeBytes);
+        const chunkStart = offset;
+
+        try {
+            const response = await backendAccessPoint.put<UploadSessionDto>(
+                `/api/Document/uploads/${sessionId}`,
+                chunk,
+                {
+                    params: { offset },
+                    headers: { "Content-Type": "application/octet-stream" },
+                    // A chunk on a slow connection can outlast the default timeout too
+                    timeout: 0,
+                    signal,
+                    onUploadProgress: (event) => onProgress?.(chunkStart + event.loaded),
+                }
+            );
+            offset = response.data.receivedBytes;
+        } catch (error) {
+            // The server already has a different amount, e.g. a chunk whose response was lost, or
+            // the same amount while another request (say, from a second tab) is writing this chunk
+            if (axios.isAxiosError(error) && error.response?.status === 409) {
+                offset = (error.response.data as UploadSessionDto).receivedBytes;
+                if (offset === chunkStart) {
+                    await new Promise((resolve) => setTimeout(resolve, CHUNK_IN_PROGRESS_RETRY_MS));
+                }
+            } else {
+                throw error;
+            }
+        }
+
+        onChunkStored?.(offset);
+        onProgress?.(offset);
+    }
+};
+
+/**
+ * Sends the file in chunks (see sendChunks), then completes the session into a document.
+ */
+export const uploadDocumentInChunks = async (
+    sessionId: string,
+    file: File,
+    options: ChunkedUploadOptions = {}
+): Promise<UploadDocumentResponse> => {
+    await sendChunks(sessionId, file, options);
+
+    const response = await backendAccessPoint.post<UploadDocumentResponseDto>(
+        `/api/Document/uploads/${sessionId}/complete`,
+        undefined,
+        { signal: options.signal }
+    );
+    return toUploadDocumentResponse(response.data);
+};
+
+/**
+ * Sends a data-room ZIP in chunks (see sendChunks), then has the server expand it into one
+ * document per supported file, keeping the archive's folders.
+ */
+export const importArchiveInChunks = async (
+    sessionId: string,
+    file: File,
+    options: ChunkedUploadOptions = {}
+): Promise<ArchiveImport> => {
+    await sendChunks(sessionId, file, options);
+
+    const response = await backendAccessPoint.post<ArchiveImportDto>(
+        `/api/Document/uploads/${sessionId}/import-archive`,
+        undefined,
+        // Extracting a large archive can take a while
+        { signal: options.signal, timeout: 0 }
+    );
+    return {
+        archiveName: response.data.archiveName,
+        documents: response.data.documents.map(toUploadDocumentResponse),
+        skipped: response.data.skipped,
+    };
+};
@@ -0,0 +1,75 @@
+import { useQuery } from "@tanstack/react-query";
+import { backendAccessPoint } from "../backendAccessPoint";
+
+type EvidenceChunkDto = {
+    embeddingId: number;
+    chunkIndex: number;
+    similarity: number;
+    text: string;
+};
+
+type EvidenceSourceDto = {
+    documentId: number;
+    documentTitle: string;
+    relevanceScore: number;
+    chunks: EvidenceChunkDto[];
+};
+
+type MessageEvidenceDto = {
+    messageId: number;
+    sources: EvidenceSourceDto[];
+};
+
+export type EvidenceChunk = {
+    embeddingId: number;
+    chunkIndex: number;
+    similarity: number;
+    text: string;
+};
+
+export type EvidenceSource = {
+    documentId: number;
+    documentTitle: string;
+    relevanceScore: number;
+    chunks: EvidenceChunk[];
+};
+
+export type GetMessageEvidenceResponse = {
+    messageId: string;
+    sources: EvidenceSource[];
+};
+
+export const getMessageEvidence = async (
+    conversationId: string,
+    messageId: string
+): Promise<GetMessageEvidenceResponse> => {
+    const response = await backendAccessPoint.get<MessageEvidenceDto>(
+        `/api/conversations/${conversationId}/message/${messageId}/evidence`
+    );
+
+    return {
+        messageId: response.data.messageId.toString(),
+        sources: response.data.sources.map((source) => ({
+            documentId: source.documentId,
+            documentTitle: source.documentTitle,
+            relevanceScore: source.relevanceScore,
+            chunks: source.chunks.map((chunk) => ({
+                embeddingId: chunk.embeddingId,
+                chunkIndex: chunk.chunkIndex,
+                similarity: chunk.similarity,
+                text: chunk.text,
+            })),
+        })),
+    };
+};
+
+export const useGetMessageEvidence = (
+    conversationId: string,
+    messageId: string | null
+) => {
+    return useQuery({
+        queryKey: ["message-evidence", messageId],
+        queryFn: () => getMessageEvidence(conversationId, messageId!),
+        enabled: !!conversationId && !!messageId,
+    });
+};
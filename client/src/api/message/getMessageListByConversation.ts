@@ -1,21 +1,105 @@
 import { useQuery } from "@tanstack/react-query";
 import { backendAccessPoint } from "../backendAccessPoint";
+import { QueryIntent } from "../chat/sendConversationQuery";
 
 export type DocumentSource = {
     documentId: number;
     documentTitle: string;
     documentLink: string;
     fileName: string | null;
+    companyName: string | null;
+    companyTicker: string | null;
     relevanceScore: number;
     chunksUsed: number;
 };
 
+export type MessageFeedbackRating = "Up" | "Down";
+
+export type LlmModelTier = "Fast" | "Standard" | "Premium";
+
+/**
+ * Per-question overrides of the adaptive retrieval; unset values fall back to the classified
+ * intent's defaults and the default model
+ */
+export type RetrievalOptions = {
+    intent?: QueryIntent | null;
+    maxK?: number | null;
+    minSimilarity?: number | null;
+    modelTier?: LlmModelTier | null;
+};
+
+/**
+ * How an answer's context was retrieved, saved with the answer
+ */
+export type RetrievalDiagnostics = {
+    originalQuery: string;
+    /** The question rewritten with conversation context, as used for the search */
+    processedQuery: string;
+    intent: QueryIntent;
+    intentReasoning: string | null;
+    /** Null when retrieval wasn't capped */
+    maxK: number | null;
+    minSimilarity: number;
+    configDescription: string | null;
+    /** The user chose the intent instead of the classifier */
+    intentOverridden?: boolean;
+    /** The user set maxK or minSimilarity instead of the intent's defaults */
+    thresholdsOverridden?: boolean;
+    /** Null when the default model answered */
+    modelTier?: LlmModelTier | null;
+    totalChunks: number;
+    /** Chunks included because their document was referenced, regardless of similarity */
+    referencedChunks: number;
+    uniqueDocuments: number;
+    /** Candidate chunk counts per equal-width similarity bucket from 0 to 1, lowest first */
+    similarityHistogram: number[];
+};
+
+/**
+ * Known keys of a message's JSON metadata
+ */
+export type MessageMetadata = {
+    generationStopped?: boolean;
+    /** Pinned to the conversation's key findings */
+    pinned?: boolean;
+    pinnedAt?: string;
+    feedback?: {
+        rating: MessageFeedbackRating;
+        comment?: string | null;
+        submittedAt: string;
+    };
+    diagnostics?: RetrievalDiagnostics;
+    /** Overrides the user chose when asking this question */
+    retrievalOptions?: RetrievalOptions;
+};
+
+/**
+ * Parses the metadata string the server stores on a message; anything that isn't a JSON
+ * object is treated as empty.
+ */
+export const parseMessageMetadata = (
+    metadata: string | null | undefined
+): MessageMetadata => {
+    if (!metadata) return {};
+    try {
+        const parsed: unknown = JSON.parse(metadata);
+        return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+            ? (parsed as MessageMetadata)
+            : {};
+    } catch {
+        return {};
+    }
+};
+
 export type ConversationMessage = {
     id: string;
     text: string;
     role: "User" | "Assistant" | "System";
     timestamp: string;
     conversationId: string;
+    /** The message this one follows in its thread; siblings are alternative branches */
+    parentId: string | null;
+    metadata: MessageMetadata;
     sources?: DocumentSource[];
 };
 
@@ -24,7 +108,8 @@ type MessageDto = {
     content: string;
     role: "User" | "Assistant" | "System";
     timestamp: string;
-    metadata: unknown | null;
+    metadata: string | null;
+    parentMessageId: number | null;
     sources?: DocumentSource[];
 };
 
@@ -44,6 +129,8 @@ export const getMessageListByConversation = async (
             role: serverMessage.role,
             timestamp: serverMessage.timestamp,
             conversationId,
+            parentId: serverMessage.parentMessageId?.toString() ?? null,
+            metadata: parseMessageMetadata(serverMessage.metadata),
             sources: serverMessage.sources,
         })
     );
@@ -0,0 +1,63 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { backendAccessPoint } from "../backendAccessPoint";
+import {
+    MessageFeedbackRating,
+    MessageMetadata,
+    parseMessageMetadata,
+} from "./getMessageListByConversation";
+
+type SetMessageFeedbackRequestDto = {
+    rating: MessageFeedbackRating | null;
+    comment: string | null;
+};
+
+type SetMessageFeedbackResponseDto = {
+    id: number;
+    metadata: string | null;
+};
+
+export type SetMessageFeedbackRequest = {
+    /** Thumbs up or down; null clears earlier feedback */
+    rating: MessageFeedbackRating | null;
+    comment?: string;
+};
+
+export const setMessageFeedback = async (
+    conversationId: string,
+    messageId: string,
+    data: SetMessageFeedbackRequest
+): Promise<MessageMetadata> => {
+    const payload: SetMessageFeedbackRequestDto = {
+        rating: data.rating,
+        comment: data.comment?.trim() || null,
+    };
+
+    const response = await backendAccessPoint.put<SetMessageFeedbackResponseDto>(
+        `/api/conversations/${conversationId}/message/${messageId}/feedback`,
+        payload
+    );
+    return parseMessageMetadata(response.data.metadata);
+};
+
+export const useSetMessageFeedback = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({
+            conversationId,
+            messageId,
+            data,
+        }: {
+            conversationId: string;
+            messageId: string;
+            data: SetMessageFeedbackRequest;
+        }) => setMessageFeedback(conversationId, messageId, data),
+        onSuccess: (_, { conversationId }) => {
+            queryClient.invalidateQueries({ queryKey: ["messages", conversationId] });
+            queryClient.invalidateQueries({ queryKey: ["conversation", conversationId] });
+        },
+        onError: (error) => {
+            console.error("Error saving message feedback:", error);
+        },
+    });
+};
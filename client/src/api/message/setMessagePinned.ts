@@ -0,0 +1,52 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { backendAccessPoint } from "../backendAccessPoint";
+import {
+    MessageMetadata,
+    parseMessageMetadata,
+} from "./getMessageListByConversation";
+
+type SetMessagePinnedRequestDto = {
+    pinned: boolean;
+};
+
+type SetMessagePinnedResponseDto = {
+    id: number;
+    metadata: string | null;
+};
+
+export const setMessagePinned = async (
+    conversationId: string,
+    messageId: string,
+    pinned: boolean
+): Promise<MessageMetadata> => {
+    const payload: SetMessagePinnedRequestDto = { pinned };
+
+    const response = await backendAccessPoint.put<SetMessagePinnedResponseDto>(
+        `/api/conversations/${conversationId}/message/${messageId}/pin`,
+        payload
+    );
+    return parseMessageMetadata(response.data.metadata);
+};
+
+export const useSetMessagePinned = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({
+            conversationId,
+            messageId,
+            pinned,
+        }: {
+            conversationId: string;
+            messageId: string;
+            pinned: boolean;
+        }) => setMessagePinned(conversationId, messageId, pinned),
+        onSuccess: (_, { conversationId }) => {
+            queryClient.invalidateQueries({ queryKey: ["messages", conversationId] });
+            queryClient.invalidateQueries({ queryKey: ["conversation", conversationId] });
+        },
+        onError: (error) => {
+            console.error("Error pinning message:", error);
+        },
+    });
+};
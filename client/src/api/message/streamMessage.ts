@@ -0,0 +1,312 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { clearTokens, getAccessToken, getRefreshToken } from "../../utils/tokenManager";
+import { toApiUrl } from "../apiBaseUrl";
+import { refreshAccessToken } from "../backendAccessPoint";
+import {
+    DocumentSource,
+    MessageMetadata,
+    RetrievalOptions,
+    parseMessageMetadata,
+} from "./getMessageListByConversation";
+import { MessageRole } from "./sendMessage";
+
+type StreamMessageRequestDto = {
+    content: string;
+    role: MessageRole;
+    parentMessageId?: number;
+    editedMessageId?: number;
+    retrieval?: RetrievalOptions;
+};
+
+type StreamedUserMessageDto = {
+    id: number;
+    role: "User";
+    content: string;
+    timestamp: string;
+    metadata: string | null;
+    conversationId: number;
+    parentMessageId: number | null;
+};
+
+type StreamedAssistantMessageDto = {
+    id: number;
+    role: "Assistant";
+    content: string;
+    timestamp: string;
+    metadata: string | null;
+    conversationId: number;
+    parentMessageId: number | null;
+    sources: DocumentSource[];
+};
+
+export type StreamedMessage = {
+    id: string;
+    text: string;
+    role: "User" | "Assistant";
+    timestamp: string;
+    conversationId: string;
+    parentId: string | null;
+    metadata: MessageMetadata;
+    sources?: DocumentSource[];
+};
+
+/**
+ * Where a new question goes in the conversation's tree of branches, and how it is answered
+ */
+export type StreamMessageOptions = {
+    /** The message it follows; defaults to the latest message in the conversation */
+    parentMessageId?: string;
+    /** An earlier question it rewrites; it becomes a new branch alongside that question */
+    editedMessageId?: string;
+    /** Overrides of the retrieval and model for this question only */
+    retrieval?: RetrievalOptions;
+};
+
+export type StreamMessageHandlers = {
+    onUserMessage?: (message: StreamedMessage) => void;
+    onToken?: (text: string) => void;
+    onDone?: (message: StreamedMessage) => void;
+};
+
+const toStreamedMessage = (
+    dto: StreamedUserMessageDto | StreamedAssistantMessageDto,
+): StreamedMessage => ({
+    id: dto.id.toString(),
+    text: dto.content,
+    role: dto.role,
+    timestamp: dto.timestamp,
+    conversationId: dto.conversationId.toString(),
+    parentId: dto.parentMessageId?.toString() ?? null,
+    metadata: parseMessageMetadata(dto.metadata),
+    sources: "sources" in dto ? dto.sources : undefined,
+});
+
+const postStreamRequest = (
+    path: string,
+    payload: StreamMessageRequestDto | undefined,
+    signal: AbortSignal,
+) => {
+    const token = getAccessToken();
+
+    return fetch(toApiUrl(path), {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            Accept: "text/event-stream",
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: payload ? JSON.stringify(payload) : undefined,
+        signal,
+    });
+};
+
+/**
+ * POSTs to a streaming endpoint and dispatches its server-sent events to the handlers.
+ * Axios can't consume a response body incrementally, so this uses fetch directly
+ * and mirrors the token refresh done by backendAccessPoint's interceptor.
+ */
+const readEventStream = async (
+    path: string,
+    payload: StreamMessageRequestDto | undefined,
+    handlers: StreamMessageHandlers,
+    signal: AbortSignal,
+): Promise<void> => {
+    let response = await postStreamRequest(path, payload, signal);
+
+    if (response.status === 401 && getRefreshToken()) {
+        // Shares the interceptor's refresh, so parallel 401s don't spend the same refresh token
+        try {
+            await refreshAccessToken();
+        } catch (refreshError) {
+            clearTokens();
+            window.location.href = "/login";
+            throw refreshError;
+        }
+        response = await postStreamRequest(path, payload, signal);
+    }
+
+    if (!response.ok || !response.body) {
+        throw new Error(
+            (await response.text()) || `Streaming failed with status ${response.status}`,
+        );
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let isFinished = false;
+
+    const dispatch = (rawEvent: string) => {
+        let eventName = "message";
+        const dataLines: string[] = [];
+
+        for (const line of rawEvent.split("\n")) {
+            if (line.startsWith("event:")) {
+                eventName = line.slice("event:".length).trim();
+            } else if (line.startsWith("data:")) {
+                dataLines.push(line.slice("data:".length).trimStart());
+            }
+        }
+
+        if (dataLines.length === 0) return;
+        const data = JSON.parse(dataLines.join("\n"));
+
+        switch (eventName) {
+            case "user-message":
+                handlers.onUserMessage?.(toStreamedMessage(data));
+                break;
+            case "token":
+                handlers.onToken?.(data.text);
+                break;
+            case "done":
+                isFinished = true;
+                handlers.onDone?.(toStreamedMessage(data));
+                break;
+            case "error":
+                throw new Error(data.message);
+        }
+    };
+
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        let separatorIndex = buffer.indexOf("\n\n");
+        while (separatorIndex !== -1) {
+            dispatch(buffer.slice(0, separatorIndex));
+            buffer = buffer.slice(separatorIndex + 2);
+            separatorIndex = buffer.indexOf("\n\n");
+        }
+    }
+
+    // A stream cut off before its done event (a dropped proxy, a crashed server) didn't succeed
+    if (!isFinished) {
+        throw new Error("The answer stream ended unexpectedly");
+    }
+};
+
+/**
+ * Sends a user message and streams the assistant's answer as server-sent events.
+ * Resolves once the answer is done; rejects on HTTP or stream errors, including a stream that ends
+ * before its done event. Aborting the signal stops generation — the server keeps whatever was
+ * generated so far.
+ */
+export const streamMessage = async (
+    conversationId: string,
+    content: string,
+    handlers: StreamMessageHandlers,
+    signal: AbortSignal,
+    options: StreamMessageOptions = {},
+): Promise<void> => {
+    const payload: StreamMessageRequestDto = {
+        content,
+        role: MessageRole.User,
+        parentMessageId: options.parentMessageId
+            ? Number(options.parentMessageId)
+            : undefined,
+        editedMessageId: options.editedMessageId
+            ? Number(options.editedMessageId)
+            : undefined,
+        retrieval: options.retrieval,
+    };
+
+    await readEventStream(
+        `/api/conversations/${conversationId}/message/stream`,
+        payload,
+        handlers,
+        signal,
+    );
+};
+
+/**
+ * Streams a new answer to the question an assistant message responded to. The earlier
+ * answer is kept as a sibling branch. Emits the same events as streamMessage, minus
+ * onUserMessage.
+ */
+export const regenerateMessage = async (
+    conversationId: string,
+    messageId: string,
+    handlers: StreamMessageHandlers,
+    signal: AbortSignal,
+): Promise<void> => {
+    await readEventStream(
+        `/api/conversations/${conversationId}/message/${messageId}/regenerate`,
+        undefined,
+        handlers,
+        signal,
+    );
+};
+
+/**
+ * Hook wrapper around streamMessage and regenerateMessage that owns the AbortController, exposes
+ * streaming state, and refreshes the conversation caches once an answer is saved.
+ */
+export const useStreamMessage = () => {
+    const queryClient = useQueryClient();
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const [isStreaming, setIsStreaming] = useState(false);
+
+    // Abort any in-flight stream when the consumer unmounts
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+    const run = useCallback(
+        async (
+            conversationId: string,
+            startStream: (signal: AbortSignal) => Promise<void>,
+        ) => {
+            abortControllerRef.current?.abort();
+            const abortController = new AbortController();
+            abortControllerRef.current = abortController;
+            setIsStreaming(true);
+
+            try {
+                await startStream(abortController.signal);
+                queryClient.invalidateQueries({ queryKey: ["messages", conversationId] });
+                queryClient.invalidateQueries({ queryKey: ["conversation", conversationId] });
+            } catch (error) {
+                if (abortController.signal.aborted) return;
+                console.error("Error streaming message:", error);
+                // The question may have been saved before the stream failed
+                queryClient.invalidateQueries({ queryKey: ["messages", conversationId] });
+                queryClient.invalidateQueries({ queryKey: ["conversation", conversationId] });
+                throw error;
+            } finally {
+                if (abortControllerRef.current === abortController) {
+                    abortControllerRef.current = null;
+                    setIsStreaming(false);
+                }
+            }
+        },
+        [queryClient],
+    );
+
+    const send = useCallback(
+        (
+            conversationId: string,
+            content: string,
+            handlers: StreamMessageHandlers,
+            options?: StreamMessageOptions,
+        ) =>
+            run(conversationId, (signal) =>
+                streamMessage(conversationId, content, handlers, signal, options),
+            ),
+        [run],
+    );
+
+    const regenerate = useCallback(
+        (conversationId: string, messageId: string, handlers: StreamMessageHandlers) =>
+            run(conversationId, (signal) =>
+                regenerateMessage(conversationId, messageId, handlers, signal),
+            ),
+        [run],
+    );
+
+    const stop = useCallback(() => {
+        abortControllerRef.current?.abort();
+    }, []);
+
+    return { send, regenerate, stop, isStreaming };
+};
@@ -0,0 +1,34 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { backendAccessPoint } from "../backendAccessPoint";
+import { mapReportDto, Report, ReportDto } from "./getReport";
+
+type CreateReportRequestDto = {
+    conversationId: number;
+    title?: string;
+};
+
+/**
+ * Creates an empty report for a conversation; without a title the server names it after the
+ * conversation
+ */
+export const createReport = async (conversationId: string, title?: string): Promise<Report> => {
+    const payload: CreateReportRequestDto = { conversationId: Number(conversationId), title };
+    const response = await backendAccessPoint.post<ReportDto>("/api/report", payload);
+    return mapReportDto(response.data);
+};
+
+export const useCreateReport = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ conversationId, title }: { conversationId: string; title?: string }) =>
+            createReport(conversationId, title),
+        onSuccess: (report) => {
+            queryClient.invalidateQueries({ queryKey: ["reports", report.conversationId] });
+            queryClient.setQueryData(["report", report.id], report);
+        },
+        onError: (error) => {
+            console.error("Error creating report:", error);
+        },
+    });
+};
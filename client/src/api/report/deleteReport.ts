@@ -0,0 +1,22 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { backendAccessPoint } from "../backendAccessPoint";
+
+export const deleteReport = async (reportId: string): Promise<void> => {
+    await backendAccessPoint.delete(`/api/report/${reportId}`);
+};
+
+export const useDeleteReport = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ reportId }: { reportId: string; conversationId: string }) =>
+            deleteReport(reportId),
+        onSuccess: (_, { reportId, conversationId }) => {
+            queryClient.removeQueries({ queryKey: ["report", reportId] });
+            queryClient.invalidateQueries({ queryKey: ["reports", conversationId] });
+        },
+        onError: (error) => {
+            console.error("Error deleting report:", error);
+        },
+    });
+};
@@ -0,0 +1,96 @@
+import { useQuery } from "@tanstack/react-query";
+import { backendAccessPoint } from "../backendAccessPoint";
+import { DocumentSource } from "../message/getMessageListByConversation";
+
+/**
+ * The sections of a due-diligence report, in the order they are printed.
+ * Matches the ReportSection enum from the backend.
+ */
+export const REPORT_SECTIONS = [
+    "Business",
+    "Financials",
+    "Risks",
+    "Management",
+    "Valuation",
+] as const;
+
+export type ReportSection = (typeof REPORT_SECTIONS)[number];
+
+export type ReportBlock = {
+    id: string;
+    section: ReportSection;
+    /** Markdown, whose [n] citation markers refer to the block's own sources */
+    content: string;
+    /** The answer the block was taken from; null once it is deleted */
+    sourceMessageId: string | null;
+    sources: DocumentSource[];
+};
+
+export type Report = {
+    id: string;
+    conversationId: string;
+    title: string;
+    createdAt: string;
+    updatedAt: string;
+    /** Ordered by section, then by position within the section */
+    blocks: ReportBlock[];
+};
+
+export type ReportBlockDto = {
+    id: number;
+    section: ReportSection;
+    position: number;
+    content: string;
+    sourceMessageId: number | null;
+    sources: string | null;
+};
+
+export type ReportDto = {
+    id: number;
+    conversationId: number;
+    title: string;
+    createdAt: string;
+    updatedAt: string;
+    blocks: ReportBlockDto[];
+};
+
+/**
+ * Parses the sources a block stores as JSON; anything that isn't an array is treated as none.
+ */
+const parseReportSources = (sources: string | null): DocumentSource[] => {
+    if (!sources) return [];
+    try {
+        const parsed: unknown = JSON.parse(sources);
+        return Array.isArray(parsed) ? (parsed as DocumentSource[]) : [];
+    } catch {
+        return [];
+    }
+};
+
+export const mapReportDto = (report: ReportDto): Report => ({
+    id: report.id.toString(),
+    conversationId: report.conversationId.toString(),
+    title: report.title,
+    createdAt: report.createdAt,
+    updatedAt: report.updatedAt,
+    blocks: report.blocks.map((block) => ({
+        id: block.id.toString(),
+        section: block.section,
+        content: block.content,
+        sourceMessageId: block.sourceMessageId?.toString() ?? null,
+        sources: parseReportSources(block.sources),
+    })),
+});
+
+export const getReport = async (reportId: string): Promise<Report> => {
+    const response = await backendAccessPoint.get<ReportDto>(`/api/report/${reportId}`);
+    return mapReportDto(response.data);
+};
+
+export const useGetReport = (reportId: string) => {
+    return useQuery({
+        queryKey: ["report", reportId],
+        queryFn: () => getReport(reportId),
+        enabled: !!reportId,
+    });
+};
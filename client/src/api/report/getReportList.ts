@@ -0,0 +1,45 @@
+import { useQuery } from "@tanstack/react-query";
+import { backendAccessPoint } from "../backendAccessPoint";
+
+type ReportSummaryDto = {
+    id: number;
+    conversationId: number;
+    title: string;
+    createdAt: string;
+    updatedAt: string;
+    blockCount: number;
+};
+
+export type ReportSummary = {
+    id: string;
+    conversationId: string;
+    title: string;
+    createdAt: string;
+    updatedAt: string;
+    blockCount: number;
+};
+
+/**
+ * Lists the reports built from a conversation, most recently edited first
+ */
+export const getReportList = async (conversationId: string): Promise<ReportSummary[]> => {
+    const response = await backendAccessPoint.get<ReportSummaryDto[]>("/api/report", {
+        params: { conversationId },
+    });
+    return response.data.map((report) => ({
+        id: report.id.toString(),
+        conversationId: report.conversationId.toString(),
+        title: report.title,
+        createdAt: report.createdAt,
+        updatedAt: report.updatedAt,
+        blockCount: report.blockCount,
+    }));
+};
+
+export const useGetReportList = (conversationId: string, enabled = true) => {
+    return useQuery({
+        queryKey: ["reports", conversationId],
+        queryFn: () => getReportList(conversationId),
+        enabled: !!conversationId && enabled,
+    });
+};
@@ -0,0 +1,52 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { backendAccessPoint } from "../backendAccessPoint";
+import { mapReportDto, Report, ReportBlock, ReportDto, ReportSection } from "./getReport";
+
+type SaveReportRequestDto = {
+    title: string;
+    blocks: Array<{
+        section: ReportSection;
+        content: string;
+        sourceMessageId: number | null;
+        sources: string | null;
+    }>;
+};
+
+export type SaveReportRequest = {
+    title: string;
+    /** Every block of the report, in order within each section */
+    blocks: ReportBlock[];
+};
+
+/**
+ * Saves a report's title and blocks; the server replaces the blocks the report had
+ */
+export const saveReport = async (reportId: string, data: SaveReportRequest): Promise<Report> => {
+    const payload: SaveReportRequestDto = {
+        title: data.title,
+        blocks: data.blocks.map((block) => ({
+            section: block.section,
+            content: block.content,
+            sourceMessageId: block.sourceMessageId ? Number(block.sourceMessageId) : null,
+            sources: block.sources.length > 0 ? JSON.stringify(block.sources) : null,
+        })),
+    };
+    const response = await backendAccessPoint.put<ReportDto>(`/api/report/${reportId}`, payload);
+    return mapReportDto(response.data);
+};
+
+export const useSaveReport = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ reportId, data }: { reportId: string; data: SaveReportRequest }) =>
+            saveReport(reportId, data),
+        onSuccess: (report) => {
+            queryClient.setQueryData(["report", report.id], report);
+            queryClient.invalidateQueries({ queryKey: ["reports", report.conversationId] });
+        },
+        onError: (error) => {
+            console.error("Error saving report:", error);
+        },
+    });
+};
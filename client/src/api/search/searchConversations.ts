@@ -0,0 +1,114 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { backendAccessPoint } from "../backendAccessPoint";
+
+type SearchRequestDto = {
+    query: string;
+    limit?: number;
+    minSimilarity?: number;
+    conversationIds?: number[];
+    tickers?: string[];
+};
+
+type SearchPassageDto = {
+    embeddingId: number;
+    chunkIndex: number;
+    text: string;
+    similarity: number;
+};
+
+type SearchDocumentDto = {
+    // Null for filings ingested before they had a document record, which can't be opened
+    documentId: number | null;
+    title: string;
+    documentLink: string | null;
+    bestSimilarity: number;
+    passages: SearchPassageDto[];
+};
+
+type SearchCompanyDto = {
+    companyId: number | null;
+    companyName: string | null;
+    ticker: string | null;
+    bestSimilarity: number;
+    documents: SearchDocumentDto[];
+};
+
+type SearchConversationDto = {
+    conversationId: number;
+    title: string;
+    updatedAt: string;
+    bestSimilarity: number;
+    companies: SearchCompanyDto[];
+};
+
+type SearchResponseDto = {
+    query: string;
+    totalPassages: number;
+    conversations: SearchConversationDto[];
+};
+
+export type SearchPassage = SearchPassageDto;
+
+export type SearchDocument = SearchDocumentDto;
+
+/**
+ * A company's matches within one conversation; the company is null for uploaded documents
+ */
+export type SearchCompany = SearchCompanyDto;
+
+export type SearchConversation = Omit<SearchConversationDto, "conversationId"> & {
+    conversationId: string;
+};
+
+export type SearchConversationsRequest = {
+    query: string;
+    limit?: number;
+    minSimilarity?: number;
+    conversationIds?: string[];
+    tickers?: string[];
+};
+
+export type SearchConversationsResponse = {
+    query: string;
+    totalPassages: number;
+    conversations: SearchConversation[];
+};
+
+/**
+ * Searches the passages of every conversation the user has ingested, grouped by conversation,
+ * company and document.
+ */
+export const searchConversations = async (
+    request: SearchConversationsRequest,
+): Promise<SearchConversationsResponse> => {
+    const payload: SearchRequestDto = {
+        query: request.query,
+        limit: request.limit,
+        minSimilarity: request.minSimilarity,
+        conversationIds: request.conversationIds?.map(Number),
+        tickers: request.tickers,
+    };
+
+    const response = await backendAccessPoint.post<SearchResponseDto>("/api/search", payload);
+    return {
+        query: response.data.query,
+        totalPassages: response.data.totalPassages,
+        conversations: response.data.conversations.map((conversation) => ({
+            ...conversation,
+            conversationId: conversation.conversationId.toString(),
+        })),
+    };
+};
+
+export const useSearchConversations = (request: SearchConversationsRequest) => {
+    const trimmedQuery = request.query.trim();
+
+    return useQuery({
+        queryKey: ["search", { ...request, query: trimmedQuery }],
+        queryFn: () => searchConversations({ ...request, query: trimmedQuery }),
+        enabled: trimmedQuery.length > 0,
+        staleTime: 1000 * 60 * 5,
+        // Keep the previous results on screen while a filter change reloads them
+        placeholderData: keepPreviousData,
+    });
+};
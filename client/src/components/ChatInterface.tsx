@@ -1,9 +1,44 @@
-import { Send } from "lucide-react";
-import { ComponentPropsWithoutRef, ReactNode, useState } from "react";
+import {
+    ChevronLeft,
+    ChevronRight,
+    Pencil,
+    Pin,
+    RotateCcw,
+    Send,
+    Square,
+} from "lucide-react";
+import {
+    ComponentPropsWithoutRef,
+    ReactNode,
+    useEffect,
+    useRef,
+    useState,
+} from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import { DocumentSource } from "../api/message/getMessageListByConversation";
-import { SourceCitations } from "./SourceCitations";
+import {
+    DocumentSource,
+    MessageFeedbackRating,
+    MessageMetadata,
+    RetrievalOptions,
+} from "../api/message/getMessageListByConversation";
+import {
+    getCitationElementId,
+    linkCitationMarkers,
+    parseCitationHref,
+} from "../utils/citations";
+import {
+    getMessageContentElementId,
+    getMessageElementId,
+} from "../utils/messageAnchors";
+import {
+    describeRetrievalOptions,
+    hasRetrievalOverrides,
+} from "../utils/retrievalOptions";
+import { MessageToolbar } from "./MessageToolbar";
+import { RetrievalDiagnosticsPanel } from "./RetrievalDiagnosticsPanel";
+import { RetrievalOptionsPicker } from "./RetrievalOptionsPicker";
+import { CitationMarker, SourceCitations } from "./SourceCitations";
 import { Button } from "./ui/button/Button";
 
 export type Message = {
@@ -12,19 +47,50 @@ export type Message = {
     sender: "User" | "Assistant" | "System";
     timestamp: string;
     sources?: DocumentSource[];
+    isStreaming?: boolean;
+    /** The message this one follows; siblings under the same parent are alternative branches */
+    parentId?: string | null;
+    /** Every alternative at this point of the thread, oldest first, including this message */
+    siblingIds?: string[];
+    metadata?: MessageMetadata;
 };
 
 type ChatInterfaceProps = {
     messages: Message[];
-    onSendMessage: (message: string) => void;
+    onSendMessage: (message: string, retrieval?: RetrievalOptions) => void;
     isLoading?: boolean;
     showInput?: boolean;
     emptyStateContent?: ReactNode;
     conversationType?: string;
     inputDisabled?: boolean;
     showEmptyState?: boolean;
+    isStreaming?: boolean;
+    onStopGenerating?: () => void;
+    /** Shows the composer control for overriding retrieval and the model per question */
+    showRetrievalOptions?: boolean;
+    onViewEvidence?: (messageId: string, documentId?: number) => void;
+    onEditMessage?: (messageId: string, text: string) => void;
+    onRegenerateMessage?: (messageId: string) => void;
+    onSelectBranch?: (messageId: string) => void;
+    onDeleteMessage?: (messageId: string) => void;
+    onTogglePin?: (messageId: string, pinned: boolean) => void;
+    onSubmitFeedback?: (
+        messageId: string,
+        rating: MessageFeedbackRating | null,
+        comment?: string,
+    ) => void;
 };
 
+type HighlightedCitation = {
+    messageId: string;
+    citationNumber: number;
+};
+
+const CITATION_HIGHLIGHT_MS = 2000;
+
+// Optimistic and streaming messages have client-generated ids until the server's copy is loaded
+const isSavedMessage = (message: Message) => /^\d+$/.test(message.id);
+
 type MarkdownCodeProps = ComponentPropsWithoutRef<"code"> & {
     inline?: boolean;
 };
@@ -37,17 +103,82 @@ export function ChatInterface({
     emptyStateContent,
     inputDisabled = false,
     showEmptyState = true,
+    isStreaming = false,
+    onStopGenerating,
+    showRetrievalOptions = false,
+    onViewEvidence,
+    onEditMessage,
+    onRegenerateMessage,
+    onSelectBranch,
+    onDeleteMessage,
+    onTogglePin,
+    onSubmitFeedback,
 }: ChatInterfaceProps) {
     const [inputValue, setInputValue] = useState("");
-    const isInputDisabled = isLoading || inputDisabled;
+    const [retrievalOptions, setRetrievalOptions] = useState<RetrievalOptions>(
+        {},
+    );
+    const [editingMessageId, setEditingMessageId] = useState<string | null>(
+        null,
+    );
+    const [editValue, setEditValue] = useState("");
+    const [highlightedCitation, setHighlightedCitation] =
+        useState<HighlightedCitation | null>(null);
+    const highlightTimerRef = useRef<number | null>(null);
+    const isInputDisabled = isLoading || isStreaming || inputDisabled;
+
+    useEffect(
+        () => () => {
+            if (highlightTimerRef.current !== null) {
+                window.clearTimeout(highlightTimerRef.current);
+            }
+        },
+        [],
+    );
+
+    /**
+     * Scrolls to the source chip matching an inline [n] marker and briefly highlights it
+     */
+    const handleCitationClick = (messageId: string, citationNumber: number) => {
+        document
+            .getElementById(getCitationElementId(messageId, citationNumber))
+            ?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+
+        setHighlightedCitation({ messageId, citationNumber });
+        if (highlightTimerRef.current !== null) {
+            window.clearTimeout(highlightTimerRef.current);
+        }
+        highlightTimerRef.current = window.setTimeout(() => {
+            setHighlightedCitation(null);
+            highlightTimerRef.current = null;
+        }, CITATION_HIGHLIGHT_MS);
+    };
 
     const handleSendMessage = () => {
         if (inputValue.trim()) {
-            onSendMessage(inputValue);
+            onSendMessage(
+                inputValue,
+                hasRetrievalOverrides(retrievalOptions)
+                    ? retrievalOptions
+                    : undefined,
+            );
             setInputValue("");
+            // Overrides apply to a single question
+            setRetrievalOptions({});
         }
     };
 
+    const startEditing = (message: Message) => {
+        setEditingMessageId(message.id);
+        setEditValue(message.text);
+    };
+
+    const handleSubmitEdit = (messageId: string) => {
+        if (!editValue.trim()) return;
+        onEditMessage?.(messageId, editValue);
+        setEditingMessageId(null);
+    };
+
     const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
         if (e.key === "Enter" && !e.shiftKey) {
             e.preventDefault();
@@ -82,12 +213,55 @@ export function ChatInterface({
                         : messages.map((message) => (
                               <div
                                   key={message.id}
-                                  className={`flex max-w-[80%] flex-col rounded-lg p-3 ${
+                                  id={getMessageElementId(message.id)}
+                                  className={`group relative flex max-w-[80%] flex-col rounded-lg p-3 ${
                                       message.sender === "User"
                                           ? "ml-auto self-end bg-blue-100"
                                           : "self-start rounded-md border bg-slate-50"
                                   }`}
                               >
+                                  {!message.isStreaming &&
+                                      editingMessageId !== message.id && (
+                                          <MessageToolbar
+                                              text={message.text}
+                                              contentElementId={getMessageContentElementId(
+                                                  message.id,
+                                              )}
+                                              isAnswer={
+                                                  message.sender === "Assistant"
+                                              }
+                                              metadata={message.metadata}
+                                              disabled={!isSavedMessage(message)}
+                                              onDelete={
+                                                  onDeleteMessage
+                                                      ? () =>
+                                                            onDeleteMessage(
+                                                                message.id,
+                                                            )
+                                                      : undefined
+                                              }
+                                              onTogglePin={
+                                                  onTogglePin
+                                                      ? () =>
+                                                            onTogglePin(
+                                                                message.id,
+                                                                !message.metadata
+                                                                    ?.pinned,
+                                                            )
+                                                      : undefined
+                                              }
+                                              onFeedback={
+                                                  onSubmitFeedback
+                                                      ? (rating, comment) =>
+                                                            onSubmitFeedback(
+                                                                message.id,
+                                                                rating,
+                                                                comment,
+                                                            )
+                                                      : undefined
+                                              }
+                                          />
+                                      )}
                                   <div className="mb-1 flex items-center gap-2">
                                       <div
                                           className={`flex h-6 w-6 items-center justify-center rounded-full text-xs font-medium ${
@@ -105,135 +279,306 @@ export function ChatInterface({
                                               ? "You"
                                               : "AI Assistant"}
                                       </span>
+                                      {message.sender === "User" &&
+                                          describeRetrievalOptions(
+                                              message.metadata?.retrievalOptions,
+                                          ) && (
+                                              <span
+                                                  className="rounded-full bg-blue-200/60 px-2 py-0.5 text-[11px] text-blue-900"
+                                                  title="Retrieval and model chosen for this question"
+                                              >
+                                                  {describeRetrievalOptions(
+                                                      message.metadata
+                                                          ?.retrievalOptions,
+                                                  )}
+                                              </span>
+                                          )}
+                                      {message.metadata?.pinned && (
+                                          <Pin
+                                              className="h-3 w-3 text-amber-600"
+                                              aria-label="Pinned to key findings"
+                                          />
+                                      )}
                                       <span className="ml-auto text-xs text-gray-500">
                                           {message.timestamp}
                                       </span>
                                   </div>
-                                  <div className="prose prose-sm max-w-none text-gray-900">
-                                      <ReactMarkdown
-                                          remarkPlugins={[remarkGfm]}
-                                          components={{
-                                              // Customize headings
-                                              h1: (props) => (
-                                                  <h1
-                                                      className="mt-4 mb-2 text-xl font-bold"
-                                                      {...props}
-                                                  />
-                                              ),
-                                              h2: (props) => (
-                                                  <h2
-                                                      className="mt-3 mb-2 text-lg font-bold"
-                                                      {...props}
-                                                  />
-                                              ),
-                                              h3: (props) => (
-                                                  <h3
-                                                      className="mt-2 mb-1 text-base font-bold"
-                                                      {...props}
-                                                  />
-                                              ),
-                                              // Customize lists
-                                              ul: (props) => (
-                                                  <ul
-                                                      className="mb-2 ml-4 list-disc space-y-1"
-                                                      {...props}
-                                                  />
-                                              ),
-                                              ol: (props) => (
-                                                  <ol
-                                                      className="mb-2 ml-4 list-decimal space-y-1"
-                                                      {...props}
-                                                  />
-                                              ),
-                                              li: (props) => (
-                                                  <li
-                                                      className="ml-1"
-                                                      {...props}
-                                                  />
-                                              ),
-                                              // Customize paragraphs
-                                              p: (props) => (
-                                                  <p
-                                                      className="mb-2 last:mb-0"
-                                                      {...props}
-                                                  />
-                                              ),
-                                              // Customize code blocks
-                                              code: ({
-                                                  inline,
-                                                  ...props
-                                              }: MarkdownCodeProps) =>
-                                                  inline ? (
-                                                      <code
-                                                          className="rounded bg-gray-200 px-1.5 py-0.5 font-mono text-sm"
+                                  {editingMessageId === message.id ? (
+                                      <div className="flex flex-col gap-2">
+                                          <textarea
+                                              value={editValue}
+                                              onChange={(e) =>
+                                                  setEditValue(e.target.value)
+                                              }
+                                              onKeyDown={(e) => {
+                                                  if (e.key === "Escape") {
+                                                      setEditingMessageId(null);
+                                                  } else if (
+                                                      e.key === "Enter" &&
+                                                      !e.shiftKey
+                                                  ) {
+                                                      e.preventDefault();
+                                                      handleSubmitEdit(message.id);
+                                                  }
+                                              }}
+                                              className="min-w-[20rem] resize-y rounded-md border border-gray-300 bg-white p-2 text-sm focus:border-transparent focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                                              rows={3}
+                                              autoFocus
+                                          />
+                                          <div className="flex justify-end gap-2">
+                                              <Button
+                                                  onClick={() =>
+                                                      setEditingMessageId(null)
+                                                  }
+                                                  variant="neutral"
+                                              >
+                                                  Cancel
+                                              </Button>
+                                              <Button
+                                                  onClick={() =>
+                                                      handleSubmitEdit(message.id)
+                                                  }
+                                                  disabled={
+                                                      !editValue.trim() ||
+                                                      isInputDisabled
+                                                  }
+                                                  variant="primary"
+                                              >
+                                                  Save & submit
+                                              </Button>
+                                          </div>
+                                      </div>
+                                  ) : (
+                                      <div
+                                          id={getMessageContentElementId(
+                                              message.id,
+                                          )}
+                                          className="prose prose-sm max-w-none text-gray-900"
+                                      >
+                                          <ReactMarkdown
+                                              remarkPlugins={[remarkGfm]}
+                                              components={{
+                                                  // Customize headings
+                                                  h1: (props) => (
+                                                      <h1
+                                                          className="mt-4 mb-2 text-xl font-bold"
                                                           {...props}
                                                       />
-                                                  ) : (
-                                                      <code
-                                                          className="mb-2 block overflow-x-auto rounded-md bg-gray-100 p-3 font-mono text-sm"
+                                                  ),
+                                                  h2: (props) => (
+                                                      <h2
+                                                          className="mt-3 mb-2 text-lg font-bold"
                                                           {...props}
                                                       />
                                                   ),
-                                              // Customize blockquotes
-                                              blockquote: (props) => (
-                                                  <blockquote
-                                                      className="my-2 border-l-4 border-gray-300 pl-4 italic"
-                                                      {...props}
-                                                  />
-                                              ),
-                                              // Customize links
-                                              a: (props) => (
-                                                  <a
-                                                      className="text-blue-600 hover:underline"
-                                                      target="_blank"
-                                                      rel="noopener noreferrer"
-                                                      {...props}
-                                                  />
-                                              ),
-                                              // Customize tables
-                                              table: (props) => (
-                                                  <table
-                                                      className="my-2 border-collapse border border-gray-300"
-                                                      {...props}
-                                                  />
-                                              ),
-                                              th: (props) => (
-                                                  <th
-                                                      className="border border-gray-300 bg-gray-100 px-3 py-2 font-semibold"
-                                                      {...props}
-                                                  />
-                                              ),
-                                              td: (props) => (
-                                                  <td
-                                                      className="border border-gray-300 px-3 py-2"
-                                                      {...props}
-                                                  />
-                                              ),
-                                              // Customize strong (bold)
-                                              strong: (props) => (
-                                                  <strong
-                                                      className="font-bold"
-                                                      {...props}
-                                                  />
-                                              ),
-                                              // Customize emphasis (italic)
-                                              em: (props) => (
-                                                  <em
-                                                      className="italic"
-                                                      {...props}
-                                                  />
-                                              ),
-                                          }}
-                                      >
-                                          {message.text}
-                                      </ReactMarkdown>
-                                  </div>
+                                                  h3: (props) => (
+                                                      <h3
+                                                          className="mt-2 mb-1 text-base font-bold"
+                                                          {...props}
+                                                      />
+                                                  ),
+                                                  // Customize lists
+                                                  ul: (props) => (
+                                                      <ul
+                                                          className="mb-2 ml-4 list-disc space-y-1"
+                                                          {...props}
+                                                      />
+                                                  ),
+                                                  ol: (props) => (
+                                                      <ol
+                                                          className="mb-2 ml-4 list-decimal space-y-1"
+                                                          {...props}
+                                                      />
+                                                  ),
+                                                  li: (props) => (
+                                                      <li
+                                                          className="ml-1"
+                                                          {...props}
+                                                      />
+                                                  ),
+                                                  // Customize paragraphs
+                                                  p: (props) => (
+                                                      <p
+                                                          className="mb-2 last:mb-0"
+                                                          {...props}
+                                                      />
+                                                  ),
+                                                  // Customize code blocks
+                                                  code: ({
+                                                      inline,
+                                                      ...props
+                                                  }: MarkdownCodeProps) =>
+                                                      inline ? (
+                                                          <code
+                                                              className="rounded bg-gray-200 px-1.5 py-0.5 font-mono text-sm"
+                                                              {...props}
+                                                          />
+                                                      ) : (
+                                                          <code
+                                                              className="mb-2 block overflow-x-auto rounded-md bg-gray-100 p-3 font-mono text-sm"
+                                                              {...props}
+                                                          />
+                                                      ),
+                                                  // Customize blockquotes
+                                                  blockquote: (props) => (
+                                                      <blockquote
+                                                          className="my-2 border-l-4 border-gray-300 pl-4 italic"
+                                                          {...props}
+                                                      />
+                                                  ),
+                                                  // Customize links; inline [n] citation markers arrive as #cite-n links
+                                                  a: ({ href, ...props }) => {
+                                                      const citationNumber =
+                                                          parseCitationHref(href);
+                                                      const citedSource =
+                                                          citationNumber !== null
+                                                              ? message.sources?.[
+                                                                    citationNumber - 1
+                                                                ]
+                                                              : undefined;
+
+                                                      if (
+                                                          citationNumber !== null &&
+                                                          citedSource
+                                                      ) {
+                                                          return (
+                                                              <CitationMarker
+                                                                  messageId={message.id}
+                                                                  citationNumber={
+                                                                      citationNumber
+                                                                  }
+                                                                  source={citedSource}
+                                                                  onClick={() =>
+                                                                      handleCitationClick(
+                                                                          message.id,
+                                                                          citationNumber,
+                                                                      )
+                                                                  }
+                                                                  onViewEvidence={
+                                                                      onViewEvidence
+                                                                          ? (documentId) =>
+                                                                                onViewEvidence(
+                                                                                    message.id,
+                                                                                    documentId,
+                                                                                )
+                                                                          : undefined
+                                                                  }
+                                                              />
+                                                          );
+                                                      }
+
+                                                      return (
+                                                          <a
+                                                              className="text-blue-600 hover:underline"
+                                                              target="_blank"
+                                                              rel="noopener noreferrer"
+                                                              href={href}
+                                                              {...props}
+                                                          />
+                                                      );
+                                                  },
+                                                  // Customize tables
+                                                  table: (props) => (
+                                                      <table
+                                                          className="my-2 border-collapse border border-gray-300"
+                                                          {...props}
+                                                      />
+                                                  ),
+                                                  th: (props) => (
+                                                      <th
+                                                          className="border border-gray-300 bg-gray-100 px-3 py-2 font-semibold"
+                                                          {...props}
+                                                      />
+                                                  ),
+                                                  td: (props) => (
+                                                      <td
+                                                          className="border border-gray-300 px-3 py-2"
+                                                          {...props}
+                                                      />
+                                                  ),
+                                                  // Customize strong (bold)
+                                                  strong: (props) => (
+                                                      <strong
+                                                          className="font-bold"
+                                                          {...props}
+                                                      />
+                                                  ),
+                                                  // Customize emphasis (italic)
+                                                  em: (props) => (
+                                                      <em
+                                                          className="italic"
+                                                          {...props}
+                                                      />
+                                                  ),
+                                              }}
+                                          >
+                                              {linkCitationMarkers(
+                                                  message.text,
+                                                  message.sources?.length ?? 0,
+                                              )}
+                                          </ReactMarkdown>
+                                          {message.isStreaming && (
+                                              <span className="ml-0.5 inline-block h-4 w-1.5 animate-pulse bg-slate-500 align-text-bottom" />
+                                          )}
+                                      </div>
+                                  )}
                                   {message.sender === "Assistant" &&
+                                      !message.isStreaming &&
                                       message.sources && (
                                           <SourceCitations
                                               sources={message.sources}
+                                              messageId={message.id}
+                                              highlightedCitation={
+                                                  highlightedCitation?.messageId ===
+                                                  message.id
+                                                      ? highlightedCitation.citationNumber
+                                                      : null
+                                              }
+                                              onViewEvidence={
+                                                  onViewEvidence
+                                                      ? (documentId) =>
+                                                            onViewEvidence(
+                                                                message.id,
+                                                                documentId,
+                                                            )
+                                                      : undefined
+                                              }
+                                          />
+                                      )}
+                                  {message.sender === "Assistant" &&
+                                      !message.isStreaming &&
+                                      message.metadata?.diagnostics && (
+                                          <RetrievalDiagnosticsPanel
+                                              diagnostics={
+                                                  message.metadata.diagnostics
+                                              }
                                           />
                                       )}
+                                  {editingMessageId !== message.id && (
+                                      <MessageActions
+                                          message={message}
+                                          disabled={
+                                              isInputDisabled ||
+                                              !isSavedMessage(message)
+                                          }
+                                          onEdit={
+                                              onEditMessage &&
+                                              message.sender === "User"
+                                                  ? () => startEditing(message)
+                                                  : undefined
+                                          }
+                                          onRegenerate={
+                                              onRegenerateMessage &&
+                                              message.sender === "Assistant"
+                                                  ? () =>
+                                                        onRegenerateMessage(
+                                                            message.id,
+                                                        )
+                                                  : undefined
+                                          }
+                                          onSelectBranch={onSelectBranch}
+                                      />
+                                  )}
                               </div>
                           ))}
                     {isLoading && (
@@ -270,17 +615,119 @@ export function ChatInterface({
                         className="flex-1 grow resize-none rounded-lg border border-gray-300 bg-white p-3 focus:border-transparent focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:bg-gray-50 disabled:text-gray-500"
                         rows={1}
                     />
-                    <Button
-                        onClick={handleSendMessage}
-                        disabled={!inputValue.trim() || isInputDisabled}
-                        variant="primary"
-                        icon={Send}
-                        iconPosition="left"
+                    {showRetrievalOptions && (
+                        <RetrievalOptionsPicker
+                            value={retrievalOptions}
+                            onChange={setRetrievalOptions}
+                            disabled={isInputDisabled}
+                        />
+                    )}
+                    {(isLoading || isStreaming) && onStopGenerating ? (
+                        <Button
+                            onClick={onStopGenerating}
+                            variant="neutral"
+                            icon={Square}
+                            iconPosition="left"
+                        >
+                            Stop
+                        </Button>
+                    ) : (
+                        <Button
+                            onClick={handleSendMessage}
+                            disabled={!inputValue.trim() || isInputDisabled}
+                            variant="primary"
+                            icon={Send}
+                            iconPosition="left"
+                        >
+                            Send
+                        </Button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
+
+type MessageActionsProps = {
+    message: Message;
+    disabled: boolean;
+    onEdit?: () => void;
+    onRegenerate?: () => void;
+    onSelectBranch?: (messageId: string) => void;
+};
+
+/**
+ * Controls under a message: edit (questions), regenerate (answers), and a switcher between
+ * the alternative branches at this point of the thread.
+ *
+ * @param message - The message the controls belong to
+ * @param disabled - Disables editing and regenerating, e.g. while an answer is streaming
+ * @param onEdit - Starts editing the question
+ * @param onRegenerate - Generates another answer to the same question
+ * @param onSelectBranch - Called with the sibling message to show instead of this one
+ */
+function MessageActions({
+    message,
+    disabled,
+    onEdit,
+    onRegenerate,
+    onSelectBranch,
+}: MessageActionsProps) {
+    const siblingIds = message.siblingIds ?? [message.id];
+    const branchIndex = siblingIds.indexOf(message.id);
+    const hasBranches = !!onSelectBranch && siblingIds.length > 1;
+
+    if (!hasBranches && !onEdit && !onRegenerate) return null;
+
+    return (
+        <div className="mt-2 flex items-center gap-1 text-xs text-gray-500">
+            {hasBranches && (
+                <div className="flex items-center">
+                    <button
+                        type="button"
+                        onClick={() => onSelectBranch(siblingIds[branchIndex - 1])}
+                        disabled={disabled || branchIndex <= 0}
+                        className="rounded p-1 hover:bg-gray-200 disabled:opacity-40"
+                        aria-label="Previous version"
+                    >
+                        <ChevronLeft className="h-3.5 w-3.5" />
+                    </button>
+                    <span className="tabular-nums">
+                        {branchIndex + 1} / {siblingIds.length}
+                    </span>
+                    <button
+                        type="button"
+                        onClick={() => onSelectBranch(siblingIds[branchIndex + 1])}
+                        disabled={disabled || branchIndex >= siblingIds.length - 1}
+                        className="rounded p-1 hover:bg-gray-200 disabled:opacity-40"
+                        aria-label="Next version"
                     >
-                        Send
-                    </Button>
+                        <ChevronRight className="h-3.5 w-3.5" />
+                    </button>
                 </div>
             )}
+            {onEdit && (
+                <button
+                    type="button"
+                    onClick={onEdit}
+                    disabled={disabled}
+                    className="inline-flex items-center gap-1 rounded px-1.5 py-1 hover:bg-gray-200 disabled:opacity-40"
+                >
+                    <Pencil className="h-3.5 w-3.5" />
+                    Edit
+                </button>
+            )}
+            {onRegenerate && (
+                <button
+                    type="button"
+                    onClick={onRegenerate}
+                    disabled={disabled}
+                    className="inline-flex items-center gap-1 rounded px-1.5 py-1 hover:bg-gray-200 disabled:opacity-40"
+                >
+                    <RotateCcw className="h-3.5 w-3.5" />
+                    Regenerate
+                </button>
+            )}
         </div>
     );
 }
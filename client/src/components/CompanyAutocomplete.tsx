@@ -0,0 +1,204 @@
+import { Search, X } from "lucide-react";
+import { KeyboardEvent, useEffect, useId, useMemo, useRef, useState } from "react";
+import { Company } from "../api/company/getCompanyList";
+import { useSearchCompanies } from "../api/company/searchCompanies";
+
+// Wait for typing to pause before hitting the search endpoint
+const SEARCH_DEBOUNCE_MS = 250;
+const NO_EXCLUDED_TICKERS: string[] = [];
+
+type CompanyAutocompleteProps = {
+    value: Company | null;
+    onSelect: (company: Company | null) => void;
+    excludedTickers?: string[];
+    disabled?: boolean;
+};
+
+const formatCompanyLabel = (company: Company) =>
+    company.ticker ? `${company.name} (${company.ticker})` : company.name;
+
+/**
+ * Typeahead over the full SEC company directory. Searches by name, ticker or CIK and supports
+ * keyboard navigation (arrow keys to move, Enter to pick, Escape to close).
+ *
+ * @param value - The currently selected company, or null
+ * @param onSelect - Called with the picked company, or null when the selection is cleared
+ * @param excludedTickers - Tickers that can't be picked (e.g. companies already in the conversation)
+ * @param disabled - Disables the input
+ */
+export function CompanyAutocomplete({
+    value,
+    onSelect,
+    excludedTickers = NO_EXCLUDED_TICKERS,
+    disabled,
+}: CompanyAutocompleteProps) {
+    const listboxId = useId();
+    const [inputValue, setInputValue] = useState(value ? formatCompanyLabel(value) : "");
+    const [debouncedQuery, setDebouncedQuery] = useState("");
+    const [isOpen, setIsOpen] = useState(false);
+    const [activeIndex, setActiveIndex] = useState(0);
+    const listRef = useRef<HTMLUListElement>(null);
+    // Set when typing clears the selection, so the sync effect below keeps the typed text
+    const clearedByTypingRef = useRef(false);
+
+    const { data: results = [], isFetching, error } = useSearchCompanies(debouncedQuery);
+
+    const options = useMemo(() => {
+        const excluded = new Set(excludedTickers.map((ticker) => ticker.toUpperCase()));
+        return results.filter(
+            (company) => !company.ticker || !excluded.has(company.ticker.toUpperCase()),
+        );
+    }, [results, excludedTickers]);
+
+    // Keep the input in sync when the selection is cleared or changed by the parent
+    useEffect(() => {
+        if (!value && clearedByTypingRef.current) {
+            clearedByTypingRef.current = false;
+            return;
+        }
+        setInputValue(value ? formatCompanyLabel(value) : "");
+    }, [value]);
+
+    useEffect(() => {
+        const timer = window.setTimeout(() => setDebouncedQuery(inputValue), SEARCH_DEBOUNCE_MS);
+        return () => window.clearTimeout(timer);
+    }, [inputValue]);
+
+    useEffect(() => {
+        setActiveIndex(0);
+    }, [options]);
+
+    useEffect(() => {
+        listRef.current?.children[activeIndex]?.scrollIntoView({ block: "nearest" });
+    }, [activeIndex]);
+
+    const selectCompany = (company: Company) => {
+        onSelect(company);
+        setInputValue(formatCompanyLabel(company));
+        setIsOpen(false);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+        switch (e.key) {
+            case "ArrowDown":
+                e.preventDefault();
+                setIsOpen(true);
+                setActiveIndex((prev) => Math.min(prev + 1, options.length - 1));
+                break;
+            case "ArrowUp":
+                e.preventDefault();
+                setActiveIndex((prev) => Math.max(prev - 1, 0));
+                break;
+            case "Enter":
+                if (isOpen && options[activeIndex]) {
+                    e.preventDefault();
+                    selectCompany(options[activeIndex]);
+                }
+                break;
+            case "Escape":
+                setIsOpen(false);
+                break;
+        }
+    };
+
+    const showList = isOpen && debouncedQuery.trim().length > 0;
+
+    return (
+        <div className="relative">
+            <div className="relative">
+                <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+                <input
+                    type="text"
+                    role="combobox"
+                    aria-expanded={showList}
+                    aria-controls={listboxId}
+                    aria-autocomplete="list"
+                    aria-activedescendant={
+                        showList && options[activeIndex]
+                            ? `${listboxId}-${activeIndex}`
+                            : undefined
+                    }
+                    className="w-full rounded border border-gray-300 py-2 pl-9 pr-9 text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Search by company name, ticker or CIK"
+                    value={inputValue}
+                    onChange={(e) => {
+                        setInputValue(e.target.value);
+                        setIsOpen(true);
+                        if (value) {
+                            clearedByTypingRef.current = true;
+                            onSelect(null);
+                        }
+                    }}
+                    onFocus={() => setIsOpen(true)}
+                    onBlur={() => setIsOpen(false)}
+                    onKeyDown={handleKeyDown}
+                    disabled={disabled}
+                />
+                {inputValue && !disabled && (
+                    <button
+                        type="button"
+                        onClick={() => {
+                            setInputValue("");
+                            onSelect(null);
+                        }}
+                        className="absolute right-2 top-1/2 -translate-y-1/2 rounded p-1 text-gray-400 hover:text-gray-600"
+                        aria-label="Clear company"
+                    >
+                        <X className="h-4 w-4" />
+                    </button>
+                )}
+            </div>
+
+            {showList && (
+                <ul
+                    id={listboxId}
+                    ref={listRef}
+                    role="listbox"
+                    className="absolute z-10 mt-1 max-h-72 w-full overflow-y-auto rounded-md border border-gray-200 bg-white py-1 shadow-lg"
+                >
+                    {error ? (
+                        <li className="px-3 py-2 text-sm text-red-600">
+                            Failed to search companies.
+                        </li>
+                    ) : options.length === 0 ? (
+                        <li className="px-3 py-2 text-sm text-gray-500">
+                            {isFetching ? "Searching..." : "No matching companies"}
+                        </li>
+                    ) : (
+                        options.map((company, index) => (
+                            <li
+                                key={`${company.cik}:${company.ticker ?? "no-ticker"}`}
+                                id={`${listboxId}-${index}`}
+                                role="option"
+                                aria-selected={index === activeIndex}
+                                // Select on mousedown so the input's blur doesn't close the list first
+                                onMouseDown={(e) => {
+                                    e.preventDefault();
+                                    selectCompany(company);
+                                }}
+                                onMouseEnter={() => setActiveIndex(index)}
+                                className={`cursor-pointer px-3 py-2 text-sm ${
+                                    index === activeIndex ? "bg-blue-50" : ""
+                                }`}
+                            >
+                                <div className="flex items-center justify-between gap-3">
+                                    <span className="font-medium text-gray-900">
+                                        {company.name}
+                                    </span>
+                                    {company.ticker && (
+                                        <span className="font-mono text-xs font-semibold text-blue-700">
+                                            {company.ticker}
+                                        </span>
+                                    )}
+                                </div>
+                                <div className="mt-0.5 text-xs text-gray-500">
+                                    {company.exchange ?? "No exchange"} • CIK {company.cik}
+                                </div>
+                            </li>
+                        ))
+                    )}
+                </ul>
+            )}
+        </div>
+    );
+}
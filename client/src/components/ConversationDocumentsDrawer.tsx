@@ -0,0 +1,357 @@
+import {
+    Building2,
+    ChevronDown,
+    ChevronRight,
+    ExternalLink,
+    FileText,
+    Folder,
+    Library,
+    Trash2,
+    Unlink,
+    X,
+} from "lucide-react";
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { toast } from "sonner";
+import { ConversationDocument } from "../api/conversation/getConversationById";
+import { useDeleteDocument } from "../api/document/deleteDocument";
+import { useDetachDocument } from "../api/document/detachDocument";
+import { getDocumentViewerPath } from "../utils/documentViewer";
+import {
+    buildDocumentFolderTree,
+    countFolderDocuments,
+    DocumentFolder,
+    formatFileSize,
+} from "../utils/documents";
+import { DocumentIngestionBadge } from "./DocumentIngestionBadge";
+import { FileDropzone } from "./FileDropzone";
+
+type ConversationDocumentsDrawerProps = {
+    conversationId: string;
+    documents: ConversationDocument[];
+    onClose: () => void;
+};
+
+type CompanyFilingsSectionProps = {
+    conversationId: string;
+    companyName: string;
+    ticker: string | null;
+    filings: ConversationDocument[];
+};
+
+type DocumentFolderSectionProps = {
+    conversationId: string;
+    folder: DocumentFolder<ConversationDocument>;
+    onRemove: (document: ConversationDocument) => void;
+};
+
+type UploadedDocumentRowProps = {
+    conversationId: string;
+    document: ConversationDocument;
+    onRemove: () => void;
+};
+
+/**
+ * One company's ingested filings, collapsed by default since a company can have dozens
+ */
+function CompanyFilingsSection({
+    conversationId,
+    companyName,
+    ticker,
+    filings,
+}: CompanyFilingsSectionProps) {
+    const [isExpanded, setIsExpanded] = useState(false);
+
+    return (
+        <section>
+            <button
+                type="button"
+                onClick={() => setIsExpanded((prev) => !prev)}
+                className="flex w-full items-center gap-2 rounded-md px-1 py-1 text-left text-sm font-medium text-gray-800 hover:bg-gray-50"
+                aria-expanded={isExpanded}
+            >
+                {isExpanded ? (
+                    <ChevronDown className="h-4 w-4 text-gray-500" />
+                ) : (
+                    <ChevronRight className="h-4 w-4 text-gray-500" />
+                )}
+                <Building2 className="h-4 w-4 text-gray-500" />
+                <span className="flex-1 truncate">{companyName}</span>
+                {ticker && (
+                    <span className="rounded bg-slate-100 px-1.5 py-0.5 text-xs text-slate-700">
+                        {ticker}
+                    </span>
+                )}
+                <span className="text-xs font-normal text-gray-500">
+                    {filings.length} filing{filings.length === 1 ? "" : "s"}
+                </span>
+            </button>
+            {isExpanded && (
+                <ul className="mt-1 ml-6 space-y-1">
+                    {filings.map((filing) => (
+                        <li key={filing.id} className="flex items-center gap-2 text-sm">
+                            <Link
+                                to={getDocumentViewerPath(conversationId, filing.id)}
+                                className="min-w-0 flex-1 truncate text-gray-700 hover:text-blue-700 hover:underline"
+                                title={filing.title}
+                            >
+                                {filing.title}
+                            </Link>
+                            {filing.documentLink && (
+                                <a
+                                    href={filing.documentLink}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-gray-400 hover:text-gray-700"
+                                    title="Open the original filing"
+                                >
+                                    <ExternalLink className="h-3.5 w-3.5" />
+                                </a>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </section>
+    );
+}
+
+function UploadedDocumentRow({ conversationId, document, onRemove }: UploadedDocumentRowProps) {
+    const RemoveIcon = document.isAttached ? Unlink : Trash2;
+
+    return (
+        <li className="group flex items-start gap-2 rounded-md px-1 py-1.5 hover:bg-gray-50">
+            {document.isAttached ? (
+                <Library className="mt-0.5 h-4 w-4 shrink-0 text-gray-400" />
+            ) : (
+                <FileText className="mt-0.5 h-4 w-4 shrink-0 text-gray-400" />
+            )}
+            <div className="min-w-0 flex-1">
+                <Link
+                    to={getDocumentViewerPath(conversationId, document.id)}
+                    className="block truncate text-sm text-gray-800 hover:text-blue-700 hover:underline"
+                    title={document.title}
+                >
+                    {document.title}
+                </Link>
+                <div className="text-xs text-gray-500">
+                    {document.isAttached ? "From your library" : "Uploaded here"} ·{" "}
+                    {formatFileSize(document.fileSize)}
+                </div>
+            </div>
+            <DocumentIngestionBadge
+                status={document.ingestionStatus}
+                error={document.ingestionError}
+            />
+            <button
+                type="button"
+                onClick={onRemove}
+                className="rounded p-1 text-gray-400 opacity-0 transition-opacity group-hover:opacity-100 hover:bg-gray-200 hover:text-red-600 focus:opacity-100"
+                title={
+                    document.isAttached
+                        ? "Detach from this conversation"
+                        : "Delete document"
+                }
+                aria-label={
+                    document.isAttached
+                        ? `Detach ${document.title}`
+                        : `Delete ${document.title}`
+                }
+            >
+                <RemoveIcon className="h-3.5 w-3.5" />
+            </button>
+        </li>
+    );
+}
+
+/**
+ * A folder from an imported data-room archive, collapsed by default like the filings
+ */
+function DocumentFolderSection({ conversationId, folder, onRemove }: DocumentFolderSectionProps) {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const documentCount = countFolderDocuments(folder);
+
+    return (
+        <li>
+            <button
+                type="button"
+                onClick={() => setIsExpanded((prev) => !prev)}
+                className="flex w-full items-center gap-2 rounded-md px-1 py-1 text-left text-sm text-gray-800 hover:bg-gray-50"
+                aria-expanded={isExpanded}
+                title={folder.path}
+            >
+                {isExpanded ? (
+                    <ChevronDown className="h-4 w-4 shrink-0 text-gray-500" />
+                ) : (
+                    <ChevronRight className="h-4 w-4 shrink-0 text-gray-500" />
+                )}
+                <Folder className="h-4 w-4 shrink-0 text-gray-500" />
+                <span className="flex-1 truncate">{folder.name}</span>
+                <span className="text-xs text-gray-500">{documentCount}</span>
+            </button>
+            {isExpanded && (
+                <ul className="ml-4 space-y-0.5 border-l border-gray-100 pl-1">
+                    <DocumentFolderContents
+                        conversationId={conversationId}
+                        folder={folder}
+                        onRemove={onRemove}
+                    />
+                </ul>
+            )}
+        </li>
+    );
+}
+
+function DocumentFolderContents({ conversationId, folder, onRemove }: DocumentFolderSectionProps) {
+    return (
+        <>
+            {folder.folders.map((child) => (
+                <DocumentFolderSection
+                    key={child.path}
+                    conversationId={conversationId}
+                    folder={child}
+                    onRemove={onRemove}
+                />
+            ))}
+            {folder.documents.map((document) => (
+                <UploadedDocumentRow
+                    key={document.id}
+                    conversationId={conversationId}
+                    document={document}
+                    onRemove={() => onRemove(document)}
+                />
+            ))}
+        </>
+    );
+}
+
+/**
+ * Side drawer listing everything the conversation's answers can cite: each company's filings and
+ * the user's own documents, either uploaded here or attached from their library. Dropped files
+ * are uploaded into the conversation and chunked into its index alongside the filings; documents
+ * imported from a data-room archive are shown in its folders.
+ *
+ * @param conversationId - ID of the conversation whose documents are shown
+ * @param documents - The conversation's documents, as returned with the conversation
+ * @param onClose - Called when the drawer is dismissed
+ */
+export function ConversationDocumentsDrawer({
+    conversationId,
+    documents,
+    onClose,
+}: ConversationDocumentsDrawerProps) {
+    const { mutate: deleteDocument } = useDeleteDocument(conversationId);
+    const { mutate: detachDocument } = useDetachDocument();
+
+    const { companies, uploads } = useMemo(() => {
+        const filingsByCompany = new Map<string, ConversationDocument[]>();
+        const ownDocuments: ConversationDocument[] = [];
+
+        for (const document of documents) {
+            if (document.companyId) {
+                const filings = filingsByCompany.get(document.companyId) ?? [];
+                filings.push(document);
+                filingsByCompany.set(document.companyId, filings);
+            } else {
+                ownDocuments.push(document);
+            }
+        }
+
+        return {
+            companies: [...filingsByCompany.entries()].map(([companyId, filings]) => ({
+                companyId,
+                companyName: filings[0].companyName ?? "Company filings",
+                ticker: filings[0].companyTicker,
+                filings,
+            })),
+            uploads: buildDocumentFolderTree(ownDocuments),
+        };
+    }, [documents]);
+
+    const handleRemove = (document: ConversationDocument) => {
+        if (document.isAttached) {
+            detachDocument(
+                { documentId: document.id, conversationId },
+                {
+                    onSuccess: () => toast.success("Document detached; it stays in your library"),
+                    onError: () => toast.error("Couldn't detach the document"),
+                },
+            );
+            return;
+        }
+
+        if (!window.confirm(`Delete "${document.title}"? This can't be undone.`)) return;
+
+        deleteDocument(document.id, {
+            onSuccess: () => toast.success("Document deleted"),
+            onError: () => toast.error("Couldn't delete the document"),
+        });
+    };
+
+    return (
+        <aside className="flex h-full min-h-0 w-[24rem] shrink-0 flex-col border-l border-gray-200 bg-white">
+            <div className="flex items-center justify-between border-b border-gray-200 px-4 py-3">
+                <div>
+                    <h3 className="text-sm font-semibold text-gray-900">Documents</h3>
+                    <p className="text-xs text-gray-500">
+                        Answers in this conversation can cite any of these
+                    </p>
+                </div>
+                <button
+                    type="button"
+                    onClick={onClose}
+                    className="rounded p-1 text-gray-500 hover:bg-gray-100 hover:text-gray-700"
+                    aria-label="Close documents drawer"
+                >
+                    <X className="h-4 w-4" />
+                </button>
+            </div>
+
+            <div className="flex-1 min-h-0 space-y-5 overflow-y-auto p-4">
+                <FileDropzone conversationId={conversationId} compact />
+
+                <div>
+                    <h4 className="mb-1 text-xs font-semibold tracking-wide text-gray-500 uppercase">
+                        Your documents
+                    </h4>
+                    {countFolderDocuments(uploads) === 0 ? (
+                        <p className="text-sm text-gray-500">
+                            Drop an expert-call transcript, broker note or data-room ZIP above, or attach one from{" "}
+                            <Link to="/documents" className="text-blue-700 hover:underline">
+                                My documents
+                            </Link>
+                            .
+                        </p>
+                    ) : (
+                        <ul className="space-y-0.5">
+                            <DocumentFolderContents
+                                conversationId={conversationId}
+                                folder={uploads}
+                                onRemove={handleRemove}
+                            />
+                        </ul>
+                    )}
+                </div>
+
+                {companies.length > 0 && (
+                    <div>
+                        <h4 className="mb-1 text-xs font-semibold tracking-wide text-gray-500 uppercase">
+                            Filings
+                        </h4>
+                        <div className="space-y-1">
+                            {companies.map((company) => (
+                                <CompanyFilingsSection
+                                    key={company.companyId}
+                                    conversationId={conversationId}
+                                    companyName={company.companyName}
+                                    ticker={company.ticker}
+                                    filings={company.filings}
+                                />
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </div>
+        </aside>
+    );
+}
@@ -0,0 +1,100 @@
+import { ClipboardList, Plus } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { useCreateReport } from "../api/report/createReport";
+import { useGetReportList } from "../api/report/getReportList";
+import { getReportBuilderPath } from "../utils/reportBuilder";
+
+type ConversationReportsMenuProps = {
+    conversationId: string;
+};
+
+/**
+ * Lists the due-diligence reports built from the conversation, and starts new ones. The reports
+ * are only fetched once the menu is opened.
+ *
+ * @param conversationId - The conversation the reports belong to
+ */
+export function ConversationReportsMenu({ conversationId }: ConversationReportsMenuProps) {
+    const navigate = useNavigate();
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const { data: reports, isLoading } = useGetReportList(conversationId, isOpen);
+    const { mutate: createReport, isPending: isCreating } = useCreateReport();
+
+    // Close when clicking anywhere outside the menu
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const handleMouseDown = (event: MouseEvent) => {
+            if (!containerRef.current?.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener("mousedown", handleMouseDown);
+        return () => document.removeEventListener("mousedown", handleMouseDown);
+    }, [isOpen]);
+
+    const handleCreate = () => {
+        createReport(
+            { conversationId },
+            {
+                onSuccess: (report) => navigate(getReportBuilderPath(conversationId, report.id)),
+                onError: () => toast.error("Couldn't create the report. Please try again."),
+            }
+        );
+    };
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                type="button"
+                onClick={() => setIsOpen((prev) => !prev)}
+                className="inline-flex items-center gap-1 rounded-full border border-slate-200 px-3 py-1 text-xs font-medium text-slate-600 hover:border-slate-400 hover:text-slate-900"
+                title="Build due-diligence reports from this conversation's answers"
+                aria-expanded={isOpen}
+            >
+                <ClipboardList className="h-3.5 w-3.5" />
+                Reports
+            </button>
+
+            {isOpen && (
+                <div className="absolute right-0 top-full z-20 mt-2 w-64 rounded-lg border border-gray-200 bg-white p-1 shadow-lg">
+                    {isLoading ? (
+                        <p className="px-2 py-1.5 text-xs text-gray-500">Loading reports…</p>
+                    ) : (
+                        reports?.map((report) => (
+                            <button
+                                key={report.id}
+                                type="button"
+                                onClick={() =>
+                                    navigate(getReportBuilderPath(conversationId, report.id))
+                                }
+                                className="flex w-full flex-col rounded-md px-2 py-1.5 text-left hover:bg-gray-50"
+                            >
+                                <span className="truncate text-sm text-gray-800">
+                                    {report.title}
+                                </span>
+                                <span className="text-xs text-gray-500">
+                                    {report.blockCount}{" "}
+                                    {report.blockCount === 1 ? "block" : "blocks"} · edited{" "}
+                                    {new Date(report.updatedAt).toLocaleDateString()}
+                                </span>
+                            </button>
+                        ))
+                    )}
+                    <button
+                        type="button"
+                        onClick={handleCreate}
+                        disabled={isCreating}
+                        className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm font-medium text-blue-700 hover:bg-blue-50 disabled:opacity-50"
+                    >
+                        <Plus className="h-4 w-4" />
+                        {isCreating ? "Creating…" : "New report"}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -4,8 +4,110 @@ import { toast } from 'sonner';
 import { useGetConversationList } from '../api/conversation/getConversationList';
 import { useCreateConversation } from '../api/conversation/createConversation';
 import { useDeleteConversation } from '../api/conversation/deleteConversation';
+import { IngestionStatus } from '../api/conversation/getConversationById';
+import {
+    IngestionOutcome,
+    LiveIngestionProgress,
+    useConversationIngestionStatuses,
+} from '../hooks/realtime/useConversationIngestionStatuses';
 import { Button } from './ui/button/Button';
 
+const STAGE_LABELS: Record<IngestionStatus, string> = {
+    Pending: 'Queued',
+    Downloading: 'Downloading',
+    Extracting: 'Extracting',
+    Chunking: 'Chunking',
+    GeneratingEmbeddings: 'Embedding',
+    PersistingEmbeddings: 'Saving',
+    Completed: 'Ready',
+    Failed: 'Failed',
+    Cancelled: 'Cancelled',
+};
+
+type IngestionBadgeProps = {
+    status: IngestionStatus | null;
+    live?: LiveIngestionProgress;
+};
+
+/**
+ * Small progress ring drawn around the live ingestion percentage
+ *
+ * @param percent - Progress from 0 to 100
+ */
+function ProgressRing({ percent }: { percent: number }) {
+    const radius = 6;
+    const circumference = 2 * Math.PI * radius;
+
+    return (
+        <svg className="h-4 w-4 -rotate-90" viewBox="0 0 16 16" aria-hidden="true">
+            <circle
+                cx="8"
+                cy="8"
+                r={radius}
+                fill="none"
+                strokeWidth="2"
+                className="stroke-blue-100"
+            />
+            <circle
+                cx="8"
+                cy="8"
+                r={radius}
+                fill="none"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeDasharray={circumference}
+                strokeDashoffset={circumference * (1 - Math.min(100, Math.max(0, percent)) / 100)}
+                className="stroke-blue-600 transition-[stroke-dashoffset] duration-500"
+            />
+        </svg>
+    );
+}
+
+/**
+ * Ingestion status pill for a conversation. Live hub progress wins over the persisted status, since
+ * the conversation list is only refetched when a company finishes.
+ *
+ * @param status - Persisted ingestion status from the conversation list
+ * @param live - Latest progress pushed by the hub, if the conversation is ingesting
+ */
+function IngestionBadge({ status, live }: IngestionBadgeProps) {
+    if (live) {
+        const stageLabel = STAGE_LABELS[live.stage] ?? live.stage;
+        const company = live.companyIdentifier ? `${live.companyIdentifier}: ` : '';
+
+        return (
+            <span
+                className="inline-flex items-center gap-1 rounded-full border border-blue-200 bg-blue-50 px-1.5 py-0.5 text-[11px] font-medium text-blue-700"
+                title={`${company}${stageLabel} (${live.progressPercent}%)`}
+            >
+                <ProgressRing percent={live.progressPercent} />
+                {stageLabel}
+            </span>
+        );
+    }
+
+    // Finished conversations don't need a badge; only surface the ones that need attention
+    if (!status || status === 'Completed') return null;
+
+    const className =
+        status === 'Failed'
+            ? 'border-red-200 bg-red-50 text-red-700'
+            : status === 'Cancelled'
+              ? 'border-gray-200 bg-gray-100 text-gray-600'
+              : 'border-blue-200 bg-blue-50 text-blue-700';
+
+    return (
+        <span
+            className={`inline-flex items-center rounded-full border px-1.5 py-0.5 text-[11px] font-medium ${className}`}
+        >
+            {STAGE_LABELS[status]}
+        </span>
+    );
+}
+
+/**
+ * Lists the user's conversations with their live ingestion status
+ */
 export function ConversationSidebar() {
     const navigate = useNavigate();
     const { conversationId } = useParams<{ conversationId: string }>();
@@ -14,6 +116,33 @@ export function ConversationSidebar() {
     const { mutate: createConversation, isPending: isCreating } = useCreateConversation();
     const { mutate: deleteConversation, isPending: isDeleting } = useDeleteConversation();
 
+    // Let the user know when a conversation they're not looking at finishes ingesting
+    const handleIngestionFinished = (
+        finishedId: string,
+        outcome: IngestionOutcome,
+        companyIdentifier: string | null
+    ) => {
+        if (finishedId === conversationId?.toLowerCase() || outcome === 'Cancelled') return;
+
+        const title =
+            conversations?.find(c => c.id.toLowerCase() === finishedId)?.title ?? 'A conversation';
+        const company = companyIdentifier ? `${companyIdentifier} filings` : 'Filings';
+        const options = {
+            action: {
+                label: 'Open',
+                onClick: () => navigate(`/conversations/${finishedId}`),
+            },
+        };
+
+        if (outcome === 'Completed') {
+            toast.success(`${company} are ready in "${title}"`, options);
+        } else {
+            toast.error(`${company} failed to ingest in "${title}"`, options);
+        }
+    };
+
+    const liveProgress = useConversationIngestionStatuses(conversations, handleIngestionFinished);
+
     const handleNewConversation = () => {
         createConversation(
             {},
@@ -159,9 +288,15 @@ export function ConversationSidebar() {
                                             <p className="truncate text-xs text-gray-600">
                                                 {getTickerLabel(conversation.companies)}
                                             </p>
-                                            <p className="text-xs text-gray-500">
-                                                {formatDate(conversation.updatedAt)}
-                                            </p>
+                                            <div className="flex items-center gap-2">
+                                                <p className="text-xs text-gray-500">
+                                                    {formatDate(conversation.updatedAt)}
+                                                </p>
+                                                <IngestionBadge
+                                                    status={conversation.ingestionStatus}
+                                                    live={liveProgress[conversation.id.toLowerCase()]}
+                                                />
+                                            </div>
                                         </div>
                                     </div>
                                     <button
@@ -0,0 +1,36 @@
+import { CheckCircle2, Clock, Loader2, XCircle } from "lucide-react";
+import { DocumentIngestionStatus } from "../api/document/getLibraryDocumentList";
+
+type DocumentIngestionBadgeProps = {
+    status: DocumentIngestionStatus | null;
+    error?: string | null;
+};
+
+const STATUS_BADGES: Record<
+    DocumentIngestionStatus,
+    { label: string; className: string; icon: typeof Clock }
+> = {
+    Pending: { label: "Queued", className: "bg-gray-100 text-gray-700", icon: Clock },
+    Processing: { label: "Processing", className: "bg-blue-50 text-blue-700", icon: Loader2 },
+    Completed: { label: "Ready", className: "bg-green-50 text-green-700", icon: CheckCircle2 },
+    Failed: { label: "Failed", className: "bg-red-50 text-red-700", icon: XCircle },
+};
+
+/**
+ * Ingestion state of an uploaded document, with the failure reason as its tooltip
+ */
+export function DocumentIngestionBadge({ status, error }: DocumentIngestionBadgeProps) {
+    // Uploads from before ingestion was tracked have no status but were ingested synchronously
+    const badge = STATUS_BADGES[status ?? "Completed"];
+    const Icon = badge.icon;
+
+    return (
+        <span
+            className={`inline-flex shrink-0 items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium ${badge.className}`}
+            title={error ?? undefined}
+        >
+            <Icon className={`h-3.5 w-3.5 ${status === "Processing" ? "animate-spin" : ""}`} />
+            {badge.label}
+        </span>
+    );
+}
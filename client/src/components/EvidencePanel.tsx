@@ -0,0 +1,294 @@
+import { ChevronDown, ChevronRight, X } from "lucide-react";
+import { ReactNode, useEffect, useMemo, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { useGetDocumentChunkContext } from "../api/document/getDocumentChunkContext";
+import {
+    EvidenceChunk,
+    EvidenceSource,
+    useGetMessageEvidence,
+} from "../api/message/getMessageEvidence";
+import { escapeRegExp, getDocumentViewerPath } from "../utils/documentViewer";
+
+// Words shorter than this are too common to be worth highlighting
+const MIN_HIGHLIGHT_TERM_LENGTH = 4;
+
+type EvidencePanelProps = {
+    conversationId: string;
+    messageId: string;
+    question?: string;
+    focusedDocumentId?: number | null;
+    onClose: () => void;
+};
+
+type EvidenceSourceSectionProps = {
+    conversationId: string;
+    messageId: string;
+    source: EvidenceSource;
+    citationNumber: number;
+    highlightTerms: string[];
+    isFocused: boolean;
+};
+
+type EvidenceChunkCardProps = {
+    conversationId: string;
+    messageId: string;
+    documentId: number;
+    chunk: EvidenceChunk;
+    highlightTerms: string[];
+};
+
+/**
+ * Splits the question into distinct lowercase terms worth highlighting in retrieved text
+ */
+const getHighlightTerms = (question?: string): string[] => {
+    if (!question) return [];
+
+    const terms = question
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((term) => term.length >= MIN_HIGHLIGHT_TERM_LENGTH);
+
+    return Array.from(new Set(terms));
+};
+
+/**
+ * Wraps occurrences of the question's terms in <mark> so readers can see why a chunk matched
+ */
+const highlightText = (text: string, terms: string[]): ReactNode => {
+    if (terms.length === 0) return text;
+
+    const pattern = new RegExp(`(${terms.map(escapeRegExp).join("|")})`, "gi");
+
+    return text.split(pattern).map((part, index) =>
+        index % 2 === 1 ? (
+            <mark key={index} className="rounded bg-yellow-100 px-0.5">
+                {part}
+            </mark>
+        ) : (
+            part
+        ),
+    );
+};
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+function EvidenceChunkCard({
+    conversationId,
+    messageId,
+    documentId,
+    chunk,
+    highlightTerms,
+}: EvidenceChunkCardProps) {
+    const [showContext, setShowContext] = useState(false);
+    const {
+        data: context,
+        isLoading: isLoadingContext,
+        error: contextError,
+    } = useGetDocumentChunkContext(documentId, chunk.chunkIndex, showContext);
+
+    return (
+        <div className="rounded-md border border-slate-200 bg-white p-3 text-sm">
+            <div className="mb-2 flex items-center justify-between text-xs text-slate-500">
+                <span>Chunk #{chunk.chunkIndex + 1}</span>
+                <span className="font-medium text-slate-700">
+                    Similarity {formatPercent(chunk.similarity)}
+                </span>
+            </div>
+
+            {showContext ? (
+                <div className="space-y-2">
+                    {isLoadingContext && (
+                        <div className="text-xs text-slate-500">
+                            Loading surrounding context...
+                        </div>
+                    )}
+                    {contextError && (
+                        <div className="text-xs text-red-600">
+                            Couldn't load surrounding context.
+                        </div>
+                    )}
+                    {context?.chunks.map((contextChunk) => (
+                        <p
+                            key={contextChunk.embeddingId}
+                            className={`whitespace-pre-wrap rounded p-2 ${
+                                contextChunk.isCited
+                                    ? "border-l-4 border-blue-400 bg-blue-50 text-slate-900"
+                                    : "text-slate-500"
+                            }`}
+                        >
+                            {contextChunk.isCited
+                                ? highlightText(contextChunk.text, highlightTerms)
+                                : contextChunk.text}
+                        </p>
+                    ))}
+                </div>
+            ) : (
+                <p className="whitespace-pre-wrap text-slate-800">
+                    {highlightText(chunk.text, highlightTerms)}
+                </p>
+            )}
+
+            <div className="mt-2 flex items-center gap-4">
+                <button
+                    type="button"
+                    onClick={() => setShowContext((prev) => !prev)}
+                    className="text-xs font-medium text-blue-600 hover:text-blue-800 hover:underline"
+                >
+                    {showContext ? "Show cited chunk only" : "Show surrounding context"}
+                </button>
+                <Link
+                    to={getDocumentViewerPath(conversationId, documentId, {
+                        messageId,
+                        chunkIndex: chunk.chunkIndex,
+                    })}
+                    className="text-xs font-medium text-blue-600 hover:text-blue-800 hover:underline"
+                >
+                    Open in document
+                </Link>
+            </div>
+        </div>
+    );
+}
+
+function EvidenceSourceSection({
+    conversationId,
+    messageId,
+    source,
+    citationNumber,
+    highlightTerms,
+    isFocused,
+}: EvidenceSourceSectionProps) {
+    const [isExpanded, setIsExpanded] = useState(true);
+    const sectionRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (isFocused) {
+            setIsExpanded(true);
+            sectionRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+        }
+    }, [isFocused]);
+
+    return (
+        <div
+            ref={sectionRef}
+            className={`rounded-lg border p-3 ${
+                isFocused ? "border-blue-300 bg-blue-50/40" : "border-slate-200 bg-slate-50"
+            }`}
+        >
+            <button
+                type="button"
+                onClick={() => setIsExpanded((prev) => !prev)}
+                className="flex w-full items-start gap-2 text-left"
+            >
+                {isExpanded ? (
+                    <ChevronDown className="mt-0.5 h-4 w-4 shrink-0 text-slate-500" />
+                ) : (
+                    <ChevronRight className="mt-0.5 h-4 w-4 shrink-0 text-slate-500" />
+                )}
+                <span className="text-xs font-semibold text-blue-700">
+                    {citationNumber}
+                </span>
+                <span className="flex-1 text-sm font-semibold text-slate-900">
+                    {source.documentTitle}
+                </span>
+                <span className="text-xs text-slate-500">
+                    {formatPercent(source.relevanceScore)}
+                </span>
+            </button>
+
+            {isExpanded && (
+                <div className="mt-3 space-y-2">
+                    {source.chunks.length === 0 ? (
+                        <div className="text-xs text-slate-500">
+                            No chunk-level evidence was recorded for this source.
+                        </div>
+                    ) : (
+                        source.chunks.map((chunk) => (
+                            <EvidenceChunkCard
+                                key={chunk.embeddingId}
+                                conversationId={conversationId}
+                                messageId={messageId}
+                                documentId={source.documentId}
+                                chunk={chunk}
+                                highlightTerms={highlightTerms}
+                            />
+                        ))
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
+
+/**
+ * Side panel showing the exact chunks retrieved for an assistant answer, grouped by cited document.
+ * Each chunk shows its similarity score with the question's terms highlighted, and can be expanded
+ * to show the neighbouring chunks from the same document.
+ *
+ * @param conversationId - ID of the conversation the message belongs to
+ * @param messageId - ID of the assistant message whose evidence is shown
+ * @param question - The user question the answer responded to, used for term highlighting
+ * @param focusedDocumentId - Document to scroll to when the panel opens from a specific source
+ * @param onClose - Called when the panel is dismissed
+ */
+export function EvidencePanel({
+    conversationId,
+    messageId,
+    question,
+    focusedDocumentId,
+    onClose,
+}: EvidencePanelProps) {
+    const { data: evidence, isLoading, error } = useGetMessageEvidence(
+        conversationId,
+        messageId,
+    );
+    const highlightTerms = useMemo(() => getHighlightTerms(question), [question]);
+
+    return (
+        <aside className="flex h-full min-h-0 w-[28rem] shrink-0 flex-col border-l border-gray-200 bg-white">
+            <div className="flex items-center justify-between border-b border-gray-200 px-4 py-3">
+                <div>
+                    <h3 className="text-sm font-semibold text-gray-900">Evidence</h3>
+                    {question && (
+                        <p className="line-clamp-1 text-xs text-gray-500">{question}</p>
+                    )}
+                </div>
+                <button
+                    type="button"
+                    onClick={onClose}
+                    className="rounded p-1 text-gray-500 hover:bg-gray-100 hover:text-gray-700"
+                    aria-label="Close evidence panel"
+                >
+                    <X className="h-4 w-4" />
+                </button>
+            </div>
+
+            <div className="flex-1 min-h-0 space-y-3 overflow-y-auto p-4">
+                {isLoading && (
+                    <div className="text-sm text-gray-500">Loading evidence...</div>
+                )}
+                {error && (
+                    <div className="text-sm text-red-600">
+                        Couldn't load the evidence for this answer.
+                    </div>
+                )}
+                {evidence && evidence.sources.length === 0 && (
+                    <div className="text-sm text-gray-500">
+                        No sources were cited for this answer.
+                    </div>
+                )}
+                {evidence?.sources.map((source, index) => (
+                    <EvidenceSourceSection
+                        key={source.documentId}
+                        conversationId={conversationId}
+                        messageId={messageId}
+                        source={source}
+                        citationNumber={index + 1}
+                        highlightTerms={highlightTerms}
+                        isFocused={source.documentId === focusedDocumentId}
+                    />
+                ))}
+            </div>
+        </aside>
+    );
+}
@@ -1,105 +1,320 @@
-import { Upload } from 'lucide-react';
-import { useQueryClient } from '@tanstack/react-query';
-import { useCallback, useState } from 'react';
+import { Archive, CheckCircle2, History, Pause, Play, RotateCcw, Upload, X, XCircle } from 'lucide-react';
 import { useDropzone } from 'react-dropzone';
-import { useUploadDocument } from '../api/document/uploadDocument';
+import { UploadDocumentResponse } from '../api/document/uploadDocument';
+import { isChunkedUpload, UploadItem, useUploadQueue } from '../hooks/useUploadQueue';
+import { ArchiveImport } from '../api/document/uploadDocumentInChunks';
+import {
+    ARCHIVE_ACCEPT,
+    formatFileSize,
+    isArchiveFile,
+    MAX_CHUNKED_UPLOAD_SIZE_BYTES,
+    UPLOAD_ACCEPT,
+} from '../utils/documents';
+import { PendingUpload } from '../utils/pendingUploads';
 
 type FileDropzoneProps = {
-    onFilesDrop: (files: File[]) => void;
     conversationId?: string;
+    // Renders inline within a page instead of filling the screen
+    compact?: boolean;
+    onUploaded?: (document: UploadDocumentResponse, file: File) => void;
 };
 
-export function FileDropzone({ onFilesDrop, conversationId }: FileDropzoneProps) {
-    const [uploading, setUploading] = useState(false);
-    const [uploadError, setUploadError] = useState<string | null>(null);
-    const queryClient = useQueryClient();
-
-    // Use our mutation hook
-    const { mutate: uploadDocument } = useUploadDocument();
-
-    const onDrop = useCallback(
-        async (acceptedFiles: File[]) => {
-            if (acceptedFiles.length === 0) return;
-
-            setUploading(true);
-            setUploadError(null);
-
-            try {
-                // Upload files one by one
-                const uploadPromises = acceptedFiles.map(
-                    file =>
-                        new Promise((resolve, reject) => {
-                            uploadDocument({
-                                conversationId,
-                                file,
-                            }, {
-                                onSuccess: () => resolve(file),
-                                onError: error => reject(error),
-                            });
-                        })
-                );
-
-                await Promise.all(uploadPromises);
-
-                // Invalidate relevant queries
-                if (conversationId) {
-                    queryClient.invalidateQueries({ queryKey: ['documents', conversationId] });
-                    queryClient.invalidateQueries({ queryKey: ['conversation', conversationId] });
-                } else {
-                    queryClient.invalidateQueries({ queryKey: ['documents'] });
-                }
-
-                // Call the parent callback to update the UI
-                onFilesDrop(acceptedFiles);
-            } catch (error) {
-                console.error('Upload failed:', error);
-                setUploadError('Failed to upload one or more files. Please try again.');
-            } finally {
-                setUploading(false);
-            }
-        },
-        [onFilesDrop, uploadDocument, queryClient, conversationId]
+type UploadQueueRowProps = {
+    item: UploadItem;
+    onCancel: () => void;
+    onPause: () => void;
+    onRetry: () => void;
+    onDismiss: () => void;
+};
+
+type InterruptedUploadRowProps = {
+    upload: PendingUpload;
+    onDiscard: () => void;
+};
+
+const STATUS_LABELS: Record<UploadItem['status'], string> = {
+    queued: 'Waiting',
+    uploading: 'Uploading',
+    paused: 'Paused',
+    uploaded: 'Uploaded',
+    failed: 'Failed',
+    cancelled: 'Cancelled',
+    rejected: 'Not supported',
+};
+
+const getProgressPercent = (loadedBytes: number, totalBytes: number) =>
+    totalBytes > 0 ? Math.min(100, Math.round((loadedBytes / totalBytes) * 100)) : 0;
+
+/**
+ * What an imported archive expanded into, with the files left out and why
+ */
+function ArchiveImportSummary({ archiveImport }: { archiveImport: ArchiveImport }) {
+    const { archiveName, documents, skipped } = archiveImport;
+
+    return (
+        <div className="text-xs text-gray-500">
+            {documents.length} document{documents.length === 1 ? '' : 's'} imported into{' '}
+            <span className="font-medium text-gray-700">{archiveName}</span>
+            {skipped.length > 0 && (
+                <details className="mt-0.5">
+                    <summary className="cursor-pointer text-amber-700">
+                        {skipped.length} file{skipped.length === 1 ? '' : 's'} skipped
+                    </summary>
+                    <ul className="mt-1 max-h-32 space-y-0.5 overflow-y-auto">
+                        {skipped.map(entry => (
+                            <li key={entry.path} className="flex justify-between gap-2">
+                                <span className="truncate" title={entry.path}>
+                                    {entry.path}
+                                </span>
+                                <span className="shrink-0">{entry.reason}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </details>
+            )}
+        </div>
+    );
+}
+
+function UploadQueueRow({ item, onCancel, onPause, onRetry, onDismiss }: UploadQueueRowProps) {
+    const progress = getProgressPercent(item.loadedBytes, item.file.size);
+    const isActive =
+        item.status === 'queued' || item.status === 'uploading' || item.status === 'paused';
+    const canRetry = item.status === 'failed' || item.status === 'cancelled';
+    // Every chunk is sent and the server is expanding the archive
+    const isImporting =
+        item.status === 'uploading' &&
+        isArchiveFile(item.file) &&
+        item.loadedBytes >= item.file.size;
+    const canPause = item.status === 'uploading' && isChunkedUpload(item.file) && !isImporting;
+    const FileIcon = isArchiveFile(item.file) ? Archive : Upload;
+
+    let statusLabel = STATUS_LABELS[item.status];
+    if (isImporting) {
+        statusLabel = 'Importing…';
+    } else if (item.status === 'uploading' || item.status === 'paused') {
+        const sent = `${formatFileSize(item.loadedBytes)} / ${formatFileSize(item.file.size)}`;
+        statusLabel = item.status === 'paused' ? `Paused · ${sent}` : sent;
+    }
+
+    return (
+        <li className="flex items-center gap-2 py-1.5 text-sm">
+            {item.status === 'uploaded' ? (
+                <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" />
+            ) : item.status === 'failed' || item.status === 'rejected' ? (
+                <XCircle className="h-4 w-4 shrink-0 text-red-600" />
+            ) : (
+                <FileIcon className="h-4 w-4 shrink-0 text-gray-400" />
+            )}
+            <div className="min-w-0 flex-1">
+                <div className="flex items-baseline justify-between gap-2">
+                    <span className="truncate text-gray-800" title={item.file.name}>
+                        {item.file.name}
+                    </span>
+                    <span className="shrink-0 text-xs text-gray-500">
+                        {statusLabel}
+                    </span>
+                </div>
+                {isActive && (
+                    <div className="mt-1 h-1 overflow-hidden rounded-full bg-gray-100">
+                        <div
+                            className={`h-full rounded-full transition-all ${
+                                item.status === 'paused' ? 'bg-gray-400' : 'bg-blue-600'
+                            }`}
+                            style={{ width: `${progress}%` }}
+                        />
+                    </div>
+                )}
+                {item.archiveImport && <ArchiveImportSummary archiveImport={item.archiveImport} />}
+                {item.error && <p className="text-xs text-red-600">{item.error}</p>}
+            </div>
+            {canPause && (
+                <button
+                    type="button"
+                    onClick={onPause}
+                    className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-700"
+                    title="Pause upload"
+                    aria-label={`Pause ${item.file.name}`}
+                >
+                    <Pause className="h-3.5 w-3.5" />
+                </button>
+            )}
+            {item.status === 'paused' && (
+                <button
+                    type="button"
+                    onClick={onRetry}
+                    className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-700"
+                    title="Resume upload"
+                    aria-label={`Resume ${item.file.name}`}
+                >
+                    <Play className="h-3.5 w-3.5" />
+                </button>
+            )}
+            {canRetry && (
+                <button
+                    type="button"
+                    onClick={onRetry}
+                    className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-700"
+                    title="Retry upload"
+                    aria-label={`Retry ${item.file.name}`}
+                >
+                    <RotateCcw className="h-3.5 w-3.5" />
+                </button>
+            )}
+            <button
+                type="button"
+                onClick={isActive ? onCancel : onDismiss}
+                className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-700"
+                title={isActive ? 'Cancel upload' : 'Dismiss'}
+                aria-label={isActive ? `Cancel ${item.file.name}` : `Dismiss ${item.file.name}`}
+            >
+                <X className="h-3.5 w-3.5" />
+            </button>
+        </li>
+    );
+}
+
+/**
+ * A chunked upload from an earlier visit. The browser can't reopen the file by itself, so the user
+ * drops it again to resume.
+ */
+function InterruptedUploadRow({ upload, onDiscard }: InterruptedUploadRowProps) {
+    return (
+        <li className="flex items-center gap-2 py-1.5 text-sm">
+            <History className="h-4 w-4 shrink-0 text-amber-600" />
+            <div className="min-w-0 flex-1">
+                <div className="flex items-baseline justify-between gap-2">
+                    <span className="truncate text-gray-800" title={upload.fileName}>
+                        {upload.fileName}
+                    </span>
+                    <span className="shrink-0 text-xs text-gray-500">
+                        {getProgressPercent(upload.receivedBytes, upload.fileSize)}% uploaded
+                    </span>
+                </div>
+                <p className="text-xs text-gray-500">Drop this file again to resume</p>
+            </div>
+            <button
+                type="button"
+                onClick={onDiscard}
+                className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-700"
+                title="Discard upload"
+                aria-label={`Discard ${upload.fileName}`}
+            >
+                <X className="h-3.5 w-3.5" />
+            </button>
+        </li>
     );
+}
 
+export function FileDropzone({ conversationId, compact = false, onUploaded }: FileDropzoneProps) {
+    const {
+        items,
+        interruptedUploads,
+        isUploading,
+        addFiles,
+        cancel,
+        pause,
+        retry,
+        dismiss,
+        clearFinished,
+        discardInterrupted,
+    } = useUploadQueue({ conversationId, onUploaded });
+
+    // Files are checked against the formats and size the server accepts before anything is sent
     const { getRootProps, getInputProps, isDragActive } = useDropzone({
-        onDrop,
-        accept: {
-            'application/pdf': ['.pdf'],
-        },
-        disabled: uploading,
+        onDrop: addFiles,
+        accept: { ...UPLOAD_ACCEPT, ...ARCHIVE_ACCEPT },
+        maxSize: MAX_CHUNKED_UPLOAD_SIZE_BYTES,
     });
 
+    const hasFinished = items.some(
+        item => item.status !== 'queued' && item.status !== 'uploading' && item.status !== 'paused'
+    );
+
     return (
-        <div className="flex h-screen flex-col items-center justify-center gap-6 py-9">
+        <div
+            className={
+                compact
+                    ? 'flex flex-col'
+                    : 'flex h-screen flex-col items-center justify-center gap-6 py-9'
+            }
+        >
             <div
                 {...getRootProps()}
-                className={`mx-4 w-full max-w-2xl rounded-lg p-8 shadow-lg transition-all duration-200 ${
-                    uploading
-                        ? 'cursor-not-allowed border-2 border-dashed border-gray-300 bg-gray-50'
-                        : isDragActive
-                          ? 'cursor-pointer border-2 border-dashed border-blue-400 bg-blue-50'
-                          : 'cursor-pointer border-2 border-dashed border-gray-300 bg-white hover:bg-gray-50'
+                className={`w-full cursor-pointer rounded-lg border-2 border-dashed transition-all duration-200 ${
+                    compact ? 'p-4' : 'mx-4 max-w-2xl p-8 shadow-lg'
+                } ${
+                    isDragActive
+                        ? 'border-blue-400 bg-blue-50'
+                        : 'border-gray-300 bg-white hover:bg-gray-50'
                 }`}
             >
                 <input {...getInputProps()} />
-                <div className="flex flex-col items-center gap-6 py-9">
-                    <div className="flex h-20 w-20 items-center justify-center rounded-full bg-gray-100">
-                        <Upload width={36} height={36} className="text-gray-600" />
+                <div
+                    className={`flex flex-col items-center ${compact ? 'gap-2 py-2' : 'gap-6 py-9'}`}
+                >
+                    <div
+                        className={`flex items-center justify-center rounded-full bg-gray-100 ${
+                            compact ? 'h-10 w-10' : 'h-20 w-20'
+                        }`}
+                    >
+                        <Upload
+                            width={compact ? 20 : 36}
+                            height={compact ? 20 : 36}
+                            className="text-gray-600"
+                        />
                     </div>
-                    <h2 className="text-center text-2xl font-semibold text-gray-900">
-                        {uploading ? 'Uploading...' : 'Drop your PDFs here'}
+                    <h2
+                        className={`text-center font-semibold text-gray-900 ${
+                            compact ? 'text-base' : 'text-2xl'
+                        }`}
+                    >
+                        Drop your documents here
                     </h2>
                     <p className="text-center text-gray-600">
-                        {uploading
-                            ? 'Please wait while your files are being uploaded'
-                            : 'Drag and drop your PDF documents, or click to select files'}
+                        {isUploading
+                            ? 'More files will be queued behind the current uploads'
+                            : 'Drag and drop your documents, or click to select files'}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                        PDF, HTML or plain text, or a ZIP of a data room, up to{' '}
+                        {formatFileSize(MAX_CHUNKED_UPLOAD_SIZE_BYTES)} each
                     </p>
-                    {uploadError && (
-                        <p className="text-center font-medium text-red-600">{uploadError}</p>
-                    )}
-                    <p className="text-xs text-gray-500">Only PDF files are accepted</p>
                 </div>
             </div>
+
+            {(items.length > 0 || interruptedUploads.length > 0) && (
+                <div className={`w-full ${compact ? 'mt-2' : 'mx-4 max-w-2xl'}`}>
+                    <ul className="divide-y divide-gray-100">
+                        {interruptedUploads.map(upload => (
+                            <InterruptedUploadRow
+                                key={upload.sessionId}
+                                upload={upload}
+                                onDiscard={() => discardInterrupted(upload.sessionId)}
+                            />
+                        ))}
+                        {items.map(item => (
+                            <UploadQueueRow
+                                key={item.id}
+                                item={item}
+                                onCancel={() => cancel(item.id)}
+                                onPause={() => pause(item.id)}
+                                onRetry={() => retry(item.id)}
+                                onDismiss={() => dismiss(item.id)}
+                            />
+                        ))}
+                    </ul>
+                    {hasFinished && (
+                        <button
+                            type="button"
+                            onClick={clearFinished}
+                            className="mt-1 text-xs text-gray-500 hover:text-gray-800"
+                        >
+                            Clear finished
+                        </button>
+                    )}
+                </div>
+            )}
         </div>
     );
 }
@@ -0,0 +1,128 @@
+import { CompanyFiling } from "../api/company/getCompanyFilings";
+import { FilingDateRange, getFilingPeriodDate } from "../utils/filings";
+
+type FilingPickerProps = {
+    filings: CompanyFiling[];
+    range: FilingDateRange;
+    onRangeChange: (range: FilingDateRange) => void;
+    selectedAccessions: string[];
+    onSelectedAccessionsChange: (accessionNumbers: string[]) => void;
+    disabled?: boolean;
+};
+
+/**
+ * Date range plus an individual-filing checklist for choosing exactly which filings to ingest.
+ * The range filters by reporting period; the checklist lists every filing in range so single
+ * filings can be left out.
+ *
+ * @param filings - Filings of the selected form types that fall inside the range
+ * @param range - Current period range (ISO dates, empty for open bounds)
+ * @param onRangeChange - Called when either bound changes
+ * @param selectedAccessions - Accession numbers currently ticked
+ * @param onSelectedAccessionsChange - Called with the new set of ticked accession numbers
+ * @param disabled - Disables all inputs, e.g. while ingestion is starting
+ */
+export function FilingPicker({
+    filings,
+    range,
+    onRangeChange,
+    selectedAccessions,
+    onSelectedAccessionsChange,
+    disabled,
+}: FilingPickerProps) {
+    const toggleFiling = (accessionNumber: string) => {
+        onSelectedAccessionsChange(
+            selectedAccessions.includes(accessionNumber)
+                ? selectedAccessions.filter((value) => value !== accessionNumber)
+                : [...selectedAccessions, accessionNumber],
+        );
+    };
+
+    return (
+        <div className="mt-3 space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+                <label className="text-xs font-medium text-slate-600">
+                    Period from
+                    <input
+                        type="date"
+                        className="mt-1 w-full rounded border border-slate-300 px-2 py-1 text-sm text-slate-900"
+                        value={range.from}
+                        max={range.to || undefined}
+                        onChange={(e) => onRangeChange({ ...range, from: e.target.value })}
+                        disabled={disabled}
+                    />
+                </label>
+                <label className="text-xs font-medium text-slate-600">
+                    Period to
+                    <input
+                        type="date"
+                        className="mt-1 w-full rounded border border-slate-300 px-2 py-1 text-sm text-slate-900"
+                        value={range.to}
+                        min={range.from || undefined}
+                        onChange={(e) => onRangeChange({ ...range, to: e.target.value })}
+                        disabled={disabled}
+                    />
+                </label>
+            </div>
+
+            <div className="flex items-center justify-between text-xs text-slate-500">
+                <span>
+                    {selectedAccessions.length} of {filings.length} filings selected
+                </span>
+                <div className="flex gap-3">
+                    <button
+                        type="button"
+                        className="font-medium text-slate-600 hover:text-slate-900 disabled:text-slate-400"
+                        onClick={() =>
+                            onSelectedAccessionsChange(
+                                filings.map((filing) => filing.accessionNumber),
+                            )
+                        }
+                        disabled={disabled || selectedAccessions.length === filings.length}
+                    >
+                        Select all
+                    </button>
+                    <button
+                        type="button"
+                        className="font-medium text-slate-600 hover:text-slate-900 disabled:text-slate-400"
+                        onClick={() => onSelectedAccessionsChange([])}
+                        disabled={disabled || selectedAccessions.length === 0}
+                    >
+                        Clear
+                    </button>
+                </div>
+            </div>
+
+            {filings.length === 0 ? (
+                <div className="text-sm text-slate-600">
+                    No filings of the selected types fall in this period.
+                </div>
+            ) : (
+                <div className="max-h-56 divide-y divide-slate-100 overflow-y-auto rounded border border-slate-200 bg-white">
+                    {filings.map((filing) => (
+                        <label
+                            key={filing.accessionNumber}
+                            className="flex items-center gap-3 px-3 py-2 text-sm text-slate-700"
+                        >
+                            <input
+                                type="checkbox"
+                                checked={selectedAccessions.includes(filing.accessionNumber)}
+                                onChange={() => toggleFiling(filing.accessionNumber)}
+                                disabled={disabled}
+                            />
+                            <span className="w-14 font-medium text-slate-900">
+                                {filing.formType}
+                            </span>
+                            <span className="flex-1 text-xs text-slate-500">
+                                Period {getFilingPeriodDate(filing)} • filed {filing.filingDate}
+                            </span>
+                            <span className="font-mono text-[11px] text-slate-400">
+                                {filing.accessionNumber}
+                            </span>
+                        </label>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
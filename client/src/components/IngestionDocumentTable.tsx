@@ -0,0 +1,241 @@
+import { RotateCcw } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { ProcessingDocumentStatus } from "../hooks/realtime/useDocumentProcessingUpdates";
+
+// Filings the SEC couldn't find at all are reported with DateOnly.MinValue
+const UNKNOWN_FILING_DATE = "0001-01-01";
+
+const STAGE_LABELS: Record<string, string> = {
+    Pending: "Queued",
+    Downloading: "Downloading",
+    Extracting: "Extracting text",
+    Chunking: "Chunking",
+    GeneratingEmbeddings: "Embedding",
+    PersistingEmbeddings: "Saving",
+    Completed: "Done",
+};
+
+type IngestionDocumentTableProps = {
+    documents: ProcessingDocumentStatus[];
+    showCompany?: boolean;
+    initialFailedOnly?: boolean;
+    onRetry?: (documents: ProcessingDocumentStatus[]) => void;
+    isRetrying?: boolean;
+};
+
+const getDocumentKey = (document: ProcessingDocumentStatus) =>
+    `${document.companyIdentifier ?? ""}:${document.accessionNumber}`;
+
+const isFailed = (document: ProcessingDocumentStatus) => !!document.errorMessage;
+
+const isActive = (document: ProcessingDocumentStatus) =>
+    !isFailed(document) && document.stage !== "Completed";
+
+const formatDuration = (milliseconds: number) => {
+    const seconds = Math.max(0, Math.round(milliseconds / 1000));
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}m ${seconds % 60}s`;
+};
+
+const getElapsed = (from: string | null | undefined, to: string | null | undefined, now: number) =>
+    from ? formatDuration((to ? new Date(to).getTime() : now) - new Date(from).getTime()) : null;
+
+/**
+ * Per-filing ingestion progress: the stage each filing is in, how long it has been running, and
+ * for failed filings, the stage it failed in and why. Failed rows are highlighted and can be
+ * filtered down to on their own.
+ *
+ * @param documents - Latest status of every filing in the batch(es)
+ * @param showCompany - Adds a company column, for conversations ingesting several companies
+ * @param initialFailedOnly - Starts with only failed filings shown
+ * @param onRetry - When given, failed filings can be ticked and retried; called with the filings to retry
+ * @param isRetrying - Disables the retry controls while a retry is being queued
+ */
+export function IngestionDocumentTable({
+    documents,
+    showCompany,
+    initialFailedOnly = false,
+    onRetry,
+    isRetrying,
+}: IngestionDocumentTableProps) {
+    const [failedOnly, setFailedOnly] = useState(initialFailedOnly);
+    const [now, setNow] = useState(() => Date.now());
+    const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+
+    const failedDocuments = useMemo(() => documents.filter(isFailed), [documents]);
+    const failedCount = failedDocuments.length;
+    // Only failed filings can be retried; drop selections that have since recovered
+    const selectedDocuments = failedDocuments.filter((document) =>
+        selectedKeys.includes(getDocumentKey(document)),
+    );
+    const hasActiveDocuments = documents.some(isActive);
+    const visibleDocuments = useMemo(
+        () => (failedOnly ? documents.filter(isFailed) : documents),
+        [documents, failedOnly],
+    );
+
+    // Tick while anything is still running so the timings stay live
+    useEffect(() => {
+        if (!hasActiveDocuments) return;
+        const timer = window.setInterval(() => setNow(Date.now()), 1000);
+        return () => window.clearInterval(timer);
+    }, [hasActiveDocuments]);
+
+    if (documents.length === 0) return null;
+
+    const toggleSelected = (document: ProcessingDocumentStatus) => {
+        const key = getDocumentKey(document);
+        setSelectedKeys((current) =>
+            current.includes(key) ? current.filter((value) => value !== key) : [...current, key],
+        );
+    };
+
+    const retry = (documentsToRetry: ProcessingDocumentStatus[]) => {
+        onRetry?.(documentsToRetry);
+        setSelectedKeys([]);
+    };
+
+    return (
+        <div className="mt-4 text-left">
+            <div className="mb-2 flex items-center justify-between text-xs text-slate-600">
+                <span>
+                    {documents.length} filing{documents.length === 1 ? "" : "s"}
+                    {failedCount > 0 && (
+                        <span className="font-medium text-red-600"> • {failedCount} failed</span>
+                    )}
+                </span>
+                {failedCount > 0 && (
+                    <div className="flex items-center gap-3">
+                        {onRetry && (
+                            <button
+                                type="button"
+                                className="inline-flex items-center gap-1 font-medium text-blue-600 hover:text-blue-800 disabled:text-slate-400"
+                                onClick={() =>
+                                    retry(
+                                        selectedDocuments.length > 0
+                                            ? selectedDocuments
+                                            : failedDocuments,
+                                    )
+                                }
+                                disabled={isRetrying}
+                            >
+                                <RotateCcw className="h-3.5 w-3.5" />
+                                {selectedDocuments.length > 0
+                                    ? `Retry selected (${selectedDocuments.length})`
+                                    : "Retry all failed"}
+                            </button>
+                        )}
+                        <label className="flex items-center gap-1.5">
+                            <input
+                                type="checkbox"
+                                checked={failedOnly}
+                                onChange={(e) => setFailedOnly(e.target.checked)}
+                            />
+                            Failed only
+                        </label>
+                    </div>
+                )}
+            </div>
+            <div className="max-h-64 overflow-y-auto rounded border border-slate-200 bg-white">
+                <table className="w-full text-xs">
+                    <thead className="sticky top-0 bg-slate-50 text-left text-slate-500">
+                        <tr>
+                            {onRetry && failedCount > 0 && (
+                                <th className="w-8 px-3 py-2">
+                                    <span className="sr-only">Select for retry</span>
+                                </th>
+                            )}
+                            <th className="px-3 py-2 font-medium">Filing</th>
+                            {showCompany && <th className="px-3 py-2 font-medium">Company</th>}
+                            <th className="px-3 py-2 font-medium">Stage</th>
+                            <th className="px-3 py-2 font-medium">Time</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                        {visibleDocuments.map((document) => {
+                            const failed = isFailed(document);
+                            const stageLabel = STAGE_LABELS[document.stage] ?? document.stage;
+                            const totalElapsed = getElapsed(
+                                document.startedAt,
+                                document.completedAt,
+                                now,
+                            );
+                            const stageElapsed = isActive(document)
+                                ? getElapsed(document.stageStartedAt, null, now)
+                                : null;
+
+                            return (
+                                <tr
+                                    key={getDocumentKey(document)}
+                                    className={failed ? "bg-red-50" : undefined}
+                                >
+                                    {onRetry && failedCount > 0 && (
+                                        <td className="px-3 py-2 align-top">
+                                            {failed && (
+                                                <input
+                                                    type="checkbox"
+                                                    aria-label={`Retry ${document.filingType} ${document.accessionNumber}`}
+                                                    checked={selectedKeys.includes(
+                                                        getDocumentKey(document),
+                                                    )}
+                                                    onChange={() => toggleSelected(document)}
+                                                    disabled={isRetrying}
+                                                />
+                                            )}
+                                        </td>
+                                    )}
+                                    <td className="px-3 py-2 align-top">
+                                        <div className="font-medium text-slate-900">
+                                            {document.filingType}
+                                            {document.filingDate !== UNKNOWN_FILING_DATE && (
+                                                <span className="font-normal text-slate-500">
+                                                    {" "}
+                                                    • filed {document.filingDate}
+                                                </span>
+                                            )}
+                                        </div>
+                                        <div className="font-mono text-[11px] text-slate-400">
+                                            {document.accessionNumber}
+                                        </div>
+                                        {failed && (
+                                            <div className="mt-1 text-red-700">
+                                                {document.errorMessage}
+                                            </div>
+                                        )}
+                                    </td>
+                                    {showCompany && (
+                                        <td className="px-3 py-2 align-top font-medium text-slate-700">
+                                            {document.companyIdentifier ?? "—"}
+                                        </td>
+                                    )}
+                                    <td className="px-3 py-2 align-top">
+                                        <span
+                                            className={`inline-flex rounded-full border px-2 py-0.5 font-medium ${
+                                                failed
+                                                    ? "border-red-200 bg-red-100 text-red-700"
+                                                    : document.stage === "Completed"
+                                                      ? "border-emerald-200 bg-emerald-50 text-emerald-700"
+                                                      : "border-blue-200 bg-blue-50 text-blue-700"
+                                            }`}
+                                        >
+                                            {failed ? `Failed: ${stageLabel}` : stageLabel}
+                                        </span>
+                                    </td>
+                                    <td className="px-3 py-2 align-top text-slate-600">
+                                        {totalElapsed ?? "—"}
+                                        {stageElapsed && (
+                                            <div className="text-[11px] text-slate-400">
+                                                {stageElapsed} in stage
+                                            </div>
+                                        )}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
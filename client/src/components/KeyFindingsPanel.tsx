@@ -0,0 +1,89 @@
+import { ChevronDown, ChevronRight, Pin, PinOff } from "lucide-react";
+import { useState } from "react";
+import { Message } from "./ChatInterface";
+
+const EXCERPT_LENGTH = 160;
+
+type KeyFindingsPanelProps = {
+    findings: Message[];
+    onSelect: (messageId: string) => void;
+    onUnpin: (messageId: string) => void;
+};
+
+/**
+ * First words of a message with the markdown syntax stripped, for a one-line preview
+ */
+const getExcerpt = (text: string) => {
+    const plain = text
+        .replace(/\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g, "")
+        .replace(/[#*_`>|~-]+/g, " ")
+        .replace(/\s+/g, " ")
+        .trim();
+    return plain.length > EXCERPT_LENGTH
+        ? `${plain.slice(0, EXCERPT_LENGTH).trimEnd()}…`
+        : plain;
+};
+
+/**
+ * Collapsible list of the messages pinned in a conversation, oldest pin first. Clicking a finding
+ * jumps to its message in the chat.
+ *
+ * @param findings - The pinned messages, in the order they were pinned
+ * @param onSelect - Called with the message to scroll to
+ * @param onUnpin - Called with the message to remove from the list
+ */
+export function KeyFindingsPanel({ findings, onSelect, onUnpin }: KeyFindingsPanelProps) {
+    const [isExpanded, setIsExpanded] = useState(true);
+
+    if (findings.length === 0) return null;
+
+    return (
+        <div className="mx-4 mt-3 rounded-md border border-amber-200 bg-amber-50/60">
+            <button
+                type="button"
+                onClick={() => setIsExpanded((prev) => !prev)}
+                className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm font-medium text-amber-900"
+                aria-expanded={isExpanded}
+            >
+                {isExpanded ? (
+                    <ChevronDown className="h-4 w-4" />
+                ) : (
+                    <ChevronRight className="h-4 w-4" />
+                )}
+                <Pin className="h-3.5 w-3.5" />
+                Key findings
+                <span className="text-xs font-normal text-amber-700">
+                    ({findings.length})
+                </span>
+            </button>
+            {isExpanded && (
+                <ul className="max-h-48 overflow-y-auto border-t border-amber-200 px-3 py-2">
+                    {findings.map((finding) => (
+                        <li key={finding.id} className="group flex items-start gap-2 py-1">
+                            <button
+                                type="button"
+                                onClick={() => onSelect(finding.id)}
+                                className="flex-1 text-left text-sm text-gray-800 hover:text-blue-700 hover:underline"
+                                title="Show in conversation"
+                            >
+                                <span className="mr-2 text-xs text-gray-500">
+                                    {finding.sender === "User" ? "You" : "AI"}
+                                </span>
+                                {getExcerpt(finding.text)}
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => onUnpin(finding.id)}
+                                className="rounded p-1 text-gray-400 opacity-0 transition-opacity group-hover:opacity-100 hover:bg-amber-100 hover:text-gray-700 focus:opacity-100"
+                                title="Unpin"
+                                aria-label="Unpin"
+                            >
+                                <PinOff className="h-3.5 w-3.5" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,128 @@
+import { Download, FileCode, FileText, FileType } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import {
+    getMemoFileName,
+    MemoFormat,
+    ResearchMemo,
+    toMemoMarkdown,
+} from "../utils/researchMemo";
+
+type MemoExportMenuProps = {
+    buildMemo: () => ResearchMemo;
+    /** Tooltip of the menu button, saying what gets exported */
+    title: string;
+    disabled?: boolean;
+};
+
+const FORMAT_CHOICES: { format: MemoFormat; label: string; icon: typeof FileText }[] = [
+    { format: "pdf", label: "PDF memo", icon: FileText },
+    { format: "docx", label: "Word memo (.docx)", icon: FileType },
+    { format: "md", label: "Markdown", icon: FileCode },
+];
+
+/**
+ * The PDF and Word writers are loaded on first use, since most sessions never export
+ */
+const toMemoBlob = async (memo: ResearchMemo, format: MemoFormat): Promise<Blob> => {
+    if (format === "pdf") {
+        const { toMemoPdf } = await import("../utils/researchMemoPdf");
+        return toMemoPdf(memo);
+    }
+    if (format === "docx") {
+        const { toMemoDocx } = await import("../utils/researchMemoDocx");
+        return toMemoDocx(memo);
+    }
+    return new Blob([toMemoMarkdown(memo)], { type: "text/markdown;charset=utf-8" });
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Exports a research memo as PDF, Word or Markdown: the company header, every question with its
+ * answer, and a numbered bibliography of the sources those answers cite
+ *
+ * @param buildMemo - Builds the memo when a format is picked, so it reflects the latest state
+ * @param title - Tooltip of the menu button
+ * @param disabled - Disables the control, e.g. while an answer is streaming
+ */
+export function MemoExportMenu({ buildMemo, title, disabled }: MemoExportMenuProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [exportingFormat, setExportingFormat] = useState<MemoFormat | null>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    // Close when clicking anywhere outside the menu
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const handleMouseDown = (event: MouseEvent) => {
+            if (!containerRef.current?.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener("mousedown", handleMouseDown);
+        return () => document.removeEventListener("mousedown", handleMouseDown);
+    }, [isOpen]);
+
+    const handleExport = async (format: MemoFormat) => {
+        const memo = buildMemo();
+        if (memo.entries.length === 0) {
+            toast.error("There are no answers to export yet");
+            return;
+        }
+
+        setExportingFormat(format);
+        try {
+            downloadBlob(await toMemoBlob(memo, format), getMemoFileName(memo, format));
+            setIsOpen(false);
+        } catch (error) {
+            console.error("Error exporting memo:", error);
+            toast.error("Couldn't export the memo. Please try again.");
+        } finally {
+            setExportingFormat(null);
+        }
+    };
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                type="button"
+                onClick={() => setIsOpen((prev) => !prev)}
+                disabled={disabled}
+                className="inline-flex items-center gap-1 rounded-full border border-slate-200 px-3 py-1 text-xs font-medium text-slate-600 hover:border-slate-400 hover:text-slate-900 disabled:opacity-50"
+                title={title}
+                aria-expanded={isOpen}
+            >
+                <Download className="h-3.5 w-3.5" />
+                Export
+            </button>
+
+            {isOpen && (
+                <div className="absolute right-0 top-full z-20 mt-2 w-52 rounded-lg border border-gray-200 bg-white p-1 shadow-lg">
+                    {FORMAT_CHOICES.map(({ format, label, icon: Icon }) => (
+                        <button
+                            key={format}
+                            type="button"
+                            onClick={() => handleExport(format)}
+                            disabled={exportingFormat !== null}
+                            className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                        >
+                            <Icon className="h-4 w-4 text-gray-500" />
+                            <span className="flex-1">{label}</span>
+                            {exportingFormat === format && (
+                                <span className="text-xs text-gray-500">Preparing…</span>
+                            )}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,196 @@
+import {
+    Copy,
+    FileText,
+    Pin,
+    PinOff,
+    ThumbsDown,
+    ThumbsUp,
+    Trash2,
+} from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import {
+    MessageFeedbackRating,
+    MessageMetadata,
+} from "../api/message/getMessageListByConversation";
+import { Button } from "./ui/button/Button";
+
+type MessageToolbarProps = {
+    text: string;
+    contentElementId: string;
+    isAnswer: boolean;
+    metadata?: MessageMetadata;
+    disabled?: boolean;
+    onDelete?: () => void;
+    onTogglePin?: () => void;
+    onFeedback?: (rating: MessageFeedbackRating | null, comment?: string) => void;
+};
+
+const copyToClipboard = (value: string, label: string) => {
+    navigator.clipboard
+        .writeText(value)
+        .then(() => toast.success(`Copied ${label}`))
+        .catch(() => toast.error("Couldn't copy to the clipboard"));
+};
+
+/**
+ * Hover toolbar on a chat bubble: copy as markdown or plain text, pin to the conversation's key
+ * findings, rate the answer (with an optional comment), and delete.
+ *
+ * @param text - The message's markdown source
+ * @param contentElementId - Element holding the rendered message, read for the plain-text copy
+ * @param isAnswer - Whether this is an assistant answer; only answers can be rated
+ * @param metadata - The message's metadata, for the current pin and rating
+ * @param disabled - Disables the actions that change the message
+ * @param onDelete - Deletes the message
+ * @param onTogglePin - Pins or unpins the message
+ * @param onFeedback - Saves a rating, or clears it when called with null
+ */
+export function MessageToolbar({
+    text,
+    contentElementId,
+    isAnswer,
+    metadata,
+    disabled,
+    onDelete,
+    onTogglePin,
+    onFeedback,
+}: MessageToolbarProps) {
+    const [pendingRating, setPendingRating] = useState<MessageFeedbackRating | null>(null);
+    const [comment, setComment] = useState("");
+    const currentRating = metadata?.feedback?.rating ?? null;
+
+    const handleRate = (rating: MessageFeedbackRating) => {
+        // Clicking the current rating again takes it back
+        if (rating === currentRating) {
+            onFeedback?.(null);
+            return;
+        }
+        setComment("");
+        setPendingRating(rating);
+    };
+
+    const submitFeedback = (withComment: boolean) => {
+        if (!pendingRating) return;
+        onFeedback?.(pendingRating, withComment ? comment : undefined);
+        setPendingRating(null);
+    };
+
+    const buttonClassName =
+        "rounded p-1.5 text-gray-500 hover:bg-gray-100 hover:text-gray-800 disabled:opacity-40";
+
+    return (
+        <div className="absolute -top-3 right-2 z-10">
+            <div className="flex items-center gap-0.5 rounded-md border border-gray-200 bg-white px-1 shadow-sm opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100">
+                <button
+                    type="button"
+                    className={buttonClassName}
+                    onClick={() => copyToClipboard(text, "as markdown")}
+                    title="Copy as markdown"
+                    aria-label="Copy as markdown"
+                >
+                    <Copy className="h-3.5 w-3.5" />
+                </button>
+                <button
+                    type="button"
+                    className={buttonClassName}
+                    onClick={() =>
+                        copyToClipboard(
+                            document.getElementById(contentElementId)?.innerText ?? text,
+                            "as plain text",
+                        )
+                    }
+                    title="Copy as plain text"
+                    aria-label="Copy as plain text"
+                >
+                    <FileText className="h-3.5 w-3.5" />
+                </button>
+                {onTogglePin && (
+                    <button
+                        type="button"
+                        className={buttonClassName}
+                        onClick={onTogglePin}
+                        disabled={disabled}
+                        title={metadata?.pinned ? "Unpin from key findings" : "Pin to key findings"}
+                        aria-label={metadata?.pinned ? "Unpin from key findings" : "Pin to key findings"}
+                    >
+                        {metadata?.pinned ? (
+                            <PinOff className="h-3.5 w-3.5" />
+                        ) : (
+                            <Pin className="h-3.5 w-3.5" />
+                        )}
+                    </button>
+                )}
+                {isAnswer && onFeedback && (
+                    <>
+                        <button
+                            type="button"
+                            className={`${buttonClassName} ${currentRating === "Up" ? "text-emerald-600" : ""}`}
+                            onClick={() => handleRate("Up")}
+                            disabled={disabled}
+                            title="Good answer"
+                            aria-label="Good answer"
+                            aria-pressed={currentRating === "Up"}
+                        >
+                            <ThumbsUp className="h-3.5 w-3.5" />
+                        </button>
+                        <button
+                            type="button"
+                            className={`${buttonClassName} ${currentRating === "Down" ? "text-red-600" : ""}`}
+                            onClick={() => handleRate("Down")}
+                            disabled={disabled}
+                            title="Bad answer"
+                            aria-label="Bad answer"
+                            aria-pressed={currentRating === "Down"}
+                        >
+                            <ThumbsDown className="h-3.5 w-3.5" />
+                        </button>
+                    </>
+                )}
+                {onDelete && (
+                    <button
+                        type="button"
+                        className={`${buttonClassName} hover:bg-red-50 hover:text-red-600`}
+                        onClick={onDelete}
+                        disabled={disabled}
+                        title="Delete message"
+                        aria-label="Delete message"
+                    >
+                        <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                )}
+            </div>
+
+            {pendingRating && (
+                <div className="absolute right-0 mt-1 w-72 rounded-md border border-gray-200 bg-white p-3 shadow-lg">
+                    <p className="mb-2 text-xs font-medium text-gray-700">
+                        {pendingRating === "Up"
+                            ? "What was good about this answer?"
+                            : "What was wrong with this answer?"}
+                    </p>
+                    <textarea
+                        value={comment}
+                        onChange={(e) => setComment(e.target.value)}
+                        placeholder="Add a comment (optional)"
+                        maxLength={2000}
+                        rows={3}
+                        autoFocus
+                        className="w-full resize-none rounded border border-gray-300 p-2 text-sm focus:border-transparent focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                    />
+                    <div className="mt-2 flex justify-end gap-2">
+                        <Button onClick={() => submitFeedback(false)} variant="neutral">
+                            Skip
+                        </Button>
+                        <Button
+                            onClick={() => submitFeedback(true)}
+                            disabled={!comment.trim()}
+                            variant="primary"
+                        >
+                            Submit
+                        </Button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
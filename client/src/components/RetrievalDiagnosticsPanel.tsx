@@ -0,0 +1,160 @@
+import { ChevronDown, ChevronRight, Info } from "lucide-react";
+import { useState } from "react";
+import { RetrievalDiagnostics } from "../api/message/getMessageListByConversation";
+
+type RetrievalDiagnosticsPanelProps = {
+    diagnostics: RetrievalDiagnostics;
+};
+
+type SimilarityHistogramProps = {
+    histogram: number[];
+    minSimilarity: number;
+};
+
+const formatSimilarity = (value: number) => value.toFixed(2);
+
+function ChosenByUserBadge() {
+    return <span className="ml-1 text-blue-700">(chosen by you)</span>;
+}
+
+/**
+ * Bar chart of candidate chunk similarities from 0 to 1, with the retrieval threshold marked
+ */
+function SimilarityHistogram({ histogram, minSimilarity }: SimilarityHistogramProps) {
+    const bucketWidth = 1 / histogram.length;
+    const maxCount = Math.max(...histogram, 1);
+
+    return (
+        <div>
+            <div className="relative flex h-16 items-end gap-px border-b border-gray-300">
+                {histogram.map((count, index) => {
+                    const from = index * bucketWidth;
+                    const isBelowThreshold = from + bucketWidth <= minSimilarity;
+                    return (
+                        <div
+                            key={index}
+                            className={`flex-1 rounded-t-sm ${
+                                isBelowThreshold ? "bg-gray-300" : "bg-cyan-500"
+                            }`}
+                            style={{ height: `${(count / maxCount) * 100}%` }}
+                            title={`${formatSimilarity(from)}–${formatSimilarity(
+                                from + bucketWidth,
+                            )}: ${count} chunk${count === 1 ? "" : "s"}`}
+                        />
+                    );
+                })}
+                {minSimilarity > 0 && (
+                    <div
+                        className="absolute inset-y-0 border-l border-dashed border-red-500"
+                        style={{ left: `${minSimilarity * 100}%` }}
+                        title={`Threshold ${formatSimilarity(minSimilarity)}`}
+                    />
+                )}
+            </div>
+            <div className="mt-0.5 flex justify-between text-[10px] text-gray-500">
+                <span>0</span>
+                <span>0.5</span>
+                <span>1</span>
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Collapsible "How this answer was built" panel under an answer: the rewritten query, the
+ * classified intent and why, the retrieval thresholds, and how similar the candidate chunks were.
+ * Choices the user made for the question are marked as such.
+ *
+ * @param diagnostics - The retrieval diagnostics saved with the answer
+ */
+export function RetrievalDiagnosticsPanel({ diagnostics }: RetrievalDiagnosticsPanelProps) {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const wasRewritten =
+        diagnostics.processedQuery.trim() !== diagnostics.originalQuery.trim();
+    const hasCandidates = diagnostics.similarityHistogram.some((count) => count > 0);
+
+    return (
+        <div className="mt-2 text-xs">
+            <button
+                type="button"
+                onClick={() => setIsExpanded((prev) => !prev)}
+                className="inline-flex items-center gap-1 text-gray-500 hover:text-gray-800"
+                aria-expanded={isExpanded}
+            >
+                {isExpanded ? (
+                    <ChevronDown className="h-3.5 w-3.5" />
+                ) : (
+                    <ChevronRight className="h-3.5 w-3.5" />
+                )}
+                <Info className="h-3.5 w-3.5" />
+                How this answer was built
+            </button>
+            {isExpanded && (
+                <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 rounded-md border border-gray-200 bg-white p-3 text-gray-700">
+                    <dt className="font-medium text-gray-500">Search query</dt>
+                    <dd>
+                        {diagnostics.processedQuery}
+                        {!wasRewritten && (
+                            <span className="ml-1 text-gray-400">(unchanged)</span>
+                        )}
+                    </dd>
+
+                    <dt className="font-medium text-gray-500">Intent</dt>
+                    <dd>
+                        <span className="rounded-full bg-slate-100 px-2 py-0.5 font-medium text-slate-700">
+                            {diagnostics.intent}
+                        </span>
+                        {diagnostics.intentOverridden && <ChosenByUserBadge />}
+                        {diagnostics.intentReasoning && !diagnostics.intentOverridden && (
+                            <p className="mt-1 text-gray-600">{diagnostics.intentReasoning}</p>
+                        )}
+                    </dd>
+
+                    <dt className="font-medium text-gray-500">Thresholds</dt>
+                    <dd>
+                        Top {diagnostics.maxK ?? "unlimited"} chunks, similarity ≥{" "}
+                        {formatSimilarity(diagnostics.minSimilarity)}
+                        {diagnostics.thresholdsOverridden && <ChosenByUserBadge />}
+                        {diagnostics.configDescription && (
+                            <p className="mt-1 text-gray-600">
+                                {diagnostics.configDescription}
+                            </p>
+                        )}
+                    </dd>
+
+                    {diagnostics.modelTier && (
+                        <>
+                            <dt className="font-medium text-gray-500">Model</dt>
+                            <dd>
+                                {diagnostics.modelTier}
+                                <ChosenByUserBadge />
+                            </dd>
+                        </>
+                    )}
+
+                    <dt className="font-medium text-gray-500">Retrieved</dt>
+                    <dd>
+                        {diagnostics.totalChunks} chunk
+                        {diagnostics.totalChunks === 1 ? "" : "s"} from{" "}
+                        {diagnostics.uniqueDocuments} document
+                        {diagnostics.uniqueDocuments === 1 ? "" : "s"}
+                        {diagnostics.referencedChunks > 0 &&
+                            ` (${diagnostics.referencedChunks} from referenced documents)`}
+                    </dd>
+
+                    <dt className="font-medium text-gray-500">Similarity</dt>
+                    <dd>
+                        {hasCandidates ? (
+                            <SimilarityHistogram
+                                histogram={diagnostics.similarityHistogram}
+                                minSimilarity={diagnostics.minSimilarity}
+                            />
+                        ) : (
+                            <span className="text-gray-500">No chunks matched</span>
+                        )}
+                    </dd>
+                </dl>
+            )}
+        </div>
+    );
+}
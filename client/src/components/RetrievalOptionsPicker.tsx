@@ -0,0 +1,225 @@
+import { SlidersHorizontal, X } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import {
+    LlmModelTier,
+    RetrievalOptions,
+} from "../api/message/getMessageListByConversation";
+import {
+    DEFAULT_CUSTOM_MAX_K,
+    DEFAULT_CUSTOM_MIN_SIMILARITY,
+    RetrievalMode,
+    describeRetrievalOptions,
+    getRetrievalMode,
+} from "../utils/retrievalOptions";
+
+type RetrievalOptionsPickerProps = {
+    value: RetrievalOptions;
+    onChange: (value: RetrievalOptions) => void;
+    disabled?: boolean;
+};
+
+type Choice<T> = {
+    value: T;
+    label: string;
+    description: string;
+};
+
+const MODE_CHOICES: Choice<RetrievalMode>[] = [
+    { value: "Auto", label: "Auto", description: "Let the classifier decide" },
+    { value: "Regular", label: "Regular", description: "The most relevant passages" },
+    {
+        value: "Exhaustive",
+        label: "Exhaustive",
+        description: "Every related passage, e.g. \"list all...\"",
+    },
+    { value: "Custom", label: "Custom", description: "Set k and the similarity threshold" },
+];
+
+const TIER_CHOICES: Choice<LlmModelTier | null>[] = [
+    { value: null, label: "Default", description: "The standard answer model" },
+    { value: "Fast", label: "Fast", description: "Quickest and cheapest" },
+    { value: "Standard", label: "Standard", description: "Balanced" },
+    { value: "Premium", label: "Premium", description: "Best for complex reasoning" },
+];
+
+// Mirror the server's validation ranges so a stray keystroke can't get the question rejected
+const MAX_K_LIMIT = 1000;
+
+const parseOptionalNumber = (value: string, min: number, max: number, isInteger = false) => {
+    const parsed = isInteger ? Math.round(Number(value)) : Number(value);
+    return value === "" || Number.isNaN(parsed) ? null : Math.min(Math.max(parsed, min), max);
+};
+
+/**
+ * Composer control that overrides retrieval for the next question: force the Regular or
+ * Exhaustive intent or set a custom k/threshold, and choose the model tier.
+ *
+ * @param value - The overrides for the next question; empty for the defaults
+ * @param onChange - Called with the new overrides
+ * @param disabled - Disables the control, e.g. while an answer is streaming
+ */
+export function RetrievalOptionsPicker({ value, onChange, disabled }: RetrievalOptionsPickerProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const mode = getRetrievalMode(value);
+    const summary = describeRetrievalOptions(value);
+
+    // Close when clicking anywhere outside the popover
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const handleMouseDown = (event: MouseEvent) => {
+            if (!containerRef.current?.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener("mousedown", handleMouseDown);
+        return () => document.removeEventListener("mousedown", handleMouseDown);
+    }, [isOpen]);
+
+    const handleModeChange = (nextMode: RetrievalMode) => {
+        const modelTier = value.modelTier;
+        if (nextMode === "Auto") {
+            onChange({ modelTier });
+        } else if (nextMode === "Custom") {
+            onChange({
+                modelTier,
+                maxK: value.maxK ?? DEFAULT_CUSTOM_MAX_K,
+                minSimilarity: value.minSimilarity ?? DEFAULT_CUSTOM_MIN_SIMILARITY,
+            });
+        } else {
+            onChange({ modelTier, intent: nextMode });
+        }
+    };
+
+    const choiceClassName = (isSelected: boolean) =>
+        `rounded-md border px-2 py-1.5 text-left ${
+            isSelected
+                ? "border-blue-500 bg-blue-50 text-blue-800"
+                : "border-gray-200 text-gray-700 hover:bg-gray-50"
+        }`;
+
+    return (
+        <div ref={containerRef} className="relative flex">
+            <button
+                type="button"
+                onClick={() => setIsOpen((prev) => !prev)}
+                disabled={disabled}
+                className={`inline-flex items-center gap-1.5 rounded-lg border px-3 text-sm disabled:opacity-50 ${
+                    summary
+                        ? "border-blue-300 bg-blue-50 text-blue-800"
+                        : "border-gray-300 bg-white text-gray-600 hover:bg-gray-50"
+                }`}
+                title="Retrieval and model for the next question"
+                aria-expanded={isOpen}
+            >
+                <SlidersHorizontal className="h-4 w-4" />
+                <span className="max-w-[10rem] truncate">{summary ?? "Auto"}</span>
+            </button>
+
+            {isOpen && (
+                <div className="absolute right-0 bottom-full z-20 mb-2 w-80 rounded-lg border border-gray-200 bg-white p-3 text-xs shadow-lg">
+                    <div className="mb-2 flex items-center justify-between">
+                        <span className="text-sm font-medium text-gray-900">
+                            Next question only
+                        </span>
+                        <button
+                            type="button"
+                            onClick={() => setIsOpen(false)}
+                            className="rounded p-0.5 text-gray-400 hover:text-gray-700"
+                            aria-label="Close"
+                        >
+                            <X className="h-4 w-4" />
+                        </button>
+                    </div>
+
+                    <div className="mb-1 font-medium text-gray-500">Retrieval</div>
+                    <div className="grid grid-cols-2 gap-1.5">
+                        {MODE_CHOICES.map((choice) => (
+                            <button
+                                key={choice.value}
+                                type="button"
+                                onClick={() => handleModeChange(choice.value)}
+                                className={choiceClassName(mode === choice.value)}
+                                aria-pressed={mode === choice.value}
+                            >
+                                <div className="font-medium">{choice.label}</div>
+                                <div className="text-[11px] text-gray-500">
+                                    {choice.description}
+                                </div>
+                            </button>
+                        ))}
+                    </div>
+
+                    {mode === "Custom" && (
+                        <div className="mt-2 grid grid-cols-2 gap-2">
+                            <label className="flex flex-col gap-1 text-gray-600">
+                                Top k
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={MAX_K_LIMIT}
+                                    value={value.maxK ?? ""}
+                                    onChange={(e) =>
+                                        onChange({
+                                            ...value,
+                                            maxK: parseOptionalNumber(
+                                                e.target.value,
+                                                1,
+                                                MAX_K_LIMIT,
+                                                true,
+                                            ),
+                                        })
+                                    }
+                                    className="rounded border border-gray-300 px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                                />
+                            </label>
+                            <label className="flex flex-col gap-1 text-gray-600">
+                                Min similarity
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={1}
+                                    step={0.05}
+                                    value={value.minSimilarity ?? ""}
+                                    onChange={(e) =>
+                                        onChange({
+                                            ...value,
+                                            minSimilarity: parseOptionalNumber(
+                                                e.target.value,
+                                                0,
+                                                1,
+                                            ),
+                                        })
+                                    }
+                                    className="rounded border border-gray-300 px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                                />
+                            </label>
+                        </div>
+                    )}
+
+                    <div className="mt-3 mb-1 font-medium text-gray-500">Model</div>
+                    <div className="grid grid-cols-2 gap-1.5">
+                        {TIER_CHOICES.map((choice) => {
+                            const isSelected = (value.modelTier ?? null) === choice.value;
+                            return (
+                                <button
+                                    key={choice.label}
+                                    type="button"
+                                    onClick={() => onChange({ ...value, modelTier: choice.value })}
+                                    className={choiceClassName(isSelected)}
+                                    aria-pressed={isSelected}
+                                >
+                                    <div className="font-medium">{choice.label}</div>
+                                    <div className="text-[11px] text-gray-500">
+                                        {choice.description}
+                                    </div>
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
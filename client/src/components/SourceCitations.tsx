@@ -1,103 +1,240 @@
-import { ExternalLink } from 'lucide-react';
+import { FileSearch, FileText } from 'lucide-react';
+import { Link, useParams } from 'react-router-dom';
 import { DocumentSource } from '../api/message/getMessageListByConversation';
+import { getCitationElementId } from '../utils/citations';
+import { getDocumentViewerPath } from '../utils/documentViewer';
 import { HoverCard, HoverCardContent, HoverCardTrigger } from './ui/hover-card';
 
 type SourceCitationsProps = {
     sources?: DocumentSource[];
+    messageId: string;
+    highlightedCitation?: number | null;
+    onViewEvidence?: (documentId?: number) => void;
+};
+
+type CitationMarkerProps = {
+    messageId: string;
+    citationNumber: number;
+    source: DocumentSource;
+    onClick: () => void;
+    onViewEvidence?: (documentId?: number) => void;
+};
+
+type SourceGroup = {
+    label: string | null;
+    entries: { source: DocumentSource; citationNumber: number }[];
+};
+
+type SourceHoverCardContentProps = {
+    source: DocumentSource;
+    messageId: string;
+    onViewEvidence?: (documentId?: number) => void;
+};
+
+/**
+ * Hover card body shared by source chips and inline citation markers.
+ */
+function SourceHoverCardContent({ source, messageId, onViewEvidence }: SourceHoverCardContentProps) {
+    const { conversationId } = useParams<{ conversationId: string }>();
+
+    return (
+        <HoverCardContent className="w-80">
+            <div className="space-y-3">
+                <div>
+                    <h4 className="mb-2 font-semibold text-gray-900">{source.documentTitle}</h4>
+
+                    <div className="space-y-1.5 text-sm text-gray-600">
+                        {source.companyName && (
+                            <div>
+                                <span className="font-medium">Company:</span>{' '}
+                                <span>
+                                    {source.companyName}
+                                    {source.companyTicker ? ` (${source.companyTicker})` : ''}
+                                </span>
+                            </div>
+                        )}
+                        <div>
+                            <span className="font-medium">Relevance Score:</span>{' '}
+                            <span>{(source.relevanceScore * 100).toFixed(1)}%</span>
+                        </div>
+                    </div>
+                </div>
+
+                <div className="flex items-center gap-4 border-t pt-2">
+                    {conversationId && (
+                        <Link
+                            to={getDocumentViewerPath(conversationId, source.documentId, { messageId })}
+                            className="inline-flex items-center gap-1.5 text-sm font-medium text-blue-600 hover:text-blue-800 hover:underline"
+                        >
+                            <span>View Document</span>
+                            <FileText className="h-3.5 w-3.5" />
+                        </Link>
+                    )}
+                    {onViewEvidence && (
+                        <button
+                            type="button"
+                            onClick={() => onViewEvidence(source.documentId)}
+                            className="inline-flex items-center gap-1.5 text-sm font-medium text-blue-600 hover:text-blue-800 hover:underline"
+                        >
+                            <span>View evidence</span>
+                            <FileSearch className="h-3.5 w-3.5" />
+                        </button>
+                    )}
+                </div>
+            </div>
+        </HoverCardContent>
+    );
+}
+
+/**
+ * Inline [n] marker rendered inside an assistant answer.
+ * Hovering shows the same card as the source chip; clicking jumps to the chip.
+ *
+ * @param messageId - ID of the message the citation belongs to
+ * @param citationNumber - 1-based position of the source in the message's sources
+ * @param source - The cited document source
+ * @param onClick - Called when the marker is clicked
+ * @param onViewEvidence - Optional handler that opens the evidence panel for the source
+ */
+export function CitationMarker({ messageId, citationNumber, source, onClick, onViewEvidence }: CitationMarkerProps) {
+    return (
+        <HoverCard openDelay={150}>
+            <HoverCardTrigger asChild>
+                <button
+                    type="button"
+                    onClick={onClick}
+                    className="mx-0.5 inline-flex h-4 min-w-4 items-center justify-center rounded bg-blue-100 px-1 align-super text-[10px] font-semibold text-blue-700 transition-colors hover:bg-blue-200"
+                    aria-label={`Source ${citationNumber}: ${source.documentTitle}`}
+                >
+                    {citationNumber}
+                </button>
+            </HoverCardTrigger>
+            <SourceHoverCardContent source={source} messageId={messageId} onViewEvidence={onViewEvidence} />
+        </HoverCard>
+    );
+}
+
+/**
+ * Groups sources by company when an answer cites more than one company's filings, so comparison
+ * answers show which sources back which company. Citation numbers keep their original order.
+ */
+const groupSourcesByCompany = (sources: DocumentSource[]): SourceGroup[] => {
+    const entries = sources.map((source, index) => ({ source, citationNumber: index + 1 }));
+    const companyTickers = new Set(sources.map((source) => source.companyTicker).filter(Boolean));
+
+    if (companyTickers.size <= 1) {
+        return [{ label: null, entries }];
+    }
+
+    const groups = new Map<string, SourceGroup>();
+    for (const entry of entries) {
+        const label = entry.source.companyName
+            ? `${entry.source.companyName}${entry.source.companyTicker ? ` (${entry.source.companyTicker})` : ''}`
+            : 'Other documents';
+        const group = groups.get(label) ?? { label, entries: [] };
+        group.entries.push(entry);
+        groups.set(label, group);
+    }
+
+    return Array.from(groups.values());
 };
 
 /**
  * Displays source citations for assistant messages with hover card previews.
  * Shows document titles as triggers, and displays detailed metadata in hover cards.
+ * Chips are numbered to match the inline [n] markers in the answer text, and are grouped by
+ * company when the answer draws on several companies' filings.
  *
  * @param sources - Optional array of document sources to display
+ * @param messageId - ID of the message the sources belong to, used for chip anchors
+ * @param highlightedCitation - Citation number whose chip should be highlighted
+ * @param onViewEvidence - Optional handler that opens the chunk-level evidence panel
  */
-export function SourceCitations({ sources }: SourceCitationsProps) {
+export function SourceCitations({ sources, messageId, highlightedCitation, onViewEvidence }: SourceCitationsProps) {
     if (!sources || sources.length === 0) {
         return null;
     }
 
-    // Fallback PDF link for when documentLink is null
-    const FALLBACK_PDF = 'https://mozilla.github.io/pdf.js/web/compressed.tracemonkey-pldi-09.pdf';
-
     const shouldTruncate = (title: string) => title.length > 50;
+    const sourceGroups = groupSourcesByCompany(sources);
 
     return (
         <div className="mt-3 border-t border-gray-200 pt-3">
-            <h4 className="mb-2 flex items-center gap-1.5 text-xs font-semibold text-gray-700">
-                <span>📚</span>
-                <span>Sources ({sources.length})</span>
-            </h4>
-            <div className="flex flex-wrap gap-2">
-                {sources.map(source => {
-                    const documentUrl = source.documentLink || FALLBACK_PDF;
-                    const isTruncated = shouldTruncate(source.documentTitle);
-
-                    return (
-                        <HoverCard key={source.documentId}>
-                            <HoverCardTrigger asChild>
-                                <button
-                                    className="group relative inline-flex items-center gap-1.5 overflow-hidden rounded-full border border-gray-300 bg-gray-50 px-3 py-1.5 text-sm text-gray-700 transition-colors hover:border-gray-400 hover:bg-gray-100"
-                                    style={{ maxWidth: '250px' }}
-                                >
-                                    <span className="text-xs">📄</span>
-                                    <span
-                                        className={`${isTruncated ? 'relative pr-4' : ''}`}
-                                        style={
-                                            isTruncated
-                                                ? {
-                                                      display: 'block',
-                                                      whiteSpace: 'nowrap',
-                                                      overflow: 'hidden',
-                                                      maskImage:
-                                                          'linear-gradient(to right, black 80%, transparent 100%)',
-                                                      WebkitMaskImage:
-                                                          'linear-gradient(to right, black 80%, transparent 100%)',
-                                                  }
-                                                : {
-                                                      whiteSpace: 'nowrap',
-                                                  }
-                                        }
-                                    >
-                                        {source.documentTitle}
-                                    </span>
-                                </button>
-                            </HoverCardTrigger>
-                            <HoverCardContent className="w-80">
-                                <div className="space-y-3">
-                                    <div>
-                                        <h4 className="mb-2 font-semibold text-gray-900">
-                                            {source.documentTitle}
-                                        </h4>
-
-                                        <div className="space-y-1.5 text-sm text-gray-600">
-                                            <div>
-                                                <span className="font-medium">
-                                                    Relevance Score:
-                                                </span>{' '}
-                                                <span>
-                                                    {(source.relevanceScore * 100).toFixed(1)}%
+            <div className="mb-2 flex items-center justify-between">
+                <h4 className="flex items-center gap-1.5 text-xs font-semibold text-gray-700">
+                    <span>📚</span>
+                    <span>Sources ({sources.length})</span>
+                </h4>
+                {onViewEvidence && (
+                    <button
+                        type="button"
+                        onClick={() => onViewEvidence()}
+                        className="inline-flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-800 hover:underline"
+                    >
+                        <FileSearch className="h-3.5 w-3.5" />
+                        <span>View evidence</span>
+                    </button>
+                )}
+            </div>
+            <div className="space-y-2">
+                {sourceGroups.map((group) => (
+                    <div key={group.label ?? 'all'}>
+                        {group.label && (
+                            <div className="mb-1 text-xs font-medium text-gray-500">{group.label}</div>
+                        )}
+                        <div className="flex flex-wrap gap-2">
+                            {group.entries.map(({ source, citationNumber }) => {
+                                const isTruncated = shouldTruncate(source.documentTitle);
+                                const isHighlighted = highlightedCitation === citationNumber;
+
+                                return (
+                                    <HoverCard key={source.documentId}>
+                                        <HoverCardTrigger asChild>
+                                            <button
+                                                id={getCitationElementId(messageId, citationNumber)}
+                                                className={`group relative inline-flex items-center gap-1.5 overflow-hidden rounded-full border px-3 py-1.5 text-sm text-gray-700 transition-colors hover:border-gray-400 hover:bg-gray-100 ${
+                                                    isHighlighted
+                                                        ? 'border-blue-400 bg-blue-50 ring-2 ring-blue-300'
+                                                        : 'border-gray-300 bg-gray-50'
+                                                }`}
+                                                style={{ maxWidth: '250px' }}
+                                            >
+                                                <span className="text-xs font-semibold text-blue-700">
+                                                    {citationNumber}
+                                                </span>
+                                                <span
+                                                    className={`${isTruncated ? 'relative pr-4' : ''}`}
+                                                    style={
+                                                        isTruncated
+                                                            ? {
+                                                                  display: 'block',
+                                                                  whiteSpace: 'nowrap',
+                                                                  overflow: 'hidden',
+                                                                  maskImage:
+                                                                      'linear-gradient(to right, black 80%, transparent 100%)',
+                                                                  WebkitMaskImage:
+                                                                      'linear-gradient(to right, black 80%, transparent 100%)',
+                                                              }
+                                                            : {
+                                                                  whiteSpace: 'nowrap',
+                                                              }
+                                                    }
+                                                >
+                                                    {source.documentTitle}
                                                 </span>
-                                            </div>
-                                        </div>
-                                    </div>
-
-                                    <div className="border-t pt-2">
-                                        <a
-                                            href={documentUrl}
-                                            target="_blank"
-                                            rel="noopener noreferrer"
-                                            className="inline-flex items-center gap-1.5 text-sm font-medium text-blue-600 hover:text-blue-800 hover:underline"
-                                        >
-                                            <span>View Document</span>
-                                            <ExternalLink className="h-3.5 w-3.5" />
-                                        </a>
-                                    </div>
-                                </div>
-                            </HoverCardContent>
-                        </HoverCard>
-                    );
-                })}
+                                            </button>
+                                        </HoverCardTrigger>
+                                        <SourceHoverCardContent
+                                            source={source}
+                                            messageId={messageId}
+                                            onViewEvidence={onViewEvidence}
+                                        />
+                                    </HoverCard>
+                                );
+                            })}
+                        </div>
+                    </div>
+                ))}
             </div>
         </div>
     );
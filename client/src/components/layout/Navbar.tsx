@@ -1,7 +1,8 @@
-import { LogOut, Moon, Sun } from "lucide-react";
+import { Bell, BellOff, FileText, LogOut, Moon, Search, Sun } from "lucide-react";
 import { Avatar, Text } from "@radix-ui/themes";
 import { Link, useNavigate } from "react-router-dom";
 import { useAuth } from "../../contexts/AuthContext";
+import { useIngestionNotifications } from "../../hooks/realtime/useIngestionNotifications";
 import { useTheme } from "../../providers/ThemeProvider";
 import { Button } from "../ui/button/Button";
 
@@ -11,12 +12,27 @@ export const Navbar = () => {
     const { isAuthenticated, user, logout } = useAuth();
     const { theme, setTheme } = useTheme();
     const navigate = useNavigate();
+    const notifications = useIngestionNotifications();
 
     const handleLogout = async () => {
         await logout();
         navigate("/login");
     };
 
+    const toggleNotifications = () => {
+        if (notifications.isEnabled) {
+            notifications.disable();
+        } else {
+            notifications.enable().catch(console.error);
+        }
+    };
+
+    const notificationsLabel = notifications.isEnabled
+        ? "Turn off ingestion notifications"
+        : notifications.permission === "denied"
+          ? "Notifications are blocked in your browser settings"
+          : "Notify me when ingestion finishes";
+
     const toggleTheme = () => {
         setTheme(theme === "dark" ? "light" : "dark");
     };
@@ -34,6 +50,20 @@ export const Navbar = () => {
                     <div className="flex items-center space-x-4">
                         {isAuthenticated ? (
                             <div className="flex items-center space-x-4">
+                                <Link
+                                    to="/search"
+                                    className="flex items-center gap-1.5 rounded-lg px-2 py-1.5 text-sm text-gray-700 no-underline hover:bg-gray-200"
+                                >
+                                    <Search className="h-4 w-4" />
+                                    Search
+                                </Link>
+                                <Link
+                                    to="/documents"
+                                    className="flex items-center gap-1.5 rounded-lg px-2 py-1.5 text-sm text-gray-700 no-underline hover:bg-gray-200"
+                                >
+                                    <FileText className="h-4 w-4" />
+                                    My documents
+                                </Link>
                                 <div className="flex items-center space-x-2">
                                     <Avatar
                                         size="2"
@@ -52,6 +82,25 @@ export const Navbar = () => {
                                         {user?.email}
                                     </Text>
                                 </div>
+                                {notifications.isSupported && (
+                                    <button
+                                        onClick={toggleNotifications}
+                                        disabled={
+                                            !notifications.isEnabled &&
+                                            notifications.permission === "denied"
+                                        }
+                                        className="rounded-lg p-2 text-gray-600 hover:bg-gray-200 disabled:opacity-50"
+                                        aria-label={notificationsLabel}
+                                        aria-pressed={notifications.isEnabled}
+                                        title={notificationsLabel}
+                                    >
+                                        {notifications.isEnabled ? (
+                                            <Bell className="h-5 w-5" />
+                                        ) : (
+                                            <BellOff className="h-5 w-5" />
+                                        )}
+                                    </button>
+                                )}
                                 <Button
                                     onClick={handleLogout}
                                     variant="soft"
@@ -0,0 +1,47 @@
+import * as signalR from "@microsoft/signalr";
+import { createContext, useContext } from "react";
+
+/**
+ * Events the document processing hub pushes to clients. Every payload carries the
+ * conversationId it belongs to, since one connection can follow several conversations.
+ */
+export const REALTIME_EVENTS = [
+    "ReceiveProcessingUpdate",
+    "ReceiveProcessingComplete",
+    "ReceiveProcessingError",
+    "ReceiveProcessingCancelled",
+    "ReceiveDocumentStatus",
+] as const;
+
+export type RealtimeEventName = (typeof REALTIME_EVENTS)[number];
+
+export type RealtimeContextValue = {
+    connectionState: signalR.HubConnectionState;
+    /**
+     * Joins a conversation's group; groups are shared and reference counted across callers.
+     * onSubscribed runs every time the group is (re)joined, including after a reconnect, so
+     * callers can catch up on anything they missed.
+     * @returns A function that leaves the group again
+     */
+    subscribe: (conversationId: string, onSubscribed?: () => void) => () => void;
+    /**
+     * Listens for a hub event on the shared connection
+     * @returns A function that removes the listener
+     */
+    on: <TPayload>(
+        event: RealtimeEventName,
+        handler: (payload: TPayload) => void
+    ) => () => void;
+};
+
+export const RealtimeContext = createContext<RealtimeContextValue | undefined>(
+    undefined
+);
+
+export const useRealtime = () => {
+    const context = useContext(RealtimeContext);
+    if (!context) {
+        throw new Error("useRealtime must be used within a RealtimeProvider");
+    }
+    return context;
+};
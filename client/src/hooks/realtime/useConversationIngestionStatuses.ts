@@ -0,0 +1,121 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { useEffect, useRef, useState } from "react";
+import { ConversationSummary } from "@/api/conversation/getConversationList";
+import { IngestionStatus } from "@/api/conversation/getConversationById";
+import { useRealtime } from "./realtimeContext";
+
+type ConversationEvent = {
+    conversationId?: string | null;
+    companyIdentifier?: string | null;
+};
+
+type ProcessingUpdateEvent = ConversationEvent & {
+    stage: IngestionStatus;
+    progressPercent: number;
+};
+
+export type LiveIngestionProgress = {
+    stage: IngestionStatus;
+    progressPercent: number;
+    companyIdentifier?: string | null;
+};
+
+export type IngestionOutcome = "Completed" | "Failed" | "Cancelled";
+
+const TERMINAL_STATUSES: Array<IngestionStatus | null> = [
+    null,
+    "Completed",
+    "Failed",
+    "Cancelled",
+];
+
+const OUTCOME_EVENTS = [
+    ["ReceiveProcessingComplete", "Completed"],
+    ["ReceiveProcessingError", "Failed"],
+    ["ReceiveProcessingCancelled", "Cancelled"],
+] as const;
+
+/**
+ * Follows ingestion across every conversation in the list, not only the open one. Conversations
+ * that are still ingesting are subscribed to on the shared realtime connection; their latest
+ * progress is returned keyed by conversation id, and the conversation list is refetched whenever a
+ * company finishes so the persisted statuses catch up.
+ *
+ * @param conversations - The user's conversations
+ * @param onFinished - Called when a company in any conversation completes, fails or is cancelled
+ */
+export const useConversationIngestionStatuses = (
+    conversations: ConversationSummary[] | undefined,
+    onFinished?: (
+        conversationId: string,
+        outcome: IngestionOutcome,
+        companyIdentifier: string | null
+    ) => void
+) => {
+    const queryClient = useQueryClient();
+    const { subscribe, on } = useRealtime();
+    const [liveProgress, setLiveProgress] = useState<
+        Record<string, LiveIngestionProgress>
+    >({});
+    // Kept in a ref so a new callback every render doesn't re-register the listeners
+    const onFinishedRef = useRef(onFinished);
+    onFinishedRef.current = onFinished;
+
+    const ingestingIds = (conversations ?? [])
+        .filter(
+            (conversation) =>
+                !TERMINAL_STATUSES.includes(conversation.ingestionStatus)
+        )
+        .map((conversation) => conversation.id)
+        .sort()
+        .join(",");
+
+    useEffect(() => {
+        if (!ingestingIds) return;
+
+        const unsubscribers = ingestingIds
+            .split(",")
+            .map((conversationId) => subscribe(conversationId));
+        return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+    }, [ingestingIds, subscribe]);
+
+    useEffect(() => {
+        const removeListeners = [
+            on<ProcessingUpdateEvent>("ReceiveProcessingUpdate", (update) => {
+                const conversationId = update.conversationId?.toLowerCase();
+                if (!conversationId) return;
+
+                setLiveProgress((current) => ({
+                    ...current,
+                    [conversationId]: {
+                        stage: update.stage,
+                        progressPercent: update.progressPercent,
+                        companyIdentifier: update.companyIdentifier,
+                    },
+                }));
+            }),
+            ...OUTCOME_EVENTS.map(([event, outcome]) =>
+                on<ConversationEvent>(event, (result) => {
+                    const conversationId = result.conversationId?.toLowerCase();
+                    if (!conversationId) return;
+
+                    setLiveProgress((current) => {
+                        const next = { ...current };
+                        delete next[conversationId];
+                        return next;
+                    });
+                    queryClient.invalidateQueries({ queryKey: ["conversations"] });
+                    onFinishedRef.current?.(
+                        conversationId,
+                        outcome,
+                        result.companyIdentifier ?? null
+                    );
+                })
+            ),
+        ];
+
+        return () => removeListeners.forEach((removeListener) => removeListener());
+    }, [on, queryClient]);
+
+    return liveProgress;
+};
@@ -1,51 +1,183 @@
-import * as signalR from "@microsoft/signalr";
-import { useEffect, useRef, useState } from "react";
-import { getAccessToken } from "@/utils/tokenManager";
-import { toApiUrl } from "@/api/apiBaseUrl";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useRealtime } from "./realtimeContext";
+import {
+    IngestionSnapshot,
+    getIngestionSnapshot,
+} from "@/api/conversation/getIngestionSnapshot";
 
-type DocumentProcessingUpdate = {
+type ConversationEvent = {
+    conversationId?: string | null;
+};
+
+type DocumentProcessingUpdate = ConversationEvent & {
     stage: string;
     message: string;
     progressPercent: number;
     documentsProcessed?: number;
     totalDocuments?: number;
     timestamp: string;
+    companyIdentifier?: string | null;
+};
+
+export type ProcessingDocumentStatus = {
+    fileName: string;
+    filingType: string;
+    accessionNumber: string;
+    filingDate: string;
+    /** Furthest stage reached; the stage it failed in when errorMessage is set */
+    stage: string;
+    errorMessage?: string | null;
+    startedAt?: string | null;
+    stageStartedAt?: string | null;
+    completedAt?: string | null;
+    companyIdentifier?: string | null;
+};
+
+type DocumentStatusUpdate = ConversationEvent & {
+    documents: Omit<ProcessingDocumentStatus, "companyIdentifier">[];
+    companyIdentifier?: string | null;
+    timestamp: string;
 };
 
-type ProcessingCompleteResult = {
+type ProcessingCompleteResult = ConversationEvent & {
     totalDocuments: number;
     successfulDocuments: number;
     failedDocuments: number;
     duration?: string;
     completedAt: string;
+    companyIdentifier?: string | null;
+    documents?: Omit<ProcessingDocumentStatus, "companyIdentifier">[];
 };
 
-type ProcessingErrorResult = {
+type ProcessingErrorResult = ConversationEvent & {
     errorMessage: string;
     stage: string;
     documentsProcessed?: number;
     timestamp: string;
+    companyIdentifier?: string | null;
+    documents?: Omit<ProcessingDocumentStatus, "companyIdentifier">[];
+};
+
+type ProcessingCancelledResult = ConversationEvent & {
+    timestamp: string;
+    companyIdentifier?: string | null;
+    documents?: Omit<ProcessingDocumentStatus, "companyIdentifier">[];
 };
 
+const getDocumentStatusKey = (document: ProcessingDocumentStatus) =>
+    `${document.companyIdentifier ?? ""}:${document.accessionNumber}`;
+
 /**
- * Calling this hook connects the component to the hub for a given conversation.
+ * Merges changed document statuses into the current list, keeping first-seen order.
+ */
+const mergeDocumentStatuses = (
+    current: ProcessingDocumentStatus[],
+    documents: Omit<ProcessingDocumentStatus, "companyIdentifier">[] | undefined,
+    companyIdentifier: string | null | undefined
+) => {
+    if (!documents || documents.length === 0) return current;
+
+    const merged = new Map(
+        current.map((document) => [getDocumentStatusKey(document), document])
+    );
+    for (const document of documents) {
+        const status = { ...document, companyIdentifier };
+        merged.set(getDocumentStatusKey(status), status);
+    }
+    return Array.from(merged.values());
+};
+
+const STOPPED_STAGES = ["Failed", "Cancelled"];
+
+/**
+ * Calling this hook subscribes the component to a conversation's updates on the app-wide
+ * realtime connection.
  */
 export const useSubscribeToConversation = ({
     conversationId,
 }: {
     conversationId: string | undefined;
 }) => {
-    const [connectionState, setConnectionState] =
-        useState<signalR.HubConnectionState>(
-            signalR.HubConnectionState.Disconnected
-        );
+    const { connectionState, subscribe, on } = useRealtime();
     const [processingUpdate, setProcessingUpdate] =
         useState<DocumentProcessingUpdate | null>(null);
     const [processingComplete, setProcessingComplete] =
         useState<ProcessingCompleteResult | null>(null);
     const [processingError, setProcessingError] =
         useState<ProcessingErrorResult | null>(null);
-    const connectionRef = useRef<signalR.HubConnection | undefined>(undefined);
+    const [processingCancelled, setProcessingCancelled] =
+        useState<ProcessingCancelledResult | null>(null);
+    const [documentStatuses, setDocumentStatuses] = useState<
+        ProcessingDocumentStatus[]
+    >([]);
+    // Time of the newest live event, so an older snapshot never overwrites it
+    const lastEventAtRef = useRef(0);
+
+    const noteLiveEvent = (timestamp: string) => {
+        lastEventAtRef.current = Math.max(
+            lastEventAtRef.current,
+            Date.parse(timestamp) || Date.now()
+        );
+    };
+
+    /**
+     * Seeds state from the server's snapshot so a reload or second tab shows the current stage
+     * straight away. Live events newer than the snapshot win.
+     */
+    const applySnapshot = useCallback((snapshot: IngestionSnapshot) => {
+        if (Date.parse(snapshot.timestamp) < lastEventAtRef.current) return;
+
+        setDocumentStatuses(
+            snapshot.companies.flatMap((company) => company.documents)
+        );
+
+        const running = snapshot.companies.find(
+            (company) =>
+                company.stage !== "Completed" &&
+                !STOPPED_STAGES.includes(company.stage)
+        );
+        if (running) {
+            setProcessingUpdate({
+                stage: running.stage,
+                message: running.message,
+                progressPercent: running.progressPercent ?? 0,
+                timestamp: snapshot.timestamp,
+                companyIdentifier: running.companyIdentifier,
+            });
+            setProcessingComplete(null);
+            setProcessingError(null);
+            setProcessingCancelled(null);
+            return;
+        }
+
+        // Only surface a stopped batch when nothing else is usable, matching what the live events show
+        const stopped = snapshot.companies
+            .filter((company) => STOPPED_STAGES.includes(company.stage))
+            .sort((a, b) =>
+                (b.completedAt ?? b.startedAt).localeCompare(a.completedAt ?? a.startedAt)
+            );
+        if (
+            stopped.length === 0 ||
+            stopped.length !== snapshot.companies.length
+        ) {
+            return;
+        }
+
+        const latest = stopped[0];
+        if (latest.stage === "Cancelled") {
+            setProcessingCancelled({
+                timestamp: snapshot.timestamp,
+                companyIdentifier: latest.companyIdentifier,
+            });
+        } else {
+            setProcessingError({
+                errorMessage: latest.errorMessage ?? latest.message,
+                stage: latest.stage,
+                timestamp: snapshot.timestamp,
+                companyIdentifier: latest.companyIdentifier,
+            });
+        }
+    }, []);
 
     useEffect(() => {
         if (conversationId === undefined) return;
@@ -53,93 +185,112 @@ export const useSubscribeToConversation = ({
         setProcessingUpdate(null);
         setProcessingComplete(null);
         setProcessingError(null);
+        setProcessingCancelled(null);
+        setDocumentStatuses([]);
+        lastEventAtRef.current = 0;
 
-        const connection = new signalR.HubConnectionBuilder()
-            .withUrl(toApiUrl("/hubs/document-processing"), {
-                accessTokenFactory: () => getAccessToken() ?? "",
-            })
-            .withAutomaticReconnect()
-            .build();
-
-        connectionRef.current = connection;
+        // The connection is shared, so drop events for other conversations
+        const isForThisConversation = (payload: ConversationEvent) =>
+            !payload.conversationId ||
+            payload.conversationId.toLowerCase() === conversationId.toLowerCase();
 
-        connection.on(
-            "ReceiveProcessingUpdate",
-            (update: DocumentProcessingUpdate) => {
+        const removeListeners = [
+            on<DocumentProcessingUpdate>("ReceiveProcessingUpdate", (update) => {
+                if (!isForThisConversation(update)) return;
+                noteLiveEvent(update.timestamp);
                 setProcessingUpdate(update);
                 setProcessingComplete(null);
                 setProcessingError(null);
-            }
-        );
-
-        connection.on(
-            "ReceiveProcessingComplete",
-            (result: ProcessingCompleteResult) => {
+                setProcessingCancelled(null);
+            }),
+            on<ProcessingCompleteResult>("ReceiveProcessingComplete", (result) => {
+                if (!isForThisConversation(result)) return;
+                noteLiveEvent(result.completedAt);
                 setProcessingComplete(result);
+                setDocumentStatuses((current) =>
+                    mergeDocumentStatuses(
+                        current,
+                        result.documents,
+                        result.companyIdentifier
+                    )
+                );
                 setProcessingError(null);
-            }
-        );
-
-        connection.on(
-            "ReceiveProcessingError",
-            (error: ProcessingErrorResult) => {
+            }),
+            on<ProcessingErrorResult>("ReceiveProcessingError", (error) => {
+                if (!isForThisConversation(error)) return;
+                noteLiveEvent(error.timestamp);
                 setProcessingError(error);
+                setDocumentStatuses((current) =>
+                    mergeDocumentStatuses(
+                        current,
+                        error.documents,
+                        error.companyIdentifier
+                    )
+                );
                 setProcessingComplete(null);
-            }
-        );
-
-        // Track connection lifecycle
-        connection.onreconnected(() =>
-            setConnectionState(signalR.HubConnectionState.Connected)
-        );
-        connection.onreconnecting(() =>
-            setConnectionState(signalR.HubConnectionState.Reconnecting)
-        );
-        connection.onclose(() =>
-            setConnectionState(signalR.HubConnectionState.Disconnected)
-        );
+            }),
+            on<ProcessingCancelledResult>("ReceiveProcessingCancelled", (result) => {
+                if (!isForThisConversation(result)) return;
+                noteLiveEvent(result.timestamp);
+                setProcessingCancelled(result);
+                setProcessingUpdate(null);
+                setProcessingComplete(null);
+                setProcessingError(null);
+                setDocumentStatuses((current) =>
+                    mergeDocumentStatuses(
+                        current,
+                        result.documents,
+                        result.companyIdentifier
+                    )
+                );
+            }),
+            on<DocumentStatusUpdate>("ReceiveDocumentStatus", (update) => {
+                if (!isForThisConversation(update)) return;
+                noteLiveEvent(update.timestamp);
+                setDocumentStatuses((current) =>
+                    mergeDocumentStatuses(
+                        current,
+                        update.documents,
+                        update.companyIdentifier
+                    )
+                );
+            }),
+        ];
 
-        connection
-            .start()
-            .then(() =>
-                setConnectionState(signalR.HubConnectionState.Connected)
-            )
-            .catch(console.error);
+        // Load the snapshot only once subscribed, so no event can fall between the two. This runs
+        // again after every reconnect, catching up on anything missed in between.
+        let cancelled = false;
+        const unsubscribe = subscribe(conversationId, () => {
+            getIngestionSnapshot(conversationId)
+                .then((snapshot) => {
+                    if (!cancelled) applySnapshot(snapshot);
+                })
+                .catch(console.error);
+        });
 
         return () => {
-            // remove handlers (optional but recommended)
-            connection.off("ReceiveProcessingUpdate");
-            connection.off("ReceiveProcessingComplete");
-            connection.off("ReceiveProcessingError");
-
-            // actual cleanup/close
-            connection.stop().catch(() => {
-                /* ignore */
-            });
+            cancelled = true;
+            unsubscribe();
+            removeListeners.forEach((removeListener) => removeListener());
         };
-    }, [conversationId]);
-
-    useEffect(() => {
-        if (connectionState !== signalR.HubConnectionState.Connected) return;
-        if (!connectionRef.current || !conversationId) return;
+    }, [conversationId, subscribe, on, applySnapshot]);
 
-        connectionRef.current
-            .invoke("SubscribeToConversation", conversationId)
-            .catch(console.error);
-
-        return () => {
-            if (connectionRef.current) {
-                connectionRef.current
-                    .invoke("UnsubscribeFromConversation", conversationId)
-                    .catch(console.error);
-            }
-        };
-    }, [connectionState, conversationId]);
+    // Clears the last outcome, e.g. after a retry is queued and before its first update arrives.
+    // Document statuses are kept so the table doesn't flicker.
+    const resetProcessingStatus = useCallback(() => {
+        setProcessingUpdate(null);
+        setProcessingComplete(null);
+        setProcessingError(null);
+        setProcessingCancelled(null);
+    }, []);
 
     return {
         connectionState,
         processingComplete,
         processingError,
         processingUpdate,
+        processingCancelled,
+        documentStatuses,
+        resetProcessingStatus,
     };
 };
@@ -0,0 +1,110 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { GetConversationListResponse } from "@/api/conversation/getConversationList";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+    NotificationPreference,
+    areNotificationsSupported,
+    getNotificationPreference,
+    setNotificationPreference,
+} from "@/utils/notificationPreferences";
+import { useRealtime } from "./realtimeContext";
+
+type IngestionFinishedEvent = {
+    conversationId?: string | null;
+    companyIdentifier?: string | null;
+};
+
+const getPermission = (): NotificationPermission =>
+    areNotificationsSupported() ? Notification.permission : "denied";
+
+/**
+ * Opt-in browser notifications for finished ingestion. While enabled (and permitted by the
+ * browser), a notification is shown whenever a company finishes or fails ingesting and the tab is
+ * in the background; clicking it brings the tab back and opens the conversation.
+ *
+ * Only conversations subscribed on the shared realtime connection are covered.
+ */
+export const useIngestionNotifications = () => {
+    const { user } = useAuth();
+    const { on } = useRealtime();
+    const navigate = useNavigate();
+    const queryClient = useQueryClient();
+    const [preference, setPreference] = useState<NotificationPreference>("unset");
+    const [permission, setPermission] = useState(getPermission);
+
+    const userId = user?.id;
+    const isSupported = areNotificationsSupported();
+    const isEnabled = preference === "enabled" && permission === "granted";
+
+    useEffect(() => {
+        setPreference(userId === undefined ? "unset" : getNotificationPreference(userId));
+    }, [userId]);
+
+    const enable = useCallback(async () => {
+        if (userId === undefined || !isSupported) return;
+
+        const result = await Notification.requestPermission();
+        setPermission(result);
+        const next = result === "granted" ? "enabled" : "disabled";
+        setNotificationPreference(userId, next);
+        setPreference(next);
+    }, [userId, isSupported]);
+
+    const disable = useCallback(() => {
+        if (userId === undefined) return;
+
+        setNotificationPreference(userId, "disabled");
+        setPreference("disabled");
+    }, [userId]);
+
+    useEffect(() => {
+        if (!isEnabled) return;
+
+        const notify = (event: IngestionFinishedEvent, failed: boolean) => {
+            const conversationId = event.conversationId;
+            if (!conversationId) return;
+            // The in-app toast covers the foreground case
+            if (!document.hidden && document.hasFocus()) return;
+
+            const title =
+                queryClient
+                    .getQueryData<GetConversationListResponse>(["conversations"])
+                    ?.find((c) => c.id.toLowerCase() === conversationId.toLowerCase())
+                    ?.title ?? "Your conversation";
+            const company = event.companyIdentifier
+                ? `${event.companyIdentifier} filings`
+                : "Filings";
+
+            const notification = new Notification(
+                failed ? "Ingestion failed" : "Ingestion finished",
+                {
+                    body: failed
+                        ? `${company} failed to ingest in "${title}"`
+                        : `${company} are ready in "${title}"`,
+                    // Several open tabs all receive the event; the tag collapses them into one
+                    tag: `ingestion:${conversationId}:${event.companyIdentifier ?? ""}`,
+                }
+            );
+            notification.onclick = () => {
+                window.focus();
+                navigate(`/conversations/${conversationId}`);
+                notification.close();
+            };
+        };
+
+        const removeListeners = [
+            on<IngestionFinishedEvent>("ReceiveProcessingComplete", (result) =>
+                notify(result, false)
+            ),
+            on<IngestionFinishedEvent>("ReceiveProcessingError", (error) =>
+                notify(error, true)
+            ),
+        ];
+
+        return () => removeListeners.forEach((removeListener) => removeListener());
+    }, [isEnabled, on, navigate, queryClient]);
+
+    return { isSupported, permission, isEnabled, enable, disable };
+};
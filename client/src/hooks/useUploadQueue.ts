@@ -0,0 +1,352 @@
+import { useQueryClient } from "@tanstack/react-query";
+import axios from "axios";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { FileRejection } from "react-dropzone";
+import { UploadDocumentResponse, uploadDocument } from "@/api/document/uploadDocument";
+import {
+    ArchiveImport,
+    cancelUploadSession,
+    ChunkedUploadOptions,
+    importArchiveInChunks,
+    startUploadSession,
+    uploadDocumentInChunks,
+} from "@/api/document/uploadDocumentInChunks";
+import {
+    CHUNKED_UPLOAD_THRESHOLD_BYTES,
+    formatFileSize,
+    isArchiveFile,
+    MAX_CHUNKED_UPLOAD_SIZE_BYTES,
+} from "@/utils/documents";
+import {
+    findPendingUpload,
+    getPendingUploads,
+    PendingUpload,
+    removePendingUpload,
+    savePendingUpload,
+} from "@/utils/pendingUploads";
+
+export type UploadStatus =
+    | "queued"
+    | "uploading"
+    | "paused"
+    | "uploaded"
+    | "failed"
+    | "cancelled"
+    | "rejected";
+
+export type UploadItem = {
+    id: string;
+    file: File;
+    status: UploadStatus;
+    loadedBytes: number;
+    error: string | null;
+    /** Set for files sent in chunks, which can be paused and resumed */
+    sessionId: string | null;
+    /** What a data-room archive expanded into, once imported */
+    archiveImport: ArchiveImport | null;
+};
+
+type UploadQueueOptions = {
+    conversationId?: string;
+    /** How many files are sent at once; the rest wait in the queue */
+    concurrency?: number;
+    onUploaded?: (document: UploadDocumentResponse, file: File) => void;
+};
+
+const DEFAULT_CONCURRENCY = 2;
+
+const generateId = () => Math.random().toString(36).slice(2, 11);
+
+/**
+ * Large files and archives go through a resumable chunked upload; the rest are sent in one request
+ */
+export const isChunkedUpload = (file: File) =>
+    isArchiveFile(file) || file.size > CHUNKED_UPLOAD_THRESHOLD_BYTES;
+
+/**
+ * Why react-dropzone turned a file down, in the user's terms
+ */
+const getRejectionMessage = ({ errors }: FileRejection): string => {
+    const code = errors[0]?.code;
+    if (code === "file-too-large") {
+        return `Larger than ${formatFileSize(MAX_CHUNKED_UPLOAD_SIZE_BYTES)}`;
+    }
+    if (code === "file-invalid-type") {
+        return "Only PDF, HTML, plain text and ZIP files are supported";
+    }
+    return errors[0]?.message ?? "This file can't be uploaded";
+};
+
+/**
+ * The server answers a rejected upload with a plain-text reason
+ */
+const getUploadErrorMessage = (error: unknown): string => {
+    if (axios.isAxiosError(error) && typeof error.response?.data === "string" && error.response.data) {
+        return error.response.data;
+    }
+    return "Upload failed";
+};
+
+const isSessionGone = (error: unknown) =>
+    axios.isAxiosError(error) && error.response?.status === 404;
+
+/**
+ * Queue of document uploads sent a few at a time, each with its own byte progress, cancel and
+ * retry. Files turned down before sending stay in the queue as rejected so the user sees why.
+ * Finished uploads refresh the conversation's documents, or the library when there's no
+ * conversation. Uploads already sending carry on if the dropzone unmounts; queued ones are dropped.
+ *
+ * Large files are sent in chunks and can be paused. Their sessions are remembered across page
+ * refreshes and listed as interrupted; dropping the same file again resumes from the last chunk
+ * the server stored. ZIP archives are always sent that way, then expanded on the server into a
+ * document per file, with the item keeping what was imported and skipped.
+ *
+ * @param conversationId - Conversation to upload into; omit to upload to the user's library
+ * @param concurrency - Maximum number of files uploading at once
+ * @param onUploaded - Called for each document the server accepted, once per file in an archive
+ */
+export const useUploadQueue = ({
+    conversationId,
+    concurrency = DEFAULT_CONCURRENCY,
+    onUploaded,
+}: UploadQueueOptions = {}) => {
+    const queryClient = useQueryClient();
+    const [items, setItems] = useState<UploadItem[]>([]);
+    const [interruptedUploads, setInterruptedUploads] = useState<PendingUpload[]>(() =>
+        getPendingUploads().filter((upload) => upload.conversationId === (conversationId ?? null)),
+    );
+    const controllersRef = useRef(new Map<string, AbortController>());
+    // Uploads being aborted to pause them rather than cancel them
+    const pausingRef = useRef(new Set<string>());
+    // Kept in a ref so uploads already in flight report to the latest callback
+    const onUploadedRef = useRef(onUploaded);
+    onUploadedRef.current = onUploaded;
+
+    const updateItem = useCallback((id: string, update: Partial<UploadItem>) => {
+        setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...update } : item)));
+    }, []);
+
+    /**
+     * Drops a chunked upload's session on the server and forgets it here
+     */
+    const discardSession = useCallback((sessionId: string) => {
+        removePendingUpload(sessionId);
+        cancelUploadSession(sessionId).catch((error) => {
+            // It may already have expired; the server cleans up stale sessions anyway
+            console.error("Error cancelling upload:", error);
+        });
+    }, []);
+
+    /**
+     * Sends the file in chunks, starting a session the first time and remembering it so the upload
+     * can resume after a refresh. `send` uploads the chunks and finishes the session.
+     */
+    const sendInChunks = useCallback(
+        async <T>(
+            item: UploadItem,
+            signal: AbortSignal,
+            send: (sessionId: string, file: File, options: ChunkedUploadOptions) => Promise<T>,
+        ): Promise<T> => {
+            let sessionId = item.sessionId;
+            if (!sessionId) {
+                const session = await startUploadSession(conversationId, item.file);
+                sessionId = session.sessionId;
+                updateItem(item.id, { sessionId });
+            }
+
+            const pendingUpload: PendingUpload = {
+                sessionId,
+                conversationId: conversationId ?? null,
+                fileName: item.file.name,
+                fileSize: item.file.size,
+                lastModified: item.file.lastModified,
+                receivedBytes: item.loadedBytes,
+            };
+            savePendingUpload(pendingUpload);
+
+            try {
+                const result = await send(sessionId, item.file, {
+                    signal,
+                    onProgress: (loadedBytes) => updateItem(item.id, { loadedBytes }),
+                    onChunkStored: (receivedBytes) =>
+                        savePendingUpload({ ...pendingUpload, receivedBytes }),
+                });
+                removePendingUpload(sessionId);
+                return result;
+            } catch (error) {
+                // The session expired or was cancelled elsewhere; a retry starts a new one
+                if (isSessionGone(error)) {
+                    removePendingUpload(sessionId);
+                    updateItem(item.id, { sessionId: null, loadedBytes: 0 });
+                } else if (axios.isCancel(error) && !pausingRef.current.has(item.id)) {
+                    // Cancelled mid-upload; the session may have started too recently for cancel() to see it
+                    discardSession(sessionId);
+                }
+                throw error;
+            }
+        },
+        [conversationId, discardSession, updateItem],
+    );
+
+    const startUpload = useCallback(
+        async (item: UploadItem) => {
+            const controller = new AbortController();
+            controllersRef.current.set(item.id, controller);
+            updateItem(item.id, { status: "uploading", error: null });
+
+            try {
+                let documents: UploadDocumentResponse[];
+                if (isArchiveFile(item.file)) {
+                    const archiveImport = await sendInChunks(
+                        item,
+                        controller.signal,
+                        importArchiveInChunks,
+                    );
+                    updateItem(item.id, { archiveImport });
+                    documents = archiveImport.documents;
+                } else if (isChunkedUpload(item.file)) {
+                    documents = [
+                        await sendInChunks(item, controller.signal, uploadDocumentInChunks),
+                    ];
+                } else {
+                    documents = [
+                        await uploadDocument(conversationId, item.file, "", {
+                            signal: controller.signal,
+                            onProgress: (loadedBytes) => updateItem(item.id, { loadedBytes }),
+                        }),
+                    ];
+                }
+                updateItem(item.id, { status: "uploaded", loadedBytes: item.file.size });
+
+                if (conversationId) {
+                    queryClient.invalidateQueries({ queryKey: ["documents", conversationId] });
+                    queryClient.invalidateQueries({ queryKey: ["conversation", conversationId] });
+                } else {
+                    queryClient.invalidateQueries({ queryKey: ["documents"] });
+                }
+                documents.forEach((document) => onUploadedRef.current?.(document, item.file));
+            } catch (error) {
+                if (axios.isCancel(error)) {
+                    const isPausing = pausingRef.current.delete(item.id);
+                    updateItem(item.id, { status: isPausing ? "paused" : "cancelled" });
+                } else {
+                    console.error("Upload failed:", error);
+                    updateItem(item.id, { status: "failed", error: getUploadErrorMessage(error) });
+                }
+            } finally {
+                controllersRef.current.delete(item.id);
+            }
+        },
+        [conversationId, queryClient, sendInChunks, updateItem],
+    );
+
+    // Start queued files whenever a slot frees up
+    useEffect(() => {
+        const uploadingCount = items.filter((item) => item.status === "uploading").length;
+        items
+            .filter((item) => item.status === "queued" && !controllersRef.current.has(item.id))
+            .slice(0, Math.max(0, concurrency - uploadingCount))
+            .forEach(startUpload);
+    }, [items, concurrency, startUpload]);
+
+    const addFiles = useCallback(
+        (files: File[], rejections: FileRejection[] = []) => {
+            // Files that match an interrupted chunked upload resume it
+            const resumed = files.map((file) => findPendingUpload(file, conversationId ?? null));
+            const resumedSessionIds = new Set(resumed.map((upload) => upload?.sessionId));
+            setInterruptedUploads((prev) =>
+                prev.filter((upload) => !resumedSessionIds.has(upload.sessionId)),
+            );
+
+            setItems((prev) => [
+                ...prev,
+                ...files.map((file, index) => ({
+                    id: generateId(),
+                    file,
+                    status: "queued" as const,
+                    loadedBytes: resumed[index]?.receivedBytes ?? 0,
+                    error: null,
+                    sessionId: resumed[index]?.sessionId ?? null,
+                    archiveImport: null,
+                })),
+                ...rejections.map((rejection) => ({
+                    id: generateId(),
+                    file: rejection.file,
+                    status: "rejected" as const,
+                    loadedBytes: 0,
+                    error: getRejectionMessage(rejection),
+                    sessionId: null,
+                    archiveImport: null,
+                })),
+            ]);
+        },
+        [conversationId],
+    );
+
+    const cancel = useCallback(
+        (id: string) => {
+            // An upload in flight discards its own session once aborted
+            const controller = controllersRef.current.get(id);
+            if (controller) {
+                controller.abort();
+            } else {
+                const sessionId = items.find((item) => item.id === id)?.sessionId;
+                if (sessionId) discardSession(sessionId);
+            }
+            updateItem(id, { status: "cancelled", sessionId: null, loadedBytes: 0 });
+        },
+        [items, discardSession, updateItem],
+    );
+
+    const pause = useCallback((id: string) => {
+        const controller = controllersRef.current.get(id);
+        if (!controller) return;
+
+        pausingRef.current.add(id);
+        controller.abort();
+    }, []);
+
+    // Re-queues the file; a chunked upload carries on from what the server stored
+    const retry = useCallback(
+        (id: string) => updateItem(id, { status: "queued", error: null }),
+        [updateItem],
+    );
+
+    const dismiss = useCallback((id: string) => {
+        setItems((prev) => prev.filter((item) => item.id !== id));
+    }, []);
+
+    const clearFinished = useCallback(() => {
+        setItems((prev) =>
+            prev.filter(
+                (item) =>
+                    item.status === "queued" ||
+                    item.status === "uploading" ||
+                    item.status === "paused",
+            ),
+        );
+    }, []);
+
+    const discardInterrupted = useCallback(
+        (sessionId: string) => {
+            discardSession(sessionId);
+            setInterruptedUploads((prev) =>
+                prev.filter((upload) => upload.sessionId !== sessionId),
+            );
+        },
+        [discardSession],
+    );
+
+    return {
+        items,
+        interruptedUploads,
+        isUploading: items.some((item) => item.status === "queued" || item.status === "uploading"),
+        addFiles,
+        cancel,
+        pause,
+        retry,
+        dismiss,
+        clearFinished,
+        discardInterrupted,
+    };
+};
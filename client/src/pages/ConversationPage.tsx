@@ -1,30 +1,107 @@
-import { useSubscribeToConversation } from "@/hooks/realtime/useDocumentProcessingUpdates";
+import {
+    ProcessingDocumentStatus,
+    useSubscribeToConversation,
+} from "@/hooks/realtime/useDocumentProcessingUpdates";
 import * as signalR from "@microsoft/signalr";
+import { FileText, Plus, RotateCcw, Square } from "lucide-react";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { Navigate, useParams } from "react-router-dom";
 import { toast } from "sonner";
 import { useGetCompanyFilings } from "../api/company/getCompanyFilings";
-import { useGetCompanyList } from "../api/company/getCompanyList";
-import { useGetConversationById } from "../api/conversation/getConversationById";
+import { Company } from "../api/company/getCompanyList";
+import { useAddConversationCompany } from "../api/conversation/addConversationCompany";
+import { useCancelCompanyIngestion } from "../api/conversation/cancelCompanyIngestion";
+import {
+    ConversationCompany,
+    useGetConversationById,
+} from "../api/conversation/getConversationById";
+import { useRetryCompanyIngestion } from "../api/conversation/retryCompanyIngestion";
 import { useSetConversationCompany } from "../api/conversation/setConversationCompany";
-import { ConversationMessage } from "../api/message/getMessageListByConversation";
-import { MessageRole, useSendMessage } from "../api/message/sendMessage";
+import { useDeleteMessage } from "../api/message/deleteMessage";
+import {
+    ConversationMessage,
+    MessageFeedbackRating,
+    RetrievalOptions,
+} from "../api/message/getMessageListByConversation";
+import { useSetMessageFeedback } from "../api/message/setMessageFeedback";
+import { useSetMessagePinned } from "../api/message/setMessagePinned";
+import {
+    StreamMessageHandlers,
+    StreamMessageOptions,
+    useStreamMessage,
+} from "../api/message/streamMessage";
 import { ChatInterface, Message } from "../components/ChatInterface";
+import { CompanyAutocomplete } from "../components/CompanyAutocomplete";
+import { ConversationDocumentsDrawer } from "../components/ConversationDocumentsDrawer";
+import { ConversationReportsMenu } from "../components/ConversationReportsMenu";
+import { EvidencePanel } from "../components/EvidencePanel";
+import { FilingPicker } from "../components/FilingPicker";
+import { IngestionDocumentTable } from "../components/IngestionDocumentTable";
+import { KeyFindingsPanel } from "../components/KeyFindingsPanel";
+import { MemoExportMenu } from "../components/MemoExportMenu";
 import { Button } from "../components/ui/button/Button";
+import { FilingDateRange, getFilingsInScope } from "../utils/filings";
+import { getMessageElementId } from "../utils/messageAnchors";
+import {
+    BranchSelection,
+    getActiveThread,
+    getBranchKey,
+} from "../utils/messageTree";
+import { buildResearchMemo } from "../utils/researchMemo";
 
 const MAX_SELECTED_FILING_TYPES = 5;
+// Mirrors MaxCompaniesPerConversation on the server
+const MAX_COMPANIES_PER_CONVERSATION = 5;
+const OPEN_FILING_DATE_RANGE: FilingDateRange = { from: "", to: "" };
+
+type EvidenceTarget = {
+    messageId: string;
+    documentId?: number;
+};
+
+/**
+ * Short status label for a company pill, preferring live hub progress over the persisted status
+ */
+const getCompanyStatusLabel = (
+    company: ConversationCompany,
+    liveProgressPercent: number | null,
+) => {
+    if (company.ingestionStatus === "Completed") return "Ready";
+    if (company.ingestionStatus === "Failed") return "Failed";
+    if (company.ingestionStatus === "Cancelled") return "Cancelled";
+    if (liveProgressPercent !== null) return `${liveProgressPercent}%`;
+    return company.ingestionStatus === "Pending" || !company.ingestionStatus
+        ? "Queued"
+        : "Ingesting";
+};
 
 // Helper function to generate a unique ID
 const generateId = () => Math.random().toString(36).substr(2, 9);
 
+// Optimistic messages only get a server ID once the stream reports it
+const isSavedMessageId = (id: string) => /^\d+$/.test(id);
+
+const formatTime = (date: Date) =>
+    date.toLocaleTimeString([], {
+        hour: "2-digit",
+        minute: "2-digit",
+    });
+
 /**
  * ConversationPage component - handles knowledge base queries only
  * Displays a chat interface for querying the knowledge base with conversation history
  */
 export function ConversationPage() {
     const { conversationId } = useParams<{ conversationId: string }>();
+    // Every message in the conversation; only the active thread through them is shown
     const [messages, setMessages] = useState<Message[]>([]);
+    const [branchSelection, setBranchSelection] = useState<BranchSelection>({});
     const [isLoading, setIsLoading] = useState(false);
+    const [evidenceTarget, setEvidenceTarget] = useState<EvidenceTarget | null>(
+        null,
+    );
+    const [isAddingCompany, setIsAddingCompany] = useState(false);
+    const [isDocumentsOpen, setIsDocumentsOpen] = useState(false);
     const [completionVisibility, setCompletionVisibility] = useState<
         "hidden" | "visible" | "fading"
     >("hidden");
@@ -33,35 +110,52 @@ export function ConversationPage() {
         processingComplete,
         processingError,
         processingUpdate,
+        processingCancelled,
+        documentStatuses,
+        resetProcessingStatus,
     } = useSubscribeToConversation({
         conversationId,
     });
 
+    const {
+        send: streamMessage,
+        regenerate: regenerateAnswer,
+        stop: stopGenerating,
+        isStreaming,
+    } = useStreamMessage();
+
     // Hooks for data fetching
     const {
         data: conversation,
         isLoading: isLoadingConversation,
         error: conversationError,
         refetch: refetchConversation,
-    } = useGetConversationById(conversationId!);
+    } = useGetConversationById(conversationId!, !isStreaming && !isLoading);
 
     // Hooks for mutations
-    const { mutate: sendMessage } = useSendMessage();
-    const { mutate: setConversationCompany, isPending: isSettingCompany } =
+    const { mutate: setConversationCompany, isPending: isSettingConversationCompany } =
         useSetConversationCompany();
-    const {
-        data: availableCompanies = [],
-        isLoading: isLoadingCompanies,
-        error: companyListError,
-    } = useGetCompanyList();
+    const { mutate: addConversationCompany, isPending: isAddingConversationCompany } =
+        useAddConversationCompany();
+    const isSettingCompany = isSettingConversationCompany || isAddingConversationCompany;
+    const { mutate: retryCompanyIngestion, isPending: isRetryingIngestion } =
+        useRetryCompanyIngestion();
+    const { mutate: cancelCompanyIngestion, isPending: isCancellingIngestion } =
+        useCancelCompanyIngestion();
+    const { mutate: deleteMessage } = useDeleteMessage();
+    const { mutate: setMessagePinned } = useSetMessagePinned();
+    const { mutate: setMessageFeedback } = useSetMessageFeedback();
 
-    const [selectedCompany, setSelectedCompany] = useState("");
+    const [selectedCompany, setSelectedCompany] = useState<Company | null>(null);
     const [selectedFilingTypes, setSelectedFilingTypes] = useState<string[]>([]);
+    const [filingDateRange, setFilingDateRange] =
+        useState<FilingDateRange>(OPEN_FILING_DATE_RANGE);
+    const [selectedAccessions, setSelectedAccessions] = useState<string[]>([]);
     const {
         data: companyFilings,
         isLoading: isLoadingCompanyFilings,
         error: companyFilingsError,
-    } = useGetCompanyFilings(selectedCompany);
+    } = useGetCompanyFilings(selectedCompany?.ticker ?? "");
 
     // Convert conversation messages to chat interface format
     const convertMessagesToChat = useCallback(
@@ -71,16 +165,72 @@ export function ConversationPage() {
                 id: msg.id,
                 text: msg.text,
                 sender: msg.role,
-                timestamp: new Date(msg.timestamp).toLocaleTimeString([], {
-                    hour: "2-digit",
-                    minute: "2-digit",
-                }),
+                timestamp: formatTime(new Date(msg.timestamp)),
+                parentId: msg.parentId,
+                metadata: msg.metadata,
                 sources: msg.sources || undefined, // Convert null to undefined for optional property
             }));
         },
         [],
     );
 
+    const threadMessages = useMemo(
+        () => getActiveThread(messages, branchSelection),
+        [messages, branchSelection],
+    );
+
+    // The export follows the same branches as the chat, from the saved conversation
+    const exportThread = useMemo(
+        () => getActiveThread(conversation?.messages ?? [], branchSelection),
+        [conversation?.messages, branchSelection],
+    );
+
+    // Pinned messages from every branch, in the order they were pinned
+    const keyFindings = useMemo(
+        () =>
+            messages
+                .filter((msg) => msg.metadata?.pinned)
+                .sort((a, b) =>
+                    (a.metadata?.pinnedAt ?? "").localeCompare(
+                        b.metadata?.pinnedAt ?? "",
+                    ),
+                ),
+        [messages],
+    );
+
+    // The question an answer responded to is its parent in the thread
+    const evidenceQuestion = useMemo(() => {
+        if (!evidenceTarget) return undefined;
+        const answer = messages.find((msg) => msg.id === evidenceTarget.messageId);
+        return messages.find(
+            (msg) => msg.id === answer?.parentId && msg.sender === "User",
+        )?.text;
+    }, [evidenceTarget, messages]);
+
+    const handleViewEvidence = useCallback(
+        (messageId: string, documentId?: number) => {
+            setEvidenceTarget({ messageId, documentId });
+            setIsDocumentsOpen(false);
+        },
+        [],
+    );
+
+    // Close the evidence panel and company picker when switching conversations, and stop an answer
+    // still streaming into the previous one
+    useEffect(() => {
+        stopGenerating();
+        setEvidenceTarget(null);
+        setIsAddingCompany(false);
+        setBranchSelection({});
+    }, [conversationId, stopGenerating]);
+
+    // Each company finishes separately, so refresh per-company statuses when one does
+    useEffect(() => {
+        if (processingComplete || processingError || processingCancelled) {
+            refetchConversation();
+        }
+    }, [processingComplete, processingError, processingCancelled, refetchConversation]);
+
     // Update messages when conversation data changes
     useEffect(() => {
         if (conversation?.messages) {
@@ -89,12 +239,125 @@ export function ConversationPage() {
     }, [conversation?.messages, convertMessagesToChat]);
 
     /**
-     * Handles sending a message to query the knowledge base
-     * Backend handles: saving user message, querying knowledge base, saving assistant response
+     * Streams an answer token-by-token into a placeholder assistant message, which is replaced by
+     * the saved message (with sources) once the stream completes. New messages always start out on
+     * the visible branch.
+     * @param answerParentId - The question the answer replies to (may be an optimistic ID)
+     * @param startStream - Starts the request with the handlers that update the placeholder
+     * @param optimisticMessageIds - Messages to drop again if the request fails
+     */
+    const streamAnswer = useCallback(
+        (
+            answerParentId: string,
+            startStream: (handlers: StreamMessageHandlers) => Promise<void>,
+            optimisticMessageIds: string[] = [],
+        ) => {
+            const streamingMessageId = generateId();
+            let parentId = answerParentId;
+
+            setBranchSelection((prev) => {
+                const next = { ...prev };
+                delete next[getBranchKey(answerParentId)];
+                return next;
+            });
+            setIsLoading(true);
+
+            startStream({
+                onUserMessage: (saved) => {
+                    const optimisticId = parentId;
+                    parentId = saved.id;
+                    setMessages((prev) =>
+                        prev.map((msg) =>
+                            msg.id === optimisticId
+                                ? { ...msg, id: saved.id, metadata: saved.metadata }
+                                : msg.parentId === optimisticId
+                                  ? { ...msg, parentId: saved.id }
+                                  : msg,
+                        ),
+                    );
+                },
+                onToken: (token) => {
+                    setIsLoading(false);
+                    setMessages((prev) => {
+                        if (!prev.some((msg) => msg.id === streamingMessageId)) {
+                            return [
+                                ...prev,
+                                {
+                                    id: streamingMessageId,
+                                    text: token,
+                                    sender: "Assistant",
+                                    timestamp: formatTime(new Date()),
+                                    parentId,
+                                    isStreaming: true,
+                                },
+                            ];
+                        }
+
+                        return prev.map((msg) =>
+                            msg.id === streamingMessageId
+                                ? { ...msg, text: msg.text + token }
+                                : msg,
+                        );
+                    });
+                },
+                onDone: (saved) => {
+                    setMessages((prev) => {
+                        const finalMessage: Message = {
+                            id: saved.id,
+                            text: saved.text,
+                            sender: "Assistant",
+                            timestamp: formatTime(new Date(saved.timestamp)),
+                            parentId: saved.parentId,
+                            metadata: saved.metadata,
+                            sources: saved.sources,
+                        };
+
+                        return prev.some((msg) => msg.id === streamingMessageId)
+                            ? prev.map((msg) =>
+                                  msg.id === streamingMessageId
+                                      ? finalMessage
+                                      : msg,
+                              )
+                            : [...prev, finalMessage];
+                    });
+                },
+            })
+                .catch(() => {
+                    toast.error("Failed to send your message. Please try again.");
+                    // Remove optimistic updates on error
+                    setMessages((prev) =>
+                        prev.filter(
+                            (msg) =>
+                                !optimisticMessageIds.includes(msg.id) &&
+                                msg.id !== streamingMessageId,
+                        ),
+                    );
+                })
+                .finally(() => {
+                    setIsLoading(false);
+                    // A stopped answer keeps its partial text but is no longer streaming
+                    setMessages((prev) =>
+                        prev.map((msg) =>
+                            msg.id === streamingMessageId
+                                ? { ...msg, isStreaming: false }
+                                : msg,
+                        ),
+                    );
+                });
+        },
+        [],
+    );
+
+    /**
+     * Adds a question to the conversation and streams its answer.
+     * Backend handles: saving user message, querying knowledge base, saving assistant response.
      * @param text - The user's query text
+     * @param parentId - The message the question follows, or null for a first message
+     * @param options - Where the server should place the question in the conversation, and any
+     * retrieval overrides for it
      */
-    const handleSendMessage = useCallback(
-        (text: string) => {
+    const askQuestion = useCallback(
+        (text: string, parentId: string | null, options: StreamMessageOptions) => {
             if (!conversationId) return;
 
             // Optimistic update: immediately show user message
@@ -102,47 +365,178 @@ export function ConversationPage() {
                 id: generateId(),
                 text,
                 sender: "User",
-                timestamp: new Date().toLocaleTimeString([], {
-                    hour: "2-digit",
-                    minute: "2-digit",
-                }),
+                timestamp: formatTime(new Date()),
+                parentId,
+                metadata: options.retrieval
+                    ? { retrievalOptions: options.retrieval }
+                    : undefined,
             };
 
+            setBranchSelection((prev) => {
+                const next = { ...prev };
+                delete next[getBranchKey(parentId)];
+                return next;
+            });
             setMessages((prev) => [...prev, newUserMessage]);
-            setIsLoading(true);
 
-            // Send message to backend (backend handles LLM query and saving assistant response)
-            sendMessage(
+            streamAnswer(
+                newUserMessage.id,
+                (handlers) => streamMessage(conversationId, text, handlers, options),
+                [newUserMessage.id],
+            );
+        },
+        [conversationId, streamMessage, streamAnswer],
+    );
+
+    /**
+     * Handles sending a message to query the knowledge base, continuing the visible thread
+     * @param text - The user's query text
+     * @param retrieval - Retrieval and model overrides chosen for this question
+     */
+    const handleSendMessage = useCallback(
+        (text: string, retrieval?: RetrievalOptions) => {
+            const lastMessageId = threadMessages[threadMessages.length - 1]?.id ?? null;
+            // A stopped answer isn't reloaded until the next fetch; let the server pick the latest message
+            askQuestion(text, lastMessageId, {
+                parentMessageId:
+                    lastMessageId && isSavedMessageId(lastMessageId)
+                        ? lastMessageId
+                        : undefined,
+                retrieval,
+            });
+        },
+        [threadMessages, askQuestion],
+    );
+
+    /**
+     * Re-asks an edited version of an earlier question as a new branch; the original is kept
+     * @param messageId - The question being edited
+     * @param text - The edited question
+     */
+    const handleEditMessage = useCallback(
+        (messageId: string, text: string) => {
+            const edited = messages.find((msg) => msg.id === messageId);
+            if (!edited) return;
+            // The edited question is retrieved the same way the original was
+            askQuestion(text, edited.parentId ?? null, {
+                editedMessageId: messageId,
+                retrieval: edited.metadata?.retrievalOptions,
+            });
+        },
+        [messages, askQuestion],
+    );
+
+    /**
+     * Generates another answer to the same question as a new branch; the original is kept
+     * @param messageId - The answer to regenerate
+     */
+    const handleRegenerateMessage = useCallback(
+        (messageId: string) => {
+            const answer = messages.find((msg) => msg.id === messageId);
+            if (!conversationId || !answer?.parentId) return;
+
+            streamAnswer(answer.parentId, (handlers) =>
+                regenerateAnswer(conversationId, messageId, handlers),
+            );
+        },
+        [conversationId, messages, regenerateAnswer, streamAnswer],
+    );
+
+    const handleSelectBranch = useCallback(
+        (messageId: string) => {
+            const message = messages.find((msg) => msg.id === messageId);
+            if (!message) return;
+            setBranchSelection((prev) => ({
+                ...prev,
+                [getBranchKey(message.parentId)]: messageId,
+            }));
+        },
+        [messages],
+    );
+
+    /**
+     * Scrolls to a message, first switching to its branch if another one is shown
+     * @param messageId - The message to show
+     */
+    const handleShowMessage = useCallback(
+        (messageId: string) => {
+            const selection: BranchSelection = {};
+            const visited = new Set<string>();
+            let message = messages.find((msg) => msg.id === messageId);
+            while (message && !visited.has(message.id)) {
+                visited.add(message.id);
+                selection[getBranchKey(message.parentId)] = message.id;
+                const parentId = message.parentId;
+                message = messages.find((msg) => msg.id === parentId);
+            }
+            setBranchSelection((prev) => ({ ...prev, ...selection }));
+
+            // Wait for the branch to render before scrolling to it
+            window.requestAnimationFrame(() => {
+                document
+                    .getElementById(getMessageElementId(messageId))
+                    ?.scrollIntoView({ behavior: "smooth", block: "start" });
+            });
+        },
+        [messages],
+    );
+
+    const handleDeleteMessage = useCallback(
+        (messageId: string) => {
+            if (!conversationId) return;
+            if (!window.confirm("Delete this message? This can't be undone.")) return;
+
+            deleteMessage(
+                { conversationId, messageId },
                 {
-                    conversationId,
-                    data: { content: text, role: MessageRole.User },
+                    onSuccess: () => toast.success("Message deleted"),
+                    onError: () => toast.error("Couldn't delete the message"),
                 },
+            );
+        },
+        [conversationId, deleteMessage],
+    );
+
+    const handleTogglePin = useCallback(
+        (messageId: string, pinned: boolean) => {
+            if (!conversationId) return;
+
+            setMessagePinned(
+                { conversationId, messageId, pinned },
                 {
-                    onSuccess: () => {
-                        // Refetch conversation messages to get updated messages including assistant response
-                        refetchConversation()
-                            .then(() => {
-                                setIsLoading(false);
-                            })
-                            .catch(() => {
-                                toast.error("Failed to load updated messages");
-                                setIsLoading(false);
-                            });
-                    },
-                    onError: () => {
-                        toast.error(
-                            "Failed to send your message. Please try again.",
-                        );
-                        setIsLoading(false);
-                        // Remove optimistic update on error
-                        setMessages((prev) =>
-                            prev.filter((msg) => msg.id !== newUserMessage.id),
-                        );
-                    },
+                    onSuccess: () =>
+                        toast.success(
+                            pinned
+                                ? "Pinned to key findings"
+                                : "Removed from key findings",
+                        ),
+                    onError: () => toast.error("Couldn't update the pin"),
+                },
+            );
+        },
+        [conversationId, setMessagePinned],
+    );
+
+    const handleSubmitFeedback = useCallback(
+        (
+            messageId: string,
+            rating: MessageFeedbackRating | null,
+            comment?: string,
+        ) => {
+            if (!conversationId) return;
+
+            setMessageFeedback(
+                { conversationId, messageId, data: { rating, comment } },
+                {
+                    onSuccess: () =>
+                        toast.success(
+                            rating ? "Thanks for your feedback" : "Feedback removed",
+                        ),
+                    onError: () => toast.error("Couldn't save your feedback"),
                 },
             );
         },
-        [conversationId, sendMessage, refetchConversation],
+        [conversationId, setMessageFeedback],
     );
 
     const hasCompanies = useMemo(
@@ -222,28 +616,72 @@ export function ConversationPage() {
           : null;
     const isProcessing =
         !!processingUpdate && !processingComplete && !processingError;
-    const companyName = conversation?.companies?.[0]?.companyName;
+    const companies = useMemo(
+        () => conversation?.companies ?? [],
+        [conversation?.companies],
+    );
+    const readyCompanies = companies.filter(
+        (company) => company.ingestionStatus === "Completed",
+    );
+    const isComparison = companies.length > 1;
+    const trainingDataLabel = readyCompanies
+        .map((company) => company.ticker || company.companyName)
+        .join(", ");
+    const canAddCompany = companies.length < MAX_COMPANIES_PER_CONVERSATION;
+    const hasFailedDocuments = documentStatuses.some(
+        (document) => !!document.errorMessage,
+    );
 
-    // Check if ingestion is already completed (persisted in DB) or just completed (via SignalR)
+    // Check if ingestion is already completed (persisted in DB) or just completed (via SignalR).
+    // Comparison conversations can be queried as soon as any one company is ready.
     const ingestionAlreadyCompleted =
-        conversation?.ingestionStatus === "Completed";
+        conversation?.ingestionStatus === "Completed" || readyCompanies.length > 0;
     const justCompletedAndFaded =
         !!processingComplete && completionVisibility === "hidden";
 
-    // Show status card only if we have companies, ingestion isn't complete, and there's no error
+    // Ingestion has stopped: it just failed or was cancelled, or (e.g. after a reload) every company
+    // ended up failed or cancelled
+    const stoppedCompanies = companies.filter(
+        (company) =>
+            company.ingestionStatus === "Failed" || company.ingestionStatus === "Cancelled",
+    );
+    const isIngestionStopped =
+        !!processingError ||
+        !!processingCancelled ||
+        (hasCompanies &&
+            !isProcessing &&
+            !ingestionAlreadyCompleted &&
+            stoppedCompanies.length === companies.length);
+    const stoppedTicker =
+        processingError?.companyIdentifier ??
+        processingCancelled?.companyIdentifier ??
+        stoppedCompanies[0]?.ticker ??
+        null;
+    // The company a Cancel click applies to: the one reporting progress, else the first still queued or running
+    const runningTicker =
+        processingUpdate?.companyIdentifier ??
+        companies.find(
+            (company) =>
+                company.ingestionStatus !== "Completed" &&
+                company.ingestionStatus !== "Failed" &&
+                company.ingestionStatus !== "Cancelled",
+        )?.ticker ??
+        null;
+
+    // Show status card only if we have companies, ingestion isn't complete, and it hasn't stopped
     // Also show it temporarily when processing just completed (during fade animation)
     const showStatusCard =
         hasCompanies &&
         !ingestionAlreadyCompleted &&
         (!processingComplete || completionVisibility !== "hidden") &&
-        !processingError;
+        !isIngestionStopped;
 
     // Ready for chat when companies exist AND ingestion is complete (either from DB or just finished)
     const isReadyForChat =
         hasCompanies && (ingestionAlreadyCompleted || justCompletedAndFaded);
 
     const showEmptyState =
-        !hasCompanies || showStatusCard || isReadyForChat || !!processingError;
+        !hasCompanies || showStatusCard || isReadyForChat || isIngestionStopped;
 
     useEffect(() => {
         if (!processingComplete || processingError) {
@@ -267,19 +705,12 @@ export function ConversationPage() {
         };
     }, [processingComplete, processingError]);
 
-    const companyOptions = useMemo(
-        () =>
-            availableCompanies.filter(
-                (company) => !!company.ticker && company.ticker.trim().length > 0,
-            ),
-        [availableCompanies],
-    );
-
-    const selectedCompanyInfo = useMemo(
-        () =>
-            companyOptions.find((option) => option.ticker === selectedCompany) ?? null,
-        [companyOptions, selectedCompany],
+    // Companies already in the conversation can't be picked again
+    const existingTickers = useMemo(
+        () => companies.map((company) => company.ticker),
+        [companies],
     );
+    const selectedCompanyInfo = selectedCompany?.ticker ? selectedCompany : null;
 
     useEffect(() => {
         if (!selectedCompany) {
@@ -298,6 +729,31 @@ export function ConversationPage() {
         }
     }, [companyFilings, selectedCompany]);
 
+    const filingsInScope = useMemo(
+        () =>
+            getFilingsInScope(
+                companyFilings?.filings ?? [],
+                selectedFilingTypes,
+                filingDateRange,
+            ),
+        [companyFilings?.filings, selectedFilingTypes, filingDateRange],
+    );
+    const hasFilingList = (companyFilings?.filings.length ?? 0) > 0;
+
+    // Changing the form types or period re-selects every filing in scope; individual filings
+    // can then be unticked
+    useEffect(() => {
+        setSelectedAccessions(
+            filingsInScope.map((filing) => filing.accessionNumber),
+        );
+    }, [filingsInScope]);
+
+    const resetCompanySelection = useCallback(() => {
+        setSelectedCompany(null);
+        setSelectedFilingTypes([]);
+        setFilingDateRange(OPEN_FILING_DATE_RANGE);
+    }, []);
+
     const toggleFilingType = useCallback((formType: string) => {
         setSelectedFilingTypes((prev) => {
             if (prev.includes(formType)) {
@@ -318,72 +774,141 @@ export function ConversationPage() {
             toast.error("Select at least one filing type.");
             return;
         }
+        if (hasFilingList && selectedAccessions.length === 0) {
+            toast.error("Select at least one filing.");
+            return;
+        }
 
-        setConversationCompany(
-            {
-                conversationId,
-                companyName: selectedCompanyInfo.name,
-                companyTicker: selectedCompanyInfo.ticker,
-                filingTypes: selectedFilingTypes,
+        // Pass the exact filings picked; form types are narrowed to those actually selected
+        const selectedFilings = filingsInScope.filter((filing) =>
+            selectedAccessions.includes(filing.accessionNumber),
+        );
+        const request = {
+            conversationId,
+            companyName: selectedCompanyInfo.name,
+            companyTicker: selectedCompanyInfo.ticker,
+            filingTypes: hasFilingList
+                ? selectedFilingTypes.filter((formType) =>
+                      selectedFilings.some((filing) => filing.formType === formType),
+                  )
+                : selectedFilingTypes,
+            accessionNumbers: hasFilingList
+                ? selectedFilings.map((filing) => filing.accessionNumber)
+                : undefined,
+        };
+        const callbacks = {
+            onSuccess: () => {
+                resetCompanySelection();
+                setIsAddingCompany(false);
+                refetchConversation();
+            },
+            onError: () => {
+                toast.error("Failed to start ingestion. Please try again.");
             },
+        };
+
+        // Once a conversation has a company, further companies are added alongside it for comparison
+        if (hasCompanies) {
+            addConversationCompany(request, callbacks);
+        } else {
+            setConversationCompany(request, callbacks);
+        }
+    };
+
+    /**
+     * Retries failed filings, one request per company. Without documents, every failed filing of
+     * the stopped company is retried.
+     * @param documents - The failed filings to retry
+     */
+    const handleRetry = (documents?: ProcessingDocumentStatus[]) => {
+        if (!conversationId) return;
+
+        const accessionsByTicker = new Map<string, string[] | undefined>();
+        if (documents && documents.length > 0) {
+            for (const document of documents) {
+                const ticker = document.companyIdentifier ?? stoppedTicker;
+                if (!ticker) continue;
+                accessionsByTicker.set(ticker, [
+                    ...(accessionsByTicker.get(ticker) ?? []),
+                    document.accessionNumber,
+                ]);
+            }
+        } else if (stoppedTicker) {
+            accessionsByTicker.set(stoppedTicker, undefined);
+        }
+
+        accessionsByTicker.forEach((accessionNumbers, ticker) => {
+            retryCompanyIngestion(
+                { conversationId, ticker, accessionNumbers },
+                {
+                    onSuccess: () => {
+                        resetProcessingStatus();
+                        toast.success(
+                            accessionNumbers
+                                ? `Retrying ${accessionNumbers.length} filing(s) for ${ticker}`
+                                : `Retrying failed filings for ${ticker}`,
+                        );
+                    },
+                    onError: () => {
+                        toast.error(`Failed to retry ${ticker}. Please try again.`);
+                    },
+                },
+            );
+        });
+    };
+
+    const handleCancelIngestion = () => {
+        if (!conversationId || !runningTicker) return;
+
+        cancelCompanyIngestion(
+            { conversationId, ticker: runningTicker },
             {
                 onSuccess: () => {
-                    setSelectedCompany("");
-                    setSelectedFilingTypes([]);
-                    refetchConversation();
+                    toast.success(`Cancelled ingestion for ${runningTicker}`);
                 },
                 onError: () => {
-                    toast.error("Failed to start ingestion. Please try again.");
+                    toast.error("Failed to cancel ingestion. Please try again.");
                 },
             },
         );
     };
 
+    const handleCancelAddCompany = () => {
+        resetCompanySelection();
+        setIsAddingCompany(false);
+    };
+
     const availableFilingTypes = companyFilings?.availableFilingTypes ?? [];
 
     const renderCompanySelector = (
-        <div className="flex h-full items-center justify-center">
-            <div className="flex w-full max-w-xl flex-col gap-4 rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+        <div
+            className={
+                isAddingCompany
+                    ? "fixed inset-0 z-40 flex items-center justify-center bg-black/30 p-4"
+                    : "flex h-full items-center justify-center"
+            }
+        >
+            <div className="flex max-h-full w-full max-w-xl flex-col gap-4 overflow-y-auto rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
                 <div>
                     <div className="text-lg font-semibold text-gray-900">
-                        Choose a company
+                        {isAddingCompany ? "Add a company to compare" : "Choose a company"}
                     </div>
                     <div className="mt-1 text-sm text-slate-600">
-                        Pick a Fortune 500 company, then choose which filings to ingest.
+                        {isAddingCompany
+                            ? "Its filings are ingested alongside the companies already in this conversation."
+                            : "Search any SEC-registered company, then choose which filings to ingest."}
                     </div>
                 </div>
-                <select
-                    className="w-full rounded border border-gray-300 px-3 py-2 text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                <CompanyAutocomplete
                     value={selectedCompany}
-                    onChange={(e) => {
-                        setSelectedCompany(e.target.value);
+                    onSelect={(company) => {
+                        setSelectedCompany(company);
                         setSelectedFilingTypes([]);
+                        setFilingDateRange(OPEN_FILING_DATE_RANGE);
                     }}
-                    disabled={isLoadingCompanies || isSettingCompany}
-                >
-                    <option value="" disabled>
-                        {isLoadingCompanies
-                            ? "Loading companies..."
-                            : companyListError
-                              ? "Failed to load companies"
-                              : "Choose a company"}
-                    </option>
-                    {companyOptions.map((option) => (
-                        <option
-                            key={`${option.cik}:${option.ticker ?? "no-ticker"}:${option.exchange ?? "no-exchange"}`}
-                            value={option.ticker ?? ""}
-                        >
-                            {option.name}
-                            {option.ticker ? ` (${option.ticker})` : ""}
-                            {option.exchange ? ` - ${option.exchange}` : ""}
-                        </option>
-                    ))}
-                </select>
-                {companyListError && (
-                    <div className="text-sm text-red-600">
-                        Failed to load companies. Refresh and try again.
-                    </div>
-                )}
+                    excludedTickers={existingTickers}
+                    disabled={isSettingCompany}
+                />
                 {selectedCompanyInfo && (
                     <div className="rounded-lg border border-slate-200 bg-slate-50 p-4">
                         <div className="text-sm font-semibold text-slate-900">
@@ -464,23 +989,49 @@ export function ConversationPage() {
                                         </label>
                                     ))}
                                 </div>
+                                {hasFilingList && selectedFilingTypes.length > 0 && (
+                                    <FilingPicker
+                                        filings={filingsInScope}
+                                        range={filingDateRange}
+                                        onRangeChange={setFilingDateRange}
+                                        selectedAccessions={selectedAccessions}
+                                        onSelectedAccessionsChange={setSelectedAccessions}
+                                        disabled={isSettingCompany}
+                                    />
+                                )}
                             </>
                         )}
                     </div>
                 )}
-                <Button
-                    variant="primary"
-                    onClick={handleResearch}
-                    disabled={
-                        isSettingCompany ||
-                        isLoadingCompanies ||
-                        isLoadingCompanyFilings ||
-                        !selectedCompanyInfo ||
-                        selectedFilingTypes.length === 0
-                    }
-                >
-                    {isSettingCompany ? "Starting..." : "Start research"}
-                </Button>
+                <div className="flex gap-2">
+                    {isAddingCompany && (
+                        <Button
+                            variant="soft"
+                            onClick={handleCancelAddCompany}
+                            disabled={isSettingCompany}
+                        >
+                            Cancel
+                        </Button>
+                    )}
+                    <Button
+                        variant="primary"
+                        className="flex-1"
+                        onClick={handleResearch}
+                        disabled={
+                            isSettingCompany ||
+                            isLoadingCompanyFilings ||
+                            !selectedCompanyInfo ||
+                            selectedFilingTypes.length === 0 ||
+                            (hasFilingList && selectedAccessions.length === 0)
+                        }
+                    >
+                        {isSettingCompany
+                            ? "Starting..."
+                            : isAddingCompany
+                              ? "Add company"
+                              : "Start research"}
+                    </Button>
+                </div>
             </div>
         </div>
     );
@@ -534,30 +1085,86 @@ export function ConversationPage() {
                     </div>
                 </div>
             )}
+            <IngestionDocumentTable
+                documents={documentStatuses}
+                showCompany={isComparison}
+            />
+            {runningTicker && !processingComplete && (
+                <div className="mt-3 flex justify-end">
+                    <Button
+                        variant="neutral"
+                        icon={Square}
+                        onClick={handleCancelIngestion}
+                        disabled={isCancellingIngestion}
+                    >
+                        {isCancellingIngestion
+                            ? "Cancelling..."
+                            : isComparison
+                              ? `Cancel ${runningTicker}`
+                              : "Cancel ingestion"}
+                    </Button>
+                </div>
+            )}
         </div>
     );
 
     const renderProcessingError = (
         <div className="w-full max-w-xl rounded-lg border border-red-200 bg-red-50 p-4 text-left shadow-sm">
-            <div className="text-sm font-semibold text-red-700">
-                Processing failed
-            </div>
-            <div className="mt-1 text-xs text-red-600">
-                {processingError?.errorMessage ??
-                    "We ran into an issue while ingesting the documents."}
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <div className="text-sm font-semibold text-red-700">
+                        {processingCancelled ? "Ingestion cancelled" : "Processing failed"}
+                        {stoppedTicker ? ` for ${stoppedTicker}` : ""}
+                    </div>
+                    <div className="mt-1 text-xs text-red-600">
+                        {processingError?.errorMessage ??
+                            (processingCancelled
+                                ? "Filings that finished before cancelling are kept."
+                                : "We ran into an issue while ingesting the documents.")}
+                    </div>
+                </div>
+                {stoppedTicker && (
+                    <Button
+                        variant="danger"
+                        icon={RotateCcw}
+                        onClick={() => handleRetry()}
+                        disabled={isRetryingIngestion}
+                    >
+                        {isRetryingIngestion ? "Retrying..." : "Retry"}
+                    </Button>
+                )}
             </div>
+            <IngestionDocumentTable
+                documents={documentStatuses}
+                showCompany={isComparison}
+                initialFailedOnly
+                onRetry={handleRetry}
+                isRetrying={isRetryingIngestion}
+            />
         </div>
     );
 
     const renderCallToAction = (
         <div className="max-w-xl text-center">
             <div className="text-xl font-semibold text-slate-900">
-                Ask about the company&apos;s financials
+                {isComparison
+                    ? "Compare the companies' financials"
+                    : "Ask about the company's financials"}
             </div>
             <div className="mt-2 text-sm text-slate-600">
-                Start with revenue trends, guidance changes, balance sheet
-                strength, or any red flags you want to investigate.
+                {isComparison
+                    ? "Ask how their margins, growth, guidance, or risk factors stack up. Answers attribute each figure to its company."
+                    : "Start with revenue trends, guidance changes, balance sheet strength, or any red flags you want to investigate."}
             </div>
+            {hasFailedDocuments && (
+                <IngestionDocumentTable
+                    documents={documentStatuses}
+                    showCompany={isComparison}
+                    initialFailedOnly
+                    onRetry={handleRetry}
+                    isRetrying={isRetryingIngestion}
+                />
+            )}
         </div>
     );
 
@@ -603,26 +1210,105 @@ export function ConversationPage() {
             <div className="flex-1 min-h-0">
                 <div className="flex h-full min-h-0 flex-col">
                     <div className="px-4 pt-4">
-                        {isReadyForChat && companyName ? (
-                            <div className="flex items-center justify-center">
-                                <div className="rounded-full border border-slate-200 bg-slate-50 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-600">
-                                    Training data: {companyName}
-                                </div>
+                        {hasCompanies ? (
+                            <div className="flex flex-wrap items-center justify-center gap-2">
+                                {isReadyForChat && trainingDataLabel && (
+                                    <div className="rounded-full border border-slate-200 bg-slate-50 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-600">
+                                        Training data: {trainingDataLabel}
+                                    </div>
+                                )}
+                                {isComparison &&
+                                    companies.map((company) => {
+                                        const isLive =
+                                            processingUpdate?.companyIdentifier?.toUpperCase() ===
+                                                company.ticker.toUpperCase() &&
+                                            !processingComplete &&
+                                            !processingError;
+                                        const statusLabel = getCompanyStatusLabel(
+                                            company,
+                                            isLive ? processingUpdate.progressPercent : null,
+                                        );
+
+                                        return (
+                                            <div
+                                                key={company.id}
+                                                title={company.companyName}
+                                                className={`rounded-full border px-3 py-1 text-xs font-medium ${
+                                                    company.ingestionStatus === "Completed"
+                                                        ? "border-emerald-200 bg-emerald-50 text-emerald-700"
+                                                        : company.ingestionStatus === "Failed"
+                                                          ? "border-red-200 bg-red-50 text-red-700"
+                                                          : company.ingestionStatus === "Cancelled"
+                                                            ? "border-slate-200 bg-slate-50 text-slate-600"
+                                                            : "border-blue-200 bg-blue-50 text-blue-700"
+                                                }`}
+                                            >
+                                                {company.ticker} · {statusLabel}
+                                            </div>
+                                        );
+                                    })}
+                                {canAddCompany && (
+                                    <button
+                                        type="button"
+                                        onClick={() => setIsAddingCompany(true)}
+                                        className="inline-flex items-center gap-1 rounded-full border border-dashed border-slate-300 px-3 py-1 text-xs font-medium text-slate-600 hover:border-slate-400 hover:text-slate-900"
+                                    >
+                                        <Plus className="h-3.5 w-3.5" />
+                                        Add company
+                                    </button>
+                                )}
+                                <button
+                                    type="button"
+                                    onClick={() => {
+                                        setIsDocumentsOpen((prev) => !prev);
+                                        setEvidenceTarget(null);
+                                    }}
+                                    className={`inline-flex items-center gap-1 rounded-full border px-3 py-1 text-xs font-medium ${
+                                        isDocumentsOpen
+                                            ? "border-blue-200 bg-blue-50 text-blue-700"
+                                            : "border-slate-200 text-slate-600 hover:border-slate-400 hover:text-slate-900"
+                                    }`}
+                                    aria-pressed={isDocumentsOpen}
+                                >
+                                    <FileText className="h-3.5 w-3.5" />
+                                    Documents · {conversation.documents.length}
+                                </button>
+                                <ConversationReportsMenu conversationId={conversation.id} />
+                                <MemoExportMenu
+                                    buildMemo={() => buildResearchMemo(conversation, exportThread)}
+                                    title="Export this conversation as a research memo"
+                                    disabled={isStreaming || isLoading}
+                                />
                             </div>
                         ) : null}
                     </div>
+                    <KeyFindingsPanel
+                        findings={keyFindings}
+                        onSelect={handleShowMessage}
+                        onUnpin={(messageId) => handleTogglePin(messageId, false)}
+                    />
                     <div className="flex-1 min-h-0">
                         <ChatInterface
-                            messages={messages}
+                            messages={threadMessages}
                             onSendMessage={handleSendMessage}
+                            onEditMessage={handleEditMessage}
+                            onRegenerateMessage={handleRegenerateMessage}
+                            onSelectBranch={handleSelectBranch}
+                            onDeleteMessage={handleDeleteMessage}
+                            onTogglePin={handleTogglePin}
+                            onSubmitFeedback={handleSubmitFeedback}
                             isLoading={isLoading}
-                            inputDisabled={isProcessing}
+                            isStreaming={isStreaming}
+                            onStopGenerating={stopGenerating}
+                            showRetrievalOptions
+                            onViewEvidence={handleViewEvidence}
+                            inputDisabled={isProcessing && !isReadyForChat}
                             showInput={isReadyForChat}
                             showEmptyState={showEmptyState}
                             emptyStateContent={
                                 !hasCompanies
                                     ? renderCompanySelector
-                                    : processingError
+                                    : isIngestionStopped
                                       ? renderProcessingError
                                       : showStatusCard
                                         ? renderProcessingStatus
@@ -632,6 +1318,23 @@ export function ConversationPage() {
                     </div>
                 </div>
             </div>
+            {isAddingCompany && renderCompanySelector}
+            {isDocumentsOpen && conversationId && (
+                <ConversationDocumentsDrawer
+                    conversationId={conversationId}
+                    documents={conversation.documents}
+                    onClose={() => setIsDocumentsOpen(false)}
+                />
+            )}
+            {evidenceTarget && conversationId && (
+                <EvidencePanel
+                    conversationId={conversationId}
+                    messageId={evidenceTarget.messageId}
+                    question={evidenceQuestion}
+                    focusedDocumentId={evidenceTarget.documentId}
+                    onClose={() => setEvidenceTarget(null)}
+                />
+            )}
         </div>
     );
 }
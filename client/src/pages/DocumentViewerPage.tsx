@@ -0,0 +1,355 @@
+import { ArrowLeft, ChevronLeft, ChevronRight, ExternalLink } from "lucide-react";
+import { ReactNode, useEffect, useMemo, useRef, useState } from "react";
+import { Link, Navigate, useParams, useSearchParams } from "react-router-dom";
+import { useGetDocumentContent } from "../api/document/getDocumentContent";
+import { useGetDocumentFile } from "../api/document/getDocumentFile";
+import { EvidenceChunk, useGetMessageEvidence } from "../api/message/getMessageEvidence";
+import { Button } from "../components/ui/button/Button";
+import { TextRange, locateChunk } from "../utils/documentViewer";
+
+type ViewMode = "text" | "original";
+
+type CitedRange = TextRange & {
+    chunkIndex: number;
+};
+
+type OriginalDocumentFrameProps = {
+    documentId: string;
+    contentType: string;
+    title: string;
+};
+
+type HighlightedDocumentTextProps = {
+    text: string;
+    citedRanges: CitedRange[];
+    currentChunkIndex: number | null;
+};
+
+/**
+ * Renders the original stored file in a sandboxed iframe. HTML filings are inlined via srcDoc so
+ * they can't run scripts; other types (e.g. PDF) are shown through an object URL.
+ */
+function OriginalDocumentFrame({ documentId, contentType, title }: OriginalDocumentFrameProps) {
+    const { data: file, isLoading, error } = useGetDocumentFile(documentId, true);
+    const [html, setHtml] = useState<string | null>(null);
+    const [objectUrl, setObjectUrl] = useState<string | null>(null);
+    const isHtml = contentType === "text/html";
+
+    useEffect(() => {
+        if (!file) return;
+
+        if (isHtml) {
+            let cancelled = false;
+            file.text().then((content) => {
+                if (!cancelled) setHtml(content);
+            });
+            return () => {
+                cancelled = true;
+            };
+        }
+
+        const url = URL.createObjectURL(file);
+        setObjectUrl(url);
+        return () => URL.revokeObjectURL(url);
+    }, [file, isHtml]);
+
+    if (isLoading) {
+        return <div className="p-6 text-sm text-gray-500">Loading original document...</div>;
+    }
+
+    if (error) {
+        return (
+            <div className="p-6 text-sm text-red-600">
+                Couldn't load the original document.
+            </div>
+        );
+    }
+
+    return isHtml ? (
+        <iframe
+            title={title}
+            sandbox=""
+            srcDoc={html ?? ""}
+            className="h-full w-full border-0 bg-white"
+        />
+    ) : (
+        <iframe
+            title={title}
+            src={objectUrl ?? undefined}
+            className="h-full w-full border-0 bg-white"
+        />
+    );
+}
+
+/**
+ * Document text with cited chunks highlighted. The current chunk gets a stronger highlight and is
+ * scrolled into view whenever it changes.
+ */
+function HighlightedDocumentText({
+    text,
+    citedRanges,
+    currentChunkIndex,
+}: HighlightedDocumentTextProps) {
+    const currentRef = useRef<HTMLElement | null>(null);
+
+    const segments = useMemo(() => {
+        // Chunks overlap, so split the text at every range boundary and classify each segment
+        const boundaries = Array.from(
+            new Set([0, text.length, ...citedRanges.flatMap((range) => [range.start, range.end])]),
+        ).sort((a, b) => a - b);
+
+        const result: { start: number; end: number; kind: "plain" | "cited" | "current" }[] = [];
+        for (let i = 0; i < boundaries.length - 1; i++) {
+            const start = boundaries[i];
+            const end = boundaries[i + 1];
+            const covering = citedRanges.filter((range) => range.start <= start && range.end >= end);
+            const kind = covering.some((range) => range.chunkIndex === currentChunkIndex)
+                ? "current"
+                : covering.length > 0
+                  ? "cited"
+                  : "plain";
+            result.push({ start, end, kind });
+        }
+        return result;
+    }, [text, citedRanges, currentChunkIndex]);
+
+    useEffect(() => {
+        currentRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }, [currentChunkIndex, segments]);
+
+    let hasAttachedRef = false;
+    const content: ReactNode[] = segments.map((segment) => {
+        const value = text.slice(segment.start, segment.end);
+        if (segment.kind === "plain") return value;
+
+        const isFirstCurrent = segment.kind === "current" && !hasAttachedRef;
+        if (isFirstCurrent) hasAttachedRef = true;
+
+        return (
+            <mark
+                key={segment.start}
+                ref={
+                    isFirstCurrent
+                        ? (element) => {
+                              currentRef.current = element;
+                          }
+                        : undefined
+                }
+                className={
+                    segment.kind === "current"
+                        ? "rounded bg-blue-200 text-gray-900 ring-2 ring-blue-300"
+                        : "rounded bg-yellow-100 text-gray-900"
+                }
+            >
+                {value}
+            </mark>
+        );
+    });
+
+    return (
+        <div className="mx-auto max-w-4xl whitespace-pre-wrap p-6 font-serif text-sm leading-relaxed text-gray-900">
+            {content}
+        </div>
+    );
+}
+
+/**
+ * DocumentViewerPage component - shows a stored document inside the app.
+ * When opened from an answer (?messageId=), every chunk that message cited from this document is
+ * highlighted and the reader can page between them; ?chunk= selects the chunk to start on.
+ */
+export function DocumentViewerPage() {
+    const { conversationId, documentId } = useParams<{
+        conversationId: string;
+        documentId: string;
+    }>();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const messageId = searchParams.get("messageId");
+    const chunkParam = searchParams.get("chunk");
+    const [viewMode, setViewMode] = useState<ViewMode>("text");
+
+    const {
+        data: document,
+        isLoading: isLoadingDocument,
+        error: documentError,
+    } = useGetDocumentContent(documentId!);
+    const { data: evidence } = useGetMessageEvidence(conversationId!, messageId);
+
+    // Cited chunks for this document, in reading order
+    const citedChunks = useMemo<EvidenceChunk[]>(() => {
+        const source = evidence?.sources.find(
+            (evidenceSource) => evidenceSource.documentId.toString() === documentId,
+        );
+        return [...(source?.chunks ?? [])].sort((a, b) => a.chunkIndex - b.chunkIndex);
+    }, [evidence, documentId]);
+
+    const citedRanges = useMemo<CitedRange[]>(() => {
+        if (!document) return [];
+        return citedChunks.flatMap((chunk) => {
+            const range = locateChunk(document.documentText, chunk.text);
+            return range ? [{ ...range, chunkIndex: chunk.chunkIndex }] : [];
+        });
+    }, [document, citedChunks]);
+
+    // Default to the most similar chunk when no chunk is specified
+    const currentChunkIndex = useMemo(() => {
+        if (citedChunks.length === 0) return null;
+        const requested = chunkParam !== null ? Number(chunkParam) : NaN;
+        if (citedChunks.some((chunk) => chunk.chunkIndex === requested)) return requested;
+        return [...citedChunks].sort((a, b) => b.similarity - a.similarity)[0].chunkIndex;
+    }, [citedChunks, chunkParam]);
+
+    const currentPosition = citedChunks.findIndex(
+        (chunk) => chunk.chunkIndex === currentChunkIndex,
+    );
+    const currentChunk = currentPosition >= 0 ? citedChunks[currentPosition] : null;
+    const isCurrentChunkLocated = citedRanges.some(
+        (range) => range.chunkIndex === currentChunkIndex,
+    );
+
+    const goToCitedChunk = (position: number) => {
+        const chunk = citedChunks[position];
+        if (!chunk || !messageId) return;
+
+        setViewMode("text");
+        setSearchParams(
+            { messageId, chunk: chunk.chunkIndex.toString() },
+            { replace: true },
+        );
+    };
+
+    if (!conversationId || !documentId) {
+        return <Navigate to="/" replace />;
+    }
+
+    if (isLoadingDocument) {
+        return (
+            <div className="flex h-full items-center justify-center">
+                <div className="text-center">
+                    <div className="mx-auto mb-4 h-8 w-8 animate-spin rounded-full border-b-2 border-blue-600"></div>
+                    <p className="text-gray-600">Loading document...</p>
+                </div>
+            </div>
+        );
+    }
+
+    if (documentError || !document) {
+        return (
+            <div className="flex h-full items-center justify-center">
+                <div className="text-center">
+                    <p className="mb-4 text-red-600">Failed to load document</p>
+                    <Link
+                        to={`/conversations/${conversationId}`}
+                        className="text-sm font-medium text-blue-600 hover:underline"
+                    >
+                        Back to conversation
+                    </Link>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex h-full min-h-0 flex-col bg-white">
+            <div className="flex flex-wrap items-center gap-4 border-b border-gray-200 px-4 py-3">
+                <Link
+                    to={`/conversations/${conversationId}`}
+                    className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+                >
+                    <ArrowLeft className="h-4 w-4" />
+                    Back
+                </Link>
+                <div className="min-w-0 flex-1">
+                    <h2 className="truncate text-base font-semibold text-gray-900">
+                        {document.title}
+                    </h2>
+                    {document.description && (
+                        <p className="truncate text-xs text-gray-500">{document.description}</p>
+                    )}
+                </div>
+
+                {citedChunks.length > 0 && (
+                    <div className="flex items-center gap-2 text-sm text-gray-700">
+                        <Button
+                            variant="soft"
+                            icon={ChevronLeft}
+                            onClick={() => goToCitedChunk(currentPosition - 1)}
+                            disabled={currentPosition <= 0}
+                            aria-label="Previous cited passage"
+                        />
+                        <span>
+                            Cited passage {currentPosition + 1} of {citedChunks.length}
+                        </span>
+                        <Button
+                            variant="soft"
+                            icon={ChevronRight}
+                            onClick={() => goToCitedChunk(currentPosition + 1)}
+                            disabled={currentPosition >= citedChunks.length - 1}
+                            aria-label="Next cited passage"
+                        />
+                    </div>
+                )}
+
+                {document.hasOriginalFile && (
+                    <div className="flex rounded-lg border border-gray-200 p-0.5 text-xs">
+                        {(["text", "original"] as const).map((mode) => (
+                            <button
+                                key={mode}
+                                type="button"
+                                onClick={() => setViewMode(mode)}
+                                className={`rounded-md px-3 py-1 font-medium ${
+                                    viewMode === mode
+                                        ? "bg-gray-200 text-gray-900"
+                                        : "text-gray-500 hover:text-gray-800"
+                                }`}
+                            >
+                                {mode === "text" ? "Text" : "Original"}
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                {document.documentLink && (
+                    <a
+                        href={document.documentLink}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-sm font-medium text-blue-600 hover:text-blue-800 hover:underline"
+                    >
+                        Source
+                        <ExternalLink className="h-3.5 w-3.5" />
+                    </a>
+                )}
+            </div>
+
+            {viewMode === "text" && currentChunk && !isCurrentChunkLocated && (
+                <div className="border-b border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900">
+                    <p className="mb-1 font-medium">
+                        This passage couldn't be located in the document text. Cited chunk:
+                    </p>
+                    <p className="whitespace-pre-wrap text-amber-800">{currentChunk.text}</p>
+                </div>
+            )}
+
+            <div className="flex-1 min-h-0 overflow-y-auto">
+                {viewMode === "original" ? (
+                    <OriginalDocumentFrame
+                        documentId={documentId}
+                        contentType={document.contentType}
+                        title={document.title}
+                    />
+                ) : document.documentText ? (
+                    <HighlightedDocumentText
+                        text={document.documentText}
+                        citedRanges={citedRanges}
+                        currentChunkIndex={currentChunkIndex}
+                    />
+                ) : (
+                    <div className="p-6 text-sm text-gray-500">
+                        No text is available for this document yet.
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
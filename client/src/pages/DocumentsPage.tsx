@@ -0,0 +1,312 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { FileText, MessageSquare, Sparkles, Trash2, X } from "lucide-react";
+import { FormEvent, useState } from "react";
+import ReactMarkdown from "react-markdown";
+import { Link } from "react-router-dom";
+import remarkGfm from "remark-gfm";
+import { toast } from "sonner";
+import { useSendLibraryQuery } from "../api/chat/sendLibraryQuery";
+import {
+    ConversationSummary,
+    useGetConversationList,
+} from "../api/conversation/getConversationList";
+import { useAttachDocument } from "../api/document/attachDocument";
+import { useDeleteDocument } from "../api/document/deleteDocument";
+import { useDetachDocument } from "../api/document/detachDocument";
+import {
+    LibraryDocument,
+    useGetLibraryDocumentList,
+} from "../api/document/getLibraryDocumentList";
+import { DocumentIngestionBadge } from "../components/DocumentIngestionBadge";
+import { FileDropzone } from "../components/FileDropzone";
+import { getDocumentViewerPath } from "../utils/documentViewer";
+import { formatFileSize } from "../utils/documents";
+
+type LibraryDocumentRowProps = {
+    document: LibraryDocument;
+    conversations: ConversationSummary[];
+    onAttach: (conversationId: string) => void;
+    onDetach: (conversationId: string) => void;
+    onDelete: () => void;
+};
+
+function LibraryDocumentRow({
+    document,
+    conversations,
+    onAttach,
+    onDetach,
+    onDelete,
+}: LibraryDocumentRowProps) {
+    const attachedIds = new Set(document.attachments.map((a) => a.conversationId));
+    const attachableConversations = conversations.filter((c) => !attachedIds.has(c.id));
+    // The viewer lives under a conversation, so a document opens through one it's attached to
+    const viewerConversationId = document.attachments[0]?.conversationId;
+
+    return (
+        <li className="group flex flex-col gap-2 px-4 py-3">
+            <div className="flex items-start gap-3">
+                <FileText className="mt-0.5 h-5 w-5 shrink-0 text-gray-400" />
+                <div className="min-w-0 flex-1">
+                    {viewerConversationId ? (
+                        <Link
+                            to={getDocumentViewerPath(viewerConversationId, document.id)}
+                            className="font-medium text-gray-900 hover:text-blue-700 hover:underline"
+                        >
+                            {document.title}
+                        </Link>
+                    ) : (
+                        <span className="font-medium text-gray-900">{document.title}</span>
+                    )}
+                    <div className="text-xs text-gray-500">
+                        {document.folderPath && `${document.folderPath}/`}
+                        {document.originalFileName} · {formatFileSize(document.fileSize)} ·{" "}
+                        {new Date(document.uploadedAt).toLocaleDateString()}
+                    </div>
+                    {document.ingestionStatus === "Failed" && document.ingestionError && (
+                        <p className="mt-1 text-xs text-red-600">{document.ingestionError}</p>
+                    )}
+                </div>
+                <DocumentIngestionBadge
+                    status={document.ingestionStatus}
+                    error={document.ingestionError}
+                />
+                <button
+                    type="button"
+                    onClick={onDelete}
+                    className="rounded p-1 text-gray-400 opacity-0 transition-opacity group-hover:opacity-100 hover:bg-gray-100 hover:text-red-600 focus:opacity-100"
+                    title="Delete document"
+                    aria-label="Delete document"
+                >
+                    <Trash2 className="h-4 w-4" />
+                </button>
+            </div>
+
+            <div className="ml-8 flex flex-wrap items-center gap-1.5">
+                {document.attachments.map((attachment) => (
+                    <span
+                        key={attachment.conversationId}
+                        className="inline-flex items-center gap-1 rounded-full border border-gray-200 bg-gray-50 py-0.5 pr-1 pl-2 text-xs text-gray-700"
+                    >
+                        <MessageSquare className="h-3 w-3" />
+                        <Link
+                            to={`/conversations/${attachment.conversationId}`}
+                            className="hover:text-blue-700 hover:underline"
+                        >
+                            {attachment.conversationTitle}
+                        </Link>
+                        <button
+                            type="button"
+                            onClick={() => onDetach(attachment.conversationId)}
+                            className="rounded-full p-0.5 text-gray-400 hover:bg-gray-200 hover:text-gray-700"
+                            title="Detach from this conversation"
+                            aria-label={`Detach from ${attachment.conversationTitle}`}
+                        >
+                            <X className="h-3 w-3" />
+                        </button>
+                    </span>
+                ))}
+                {attachableConversations.length > 0 && (
+                    <select
+                        value=""
+                        onChange={(e) => e.target.value && onAttach(e.target.value)}
+                        className="rounded-full border border-dashed border-gray-300 bg-white px-2 py-0.5 text-xs text-gray-600 hover:border-gray-400"
+                        aria-label="Attach to a conversation"
+                    >
+                        <option value="">+ Attach to conversation…</option>
+                        {attachableConversations.map((conversation) => (
+                            <option key={conversation.id} value={conversation.id}>
+                                {conversation.title}
+                            </option>
+                        ))}
+                    </select>
+                )}
+            </div>
+        </li>
+    );
+}
+
+/**
+ * Questions answered from the library documents alone, without any conversation's filings
+ */
+function LibraryQuestionPanel({ hasReadyDocuments }: { hasReadyDocuments: boolean }) {
+    const [question, setQuestion] = useState("");
+    const { mutate: sendQuery, data: answer, isPending, reset } = useSendLibraryQuery();
+
+    const handleSubmit = (event: FormEvent) => {
+        event.preventDefault();
+        const trimmed = question.trim();
+        if (!trimmed) return;
+
+        sendQuery(trimmed, {
+            onError: () => toast.error("Couldn't answer from your documents. Please try again."),
+        });
+    };
+
+    return (
+        <section className="rounded-lg border border-gray-200 bg-white p-4">
+            <h2 className="mb-1 flex items-center gap-2 font-medium text-gray-900">
+                <Sparkles className="h-4 w-4 text-blue-600" />
+                Ask your documents
+            </h2>
+            <p className="mb-3 text-xs text-gray-500">
+                Answers come only from the documents on this page, not from any conversation's
+                filings.
+            </p>
+            <form onSubmit={handleSubmit} className="flex gap-2">
+                <input
+                    value={question}
+                    onChange={(e) => {
+                        setQuestion(e.target.value);
+                        if (answer) reset();
+                    }}
+                    placeholder={
+                        hasReadyDocuments
+                            ? "e.g. What margin guidance do the broker notes give?"
+                            : "Upload a document to start asking questions"
+                    }
+                    disabled={!hasReadyDocuments || isPending}
+                    className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:bg-gray-50"
+                />
+                <button
+                    type="submit"
+                    disabled={!hasReadyDocuments || isPending || !question.trim()}
+                    className="rounded-lg bg-blue-600 px-4 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                    {isPending ? "Asking..." : "Ask"}
+                </button>
+            </form>
+
+            {answer && (
+                <div className="mt-4 border-t border-gray-100 pt-4">
+                    <div className="prose prose-sm max-w-none text-gray-900">
+                        <ReactMarkdown remarkPlugins={[remarkGfm]}>
+                            {answer.llmResponse}
+                        </ReactMarkdown>
+                    </div>
+                    {answer.sources.length > 0 && (
+                        <div className="mt-3">
+                            <div className="mb-1 text-xs font-medium text-gray-500">Sources</div>
+                            <ul className="space-y-1">
+                                {answer.sources.map((source, index) => (
+                                    <li
+                                        key={source.documentId}
+                                        className="flex items-center gap-2 text-sm text-gray-700"
+                                    >
+                                        <span className="text-xs text-gray-400">
+                                            [{index + 1}]
+                                        </span>
+                                        {source.documentTitle}
+                                        <span className="text-xs text-gray-500">
+                                            {source.chunksUsed} passage
+                                            {source.chunksUsed === 1 ? "" : "s"}, relevance{" "}
+                                            {source.relevanceScore.toFixed(2)}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            )}
+        </section>
+    );
+}
+
+/**
+ * "My documents" workspace: the user's own uploads (management decks, broker notes, ...) that
+ * belong to no conversation. Shows their ingestion state, attaches them to conversations, and
+ * answers questions over them alone.
+ */
+export function DocumentsPage() {
+    const queryClient = useQueryClient();
+    const { data: documents, isLoading } = useGetLibraryDocumentList();
+    const { data: conversations } = useGetConversationList();
+    const { mutate: attachDocument } = useAttachDocument();
+    const { mutate: detachDocument } = useDetachDocument();
+    const { mutate: deleteDocument } = useDeleteDocument();
+
+    const hasReadyDocuments =
+        documents?.some((d) => (d.ingestionStatus ?? "Completed") === "Completed") ?? false;
+
+    const handleAttach = (document: LibraryDocument, conversationId: string) => {
+        attachDocument(
+            { documentId: document.id, conversationId },
+            {
+                onSuccess: (attachment) =>
+                    toast.success(`Attached to "${attachment.conversationTitle}"`),
+                onError: () => toast.error("Couldn't attach the document"),
+            }
+        );
+    };
+
+    const handleDetach = (document: LibraryDocument, conversationId: string) => {
+        detachDocument(
+            { documentId: document.id, conversationId },
+            { onError: () => toast.error("Couldn't detach the document") }
+        );
+    };
+
+    const handleDelete = (document: LibraryDocument) => {
+        if (!window.confirm(`Delete "${document.title}"? This can't be undone.`)) return;
+
+        deleteDocument(document.id, {
+            onSuccess: () => {
+                queryClient.invalidateQueries({ queryKey: ["documents", "library"] });
+                document.attachments.forEach((attachment) =>
+                    queryClient.invalidateQueries({
+                        queryKey: ["documents", attachment.conversationId],
+                    })
+                );
+                toast.success("Document deleted");
+            },
+            onError: () => toast.error("Couldn't delete the document"),
+        });
+    };
+
+    return (
+        <div className="h-full overflow-y-auto bg-gray-50">
+            <div className="mx-auto max-w-4xl space-y-6 px-6 py-8">
+                <div>
+                    <h1 className="mb-1 text-2xl font-semibold text-gray-900">My documents</h1>
+                    <p className="text-sm text-gray-600">
+                        Your own research material. Attach a document to a conversation to use it
+                        alongside that conversation's filings.
+                    </p>
+                </div>
+
+                <FileDropzone compact />
+
+                <section className="overflow-hidden rounded-lg border border-gray-200 bg-white">
+                    {isLoading ? (
+                        <p className="px-4 py-6 text-center text-sm text-gray-500">
+                            Loading documents...
+                        </p>
+                    ) : !documents || documents.length === 0 ? (
+                        <p className="px-4 py-6 text-center text-sm text-gray-500">
+                            No documents yet. Upload one above to get started.
+                        </p>
+                    ) : (
+                        <ul className="divide-y divide-gray-100">
+                            {documents.map((document) => (
+                                <LibraryDocumentRow
+                                    key={document.id}
+                                    document={document}
+                                    conversations={conversations ?? []}
+                                    onAttach={(conversationId) =>
+                                        handleAttach(document, conversationId)
+                                    }
+                                    onDetach={(conversationId) =>
+                                        handleDetach(document, conversationId)
+                                    }
+                                    onDelete={() => handleDelete(document)}
+                                />
+                            ))}
+                        </ul>
+                    )}
+                </section>
+
+                <LibraryQuestionPanel hasReadyDocuments={hasReadyDocuments} />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,540 @@
+import {
+    ArrowDown,
+    ArrowLeft,
+    ArrowUp,
+    GripVertical,
+    Pin,
+    Save,
+    Trash2,
+} from "lucide-react";
+import { DragEvent, useEffect, useMemo, useState } from "react";
+import { Link, Navigate, useNavigate, useParams } from "react-router-dom";
+import { toast } from "sonner";
+import {
+    ConversationMessage,
+    useGetConversationById,
+} from "../api/conversation/getConversationById";
+import { useDeleteReport } from "../api/report/deleteReport";
+import {
+    Report,
+    REPORT_SECTIONS,
+    ReportBlock,
+    ReportSection,
+    useGetReport,
+} from "../api/report/getReport";
+import { useSaveReport } from "../api/report/saveReport";
+import { MemoExportMenu } from "../components/MemoExportMenu";
+import { SourceCitations } from "../components/SourceCitations";
+import { Button } from "../components/ui/button/Button";
+import {
+    ANSWER_DRAG_TYPE,
+    BLOCK_DRAG_TYPE,
+    createAnswerBlock,
+    insertReportBlock,
+    moveReportBlock,
+    shiftReportBlock,
+} from "../utils/reportBuilder";
+import { buildReportMemo } from "../utils/researchMemo";
+
+const EXCERPT_LENGTH = 220;
+
+const SECTION_DESCRIPTIONS: Record<ReportSection, string> = {
+    Business: "What the company does, its markets and competitive position",
+    Financials: "Revenue, margins, cash flow and balance sheet",
+    Risks: "Risk factors, litigation and exposures",
+    Management: "Leadership, governance and incentives",
+    Valuation: "Multiples, comparables and the investment case",
+};
+
+type ReportDraft = {
+    reportId: string;
+    title: string;
+    blocks: ReportBlock[];
+};
+
+type PaletteAnswer = {
+    message: ConversationMessage;
+    question: string;
+};
+
+type AnswerPaletteProps = {
+    answers: PaletteAnswer[];
+    usedMessageIds: Set<string>;
+    onAdd: (message: ConversationMessage, section: ReportSection) => void;
+};
+
+type ReportSectionZoneProps = {
+    section: ReportSection;
+    blocks: ReportBlock[];
+    onDropItem: (event: DragEvent, section: ReportSection, beforeBlockId?: string) => void;
+    onChangeBlock: (blockId: string, content: string) => void;
+    onShiftBlock: (blockId: string, offset: -1 | 1) => void;
+    onRemoveBlock: (blockId: string) => void;
+};
+
+const isReportDrag = (event: DragEvent) =>
+    event.dataTransfer.types.includes(ANSWER_DRAG_TYPE) ||
+    event.dataTransfer.types.includes(BLOCK_DRAG_TYPE);
+
+const toDraft = (report: Report): ReportDraft => ({
+    reportId: report.id,
+    title: report.title,
+    blocks: report.blocks,
+});
+
+/**
+ * One-line preview of an answer with the markdown syntax and citation markers stripped
+ */
+const getExcerpt = (text: string) => {
+    const plain = text
+        .replace(/\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g, "")
+        .replace(/[#*_`>|~-]+/g, " ")
+        .replace(/\s+/g, " ")
+        .trim();
+    return plain.length > EXCERPT_LENGTH
+        ? `${plain.slice(0, EXCERPT_LENGTH).trimEnd()}…`
+        : plain;
+};
+
+/**
+ * The conversation's answers, to drag into the report's sections or add with the section picker.
+ * Pinned answers are listed first, and can be shown on their own.
+ */
+function AnswerPalette({ answers, usedMessageIds, onAdd }: AnswerPaletteProps) {
+    const hasPinned = answers.some(({ message }) => message.metadata.pinned);
+    const [showPinnedOnly, setShowPinnedOnly] = useState(hasPinned);
+
+    const visibleAnswers = showPinnedOnly
+        ? answers.filter(({ message }) => message.metadata.pinned)
+        : answers;
+
+    return (
+        <aside className="flex w-80 shrink-0 flex-col border-r border-gray-200 bg-gray-50">
+            <div className="border-b border-gray-200 px-4 py-3">
+                <h3 className="text-sm font-semibold text-gray-900">Answers</h3>
+                <p className="text-xs text-gray-500">Drag an answer into a section of the report.</p>
+                {hasPinned && (
+                    <label className="mt-2 flex items-center gap-2 text-xs text-gray-700">
+                        <input
+                            type="checkbox"
+                            checked={showPinnedOnly}
+                            onChange={(event) => setShowPinnedOnly(event.target.checked)}
+                        />
+                        Pinned answers only
+                    </label>
+                )}
+            </div>
+
+            <ul className="flex-1 min-h-0 space-y-2 overflow-y-auto p-3">
+                {visibleAnswers.length === 0 && (
+                    <li className="px-1 text-sm text-gray-500">
+                        No answers yet. Ask questions in the conversation first.
+                    </li>
+                )}
+                {visibleAnswers.map(({ message, question }) => (
+                    <li
+                        key={message.id}
+                        draggable
+                        onDragStart={(event) => {
+                            event.dataTransfer.setData(ANSWER_DRAG_TYPE, message.id);
+                            event.dataTransfer.effectAllowed = "copy";
+                        }}
+                        className="cursor-grab rounded-md border border-gray-200 bg-white p-3 shadow-sm active:cursor-grabbing"
+                    >
+                        <div className="mb-1 flex items-start gap-1.5">
+                            {message.metadata.pinned && (
+                                <Pin className="mt-0.5 h-3 w-3 shrink-0 text-amber-600" />
+                            )}
+                            <p className="text-xs font-medium text-gray-900">
+                                {question || "Answer"}
+                            </p>
+                        </div>
+                        <p className="text-xs text-gray-600">{getExcerpt(message.text)}</p>
+                        <div className="mt-2 flex items-center justify-between gap-2">
+                            <span className="text-xs text-gray-400">
+                                {usedMessageIds.has(message.id) ? "In report" : ""}
+                            </span>
+                            <select
+                                value=""
+                                onChange={(event) =>
+                                    onAdd(message, event.target.value as ReportSection)
+                                }
+                                className="rounded border border-gray-200 bg-white px-1.5 py-0.5 text-xs text-gray-700"
+                                aria-label="Add to section"
+                            >
+                                <option value="" disabled>
+                                    Add to…
+                                </option>
+                                {REPORT_SECTIONS.map((section) => (
+                                    <option key={section} value={section}>
+                                        {section}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        </aside>
+    );
+}
+
+/**
+ * A report section: its blocks, each editable, and a drop target for answers and blocks. Dropping
+ * on a block places the dropped item before it; dropping elsewhere adds it at the end.
+ */
+function ReportSectionZone({
+    section,
+    blocks,
+    onDropItem,
+    onChangeBlock,
+    onShiftBlock,
+    onRemoveBlock,
+}: ReportSectionZoneProps) {
+    const [isDragOver, setIsDragOver] = useState(false);
+
+    const handleDragOver = (event: DragEvent) => {
+        if (!isReportDrag(event)) return;
+        event.preventDefault();
+        setIsDragOver(true);
+    };
+
+    return (
+        <section
+            onDragOver={handleDragOver}
+            onDragLeave={(event) => {
+                if (!event.currentTarget.contains(event.relatedTarget as Node)) {
+                    setIsDragOver(false);
+                }
+            }}
+            onDrop={(event) => {
+                setIsDragOver(false);
+                onDropItem(event, section);
+            }}
+            className={`rounded-lg border p-4 ${
+                isDragOver ? "border-blue-300 bg-blue-50/50" : "border-gray-200 bg-white"
+            }`}
+        >
+            <h3 className="text-base font-semibold text-gray-900">{section}</h3>
+            <p className="mb-3 text-xs text-gray-500">{SECTION_DESCRIPTIONS[section]}</p>
+
+            {blocks.length === 0 && (
+                <div className="rounded-md border border-dashed border-gray-300 px-3 py-6 text-center text-sm text-gray-500">
+                    Drop answers here
+                </div>
+            )}
+
+            <div className="space-y-3">
+                {blocks.map((block, index) => (
+                    <div
+                        key={block.id}
+                        onDrop={(event) => {
+                            event.stopPropagation();
+                            setIsDragOver(false);
+                            onDropItem(event, section, block.id);
+                        }}
+                        className="rounded-md border border-gray-200 bg-gray-50"
+                    >
+                        <div className="flex items-center gap-1 border-b border-gray-200 px-2 py-1">
+                            <span
+                                draggable
+                                onDragStart={(event) => {
+                                    event.dataTransfer.setData(BLOCK_DRAG_TYPE, block.id);
+                                    event.dataTransfer.effectAllowed = "move";
+                                }}
+                                className="cursor-grab rounded p-1 text-gray-400 hover:bg-gray-200 hover:text-gray-700 active:cursor-grabbing"
+                                title="Drag to move"
+                            >
+                                <GripVertical className="h-4 w-4" />
+                            </span>
+                            <span className="flex-1 text-xs text-gray-500">
+                                {block.sourceMessageId
+                                    ? "From an answer"
+                                    : "Original answer deleted"}
+                            </span>
+                            <Button
+                                variant="soft"
+                                icon={ArrowUp}
+                                onClick={() => onShiftBlock(block.id, -1)}
+                                disabled={index === 0}
+                                aria-label="Move up"
+                            />
+                            <Button
+                                variant="soft"
+                                icon={ArrowDown}
+                                onClick={() => onShiftBlock(block.id, 1)}
+                                disabled={index === blocks.length - 1}
+                                aria-label="Move down"
+                            />
+                            <Button
+                                variant="soft"
+                                icon={Trash2}
+                                onClick={() => onRemoveBlock(block.id)}
+                                aria-label="Remove from report"
+                            />
+                        </div>
+                        <textarea
+                            value={block.content}
+                            onChange={(event) => onChangeBlock(block.id, event.target.value)}
+                            rows={Math.min(16, Math.max(4, block.content.split("\n").length + 1))}
+                            className="block w-full resize-y border-0 bg-white px-3 py-2 font-mono text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-200"
+                        />
+                        {block.sources.length > 0 && (
+                            <div className="px-3 pb-2">
+                                <SourceCitations
+                                    sources={block.sources}
+                                    messageId={block.sourceMessageId ?? block.id}
+                                />
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </section>
+    );
+}
+
+/**
+ * Builds a due-diligence report from the conversation's answers. Answers are dragged into the
+ * Business, Financials, Risks, Management and Valuation sections, where their text can be edited;
+ * each block keeps the sources its citations refer to. Changes are kept locally until saved.
+ */
+export function ReportBuilderPage() {
+    const { conversationId, reportId } = useParams<{
+        conversationId: string;
+        reportId: string;
+    }>();
+    const navigate = useNavigate();
+    const { data: conversation, isLoading: isLoadingConversation } = useGetConversationById(
+        conversationId!
+    );
+    const { data: report, isLoading: isLoadingReport, error } = useGetReport(reportId!);
+    const { mutate: saveReport, isPending: isSaving } = useSaveReport();
+    const { mutate: deleteReport, isPending: isDeleting } = useDeleteReport();
+    const [draft, setDraft] = useState<ReportDraft | null>(null);
+    const [isDirty, setIsDirty] = useState(false);
+
+    // Start editing from the saved report once it has loaded
+    useEffect(() => {
+        if (report && draft?.reportId !== report.id) {
+            setDraft(toDraft(report));
+            setIsDirty(false);
+        }
+    }, [report, draft?.reportId]);
+
+    // Warn before leaving the page with unsaved changes
+    useEffect(() => {
+        if (!isDirty) return;
+
+        const handleBeforeUnload = (event: BeforeUnloadEvent) => event.preventDefault();
+        window.addEventListener("beforeunload", handleBeforeUnload);
+        return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+    }, [isDirty]);
+
+    // Every answer with the question it responded to, pinned answers first in pin order
+    const answers = useMemo<PaletteAnswer[]>(() => {
+        const messages = conversation?.messages ?? [];
+        const messagesById = new Map(messages.map((message) => [message.id, message]));
+
+        return messages
+            .filter((message) => message.role === "Assistant" && message.text.trim())
+            .map((message) => {
+                const parent = message.parentId ? messagesById.get(message.parentId) : undefined;
+                return {
+                    message,
+                    question: parent?.role === "User" ? parent.text.trim() : "",
+                };
+            })
+            .sort((a, b) => {
+                const aPinned = a.message.metadata.pinned ? 0 : 1;
+                const bPinned = b.message.metadata.pinned ? 0 : 1;
+                return (
+                    aPinned - bPinned ||
+                    (a.message.metadata.pinnedAt ?? "").localeCompare(
+                        b.message.metadata.pinnedAt ?? ""
+                    )
+                );
+            });
+    }, [conversation?.messages]);
+
+    const usedMessageIds = useMemo(
+        () =>
+            new Set(
+                (draft?.blocks ?? []).flatMap((block) =>
+                    block.sourceMessageId ? [block.sourceMessageId] : []
+                )
+            ),
+        [draft?.blocks]
+    );
+
+    const updateDraft = (update: (current: ReportDraft) => ReportDraft) => {
+        setDraft((current) => (current ? update(current) : current));
+        setIsDirty(true);
+    };
+
+    const updateBlocks = (update: (blocks: ReportBlock[]) => ReportBlock[]) =>
+        updateDraft((current) => ({ ...current, blocks: update(current.blocks) }));
+
+    const handleAddAnswer = (
+        message: ConversationMessage,
+        section: ReportSection,
+        beforeBlockId?: string
+    ) =>
+        updateBlocks((blocks) =>
+            insertReportBlock(blocks, createAnswerBlock(message, section), beforeBlockId)
+        );
+
+    const handleDropItem = (event: DragEvent, section: ReportSection, beforeBlockId?: string) => {
+        event.preventDefault();
+
+        const blockId = event.dataTransfer.getData(BLOCK_DRAG_TYPE);
+        if (blockId) {
+            updateBlocks((blocks) => moveReportBlock(blocks, blockId, section, beforeBlockId));
+            return;
+        }
+
+        const messageId = event.dataTransfer.getData(ANSWER_DRAG_TYPE);
+        const answer = answers.find(({ message }) => message.id === messageId);
+        if (answer) handleAddAnswer(answer.message, section, beforeBlockId);
+    };
+
+    const handleSave = () => {
+        if (!draft || !reportId) return;
+        if (!draft.title.trim()) {
+            toast.error("Give the report a title before saving");
+            return;
+        }
+
+        saveReport(
+            { reportId, data: { title: draft.title.trim(), blocks: draft.blocks } },
+            {
+                onSuccess: (savedReport) => {
+                    setDraft(toDraft(savedReport));
+                    setIsDirty(false);
+                    toast.success("Report saved");
+                },
+                onError: () => toast.error("Couldn't save the report. Please try again."),
+            }
+        );
+    };
+
+    const handleDelete = () => {
+        if (!reportId || !conversationId) return;
+        if (!window.confirm("Delete this report? The conversation's answers are kept.")) return;
+
+        deleteReport(
+            { reportId, conversationId },
+            {
+                onSuccess: () => {
+                    setIsDirty(false);
+                    navigate(`/conversations/${conversationId}`);
+                    toast.success("Report deleted");
+                },
+                onError: () => toast.error("Couldn't delete the report. Please try again."),
+            }
+        );
+    };
+
+    if (!conversationId || !reportId) {
+        return <Navigate to="/" replace />;
+    }
+
+    if (isLoadingConversation || isLoadingReport || (report && !draft)) {
+        return (
+            <div className="flex h-full items-center justify-center">
+                <div className="text-center">
+                    <div className="mx-auto mb-4 h-8 w-8 animate-spin rounded-full border-b-2 border-blue-600"></div>
+                    <p className="text-gray-600">Loading report...</p>
+                </div>
+            </div>
+        );
+    }
+
+    if (error || !report || !draft || !conversation) {
+        return (
+            <div className="flex h-full items-center justify-center">
+                <div className="text-center">
+                    <p className="mb-4 text-red-600">Failed to load report</p>
+                    <Link
+                        to={`/conversations/${conversationId}`}
+                        className="text-sm font-medium text-blue-600 hover:underline"
+                    >
+                        Back to conversation
+                    </Link>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex h-full min-h-0 flex-col bg-white">
+            <div className="flex flex-wrap items-center gap-4 border-b border-gray-200 px-4 py-3">
+                <Link
+                    to={`/conversations/${conversationId}`}
+                    className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+                >
+                    <ArrowLeft className="h-4 w-4" />
+                    Back
+                </Link>
+                <div className="min-w-0 flex-1">
+                    <input
+                        value={draft.title}
+                        onChange={(event) =>
+                            updateDraft((current) => ({ ...current, title: event.target.value }))
+                        }
+                        maxLength={200}
+                        className="w-full truncate rounded border border-transparent px-1 text-base font-semibold text-gray-900 hover:border-gray-200 focus:border-blue-300 focus:outline-none"
+                        aria-label="Report title"
+                    />
+                    <p className="px-1 text-xs text-gray-500">
+                        Due-diligence report · {conversation.title}
+                        {isDirty && " · Unsaved changes"}
+                    </p>
+                </div>
+                <MemoExportMenu
+                    buildMemo={() => buildReportMemo(conversation, { ...report, ...draft })}
+                    title="Export this report as a research memo"
+                />
+                <Button variant="soft" icon={Trash2} onClick={handleDelete} disabled={isDeleting}>
+                    Delete
+                </Button>
+                <Button icon={Save} onClick={handleSave} disabled={!isDirty || isSaving}>
+                    {isSaving ? "Saving…" : "Save"}
+                </Button>
+            </div>
+
+            <div className="flex flex-1 min-h-0">
+                <AnswerPalette
+                    answers={answers}
+                    usedMessageIds={usedMessageIds}
+                    onAdd={(message, section) => handleAddAnswer(message, section)}
+                />
+                <div className="flex-1 min-h-0 space-y-4 overflow-y-auto bg-gray-50/50 p-6">
+                    {REPORT_SECTIONS.map((section) => (
+                        <ReportSectionZone
+                            key={section}
+                            section={section}
+                            blocks={draft.blocks.filter((block) => block.section === section)}
+                            onDropItem={handleDropItem}
+                            onChangeBlock={(blockId, content) =>
+                                updateBlocks((blocks) =>
+                                    blocks.map((block) =>
+                                        block.id === blockId ? { ...block, content } : block
+                                    )
+                                )
+                            }
+                            onShiftBlock={(blockId, offset) =>
+                                updateBlocks((blocks) => shiftReportBlock(blocks, blockId, offset))
+                            }
+                            onRemoveBlock={(blockId) =>
+                                updateBlocks((blocks) =>
+                                    blocks.filter((block) => block.id !== blockId)
+                                )
+                            }
+                        />
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
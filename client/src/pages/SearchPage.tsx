@@ -0,0 +1,379 @@
+import { Building2, ExternalLink, FileText, MessageSquare, Search, X } from "lucide-react";
+import { FormEvent, useEffect, useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useGetConversationList } from "../api/conversation/getConversationList";
+import {
+    SearchCompany,
+    SearchConversation,
+    useSearchConversations,
+} from "../api/search/searchConversations";
+import { getDocumentViewerPath } from "../utils/documentViewer";
+
+const RESULT_LIMIT = 50;
+
+const RELEVANCE_CHOICES = [
+    { value: 0.3, label: "Loose" },
+    { value: 0.5, label: "Balanced" },
+    { value: 0.7, label: "Strict" },
+];
+
+const DEFAULT_MIN_SIMILARITY = 0.5;
+
+const formatSimilarity = (value: number) => value.toFixed(2);
+
+const toggleValue = (values: string[], value: string) =>
+    values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+type FilterChipProps = {
+    label: string;
+    isSelected: boolean;
+    onClick: () => void;
+};
+
+function FilterChip({ label, isSelected, onClick }: FilterChipProps) {
+    return (
+        <button
+            type="button"
+            onClick={onClick}
+            className={`rounded-full border px-2.5 py-1 text-xs ${
+                isSelected
+                    ? "border-blue-500 bg-blue-50 text-blue-800"
+                    : "border-gray-300 bg-white text-gray-600 hover:bg-gray-50"
+            }`}
+            aria-pressed={isSelected}
+        >
+            {label}
+        </button>
+    );
+}
+
+type CompanyResultsProps = {
+    conversationId: string;
+    company: SearchCompany;
+};
+
+/**
+ * One company's matching documents within a conversation, each with its passages
+ */
+function CompanyResults({ conversationId, company }: CompanyResultsProps) {
+    return (
+        <div className="border-t border-gray-100 px-4 py-3">
+            <div className="mb-2 flex items-center gap-2 text-sm font-medium text-gray-800">
+                {company.companyName ? (
+                    <>
+                        <Building2 className="h-4 w-4 text-gray-500" />
+                        {company.companyName}
+                        {company.ticker && (
+                            <span className="rounded bg-slate-100 px-1.5 py-0.5 text-xs text-slate-700">
+                                {company.ticker}
+                            </span>
+                        )}
+                    </>
+                ) : (
+                    <>
+                        <FileText className="h-4 w-4 text-gray-500" />
+                        Uploaded documents
+                    </>
+                )}
+            </div>
+            <ul className="space-y-3">
+                {company.documents.map(({ documentId, ...document }) => (
+                    <li key={documentId ?? document.title}>
+                        <div className="flex items-center gap-2 text-sm">
+                            {documentId !== null ? (
+                                <Link
+                                    to={getDocumentViewerPath(conversationId, documentId)}
+                                    className="font-medium text-blue-700 hover:underline"
+                                >
+                                    {document.title}
+                                </Link>
+                            ) : (
+                                <span className="font-medium text-gray-800">{document.title}</span>
+                            )}
+                            {document.documentLink && (
+                                <a
+                                    href={document.documentLink}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-gray-400 hover:text-gray-700"
+                                    title="Open the original filing"
+                                >
+                                    <ExternalLink className="h-3.5 w-3.5" />
+                                </a>
+                            )}
+                        </div>
+                        <ul className="mt-1 space-y-1.5">
+                            {document.passages.map((passage) => {
+                                const content = (
+                                    <>
+                                        <span className="line-clamp-4">{passage.text}</span>
+                                        <span className="mt-1 block text-xs text-gray-500">
+                                            Similarity {formatSimilarity(passage.similarity)}
+                                        </span>
+                                    </>
+                                );
+                                return (
+                                    <li key={passage.embeddingId}>
+                                        {documentId !== null ? (
+                                            <Link
+                                                to={getDocumentViewerPath(conversationId, documentId, {
+                                                    chunkIndex: passage.chunkIndex,
+                                                })}
+                                                className="block rounded-md border border-gray-200 bg-gray-50 px-3 py-2 text-sm text-gray-700 hover:border-blue-300 hover:bg-blue-50/50"
+                                                title="Show in document"
+                                            >
+                                                {content}
+                                            </Link>
+                                        ) : (
+                                            <div className="rounded-md border border-gray-200 bg-gray-50 px-3 py-2 text-sm text-gray-700">
+                                                {content}
+                                            </div>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
+
+type ConversationResultsProps = {
+    conversation: SearchConversation;
+};
+
+function ConversationResults({ conversation }: ConversationResultsProps) {
+    return (
+        <section className="overflow-hidden rounded-lg border border-gray-200 bg-white">
+            <div className="flex items-center justify-between bg-gray-50 px-4 py-2">
+                <Link
+                    to={`/conversations/${conversation.conversationId}`}
+                    className="flex items-center gap-2 font-medium text-gray-900 hover:text-blue-700 hover:underline"
+                >
+                    <MessageSquare className="h-4 w-4" />
+                    {conversation.title}
+                </Link>
+                <span className="text-xs text-gray-500">
+                    Best match {formatSimilarity(conversation.bestSimilarity)}
+                </span>
+            </div>
+            {conversation.companies.map((company) => (
+                <CompanyResults
+                    key={company.companyId ?? "uploads"}
+                    conversationId={conversation.conversationId}
+                    company={company}
+                />
+            ))}
+        </section>
+    );
+}
+
+/**
+ * Research search across every conversation: asks one question of all the companies and documents
+ * the user has ingested and groups the matching passages by conversation and company. The query and
+ * filters live in the URL so a search can be shared or revisited.
+ */
+export function SearchPage() {
+    const [searchParams, setSearchParams] = useSearchParams();
+    const query = searchParams.get("q") ?? "";
+    const tickers = searchParams.getAll("company");
+    const conversationIds = searchParams.getAll("conversation");
+    const minSimilarityParam = Number(searchParams.get("min"));
+    const minSimilarity = RELEVANCE_CHOICES.some((c) => c.value === minSimilarityParam)
+        ? minSimilarityParam
+        : DEFAULT_MIN_SIMILARITY;
+
+    const [draftQuery, setDraftQuery] = useState(query);
+
+    // Follow the URL when it changes from outside the form, e.g. back/forward navigation
+    useEffect(() => {
+        setDraftQuery(query);
+    }, [query]);
+
+    const { data: conversations } = useGetConversationList();
+    const {
+        data: results,
+        isFetching,
+        isError,
+    } = useSearchConversations({
+        query,
+        limit: RESULT_LIMIT,
+        minSimilarity,
+        tickers: tickers.length > 0 ? tickers : undefined,
+        conversationIds: conversationIds.length > 0 ? conversationIds : undefined,
+    });
+
+    const companyOptions = useMemo(() => {
+        const companies = new Map<string, string>();
+        conversations?.forEach((conversation) =>
+            conversation.companies.forEach((company) => {
+                if (company.ticker) companies.set(company.ticker.toUpperCase(), company.companyName);
+            }),
+        );
+        return [...companies.entries()]
+            .map(([ticker, companyName]) => ({ ticker, companyName }))
+            .sort((a, b) => a.ticker.localeCompare(b.ticker));
+    }, [conversations]);
+
+    const updateParams = (update: (params: URLSearchParams) => void) => {
+        const next = new URLSearchParams(searchParams);
+        update(next);
+        setSearchParams(next);
+    };
+
+    const setParamValues = (name: string, values: string[]) =>
+        updateParams((params) => {
+            params.delete(name);
+            values.forEach((value) => params.append(name, value));
+        });
+
+    const handleSubmit = (event: FormEvent) => {
+        event.preventDefault();
+        updateParams((params) => params.set("q", draftQuery.trim()));
+    };
+
+    const hasFilters = tickers.length > 0 || conversationIds.length > 0;
+
+    return (
+        <div className="h-full overflow-y-auto bg-gray-50">
+            <div className="mx-auto max-w-4xl px-6 py-8">
+                <h1 className="mb-1 text-2xl font-semibold text-gray-900">Research search</h1>
+                <p className="mb-4 text-sm text-gray-600">
+                    Ask one question across every company and document you have ingested.
+                </p>
+
+                <form onSubmit={handleSubmit} className="flex gap-2">
+                    <div className="relative flex-1">
+                        <Search className="absolute top-1/2 left-3 h-4 w-4 -translate-y-1/2 text-gray-400" />
+                        <input
+                            type="search"
+                            value={draftQuery}
+                            onChange={(e) => setDraftQuery(e.target.value)}
+                            placeholder="e.g. How do these companies describe supply chain risk?"
+                            className="w-full rounded-lg border border-gray-300 bg-white py-2 pr-3 pl-9 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                            autoFocus
+                        />
+                    </div>
+                    <button
+                        type="submit"
+                        disabled={!draftQuery.trim()}
+                        className="rounded-lg bg-blue-600 px-4 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                    >
+                        Search
+                    </button>
+                </form>
+
+                <div className="mt-4 space-y-3 rounded-lg border border-gray-200 bg-white p-3">
+                    {companyOptions.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-1.5">
+                            <span className="mr-1 w-24 text-xs font-medium text-gray-500">
+                                Companies
+                            </span>
+                            {companyOptions.map((company) => (
+                                <FilterChip
+                                    key={company.ticker}
+                                    label={company.ticker}
+                                    isSelected={tickers.includes(company.ticker)}
+                                    onClick={() =>
+                                        setParamValues(
+                                            "company",
+                                            toggleValue(tickers, company.ticker),
+                                        )
+                                    }
+                                />
+                            ))}
+                        </div>
+                    )}
+                    {conversations && conversations.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-1.5">
+                            <span className="mr-1 w-24 text-xs font-medium text-gray-500">
+                                Conversations
+                            </span>
+                            {conversations.map((conversation) => (
+                                <FilterChip
+                                    key={conversation.id}
+                                    label={conversation.title}
+                                    isSelected={conversationIds.includes(conversation.id)}
+                                    onClick={() =>
+                                        setParamValues(
+                                            "conversation",
+                                            toggleValue(conversationIds, conversation.id),
+                                        )
+                                    }
+                                />
+                            ))}
+                        </div>
+                    )}
+                    <div className="flex flex-wrap items-center gap-1.5">
+                        <span className="mr-1 w-24 text-xs font-medium text-gray-500">
+                            Relevance
+                        </span>
+                        {RELEVANCE_CHOICES.map((choice) => (
+                            <FilterChip
+                                key={choice.value}
+                                label={`${choice.label} (≥ ${formatSimilarity(choice.value)})`}
+                                isSelected={minSimilarity === choice.value}
+                                onClick={() =>
+                                    updateParams((params) =>
+                                        params.set("min", choice.value.toString()),
+                                    )
+                                }
+                            />
+                        ))}
+                        {hasFilters && (
+                            <button
+                                type="button"
+                                onClick={() =>
+                                    updateParams((params) => {
+                                        params.delete("company");
+                                        params.delete("conversation");
+                                    })
+                                }
+                                className="ml-auto inline-flex items-center gap-1 text-xs text-gray-500 hover:text-gray-800"
+                            >
+                                <X className="h-3.5 w-3.5" />
+                                Clear filters
+                            </button>
+                        )}
+                    </div>
+                </div>
+
+                <div className={`mt-6 space-y-4 ${isFetching ? "opacity-60" : ""}`}>
+                    {!query ? (
+                        <p className="text-center text-sm text-gray-500">
+                            Enter a question to search all of your conversations.
+                        </p>
+                    ) : isError ? (
+                        <p className="text-center text-sm text-red-600">
+                            Search failed. Please try again.
+                        </p>
+                    ) : !results ? (
+                        <p className="text-center text-sm text-gray-500">Searching...</p>
+                    ) : results.conversations.length === 0 ? (
+                        <p className="text-center text-sm text-gray-500">
+                            No passages matched
+                            {hasFilters ? " with these filters" : ""}. Try a looser relevance.
+                        </p>
+                    ) : (
+                        <>
+                            <p className="text-sm text-gray-600">
+                                {results.totalPassages} passage
+                                {results.totalPassages === 1 ? "" : "s"} in{" "}
+                                {results.conversations.length} conversation
+                                {results.conversations.length === 1 ? "" : "s"}
+                            </p>
+                            {results.conversations.map((conversation) => (
+                                <ConversationResults
+                                    key={conversation.conversationId}
+                                    conversation={conversation}
+                                />
+                            ))}
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
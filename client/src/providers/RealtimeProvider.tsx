@@ -0,0 +1,260 @@
+import * as signalR from "@microsoft/signalr";
+import { isAxiosError } from "axios";
+import { ReactNode, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { toApiUrl } from "../api/apiBaseUrl";
+import { refreshAccessToken } from "../api/backendAccessPoint";
+import { useAuth } from "../contexts/AuthContext";
+import {
+    REALTIME_EVENTS,
+    RealtimeContext,
+    RealtimeContextValue,
+    RealtimeEventName,
+} from "../hooks/realtime/realtimeContext";
+import { clearTokens, getAccessToken, getAccessTokenExpiry } from "../utils/tokenManager";
+
+// Refresh this long before the access token expires, so (re)connects never send a stale token
+const TOKEN_REFRESH_MARGIN_MS = 60_000;
+// A refresh that failed without an answer from the server (e.g. offline) is retried with backoff
+const TOKEN_REFRESH_RETRY_MS = 5_000;
+const MAX_TOKEN_REFRESH_RETRY_MS = 60_000;
+// Lost connections are retried with backoff for as long as the user stays signed in
+const RECONNECT_DELAY_MS = 1_000;
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+type RealtimeProviderProps = {
+    children: ReactNode;
+};
+
+type Subscriber = {
+    onSubscribed?: () => void;
+};
+
+/**
+ * Returns a fresh access token for the hub, refreshing it first when it is about to expire
+ */
+const getFreshAccessToken = async () => {
+    const expiry = getAccessTokenExpiry();
+    if (expiry !== null && expiry - Date.now() < TOKEN_REFRESH_MARGIN_MS) {
+        try {
+            return await refreshAccessToken();
+        } catch (error) {
+            console.error("Failed to refresh access token for realtime connection:", error);
+        }
+    }
+    return getAccessToken() ?? "";
+};
+
+const getReconnectDelay = (previousRetryCount: number) =>
+    Math.min(RECONNECT_DELAY_MS * 2 ** previousRetryCount, MAX_RECONNECT_DELAY_MS);
+
+/**
+ * Owns the app's single SignalR connection to the document processing hub while the user is
+ * signed in. Conversation groups are shared between components and rejoined after reconnects,
+ * and hub events are fanned out to every listener.
+ *
+ * @param children - The app
+ */
+export function RealtimeProvider({ children }: RealtimeProviderProps) {
+    const { isAuthenticated } = useAuth();
+    const [connectionState, setConnectionState] = useState<signalR.HubConnectionState>(
+        signalR.HubConnectionState.Disconnected,
+    );
+    const connectionRef = useRef<signalR.HubConnection | null>(null);
+    const listenersRef = useRef(
+        new Map<RealtimeEventName, Set<(payload: unknown) => void>>(),
+    );
+    const subscriptionsRef = useRef(new Map<string, Set<Subscriber>>());
+
+    const joinGroup = useCallback((conversationId: string) => {
+        const connection = connectionRef.current;
+        if (connection?.state !== signalR.HubConnectionState.Connected) return;
+
+        connection
+            .invoke("SubscribeToConversation", conversationId)
+            .then(() => {
+                subscriptionsRef.current
+                    .get(conversationId)
+                    ?.forEach((subscriber) => subscriber.onSubscribed?.());
+            })
+            .catch(console.error);
+    }, []);
+
+    const rejoinAllGroups = useCallback(() => {
+        subscriptionsRef.current.forEach((_, conversationId) => joinGroup(conversationId));
+    }, [joinGroup]);
+
+    useEffect(() => {
+        if (!isAuthenticated) return;
+
+        const connection = new signalR.HubConnectionBuilder()
+            .withUrl(toApiUrl("/hubs/document-processing"), {
+                accessTokenFactory: getFreshAccessToken,
+            })
+            .withAutomaticReconnect({
+                nextRetryDelayInMilliseconds: ({ previousRetryCount }) =>
+                    getReconnectDelay(previousRetryCount),
+            })
+            .build();
+
+        connectionRef.current = connection;
+
+        for (const event of REALTIME_EVENTS) {
+            connection.on(event, (payload: unknown) => {
+                listenersRef.current.get(event)?.forEach((handler) => handler(payload));
+            });
+        }
+
+        // Groups don't survive a reconnect (the server sees a new connection), so rejoin them
+        connection.onreconnected(() => {
+            setConnectionState(signalR.HubConnectionState.Connected);
+            rejoinAllGroups();
+        });
+        connection.onreconnecting(() =>
+            setConnectionState(signalR.HubConnectionState.Reconnecting),
+        );
+
+        // Automatic reconnects only follow a connection that was established, so a start that failed
+        // (e.g. the server was unreachable at sign-in) or a close they don't cover is retried here
+        let isStopped = false;
+        let startTimer: number | undefined;
+        let failedStarts = 0;
+
+        const start = () => {
+            setConnectionState(signalR.HubConnectionState.Connecting);
+            connection
+                .start()
+                .then(() => {
+                    failedStarts = 0;
+                    setConnectionState(signalR.HubConnectionState.Connected);
+                    rejoinAllGroups();
+                })
+                .catch((error) => {
+                    console.error(error);
+                    setConnectionState(signalR.HubConnectionState.Disconnected);
+                    scheduleStart();
+                });
+        };
+
+        const scheduleStart = () => {
+            if (isStopped) return;
+            window.clearTimeout(startTimer);
+            startTimer = window.setTimeout(start, getReconnectDelay(failedStarts++));
+        };
+
+        connection.onclose(() => {
+            setConnectionState(signalR.HubConnectionState.Disconnected);
+            scheduleStart();
+        });
+
+        start();
+
+        return () => {
+            isStopped = true;
+            window.clearTimeout(startTimer);
+            connectionRef.current = null;
+            connection.stop().catch(() => {
+                /* ignore */
+            });
+            setConnectionState(signalR.HubConnectionState.Disconnected);
+        };
+    }, [isAuthenticated, rejoinAllGroups]);
+
+    // Keep the access token fresh ahead of expiry rather than waiting for a reconnect or a 401
+    useEffect(() => {
+        if (!isAuthenticated) return;
+
+        let timer: number | undefined;
+        let retryDelay = TOKEN_REFRESH_RETRY_MS;
+
+        const refresh = () => {
+            refreshAccessToken()
+                .then(() => {
+                    retryDelay = TOKEN_REFRESH_RETRY_MS;
+                    scheduleRefresh();
+                })
+                .catch((error) => {
+                    console.error("Failed to refresh access token:", error);
+
+                    // The server turned the refresh token down: the session is over, as it is
+                    // when a request's refresh fails
+                    if (!isAxiosError(error) || error.response) {
+                        clearTokens();
+                        window.location.href = "/login";
+                        return;
+                    }
+
+                    timer = window.setTimeout(refresh, retryDelay);
+                    retryDelay = Math.min(retryDelay * 2, MAX_TOKEN_REFRESH_RETRY_MS);
+                });
+        };
+
+        const scheduleRefresh = () => {
+            const expiry = getAccessTokenExpiry();
+            if (expiry === null) return;
+
+            timer = window.setTimeout(
+                refresh,
+                Math.max(0, expiry - Date.now() - TOKEN_REFRESH_MARGIN_MS),
+            );
+        };
+
+        scheduleRefresh();
+        return () => window.clearTimeout(timer);
+    }, [isAuthenticated]);
+
+    const subscribe = useCallback(
+        (conversationId: string, onSubscribed?: () => void) => {
+            const subscriber: Subscriber = { onSubscribed };
+            const subscribers = subscriptionsRef.current.get(conversationId);
+
+            if (subscribers) {
+                subscribers.add(subscriber);
+                // The group is already joined; let the new subscriber catch up straight away
+                if (connectionRef.current?.state === signalR.HubConnectionState.Connected) {
+                    onSubscribed?.();
+                }
+            } else {
+                subscriptionsRef.current.set(conversationId, new Set([subscriber]));
+                joinGroup(conversationId);
+            }
+
+            return () => {
+                const current = subscriptionsRef.current.get(conversationId);
+                if (!current) return;
+
+                current.delete(subscriber);
+                if (current.size > 0) return;
+
+                subscriptionsRef.current.delete(conversationId);
+                const connection = connectionRef.current;
+                if (connection?.state === signalR.HubConnectionState.Connected) {
+                    connection
+                        .invoke("UnsubscribeFromConversation", conversationId)
+                        .catch(console.error);
+                }
+            };
+        },
+        [joinGroup],
+    );
+
+    const on = useCallback(
+        <TPayload,>(event: RealtimeEventName, handler: (payload: TPayload) => void) => {
+            const listener = handler as (payload: unknown) => void;
+            const listeners = listenersRef.current.get(event) ?? new Set();
+            listeners.add(listener);
+            listenersRef.current.set(event, listeners);
+
+            return () => {
+                listenersRef.current.get(event)?.delete(listener);
+            };
+        },
+        [],
+    );
+
+    const value = useMemo<RealtimeContextValue>(
+        () => ({ connectionState, subscribe, on }),
+        [connectionState, subscribe, on],
+    );
+
+    return <RealtimeContext.Provider value={value}>{children}</RealtimeContext.Provider>;
+}
@@ -2,12 +2,15 @@ import { Navigate, Route, Routes } from 'react-router-dom';
 import { useGetConversationList } from '../api/conversation/getConversationList';
 import { LoginForm } from '../components/auth/LoginForm';
 import { RegisterForm } from '../components/auth/RegisterForm';
-import { ChatApp } from '../components/ChatApp';
 import { ConversationSidebar } from '../components/ConversationSidebar';
 import { Layout } from '../components/layout/Layout';
 import { useAuth } from '../contexts/AuthContext';
 import { ConversationPage } from '../pages/ConversationPage';
 import { DashboardPage } from '../pages/DashboardPage';
+import { DocumentsPage } from '../pages/DocumentsPage';
+import { DocumentViewerPage } from '../pages/DocumentViewerPage';
+import { ReportBuilderPage } from '../pages/ReportBuilderPage';
+import { SearchPage } from '../pages/SearchPage';
 
 const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
     const { isAuthenticated, loading } = useAuth();
@@ -95,16 +98,49 @@ export const AppRoutes = () => {
                     }
                 />
 
-                {/* Legacy route for backward compatibility */}
                 <Route
-                    path="/chat"
+                    path="/conversations/:conversationId/documents/:documentId"
+                    element={
+                        <ProtectedRoute>
+                            <ConversationLayout>
+                                <DocumentViewerPage />
+                            </ConversationLayout>
+                        </ProtectedRoute>
+                    }
+                />
+
+                <Route
+                    path="/conversations/:conversationId/reports/:reportId"
+                    element={
+                        <ProtectedRoute>
+                            <ConversationLayout>
+                                <ReportBuilderPage />
+                            </ConversationLayout>
+                        </ProtectedRoute>
+                    }
+                />
+
+                <Route
+                    path="/search"
+                    element={
+                        <ProtectedRoute>
+                            <SearchPage />
+                        </ProtectedRoute>
+                    }
+                />
+
+                <Route
+                    path="/documents"
                     element={
                         <ProtectedRoute>
-                            <ChatApp />
+                            <DocumentsPage />
                         </ProtectedRoute>
                     }
                 />
 
+                {/* Legacy route for backward compatibility */}
+                <Route path="/chat" element={<Navigate to="/documents" replace />} />
+
                 {/* Catch all route */}
                 <Route path="*" element={<Navigate to="/" />} />
             </Routes>
@@ -0,0 +1,54 @@
+/**
+ * Inline citation helpers
+ * Assistant answers cite sources with numbered markers like [1] or [1, 2], where n is
+ * the 1-based position of the source in the message's DocumentSource[] list.
+ */
+
+const CITATION_HREF_PREFIX = '#cite-';
+
+// Matches [1], [2, 3] etc. but not markdown links like [1](...)
+const CITATION_MARKER_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g;
+
+/**
+ * Rewrites inline citation markers into markdown links (e.g. [1] -> [1](#cite-1)) so
+ * ReactMarkdown hands them to the `a` renderer. Numbers without a matching source are
+ * left untouched.
+ */
+export const linkCitationMarkers = (text: string, sourceCount: number): string => {
+    if (sourceCount === 0) return text;
+
+    return text.replace(CITATION_MARKER_PATTERN, (marker, numbers: string) => {
+        const citationNumbers = numbers.split(',').map(value => Number(value.trim()));
+        if (citationNumbers.some(n => n < 1 || n > sourceCount)) {
+            return marker;
+        }
+
+        return citationNumbers.map(n => `[${n}](${CITATION_HREF_PREFIX}${n})`).join('');
+    });
+};
+
+/**
+ * Returns the citation number encoded in a link produced by linkCitationMarkers, or null.
+ */
+export const parseCitationHref = (href: string | undefined): number | null => {
+    if (!href?.startsWith(CITATION_HREF_PREFIX)) return null;
+
+    const citationNumber = Number(href.slice(CITATION_HREF_PREFIX.length));
+    return Number.isInteger(citationNumber) ? citationNumber : null;
+};
+
+/**
+ * DOM id of the source chip for a given message and citation number.
+ */
+export const getCitationElementId = (messageId: string, citationNumber: number) =>
+    `source-${messageId}-${citationNumber}`;
+
+/**
+ * Rewrites a message's citation markers to other numbers, e.g. to point into a bibliography that
+ * spans several messages. n becomes citationNumbers[n - 1]; markers without one are left untouched.
+ */
+export const renumberCitationMarkers = (text: string, citationNumbers: number[]): string =>
+    text.replace(CITATION_MARKER_PATTERN, (marker, numbers: string) => {
+        const renumbered = numbers.split(',').map(value => citationNumbers[Number(value.trim()) - 1]);
+        return renumbered.some(n => n === undefined) ? marker : `[${renumbered.join(', ')}]`;
+    });
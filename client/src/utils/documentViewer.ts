@@ -0,0 +1,71 @@
+/**
+ * Document viewer helpers
+ * Builds viewer routes and locates cited chunks inside a document's full text. Chunk text
+ * went through whitespace normalisation and special-character stripping during ingestion,
+ * so chunks are matched word-by-word rather than as exact substrings.
+ */
+
+export type TextRange = {
+    start: number;
+    end: number;
+};
+
+type DocumentViewerLocation = {
+    messageId?: string;
+    chunkIndex?: number;
+};
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const WORD_SEPARATOR = '[^\\p{L}\\p{N}]+';
+
+// Number of leading/trailing words used to anchor a chunk when the full word sequence doesn't match
+const ANCHOR_WORD_COUNT = 12;
+
+export const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const buildWordSequencePattern = (words: string[]) =>
+    new RegExp(words.map(escapeRegExp).join(WORD_SEPARATOR), 'giu');
+
+/**
+ * Route to the in-app viewer for a document, optionally focused on the chunks cited by a message.
+ */
+export const getDocumentViewerPath = (
+    conversationId: string,
+    documentId: number | string,
+    { messageId, chunkIndex }: DocumentViewerLocation = {}
+) => {
+    const params = new URLSearchParams();
+    if (messageId) params.set('messageId', messageId);
+    if (chunkIndex !== undefined) params.set('chunk', chunkIndex.toString());
+
+    const query = params.toString();
+    return `/conversations/${conversationId}/documents/${documentId}${query ? `?${query}` : ''}`;
+};
+
+/**
+ * Finds where a chunk's text appears in the document text. Tries the whole word sequence first,
+ * then falls back to anchoring on the chunk's first and last words. Returns null if not found.
+ */
+export const locateChunk = (documentText: string, chunkText: string): TextRange | null => {
+    const words = chunkText.match(WORD_PATTERN) ?? [];
+    if (words.length === 0) return null;
+
+    const fullMatch = buildWordSequencePattern(words).exec(documentText);
+    if (fullMatch) {
+        return { start: fullMatch.index, end: fullMatch.index + fullMatch[0].length };
+    }
+
+    if (words.length <= ANCHOR_WORD_COUNT) return null;
+
+    const startMatch = buildWordSequencePattern(words.slice(0, ANCHOR_WORD_COUNT)).exec(documentText);
+    if (!startMatch) return null;
+
+    const endPattern = buildWordSequencePattern(words.slice(-ANCHOR_WORD_COUNT));
+    endPattern.lastIndex = startMatch.index + startMatch[0].length;
+    const endMatch = endPattern.exec(documentText);
+
+    return {
+        start: startMatch.index,
+        end: endMatch ? endMatch.index + endMatch[0].length : startMatch.index + startMatch[0].length,
+    };
+};
@@ -0,0 +1,71 @@
+/**
+ * Document display and upload helpers
+ */
+
+// Formats the server can extract text from (MultiFormatTextExtractor), as a react-dropzone accept map
+export const UPLOAD_ACCEPT: Record<string, string[]> = {
+    'application/pdf': ['.pdf'],
+    'text/html': ['.html', '.htm'],
+    'text/plain': ['.txt'],
+};
+
+// Data-room archives, expanded on the server into one document per supported file
+export const ARCHIVE_ACCEPT: Record<string, string[]> = {
+    'application/zip': ['.zip'],
+    'application/x-zip-compressed': ['.zip'],
+};
+
+export const isArchiveFile = (file: File) => file.name.toLowerCase().endsWith('.zip');
+
+// Matches the server's limit for chunked uploads, which every large file goes through
+export const MAX_CHUNKED_UPLOAD_SIZE_BYTES = 1024 * 1024 * 1024;
+
+// Files above this are sent in resumable chunks rather than one request; matches the server's chunk size
+export const CHUNKED_UPLOAD_THRESHOLD_BYTES = 8 * 1024 * 1024;
+
+export const formatFileSize = (bytes: number) => {
+    if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+export type DocumentFolder<T> = {
+    name: string;
+    path: string;
+    folders: DocumentFolder<T>[];
+    documents: T[];
+};
+
+/**
+ * Rebuilds the folder tree of imported data-room archives from each document's folder path.
+ * Documents without one end up directly in the returned root.
+ */
+export const buildDocumentFolderTree = <T extends { folderPath: string | null }>(
+    documents: T[]
+): DocumentFolder<T> => {
+    const root: DocumentFolder<T> = { name: '', path: '', folders: [], documents: [] };
+
+    for (const document of documents) {
+        let folder = root;
+        for (const name of document.folderPath?.split('/').filter(Boolean) ?? []) {
+            let child = folder.folders.find(f => f.name === name);
+            if (!child) {
+                child = {
+                    name,
+                    path: folder.path ? `${folder.path}/${name}` : name,
+                    folders: [],
+                    documents: [],
+                };
+                folder.folders.push(child);
+            }
+            folder = child;
+        }
+        folder.documents.push(document);
+    }
+
+    return root;
+};
+
+export const countFolderDocuments = <T>(folder: DocumentFolder<T>): number =>
+    folder.documents.length +
+    folder.folders.reduce((count, child) => count + countFolderDocuments(child), 0);
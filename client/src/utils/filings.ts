@@ -0,0 +1,33 @@
+import { CompanyFiling } from '../api/company/getCompanyFilings';
+
+/**
+ * Filing date-range helpers
+ * Ranges apply to the period a filing reports on, so "2019-2024" picks the FY2019-FY2024 10-Ks
+ * even though they were filed early the following year. Filings without a report date fall back
+ * to their filing date.
+ */
+
+export type FilingDateRange = {
+    from: string;
+    to: string;
+};
+
+export const getFilingPeriodDate = (filing: CompanyFiling): string => filing.reportDate ?? filing.filingDate;
+
+/**
+ * Filings of the given form types whose period falls inside the range, newest first.
+ * Empty range bounds are open. Dates are ISO (yyyy-MM-dd) so they compare as strings.
+ */
+export const getFilingsInScope = (
+    filings: CompanyFiling[],
+    formTypes: string[],
+    range: FilingDateRange,
+): CompanyFiling[] =>
+    filings.filter(filing => {
+        const periodDate = getFilingPeriodDate(filing);
+        return (
+            formTypes.includes(filing.formType) &&
+            (!range.from || periodDate >= range.from) &&
+            (!range.to || periodDate <= range.to)
+        );
+    });
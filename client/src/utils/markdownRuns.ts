@@ -0,0 +1,55 @@
+import type { PhrasingContent, Root } from 'mdast';
+import remarkGfm from 'remark-gfm';
+import remarkParse from 'remark-parse';
+import { unified } from 'unified';
+
+/**
+ * Markdown helpers for writers that don't render HTML (PDF, Word)
+ * Answers are parsed into a markdown syntax tree with the same GFM support the chat renders with;
+ * inline content is flattened into styled runs of text.
+ */
+
+export type TextRun = {
+    text: string;
+    bold?: boolean;
+    italic?: boolean;
+    code?: boolean;
+    link?: string;
+};
+
+type RunStyle = Omit<TextRun, 'text'>;
+
+export const parseMarkdown = (markdown: string): Root =>
+    unified().use(remarkParse).use(remarkGfm).parse(markdown);
+
+export const getTextRuns = (nodes: PhrasingContent[], style: RunStyle = {}): TextRun[] =>
+    nodes.flatMap((node): TextRun[] => {
+        switch (node.type) {
+            // Soft line breaks read as spaces, as they do in rendered markdown
+            case 'text':
+                return [{ ...style, text: node.value.replace(/\s*\n\s*/g, ' ') }];
+            case 'inlineCode':
+                return [{ ...style, code: true, text: node.value }];
+            case 'strong':
+                return getTextRuns(node.children, { ...style, bold: true });
+            case 'emphasis':
+                return getTextRuns(node.children, { ...style, italic: true });
+            case 'delete':
+                return getTextRuns(node.children, style);
+            case 'link':
+                return getTextRuns(node.children, { ...style, link: node.url });
+            case 'break':
+                return [{ ...style, text: '\n' }];
+            case 'image':
+                return node.alt ? [{ ...style, text: node.alt }] : [];
+            default:
+                return 'value' in node && typeof node.value === 'string'
+                    ? [{ ...style, text: node.value }]
+                    : [];
+        }
+    });
+
+export const getPlainText = (nodes: PhrasingContent[]) =>
+    getTextRuns(nodes)
+        .map(run => run.text)
+        .join('');
@@ -0,0 +1,14 @@
+/**
+ * DOM ids of rendered chat messages
+ * Let other parts of the page scroll to a message or read its rendered text.
+ */
+
+/**
+ * Id of a message's bubble
+ */
+export const getMessageElementId = (messageId: string) => `message-${messageId}`;
+
+/**
+ * Id of the element holding a message's rendered markdown
+ */
+export const getMessageContentElementId = (messageId: string) => `message-content-${messageId}`;
@@ -0,0 +1,65 @@
+/**
+ * Conversation branching helpers
+ * Messages form a tree through their parentId: an edited question or a regenerated answer is a
+ * sibling of the message it replaces. The chat shows one thread through that tree at a time.
+ */
+
+type TreeMessage = {
+    id: string;
+    parentId?: string | null;
+};
+
+/**
+ * Which sibling to show under each parent, keyed by getBranchKey(parentId). Parents without an
+ * entry show their newest reply.
+ */
+export type BranchSelection = Record<string, string>;
+
+export type ThreadMessage<T extends TreeMessage> = T & {
+    /** Every alternative at this point of the thread, oldest first, including this message */
+    siblingIds: string[];
+};
+
+const ROOT_KEY = 'root';
+
+/**
+ * Key under which the chosen reply to a parent is stored; first messages share the root key
+ */
+export const getBranchKey = (parentId: string | null | undefined): string => parentId ?? ROOT_KEY;
+
+/**
+ * Walks the tree from the first message down, following the selected (or newest) reply at each
+ * step, and returns that thread with each message's alternatives.
+ * @param messages - All messages of the conversation, oldest first
+ * @param selection - The sibling chosen under each parent
+ */
+export const getActiveThread = <T extends TreeMessage>(
+    messages: T[],
+    selection: BranchSelection
+): ThreadMessage<T>[] => {
+    const repliesByParent = new Map<string, T[]>();
+    for (const message of messages) {
+        const key = getBranchKey(message.parentId);
+        repliesByParent.set(key, [...(repliesByParent.get(key) ?? []), message]);
+    }
+
+    const thread: ThreadMessage<T>[] = [];
+    const visited = new Set<string>();
+    let key = ROOT_KEY;
+
+    while (true) {
+        const replies = repliesByParent.get(key);
+        if (!replies || replies.length === 0) break;
+
+        const selected =
+            replies.find(message => message.id === selection[key]) ?? replies[replies.length - 1];
+        // Guard against a malformed tree looping back on itself
+        if (visited.has(selected.id)) break;
+        visited.add(selected.id);
+
+        thread.push({ ...selected, siblingIds: replies.map(message => message.id) });
+        key = selected.id;
+    }
+
+    return thread;
+};
@@ -0,0 +1,38 @@
+/**
+ * Browser notification preferences for localStorage
+ * Stored per user, since several people can share a browser
+ */
+
+const NOTIFICATIONS_KEY_PREFIX = 'browserNotifications';
+
+/**
+ * Whether the user opted in, declined, or hasn't been asked yet
+ */
+export type NotificationPreference = 'enabled' | 'disabled' | 'unset';
+
+const getStorageKey = (userId: number) => `${NOTIFICATIONS_KEY_PREFIX}:${userId}`;
+
+/**
+ * Checks whether this browser supports the Web Notifications API
+ */
+export const areNotificationsSupported = (): boolean => {
+    return typeof window !== 'undefined' && 'Notification' in window;
+};
+
+/**
+ * Gets the user's notification preference
+ */
+export const getNotificationPreference = (userId: number): NotificationPreference => {
+    const value = localStorage.getItem(getStorageKey(userId));
+    return value === 'enabled' || value === 'disabled' ? value : 'unset';
+};
+
+/**
+ * Stores the user's notification preference
+ */
+export const setNotificationPreference = (
+    userId: number,
+    preference: Exclude<NotificationPreference, 'unset'>
+): void => {
+    localStorage.setItem(getStorageKey(userId), preference);
+};
@@ -0,0 +1,66 @@
+/**
+ * Chunked uploads in progress, kept in localStorage
+ * A chunked upload survives a page refresh on the server, but the browser forgets the file. The
+ * session is remembered here so dropping the same file again resumes it instead of starting over.
+ */
+
+const PENDING_UPLOADS_KEY = 'pendingUploads';
+
+export type PendingUpload = {
+    sessionId: string;
+    conversationId: string | null;
+    fileName: string;
+    fileSize: number;
+    lastModified: number;
+    receivedBytes: number;
+};
+
+/**
+ * Gets every remembered upload, across conversations
+ */
+export const getPendingUploads = (): PendingUpload[] => {
+    try {
+        const value = localStorage.getItem(PENDING_UPLOADS_KEY);
+        return value ? (JSON.parse(value) as PendingUpload[]) : [];
+    } catch {
+        return [];
+    }
+};
+
+const setPendingUploads = (uploads: PendingUpload[]): void => {
+    if (uploads.length === 0) {
+        localStorage.removeItem(PENDING_UPLOADS_KEY);
+    } else {
+        localStorage.setItem(PENDING_UPLOADS_KEY, JSON.stringify(uploads));
+    }
+};
+
+/**
+ * Remembers an upload, or updates how far it has got
+ */
+export const savePendingUpload = (upload: PendingUpload): void => {
+    setPendingUploads([
+        ...getPendingUploads().filter(u => u.sessionId !== upload.sessionId),
+        upload,
+    ]);
+};
+
+export const removePendingUpload = (sessionId: string): void => {
+    setPendingUploads(getPendingUploads().filter(u => u.sessionId !== sessionId));
+};
+
+/**
+ * The remembered upload of this file into the conversation (or the library), if any. Files are
+ * matched on name, size and modification time, since the browser gives no stable file identity.
+ */
+export const findPendingUpload = (
+    file: File,
+    conversationId: string | null
+): PendingUpload | undefined =>
+    getPendingUploads().find(
+        u =>
+            u.conversationId === conversationId &&
+            u.fileName === file.name &&
+            u.fileSize === file.size &&
+            u.lastModified === file.lastModified
+    );
@@ -0,0 +1,82 @@
+import { ConversationMessage } from '../api/conversation/getConversationById';
+import { REPORT_SECTIONS, ReportBlock, ReportSection } from '../api/report/getReport';
+
+/**
+ * Report builder helpers
+ * A report's blocks are kept in one list ordered by section, then by position within the section,
+ * the same order the server returns and saves them in. Moving a block only ever reorders that list.
+ */
+
+// Drag data types: an answer from the palette, or a block already in the report
+export const ANSWER_DRAG_TYPE = 'application/x-report-answer';
+export const BLOCK_DRAG_TYPE = 'application/x-report-block';
+
+// Blocks that haven't been saved yet get a temporary ID; the server assigns the real ones
+const generateBlockId = () => `new-${Math.random().toString(36).slice(2, 11)}`;
+
+export const getReportBuilderPath = (conversationId: string, reportId: string) =>
+    `/conversations/${conversationId}/reports/${reportId}`;
+
+/**
+ * A block holding an assistant answer, with the answer's sources so its citations keep working
+ */
+export const createAnswerBlock = (
+    message: ConversationMessage,
+    section: ReportSection
+): ReportBlock => ({
+    id: generateBlockId(),
+    section,
+    content: message.text.trim(),
+    sourceMessageId: message.id,
+    sources: message.sources ?? [],
+});
+
+/**
+ * Inserts a block at the end of its section, or before another block of the same section
+ */
+export const insertReportBlock = (
+    blocks: ReportBlock[],
+    block: ReportBlock,
+    beforeBlockId?: string
+) => {
+    const rest = blocks.filter(other => other.id !== block.id);
+    const before = beforeBlockId ? rest.findIndex(other => other.id === beforeBlockId) : -1;
+    if (before >= 0 && rest[before].section === block.section) {
+        return [...rest.slice(0, before), block, ...rest.slice(before)];
+    }
+
+    // After the last block of the section, or of the sections printed before it
+    const sectionIndex = (section: ReportSection) => REPORT_SECTIONS.indexOf(section);
+    const end = rest.filter(
+        other => sectionIndex(other.section) <= sectionIndex(block.section)
+    ).length;
+    return [...rest.slice(0, end), block, ...rest.slice(end)];
+};
+
+/**
+ * Moves a block into a section, at its end or before another of its blocks
+ */
+export const moveReportBlock = (
+    blocks: ReportBlock[],
+    blockId: string,
+    section: ReportSection,
+    beforeBlockId?: string
+) => {
+    const block = blocks.find(other => other.id === blockId);
+    if (!block || blockId === beforeBlockId) return blocks;
+    return insertReportBlock(blocks, { ...block, section }, beforeBlockId);
+};
+
+/**
+ * Swaps a block with its neighbour in the same section
+ */
+export const shiftReportBlock = (blocks: ReportBlock[], blockId: string, offset: -1 | 1) => {
+    const index = blocks.findIndex(block => block.id === blockId);
+    const neighbour = blocks[index + offset];
+    if (index < 0 || !neighbour || neighbour.section !== blocks[index].section) return blocks;
+
+    const next = [...blocks];
+    next[index] = neighbour;
+    next[index + offset] = blocks[index];
+    return next;
+};
@@ -0,0 +1,225 @@
+import {
+    ConversationMessage,
+    GetConversationByIdResponse,
+} from '../api/conversation/getConversationById';
+import { DocumentSource } from '../api/message/getMessageListByConversation';
+import { Report, REPORT_SECTIONS } from '../api/report/getReport';
+import { renumberCitationMarkers } from './citations';
+
+/**
+ * Research memo export
+ * A conversation or due-diligence report written up as a memo: its companies, each question (or
+ * report section) with its answer, and one numbered bibliography for the whole memo. Answers cite
+ * their own sources as [1], [2], ...; those markers are renumbered to the bibliography so the same
+ * filing keeps one number throughout.
+ */
+
+export type MemoSource = {
+    number: number;
+    title: string;
+    link: string | null;
+    companyName: string | null;
+    companyTicker: string | null;
+    /** Highest relevance the source was retrieved with for any answer in the memo */
+    relevanceScore: number;
+};
+
+export type MemoEntry = {
+    question: string;
+    /** Markdown, with citation markers pointing into the memo's sources */
+    answer: string;
+    answeredAt: string;
+};
+
+export type ResearchMemo = {
+    title: string;
+    companies: { companyName: string; ticker: string }[];
+    preparedAt: Date;
+    entries: MemoEntry[];
+    sources: MemoSource[];
+};
+
+export type MemoFormat = 'md' | 'pdf' | 'docx';
+
+/**
+ * Numbers sources across the whole memo, in the order they are first cited. The same document
+ * keeps one number and its highest relevance.
+ */
+const createMemoSourceNumbering = () => {
+    const sourcesByDocument = new Map<number, MemoSource>();
+
+    /**
+     * Registers an answer's sources and returns the memo number of each, in the answer's order
+     */
+    const cite = (sources: DocumentSource[]) =>
+        sources.map(source => {
+            let memoSource = sourcesByDocument.get(source.documentId);
+            if (!memoSource) {
+                memoSource = {
+                    number: sourcesByDocument.size + 1,
+                    title: source.documentTitle || source.fileName || 'Untitled document',
+                    link: source.documentLink || null,
+                    companyName: source.companyName,
+                    companyTicker: source.companyTicker,
+                    relevanceScore: source.relevanceScore,
+                };
+                sourcesByDocument.set(source.documentId, memoSource);
+            }
+            memoSource.relevanceScore = Math.max(memoSource.relevanceScore, source.relevanceScore);
+            return memoSource.number;
+        });
+
+    return { cite, getSources: () => [...sourcesByDocument.values()] };
+};
+
+const getMemoCompanies = (conversation: GetConversationByIdResponse) =>
+    conversation.companies.map(({ companyName, ticker }) => ({ companyName, ticker }));
+
+/**
+ * Builds the memo from a conversation's thread, pairing each answer with the question it responded
+ * to. Questions still waiting for an answer are left out.
+ *
+ * @param conversation - The conversation being exported
+ * @param thread - The messages to include, in order; usually the thread the user is looking at
+ */
+export const buildResearchMemo = (
+    conversation: GetConversationByIdResponse,
+    thread: ConversationMessage[]
+): ResearchMemo => {
+    const numbering = createMemoSourceNumbering();
+    const entries: MemoEntry[] = [];
+
+    thread.forEach((message, index) => {
+        if (message.role !== 'Assistant' || !message.text.trim()) return;
+
+        const question = thread[index - 1]?.role === 'User' ? thread[index - 1].text : '';
+        entries.push({
+            question: question.trim(),
+            answer: renumberCitationMarkers(
+                message.text.trim(),
+                numbering.cite(message.sources ?? [])
+            ),
+            answeredAt: message.timestamp,
+        });
+    });
+
+    return {
+        title: conversation.title,
+        companies: getMemoCompanies(conversation),
+        preparedAt: new Date(),
+        entries,
+        sources: numbering.getSources(),
+    };
+};
+
+/**
+ * Builds the memo from a due-diligence report: each section that has blocks becomes an entry
+ * headed by the section's name, its blocks in order. Every block carries its own sources, so its
+ * markers are renumbered to the shared bibliography like an answer's.
+ *
+ * @param conversation - The conversation the report was built from, for its companies
+ * @param report - The report being exported, with its blocks ordered by section
+ */
+export const buildReportMemo = (
+    conversation: GetConversationByIdResponse,
+    report: Pick<Report, 'title' | 'updatedAt' | 'blocks'>
+): ResearchMemo => {
+    const numbering = createMemoSourceNumbering();
+
+    const entries = REPORT_SECTIONS.flatMap((section): MemoEntry[] => {
+        const answer = report.blocks
+            .filter(block => block.section === section && block.content.trim())
+            .map(block =>
+                renumberCitationMarkers(block.content.trim(), numbering.cite(block.sources))
+            )
+            .join('\n\n');
+        return answer ? [{ question: section, answer, answeredAt: report.updatedAt }] : [];
+    });
+
+    return {
+        title: report.title,
+        companies: getMemoCompanies(conversation),
+        preparedAt: new Date(),
+        entries,
+        sources: numbering.getSources(),
+    };
+};
+
+export const formatMemoCompany = (company: { companyName: string | null; ticker: string | null }) =>
+    company.ticker
+        ? `${company.companyName ?? company.ticker} (${company.ticker})`
+        : company.companyName ?? '';
+
+export const formatMemoDate = (date: Date) =>
+    date.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+// Questions become headings, so they're kept to one line
+export const getMemoQuestionHeading = (entry: MemoEntry, index: number) =>
+    `${index + 1}. ${entry.question.replace(/\s+/g, ' ') || 'Answer'}`;
+
+/**
+ * The line under a bibliography entry's title: its company and how relevant it was
+ */
+export const getMemoSourceDetails = (source: MemoSource) =>
+    [
+        formatMemoCompany({ companyName: source.companyName, ticker: source.companyTicker }),
+        `relevance ${source.relevanceScore.toFixed(2)}`,
+    ]
+        .filter(Boolean)
+        .join(' · ');
+
+/**
+ * Pushes an answer's own headings two levels down so they sit under its question's heading.
+ * Lines inside fenced code blocks are left alone.
+ */
+const nestAnswerHeadings = (answer: string) => {
+    let isInCodeBlock = false;
+    return answer
+        .split('\n')
+        .map(line => {
+            if (/^\s*(```|~~~)/.test(line)) isInCodeBlock = !isInCodeBlock;
+            return !isInCodeBlock && /^#{1,4}\s/.test(line) ? `##${line}` : line;
+        })
+        .join('\n');
+};
+
+export const toMemoMarkdown = (memo: ResearchMemo): string => {
+    const lines = [`# ${memo.title}`, ''];
+
+    if (memo.companies.length > 0) {
+        lines.push(`**Companies:** ${memo.companies.map(formatMemoCompany).join(', ')}  `);
+    }
+    lines.push(`**Prepared:** ${formatMemoDate(memo.preparedAt)}`, '');
+
+    memo.entries.forEach((entry, index) => {
+        lines.push(
+            `## ${getMemoQuestionHeading(entry, index)}`,
+            '',
+            nestAnswerHeadings(entry.answer),
+            ''
+        );
+    });
+
+    if (memo.sources.length > 0) {
+        lines.push('## Sources', '');
+        memo.sources.forEach(source => {
+            const title = source.link ? `[${source.title}](${source.link})` : source.title;
+            lines.push(`${source.number}. ${title} — ${getMemoSourceDetails(source)}`);
+        });
+        lines.push('');
+    }
+
+    return lines.join('\n');
+};
+
+/**
+ * File name for the memo, from its title and the date it was prepared
+ */
+export const getMemoFileName = (memo: ResearchMemo, format: MemoFormat) => {
+    const slug = memo.title
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, 60);
+    return `${slug || 'research-memo'}-${memo.preparedAt.toISOString().slice(0, 10)}.${format}`;
+};
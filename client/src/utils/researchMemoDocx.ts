@@ -0,0 +1,248 @@
+import {
+    AlignmentType,
+    Document,
+    ExternalHyperlink,
+    HeadingLevel,
+    LevelFormat,
+    Packer,
+    Paragraph,
+    ParagraphChild,
+    Table,
+    TableCell,
+    TableRow,
+    TextRun,
+    WidthType,
+} from 'docx';
+import type { List, RootContent, Table as MarkdownTable } from 'mdast';
+import { getTextRuns, parseMarkdown, TextRun as MarkdownTextRun } from './markdownRuns';
+import {
+    formatMemoCompany,
+    formatMemoDate,
+    getMemoQuestionHeading,
+    getMemoSourceDetails,
+    ResearchMemo,
+} from './researchMemo';
+
+const ORDERED_LIST_REFERENCE = 'memo-ordered-list';
+const MUTED_COLOR = '6B7280';
+// Word measures indentation in twentieths of a point
+const LIST_INDENT_TWIPS = 360;
+
+const ANSWER_HEADING_LEVELS = [
+    HeadingLevel.HEADING_3,
+    HeadingLevel.HEADING_3,
+    HeadingLevel.HEADING_4,
+    HeadingLevel.HEADING_4,
+    HeadingLevel.HEADING_5,
+    HeadingLevel.HEADING_6,
+];
+
+const ALIGNMENTS = {
+    left: AlignmentType.LEFT,
+    center: AlignmentType.CENTER,
+    right: AlignmentType.RIGHT,
+};
+
+const toDocxRuns = (runs: MarkdownTextRun[]): ParagraphChild[] =>
+    runs.map(run => {
+        // Line breaks within a run, e.g. in code blocks, become Word line breaks
+        const lines = run.text
+            .split('\n')
+            .flatMap((line, index) => (index === 0 ? [line] : [new TextRun({ break: 1 }), line]));
+        const textRun = new TextRun({
+            children: lines,
+            bold: run.bold,
+            italics: run.italic,
+            font: run.code ? 'Consolas' : undefined,
+            style: run.link ? 'Hyperlink' : undefined,
+        });
+        return run.link ? new ExternalHyperlink({ link: run.link, children: [textRun] }) : textRun;
+    });
+
+/**
+ * Converts markdown blocks to Word paragraphs and tables. Ordered lists each restart their
+ * numbering, so every list gets its own instance of the shared numbering definition.
+ */
+const createDocxConverter = () => {
+    let orderedListCount = 0;
+
+    const toTable = (table: MarkdownTable) =>
+        new Table({
+            width: { size: 100, type: WidthType.PERCENTAGE },
+            rows: table.children.map(
+                (row, rowIndex) =>
+                    new TableRow({
+                        tableHeader: rowIndex === 0,
+                        children: row.children.map(
+                            (cell, columnIndex) =>
+                                new TableCell({
+                                    shading: rowIndex === 0 ? { fill: 'F1F5F9' } : undefined,
+                                    children: [
+                                        new Paragraph({
+                                            alignment:
+                                                ALIGNMENTS[table.align?.[columnIndex] ?? 'left'],
+                                            children: toDocxRuns(
+                                                getTextRuns(cell.children).map(run => ({
+                                                    ...run,
+                                                    bold: run.bold || rowIndex === 0,
+                                                }))
+                                            ),
+                                        }),
+                                    ],
+                                })
+                        ),
+                    })
+            ),
+        });
+
+    const toList = (list: List, level: number): (Paragraph | Table)[] => {
+        const instance = list.ordered ? ++orderedListCount : 0;
+
+        return list.children.flatMap(item =>
+            item.children.flatMap((child, childIndex) =>
+                // Only an item's first paragraph carries its bullet or number
+                childIndex === 0 && child.type === 'paragraph'
+                    ? [
+                          new Paragraph({
+                              children: toDocxRuns(getTextRuns(child.children)),
+                              ...(list.ordered
+                                  ? {
+                                        numbering: {
+                                            reference: ORDERED_LIST_REFERENCE,
+                                            level,
+                                            instance,
+                                        },
+                                    }
+                                  : { bullet: { level } }),
+                          }),
+                      ]
+                    : toBlocks(child, level + 1)
+            )
+        );
+    };
+
+    const toBlocks = (node: RootContent, listLevel = 0): (Paragraph | Table)[] => {
+        const indent = listLevel > 0 ? { left: LIST_INDENT_TWIPS * (listLevel + 1) } : undefined;
+
+        switch (node.type) {
+            case 'heading':
+                return [
+                    new Paragraph({
+                        heading: ANSWER_HEADING_LEVELS[node.depth - 1],
+                        children: toDocxRuns(getTextRuns(node.children)),
+                    }),
+                ];
+            case 'paragraph':
+                return [
+                    new Paragraph({ indent, children: toDocxRuns(getTextRuns(node.children)) }),
+                ];
+            case 'list':
+                return toList(node, listLevel);
+            case 'table':
+                return [toTable(node), new Paragraph({})];
+            case 'code':
+                return [
+                    new Paragraph({
+                        indent,
+                        children: toDocxRuns([{ text: node.value, code: true }]),
+                    }),
+                ];
+            case 'blockquote':
+                return node.children.flatMap(child => toBlocks(child, listLevel + 1));
+            case 'thematicBreak':
+                return [new Paragraph({ thematicBreak: true })];
+            default:
+                // Raw HTML and the like have no place in a Word memo
+                return [];
+        }
+    };
+
+    return { toBlocks };
+};
+
+/**
+ * Writes the memo as a Word document built on Word's own heading, list and hyperlink styles, so it
+ * can be restyled to a house template
+ */
+export const toMemoDocx = async (memo: ResearchMemo): Promise<Blob> => {
+    const converter = createDocxConverter();
+    const children: (Paragraph | Table)[] = [
+        new Paragraph({ text: memo.title, heading: HeadingLevel.TITLE }),
+    ];
+
+    if (memo.companies.length > 0) {
+        const companies = memo.companies.map(formatMemoCompany).join(', ');
+        children.push(new Paragraph({ children: [new TextRun({ text: companies, bold: true })] }));
+    }
+    const prepared = `Prepared ${formatMemoDate(memo.preparedAt)}`;
+    children.push(
+        new Paragraph({ children: [new TextRun({ text: prepared, color: MUTED_COLOR })] })
+    );
+
+    memo.entries.forEach((entry, index) => {
+        children.push(
+            new Paragraph({
+                text: getMemoQuestionHeading(entry, index),
+                heading: HeadingLevel.HEADING_2,
+            })
+        );
+        parseMarkdown(entry.answer).children.forEach(block =>
+            children.push(...converter.toBlocks(block))
+        );
+    });
+
+    if (memo.sources.length > 0) {
+        children.push(new Paragraph({ text: 'Sources', heading: HeadingLevel.HEADING_2 }));
+        memo.sources.forEach(source => {
+            const title = new TextRun({
+                text: source.title,
+                style: source.link ? 'Hyperlink' : undefined,
+            });
+            children.push(
+                new Paragraph({
+                    indent: { left: LIST_INDENT_TWIPS, hanging: LIST_INDENT_TWIPS },
+                    children: [
+                        new TextRun(`${source.number}.\t`),
+                        source.link
+                            ? new ExternalHyperlink({ link: source.link, children: [title] })
+                            : title,
+                        new TextRun({ break: 1 }),
+                        new TextRun({
+                            text: getMemoSourceDetails(source),
+                            color: MUTED_COLOR,
+                            size: 18,
+                        }),
+                    ],
+                })
+            );
+        });
+    }
+
+    const document = new Document({
+        title: memo.title,
+        numbering: {
+            config: [
+                {
+                    reference: ORDERED_LIST_REFERENCE,
+                    levels: [0, 1, 2, 3].map(level => ({
+                        level,
+                        format: LevelFormat.DECIMAL,
+                        text: `%${level + 1}.`,
+                        alignment: AlignmentType.START,
+                        style: {
+                            paragraph: {
+                                indent: {
+                                    left: LIST_INDENT_TWIPS * (level + 2),
+                                    hanging: LIST_INDENT_TWIPS,
+                                },
+                            },
+                        },
+                    })),
+                },
+            ],
+        },
+        sections: [{ children }],
+    });
+
+    return Packer.toBlob(document);
+};
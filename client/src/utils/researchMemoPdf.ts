@@ -0,0 +1,256 @@
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import type { List, RootContent, Table } from 'mdast';
+import { getPlainText, getTextRuns, parseMarkdown, TextRun } from './markdownRuns';
+import {
+    formatMemoCompany,
+    formatMemoDate,
+    getMemoQuestionHeading,
+    getMemoSourceDetails,
+    ResearchMemo,
+} from './researchMemo';
+
+// Sizes in points on an A4 page
+const PAGE_MARGIN = 56;
+const BODY_FONT_SIZE = 10.5;
+const LINE_HEIGHT_FACTOR = 1.4;
+const LIST_INDENT = 16;
+const ANSWER_HEADING_FONT_SIZES = [13, 12, 11, 11, 11, 11];
+
+const TEXT_COLOR = '#111827';
+const MUTED_COLOR = '#6b7280';
+const LINK_COLOR = '#1d4ed8';
+
+type RunLayout = {
+    fontSize?: number;
+    indent?: number;
+    spaceBefore?: number;
+    spaceAfter?: number;
+    muted?: boolean;
+};
+
+/**
+ * Writes markdown blocks down the pages of a jsPDF document, starting a new page whenever the
+ * next line wouldn't fit
+ */
+const createPdfWriter = (doc: jsPDF) => {
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const contentRight = doc.internal.pageSize.getWidth() - PAGE_MARGIN;
+    let y = PAGE_MARGIN;
+
+    const ensureSpace = (height: number) => {
+        if (y + height > pageHeight - PAGE_MARGIN) {
+            doc.addPage();
+            y = PAGE_MARGIN;
+        }
+    };
+
+    const setRunFont = (run: TextRun, fontSize: number, muted: boolean) => {
+        const style = run.bold ? (run.italic ? 'bolditalic' : 'bold') : run.italic ? 'italic' : 'normal';
+        doc.setFont(run.code ? 'courier' : 'helvetica', style);
+        doc.setFontSize(fontSize);
+        doc.setTextColor(run.link ? LINK_COLOR : muted ? MUTED_COLOR : TEXT_COLOR);
+    };
+
+    /**
+     * Lays styled runs out word by word, wrapping at the right margin
+     */
+    const writeRuns = (
+        runs: TextRun[],
+        {
+            fontSize = BODY_FONT_SIZE,
+            indent = 0,
+            spaceBefore = 0,
+            spaceAfter = 6,
+            muted = false,
+        }: RunLayout = {}
+    ) => {
+        const lineHeight = fontSize * LINE_HEIGHT_FACTOR;
+        const lineStart = PAGE_MARGIN + indent;
+        let x = lineStart;
+
+        y += spaceBefore;
+        ensureSpace(lineHeight);
+
+        const startLine = () => {
+            y += lineHeight;
+            ensureSpace(lineHeight);
+            x = lineStart;
+        };
+
+        for (const run of runs) {
+            setRunFont(run, fontSize, muted);
+            for (const word of run.text.split(/( +|\n)/)) {
+                if (!word) continue;
+                if (word === '\n') {
+                    startLine();
+                    continue;
+                }
+
+                const width = doc.getTextWidth(word);
+                if (word.trim() === '') {
+                    if (x > lineStart) x += width;
+                    continue;
+                }
+                if (x + width > contentRight && x > lineStart) startLine();
+
+                doc.text(word, x, y, { baseline: 'top' });
+                if (run.link) doc.link(x, y, width, fontSize, { url: run.link });
+                x += width;
+            }
+        }
+
+        y += lineHeight + spaceAfter;
+    };
+
+    const writeRule = () => {
+        ensureSpace(12);
+        doc.setDrawColor('#e5e7eb');
+        doc.line(PAGE_MARGIN, y, contentRight, y);
+        y += 12;
+    };
+
+    const writeTable = (table: Table, indent: number) => {
+        const [head, ...body] = table.children;
+        if (!head) return;
+
+        autoTable(doc, {
+            head: [head.children.map(cell => getPlainText(cell.children))],
+            body: body.map(row => row.children.map(cell => getPlainText(cell.children))),
+            startY: y,
+            margin: {
+                top: PAGE_MARGIN,
+                bottom: PAGE_MARGIN,
+                left: PAGE_MARGIN + indent,
+                right: PAGE_MARGIN,
+            },
+            theme: 'grid',
+            styles: { font: 'helvetica', fontSize: 9, cellPadding: 4, textColor: TEXT_COLOR },
+            headStyles: { fillColor: '#f1f5f9', fontStyle: 'bold' },
+            columnStyles: Object.fromEntries(
+                (table.align ?? []).map((align, index) => [index, { halign: align ?? 'left' }])
+            ),
+            // The cursor ends up below the table on its last page
+            didDrawPage: data => {
+                y = data.cursor?.y ?? y;
+            },
+        });
+        y += 10;
+    };
+
+    const writeList = (list: List, indent: number) => {
+        list.children.forEach((item, index) => {
+            const marker = list.ordered ? `${(list.start ?? 1) + index}.` : '•';
+            ensureSpace(BODY_FONT_SIZE * LINE_HEIGHT_FACTOR);
+            setRunFont({ text: marker }, BODY_FONT_SIZE, false);
+            doc.text(marker, PAGE_MARGIN + indent, y, { baseline: 'top' });
+
+            item.children.forEach(child => writeBlock(child, indent + LIST_INDENT, 2));
+        });
+        y += 4;
+    };
+
+    const writeBlock = (node: RootContent, indent = 0, spaceAfter = 6) => {
+        switch (node.type) {
+            case 'heading':
+                writeRuns(
+                    getTextRuns(node.children).map(run => ({ ...run, bold: true })),
+                    {
+                        fontSize: ANSWER_HEADING_FONT_SIZES[node.depth - 1],
+                        indent,
+                        spaceBefore: 4,
+                        spaceAfter: 4,
+                    }
+                );
+                break;
+            case 'paragraph':
+                writeRuns(getTextRuns(node.children), { indent, spaceAfter });
+                break;
+            case 'list':
+                writeList(node, indent);
+                break;
+            case 'table':
+                writeTable(node, indent);
+                break;
+            case 'code':
+                writeRuns([{ text: node.value, code: true }], {
+                    fontSize: 9,
+                    indent: indent + 8,
+                    spaceAfter,
+                });
+                break;
+            case 'blockquote':
+                node.children.forEach(child => writeBlock(child, indent + LIST_INDENT, spaceAfter));
+                break;
+            case 'thematicBreak':
+                writeRule();
+                break;
+            default:
+                // Raw HTML and the like have no place in a printed memo
+                break;
+        }
+    };
+
+    return { writeRuns, writeRule, writeBlock };
+};
+
+const addPageNumbers = (doc: jsPDF) => {
+    const pageCount = doc.getNumberOfPages();
+    for (let page = 1; page <= pageCount; page++) {
+        doc.setPage(page);
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(8);
+        doc.setTextColor(MUTED_COLOR);
+        doc.text(
+            `${page} / ${pageCount}`,
+            doc.internal.pageSize.getWidth() - PAGE_MARGIN,
+            doc.internal.pageSize.getHeight() - PAGE_MARGIN / 2,
+            { align: 'right' }
+        );
+    }
+};
+
+/**
+ * Writes the memo as an A4 PDF: answers keep their tables, lists and emphasis, and sources link
+ * to the original filings
+ */
+export const toMemoPdf = (memo: ResearchMemo): Blob => {
+    const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+    doc.setProperties({ title: memo.title });
+    const writer = createPdfWriter(doc);
+
+    writer.writeRuns([{ text: memo.title, bold: true }], { fontSize: 20, spaceAfter: 4 });
+    if (memo.companies.length > 0) {
+        writer.writeRuns([{ text: memo.companies.map(formatMemoCompany).join(', ') }], {
+            fontSize: 12,
+            spaceAfter: 2,
+        });
+    }
+    writer.writeRuns([{ text: `Prepared ${formatMemoDate(memo.preparedAt)}` }], { muted: true });
+    writer.writeRule();
+
+    memo.entries.forEach((entry, index) => {
+        writer.writeRuns([{ text: getMemoQuestionHeading(entry, index), bold: true }], {
+            fontSize: 14,
+            spaceBefore: index === 0 ? 0 : 10,
+        });
+        parseMarkdown(entry.answer).children.forEach(block => writer.writeBlock(block));
+    });
+
+    if (memo.sources.length > 0) {
+        writer.writeRule();
+        writer.writeRuns([{ text: 'Sources', bold: true }], { fontSize: 14 });
+        memo.sources.forEach(source => {
+            const title: TextRun = { text: source.title, link: source.link ?? undefined };
+            writer.writeRuns([{ text: `${source.number}.  ` }, title], { spaceAfter: 0 });
+            writer.writeRuns([{ text: getMemoSourceDetails(source) }], {
+                fontSize: 9,
+                indent: LIST_INDENT,
+                muted: true,
+            });
+        });
+    }
+
+    addPageNumbers(doc);
+    return doc.output('blob');
+};
@@ -0,0 +1,55 @@
+import { RetrievalOptions } from '../api/message/getMessageListByConversation';
+
+/**
+ * Per-question retrieval override helpers
+ * The composer lets the user force the intent, set their own k/threshold or pick the model
+ * tier for a single question; the choice is recorded on the question.
+ */
+
+/**
+ * How the composer presents the intent and threshold overrides
+ */
+export type RetrievalMode = 'Auto' | 'Regular' | 'Exhaustive' | 'Custom';
+
+/**
+ * Thresholds a custom search starts from; mirrors RetrievalConfig:Regular on the server
+ */
+export const DEFAULT_CUSTOM_MAX_K = 15;
+export const DEFAULT_CUSTOM_MIN_SIMILARITY = 0.7;
+
+/**
+ * Gets the composer mode the options correspond to
+ */
+export const getRetrievalMode = (options: RetrievalOptions): RetrievalMode => {
+    if (options.intent) return options.intent;
+    return options.maxK != null || options.minSimilarity != null ? 'Custom' : 'Auto';
+};
+
+/**
+ * Whether any override is set
+ */
+export const hasRetrievalOverrides = (options: RetrievalOptions | undefined): boolean =>
+    !!options && (getRetrievalMode(options) !== 'Auto' || !!options.modelTier);
+
+/**
+ * Short summary of the overrides, e.g. "Exhaustive · Premium" or "k 40, ≥ 0.55"; null when
+ * nothing is overridden
+ */
+export const describeRetrievalOptions = (options: RetrievalOptions | undefined): string | null => {
+    if (!options || !hasRetrievalOverrides(options)) return null;
+
+    const parts: string[] = [];
+    const mode = getRetrievalMode(options);
+    if (mode === 'Custom') {
+        const thresholds = [
+            options.maxK != null ? `k ${options.maxK}` : null,
+            options.minSimilarity != null ? `≥ ${options.minSimilarity.toFixed(2)}` : null,
+        ];
+        parts.push(thresholds.filter(Boolean).join(', '));
+    } else if (mode !== 'Auto') {
+        parts.push(mode);
+    }
+    if (options.modelTier) parts.push(options.modelTier);
+
+    return parts.join(' · ');
+};
@@ -52,6 +52,23 @@ export const clearTokens = (): void => {
     localStorage.removeItem(REFRESH_TOKEN_KEY);
 };
 
+/**
+ * Reads the expiry time from the stored access token (a JWT)
+ * @returns {number | null} Expiry as epoch milliseconds, or null if there is no readable token
+ */
+export const getAccessTokenExpiry = (): number | null => {
+    const token = getAccessToken();
+    const payload = token?.split('.')[1];
+    if (!payload) return null;
+
+    try {
+        const { exp } = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+        return typeof exp === 'number' ? exp * 1000 : null;
+    } catch {
+        return null;
+    }
+};
+
 /**
  * Checks if user has a valid access token
  * @returns {boolean} True if access token exists, false otherwise
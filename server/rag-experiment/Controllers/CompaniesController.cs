@@ -42,6 +42,43 @@ public class CompaniesController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Typeahead search over the full SEC company directory by name, ticker or CIK.
+    /// </summary>
+    /// <param name="q">Search term</param>
+    /// <param name="limit">Maximum number of results (1-50)</param>
+    /// <param name="ct">Cancellation token</param>
+    /// <returns>Matching companies, best matches first</returns>
+    [HttpGet("search")]
+    public async Task<IActionResult> SearchCompanies(
+        [FromQuery] string? q,
+        [FromQuery] int limit = 20,
+        CancellationToken ct = default)
+    {
+        try
+        {
+            if (string.IsNullOrWhiteSpace(q))
+            {
+                return Ok(Array.Empty<object>());
+            }
+
+            var companies = await _companyDirectoryService.SearchCompaniesAsync(q, Math.Clamp(limit, 1, 50), ct);
+
+            return Ok(companies.Select(company => new
+            {
+                company.Cik,
+                company.CikNumber,
+                company.Name,
+                company.Ticker,
+                company.Exchange
+            }));
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, $"An error occurred while searching companies: {ex.Message}");
+        }
+    }
+
     [HttpGet("{companyIdentifier}/filings")]
     public async Task<IActionResult> GetCompanyFilings(
         string companyIdentifier,
@@ -66,6 +103,13 @@ public class CompaniesController : ControllerBase
                     form.FormType,
                     form.FilingCount,
                     LatestFilingDate = form.LatestFilingDate?.ToString("yyyy-MM-dd")
+                }),
+                Filings = filings.Filings.Select(filing => new
+                {
+                    filing.AccessionNumber,
+                    filing.FormType,
+                    FilingDate = filing.FilingDate.ToString("yyyy-MM-dd"),
+                    ReportDate = filing.ReportDate?.ToString("yyyy-MM-dd")
                 })
             });
         }
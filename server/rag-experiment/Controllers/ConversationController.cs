@@ -24,6 +24,11 @@ public class ConversationController : ControllerBase
     private readonly IDocumentProcessingJobService _documentProcessingJobService;
     private readonly FilingIngestionOptions _filingOptions;
 
+    /// <summary>
+    /// Upper bound on companies in one conversation; peer comparisons rarely need more
+    /// </summary>
+    private const int MaxCompaniesPerConversation = 5;
+
     public ConversationController(
         AppDbContext dbContext,
         IUserContext userContext,
@@ -65,7 +70,7 @@ public class ConversationController : ControllerBase
             {
                 id = conversation.Id,
                 title = conversation.Title,
-                companies = conversation.Companies.Select(c => new { c.Id, c.CompanyName, c.Ticker }),
+                companies = conversation.Companies.Select(c => new { c.Id, c.CompanyName, c.Ticker, c.IngestionStatus }),
                 ingestionStatus = conversation.IngestionStatus,
                 createdAt = conversation.CreatedAt,
                 updatedAt = conversation.UpdatedAt
@@ -112,7 +117,8 @@ public class ConversationController : ControllerBase
             conversation.Companies.Add(new ConversationCompany
             {
                 CompanyName = request.CompanyName,
-                Ticker = request.CompanyTicker.Trim()
+                Ticker = request.CompanyTicker.Trim(),
+                IngestionStatus = BatchProcessingStatus.Pending
             });
             conversation.IngestionStatus = BatchProcessingStatus.Pending;
             conversation.UpdatedAt = DateTime.UtcNow;
@@ -123,13 +129,14 @@ public class ConversationController : ControllerBase
                 companyIdentifier,
                 request.FilingTypes,
                 userId,
-                conversation.Id);
+                conversation.Id,
+                request.AccessionNumbers is { Count: > 0 } ? request.AccessionNumbers : null);
 
             return Ok(new
             {
                 conversation.Id,
                 conversation.Title,
-                Companies = conversation.Companies.Select(c => new { c.Id, c.CompanyName, c.Ticker }),
+                Companies = conversation.Companies.Select(c => new { c.Id, c.CompanyName, c.Ticker, c.IngestionStatus }),
                 conversation.IngestionStatus,
                 conversation.CreatedAt,
                 conversation.UpdatedAt
@@ -141,6 +148,213 @@ public class ConversationController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Adds another company to an existing conversation and starts ingesting its filings,
+    /// leaving companies that are already ingested untouched. Used for peer comparisons.
+    /// </summary>
+    /// <param name="id">The conversation ID</param>
+    /// <param name="request">The company to add and the filing types to ingest for it</param>
+    /// <returns>The updated conversation with all of its companies and their ingestion status</returns>
+    [HttpPost("{id}/companies")]
+    public async Task<IActionResult> AddConversationCompany(int id, [FromBody] AddConversationCompanyRequest request)
+    {
+        try
+        {
+            if (request == null || string.IsNullOrWhiteSpace(request.CompanyName))
+                return BadRequest("Company name is required");
+            if (string.IsNullOrWhiteSpace(request.CompanyTicker))
+                return BadRequest("Company ticker is required");
+            if (request.FilingTypes == null || request.FilingTypes.Count == 0)
+                return BadRequest("At least one filing type is required");
+
+            var userId = _userContext.GetCurrentUserId();
+
+            var conversation = await _dbContext.Conversations
+                .Include(c => c.Companies)
+                .FirstOrDefaultAsync(c => c.Id == id && c.UserId == userId);
+
+            if (conversation == null)
+                return NotFound("Conversation not found");
+
+            var ticker = request.CompanyTicker.Trim();
+
+            if (conversation.Companies.Any(c => string.Equals(c.Ticker, ticker, StringComparison.OrdinalIgnoreCase)))
+                return Conflict($"{ticker} is already part of this conversation");
+            if (conversation.Companies.Count >= MaxCompaniesPerConversation)
+                return BadRequest($"A conversation can compare at most {MaxCompaniesPerConversation} companies");
+
+            conversation.Companies.Add(new ConversationCompany
+            {
+                CompanyName = request.CompanyName,
+                Ticker = ticker,
+                IngestionStatus = BatchProcessingStatus.Pending
+            });
+            conversation.IngestionStatus = BatchProcessingStatus.Pending;
+            conversation.UpdatedAt = DateTime.UtcNow;
+
+            await _dbContext.SaveChangesAsync();
+
+            await _documentProcessingJobService.SetupFilingIngestionPipeline(
+                ticker,
+                request.FilingTypes,
+                userId,
+                conversation.Id,
+                request.AccessionNumbers is { Count: > 0 } ? request.AccessionNumbers : null);
+
+            return Ok(new
+            {
+                conversation.Id,
+                conversation.Title,
+                Companies = conversation.Companies.Select(c => new { c.Id, c.CompanyName, c.Ticker, c.IngestionStatus }),
+                conversation.IngestionStatus,
+                conversation.CreatedAt,
+                conversation.UpdatedAt
+            });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, $"An error occurred while adding the company: {ex.Message}");
+        }
+    }
+
+    /// <summary>
+    /// Re-runs ingestion for a company's failed or cancelled filings. Filings that already completed are kept.
+    /// </summary>
+    /// <param name="id">The conversation ID</param>
+    /// <param name="ticker">The company's ticker</param>
+    /// <param name="request">The failed filings to retry; all of them when none are given</param>
+    /// <returns>The conversation with all of its companies and their ingestion status</returns>
+    [HttpPost("{id}/companies/{ticker}/retry")]
+    public async Task<IActionResult> RetryCompanyIngestion(int id, string ticker,
+        [FromBody] RetryCompanyIngestionRequest request)
+    {
+        try
+        {
+            if (request == null)
+                return BadRequest("Request body is required");
+
+            var userId = _userContext.GetCurrentUserId();
+
+            var conversation = await _dbContext.Conversations
+                .Include(c => c.Companies)
+                .FirstOrDefaultAsync(c => c.Id == id && c.UserId == userId);
+
+            if (conversation == null)
+                return NotFound("Conversation not found");
+
+            var company = conversation.Companies
+                .FirstOrDefault(c => string.Equals(c.Ticker, ticker, StringComparison.OrdinalIgnoreCase));
+            if (company == null)
+                return NotFound($"{ticker} is not part of this conversation");
+
+            var jobId = await _documentProcessingJobService.RetryIngestionAsync(
+                conversation.Id,
+                company.Ticker,
+                request.AccessionNumbers is { Count: > 0 } ? request.AccessionNumbers : null);
+
+            if (jobId == null)
+                return Conflict($"There are no failed filings to retry for {company.Ticker}");
+
+            return await GetIngestionStatusResponseAsync(conversation.Id);
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, $"An error occurred while retrying the ingestion: {ex.Message}");
+        }
+    }
+
+    /// <summary>
+    /// Cancels a company's in-flight ingestion. Filings that already completed stay searchable.
+    /// </summary>
+    /// <param name="id">The conversation ID</param>
+    /// <param name="ticker">The company's ticker</param>
+    /// <returns>The conversation with all of its companies and their ingestion status</returns>
+    [HttpPost("{id}/companies/{ticker}/cancel")]
+    public async Task<IActionResult> CancelCompanyIngestion(int id, string ticker)
+    {
+        try
+        {
+            var userId = _userContext.GetCurrentUserId();
+
+            var conversation = await _dbContext.Conversations
+                .Include(c => c.Companies)
+                .FirstOrDefaultAsync(c => c.Id == id && c.UserId == userId);
+
+            if (conversation == null)
+                return NotFound("Conversation not found");
+
+            var company = conversation.Companies
+                .FirstOrDefault(c => string.Equals(c.Ticker, ticker, StringComparison.OrdinalIgnoreCase));
+            if (company == null)
+                return NotFound($"{ticker} is not part of this conversation");
+
+            var cancelled = await _documentProcessingJobService.CancelIngestionAsync(conversation.Id, company.Ticker);
+            if (!cancelled)
+                return Conflict($"{company.Ticker} has no ingestion in progress");
+
+            return await GetIngestionStatusResponseAsync(conversation.Id);
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, $"An error occurred while cancelling the ingestion: {ex.Message}");
+        }
+    }
+
+    /// <summary>
+    /// Gets the current ingestion progress of every company in a conversation, so clients that
+    /// connect mid-ingestion can show it before the next live update arrives
+    /// </summary>
+    /// <param name="id">The conversation ID</param>
+    /// <returns>Per-company stage, progress and document statuses</returns>
+    [HttpGet("{id}/ingestion")]
+    public async Task<IActionResult> GetIngestionSnapshot(int id)
+    {
+        try
+        {
+            var userId = _userContext.GetCurrentUserId();
+
+            var conversation = await _dbContext.Conversations
+                .AsNoTracking()
+                .Include(c => c.Companies)
+                .FirstOrDefaultAsync(c => c.Id == id && c.UserId == userId);
+
+            if (conversation == null)
+                return NotFound("Conversation not found");
+
+            var snapshot = await _documentProcessingJobService.GetIngestionSnapshotAsync(
+                conversation.Id,
+                conversation.Companies.Select(c => c.Ticker));
+
+            return Ok(snapshot);
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, $"An error occurred while retrieving the ingestion progress: {ex.Message}");
+        }
+    }
+
+    /// <summary>
+    /// Reloads a conversation after the job service changed its ingestion status and shapes it like the
+    /// other company endpoints
+    /// </summary>
+    private async Task<IActionResult> GetIngestionStatusResponseAsync(int conversationId)
+    {
+        var conversation = await _dbContext.Conversations
+            .AsNoTracking()
+            .Include(c => c.Companies)
+            .FirstAsync(c => c.Id == conversationId);
+
+        return Ok(new
+        {
+            conversation.Id,
+            conversation.Title,
+            Companies = conversation.Companies.Select(c => new { c.Id, c.CompanyName, c.Ticker, c.IngestionStatus }),
+            conversation.IngestionStatus,
+            conversation.CreatedAt,
+            conversation.UpdatedAt
+        });
+    }
+
     [HttpGet]
     public async Task<IActionResult> GetAllConversations()
     {
@@ -155,7 +369,7 @@ public class ConversationController : ControllerBase
                 {
                     c.Id,
                     c.Title,
-                    Companies = c.Companies.Select(cc => new { cc.Id, cc.CompanyName, cc.Ticker }),
+                    Companies = c.Companies.Select(cc => new { cc.Id, cc.CompanyName, cc.Ticker, cc.IngestionStatus }),
                     c.IngestionStatus,
                     c.CreatedAt,
                     c.UpdatedAt,
@@ -182,9 +396,13 @@ public class ConversationController : ControllerBase
             var conversation = await _dbContext.Conversations
                 .Include(c => c.Companies)
                 .Include(c => c.Documents)
+                .ThenInclude(d => d.ConversationCompany)
+                .Include(c => c.DocumentAttachments)
+                .ThenInclude(a => a.Document)
                 .Include(c => c.Messages)
                 .ThenInclude(m => m.Sources)
                 .ThenInclude(s => s.Document)
+                .ThenInclude(d => d.ConversationCompany)
                 .FirstOrDefaultAsync(c => c.Id == id && c.UserId == userId);
 
             if (conversation == null)
@@ -194,19 +412,34 @@ public class ConversationController : ControllerBase
             {
                 conversation.Id,
                 conversation.Title,
-                Companies = conversation.Companies.Select(c => new { c.Id, c.CompanyName, c.Ticker }),
+                Companies = conversation.Companies.Select(c => new { c.Id, c.CompanyName, c.Ticker, c.IngestionStatus }),
                 conversation.IngestionStatus,
                 conversation.CreatedAt,
                 conversation.UpdatedAt,
-                Documents = conversation.Documents.Select(d => new
-                {
-                    d.Id,
-                    d.OriginalFileName,
-                    d.ContentType,
-                    d.FileSize,
-                    d.UploadedAt,
-                    d.Description
-                }),
+                // Filings, uploads into this conversation, and library documents attached to it
+                Documents = conversation.Documents
+                    .Select(d => new { Document = d, IsAttached = false })
+                    .Concat(conversation.DocumentAttachments
+                        .OrderBy(a => a.AttachedAt)
+                        .Select(a => new { a.Document, IsAttached = true }))
+                    .Select(x => new
+                    {
+                        x.Document.Id,
+                        x.Document.OriginalFileName,
+                        x.Document.ContentType,
+                        x.Document.FileSize,
+                        x.Document.UploadedAt,
+                        x.Document.Description,
+                        x.Document.FolderPath,
+                        Title = x.Document.Title ?? x.Document.OriginalFileName,
+                        x.Document.DocumentLink,
+                        x.Document.ConversationCompanyId,
+                        CompanyName = x.Document.ConversationCompany?.CompanyName,
+                        CompanyTicker = x.Document.ConversationCompany?.Ticker,
+                        x.Document.IngestionStatus,
+                        x.Document.IngestionError,
+                        x.IsAttached
+                    }),
                 Messages = conversation.Messages.OrderBy(m => m.Timestamp).Select(m => new
                 {
                     m.Id,
@@ -214,11 +447,14 @@ public class ConversationController : ControllerBase
                     m.Content,
                     m.Timestamp,
                     m.Metadata,
+                    m.ParentMessageId,
                     Sources = m.Sources.OrderBy(s => s.Order).Select(s => new
                     {
                         s.DocumentId,
                         DocumentTitle = s.Document.Title,
                         FileName = s.Document.FileName,
+                        CompanyName = s.Document.ConversationCompany?.CompanyName,
+                        CompanyTicker = s.Document.ConversationCompany?.Ticker,
                         s.RelevanceScore,
                         s.ChunksUsed
                     })
@@ -371,6 +607,48 @@ public class SetConversationCompanyRequest
     /// Filing types the user selected for ingestion.
     /// </summary>
     public List<string> FilingTypes { get; set; } = new();
+
+    /// <summary>
+    /// Exact filings (SEC accession numbers) to ingest. When empty, the latest filings of each type are used.
+    /// </summary>
+    public List<string>? AccessionNumbers { get; set; }
+}
+
+/// <summary>
+/// Request to add another company to an existing conversation.
+/// </summary>
+public class AddConversationCompanyRequest
+{
+    /// <summary>
+    /// Company name to add to the conversation.
+    /// </summary>
+    public string CompanyName { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Ticker used to download filings; also identifies the company within the conversation.
+    /// </summary>
+    public string? CompanyTicker { get; set; }
+
+    /// <summary>
+    /// Filing types the user selected for ingestion.
+    /// </summary>
+    public List<string> FilingTypes { get; set; } = new();
+
+    /// <summary>
+    /// Exact filings (SEC accession numbers) to ingest. When empty, the latest filings of each type are used.
+    /// </summary>
+    public List<string>? AccessionNumbers { get; set; }
+}
+
+/// <summary>
+/// Request to retry a company's failed filings.
+/// </summary>
+public class RetryCompanyIngestionRequest
+{
+    /// <summary>
+    /// Failed filings (SEC accession numbers) to retry. When empty, every failed filing is retried.
+    /// </summary>
+    public List<string>? AccessionNumbers { get; set; }
 }
 
 /// <summary>
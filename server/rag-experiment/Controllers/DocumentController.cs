@@ -1,3 +1,5 @@
+using System.ComponentModel.DataAnnotations;
+using System.IO.Compression;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.EntityFrameworkCore;
@@ -5,6 +7,8 @@ using rag_experiment.Domain;
 using rag_experiment.Services;
 using rag_experiment.Services.Events;
 using rag_experiment.Services.Auth;
+using rag_experiment.Services.BackgroundJobs;
+using rag_experiment.Services.Ingestion.VectorStorage;
 using rag_experiment.Services.Query.Models;
 using Microsoft.Extensions.Options;
 
@@ -21,6 +25,54 @@ namespace rag_experiment.Controllers
         private readonly ITextProcessor _textProcessor;
         private readonly ITextChunker _textChunker;
         private readonly ChunkingSettings _chunkingSettings;
+        private readonly IEmbeddingRepository _embeddingRepository;
+        private readonly IDocumentProcessingJobService _documentProcessingJobService;
+
+        /// <summary>
+        /// Upper bound on how many neighbouring chunks can be requested on each side of a cited chunk
+        /// </summary>
+        private const int MaxContextWindow = 5;
+
+        /// <summary>
+        /// Largest file accepted for upload; decks and broker notes are well under this
+        /// </summary>
+        private const long MaxUploadSizeBytes = 50 * 1024 * 1024;
+
+        /// <summary>
+        /// Largest file accepted through a chunked upload, for scanned exhibits and data-room files
+        /// </summary>
+        private const long MaxChunkedUploadSizeBytes = 1024L * 1024 * 1024;
+
+        /// <summary>
+        /// Size of each chunk of a chunked upload; only the last chunk may be smaller
+        /// </summary>
+        private const int UploadChunkSizeBytes = 8 * 1024 * 1024;
+
+        /// <summary>
+        /// Most files a data-room archive may contain, and most bytes they may expand to
+        /// </summary>
+        private const int MaxArchiveEntries = 5000;
+        private const long MaxArchiveExtractedBytes = 4L * 1024 * 1024 * 1024;
+
+        private const string ArchiveExtension = ".zip";
+        private static readonly string ArchiveTooLargeMessage =
+            $"Archives can expand to at most {MaxArchiveExtractedBytes / (1024 * 1024 * 1024)} GB";
+
+        /// <summary>
+        /// Chunked uploads untouched for this long are discarded along with their partial files
+        /// </summary>
+        private static readonly TimeSpan StaleUploadSessionAge = TimeSpan.FromDays(7);
+
+        /// <summary>
+        /// Upload formats the text extractors support, with the content type stored for each
+        /// </summary>
+        private static readonly Dictionary<string, string> UploadContentTypes = new(StringComparer.OrdinalIgnoreCase)
+        {
+            [".pdf"] = "application/pdf",
+            [".html"] = "text/html",
+            [".htm"] = "text/html",
+            [".txt"] = "text/plain"
+        };
 
         public DocumentController(
             AppDbContext dbContext,
@@ -28,7 +80,9 @@ namespace rag_experiment.Controllers
             IUserContext userContext,
             ITextProcessor textProcessor,
             ITextChunker textChunker,
-            IOptions<ChunkingSettings> chunkingSettings)
+            IOptions<ChunkingSettings> chunkingSettings,
+            IEmbeddingRepository embeddingRepository,
+            IDocumentProcessingJobService documentProcessingJobService)
         {
             _dbContext = dbContext;
             _environment = environment;
@@ -36,6 +90,761 @@ namespace rag_experiment.Controllers
             _textProcessor = textProcessor;
             _textChunker = textChunker;
             _chunkingSettings = chunkingSettings.Value;
+            _embeddingRepository = embeddingRepository;
+            _documentProcessingJobService = documentProcessingJobService;
+        }
+
+        /// <summary>
+        /// The conversation, if it belongs to the user
+        /// </summary>
+        private Task<Conversation?> FindUserConversationAsync(int conversationId, int userId)
+        {
+            return _dbContext.Conversations.FirstOrDefaultAsync(c => c.Id == conversationId && c.UserId == userId);
+        }
+
+        /// <summary>
+        /// Where the user's uploaded files are stored; created on first use
+        /// </summary>
+        private string GetUploadDirectory(int userId)
+        {
+            var uploadDirectory = Path.Combine(_environment.ContentRootPath, "Uploads", userId.ToString());
+            Directory.CreateDirectory(uploadDirectory);
+            return uploadDirectory;
+        }
+
+        private static Document NewUploadedDocument(
+            int userId,
+            Conversation? conversation,
+            string originalFileName,
+            string contentType,
+            long fileSize,
+            string storedFileName,
+            string filePath,
+            string? description,
+            string? folderPath = null)
+        {
+            return new Document
+            {
+                FileName = storedFileName,
+                OriginalFileName = originalFileName,
+                ContentType = contentType,
+                FileSize = fileSize,
+                FilePath = filePath,
+                Title = Path.GetFileNameWithoutExtension(originalFileName),
+                Description = description ?? string.Empty,
+                FolderPath = folderPath,
+                ConversationId = conversation?.Id,
+                UserId = userId,
+                IngestionStatus = DocumentIngestionStatus.Pending
+            };
+        }
+
+        /// <summary>
+        /// Saves stored uploads as documents and queues their ingestion
+        /// </summary>
+        private async Task SaveUploadedDocumentsAsync(int userId, Conversation? conversation, List<Document> documents)
+        {
+            _dbContext.Documents.AddRange(documents);
+            if (conversation != null)
+                conversation.UpdatedAt = DateTime.UtcNow;
+
+            await _dbContext.SaveChangesAsync();
+
+            foreach (var document in documents)
+                _documentProcessingJobService.EnqueueUploadIngestion(document.Id, userId);
+        }
+
+        /// <summary>
+        /// Records a stored upload as a document and queues its ingestion
+        /// </summary>
+        private async Task<Document> AddUploadedDocumentAsync(
+            int userId,
+            Conversation? conversation,
+            string originalFileName,
+            string contentType,
+            long fileSize,
+            string storedFileName,
+            string filePath,
+            string? description)
+        {
+            var document = NewUploadedDocument(userId, conversation, originalFileName, contentType, fileSize,
+                storedFileName, filePath, description);
+
+            await SaveUploadedDocumentsAsync(userId, conversation, new List<Document> { document });
+
+            return document;
+        }
+
+        private static object ToUploadResponse(Document document)
+        {
+            return new
+            {
+                document.Id,
+                document.OriginalFileName,
+                document.ContentType,
+                document.FileSize,
+                document.UploadedAt,
+                document.Description,
+                document.ConversationId,
+                document.FolderPath,
+                document.IngestionStatus
+            };
+        }
+
+        private static object ToUploadSessionResponse(UploadSession session)
+        {
+            return new
+            {
+                SessionId = session.Id,
+                session.OriginalFileName,
+                session.TotalBytes,
+                session.ReceivedBytes,
+                ChunkSizeBytes = UploadChunkSizeBytes
+            };
+        }
+
+        /// <summary>
+        /// Documents the user can read: those in their conversations and those they uploaded to their library
+        /// </summary>
+        private IQueryable<Document> AccessibleDocuments(int userId)
+        {
+            return _dbContext.Documents
+                .Include(d => d.Conversation)
+                .Where(d => d.UserId == userId || d.Conversation.UserId == userId);
+        }
+
+        /// <summary>
+        /// Uploads a document and queues it for ingestion. Without a conversation the document goes to the
+        /// user's library, from where it can be attached to any conversation.
+        /// </summary>
+        /// <param name="request">The file, an optional description and the optional conversation</param>
+        /// <returns>200 OK with the document, whose IngestionStatus tracks the background ingestion</returns>
+        [HttpPost("upload")]
+        [RequestSizeLimit(MaxUploadSizeBytes)]
+        [RequestFormLimits(MultipartBodyLengthLimit = MaxUploadSizeBytes)]
+        public async Task<IActionResult> UploadDocument([FromForm] UploadDocumentRequest request)
+        {
+            try
+            {
+                var userId = _userContext.GetCurrentUserId();
+
+                if (request.File == null || request.File.Length == 0)
+                    return BadRequest("A non-empty file is required");
+
+                if (request.File.Length > MaxUploadSizeBytes)
+                    return BadRequest($"Files can be at most {MaxUploadSizeBytes / (1024 * 1024)} MB");
+
+                var extension = Path.GetExtension(request.File.FileName);
+                if (!UploadContentTypes.TryGetValue(extension, out var contentType))
+                    return BadRequest("Only PDF, HTML and plain text files can be uploaded");
+
+                Conversation? conversation = null;
+                if (request.ConversationId.HasValue)
+                {
+                    conversation = await FindUserConversationAsync(request.ConversationId.Value, userId);
+                    if (conversation == null)
+                        return NotFound("Conversation not found or you don't have access to it");
+                }
+
+                var storedFileName = $"{Guid.NewGuid():N}{extension.ToLowerInvariant()}";
+                var filePath = Path.Combine(GetUploadDirectory(userId), storedFileName);
+                await using (var stream = System.IO.File.Create(filePath))
+                {
+                    await request.File.CopyToAsync(stream);
+                }
+
+                var document = await AddUploadedDocumentAsync(
+                    userId,
+                    conversation,
+                    Path.GetFileName(request.File.FileName),
+                    contentType,
+                    request.File.Length,
+                    storedFileName,
+                    filePath,
+                    request.Description);
+
+                return Ok(ToUploadResponse(document));
+            }
+            catch (Exception ex)
+            {
+                return StatusCode(500, $"An error occurred while uploading the document: {ex.Message}");
+            }
+        }
+
+        /// <summary>
+        /// Starts a chunked upload for a file too large to send in one request. The file is then sent with
+        /// AppendUploadChunk, one chunk at a time from ReceivedBytes, and turned into a document with
+        /// CompleteUpload. An interrupted upload resumes by reading the session's ReceivedBytes.
+        /// </summary>
+        /// <param name="request">The file's name, size, optional description and optional conversation</param>
+        /// <returns>200 OK with the session ID, the bytes received so far and the chunk size to send</returns>
+        [HttpPost("uploads")]
+        public async Task<IActionResult> StartUpload([FromBody] StartUploadRequest request)
+        {
+            try
+            {
+                var userId = _userContext.GetCurrentUserId();
+
+                if (request.FileSize <= 0)
+                    return BadRequest("A non-empty file is required");
+
+                if (request.FileSize > MaxChunkedUploadSizeBytes)
+                    return BadRequest($"Files can be at most {MaxChunkedUploadSizeBytes / (1024 * 1024)} MB");
+
+                // Data-room archives come through here too, to be expanded by ImportArchive
+                var extension = Path.GetExtension(request.FileName);
+                string? contentType;
+                if (extension.Equals(ArchiveExtension, StringComparison.OrdinalIgnoreCase))
+                    contentType = "application/zip";
+                else if (!UploadContentTypes.TryGetValue(extension, out contentType))
+                    return BadRequest("Only PDF, HTML, plain text and ZIP files can be uploaded");
+
+                if (request.ConversationId.HasValue &&
+                    await FindUserConversationAsync(request.ConversationId.Value, userId) == null)
+                    return NotFound("Conversation not found or you don't have access to it");
+
+                await DiscardStaleUploadSessionsAsync(userId);
+
+                var partialDirectory = Path.Combine(GetUploadDirectory(userId), "partial");
+                Directory.CreateDirectory(partialDirectory);
+
+                var session = new UploadSession
+                {
+                    Id = Guid.NewGuid(),
+                    UserId = userId,
+                    ConversationId = request.ConversationId,
+                    OriginalFileName = Path.GetFileName(request.FileName),
+                    ContentType = contentType,
+                    Description = request.Description ?? string.Empty,
+                    TotalBytes = request.FileSize
+                };
+                session.TempFilePath = Path.Combine(partialDirectory, $"{session.Id:N}.part");
+                await System.IO.File.WriteAllBytesAsync(session.TempFilePath, Array.Empty<byte>());
+
+                _dbContext.UploadSessions.Add(session);
+                await _dbContext.SaveChangesAsync();
+
+                return Ok(ToUploadSessionResponse(session));
+            }
+            catch (Exception ex)
+            {
+                return StatusCode(500, $"An error occurred while starting the upload: {ex.Message}");
+            }
+        }
+
+        /// <summary>
+        /// Gets how far a chunked upload has got, so an interrupted upload can resume where it stopped.
+        /// </summary>
+        /// <param name="sessionId">The upload session ID</param>
+        [HttpGet("uploads/{sessionId:guid}")]
+        public async Task<IActionResult> GetUpload(Guid sessionId)
+        {
+            try
+            {
+                var userId = _userContext.GetCurrentUserId();
+
+                var session = await _dbContext.UploadSessions
+                    .FirstOrDefaultAsync(s => s.Id == sessionId && s.UserId == userId);
+
+                if (session == null)
+                    return NotFound("Upload not found; it may have expired");
+
+                return Ok(ToUploadSessionResponse(session));
+            }
+            catch (Exception ex)
+            {
+                return StatusCode(500, $"An error occurred while retrieving the upload: {ex.Message}");
+            }
+        }
+
+        /// <summary>
+        /// Appends the next chunk of a chunked upload. The request body is the chunk's raw bytes.
+        /// </summary>
+        /// <param name="sessionId">The upload session ID</param>
+        /// <param name="offset">Where the chunk starts in the file; must equal the bytes received so far</param>
+        /// <returns>
+        /// 200 OK with the bytes received so far, or 409 Conflict with them when the offset doesn't match,
+        /// e.g. after a chunk whose response was lost
+        /// </returns>
+        [HttpPut("uploads/{sessionId:guid}")]
+        [RequestSizeLimit(UploadChunkSizeBytes)]
+        public async Task<IActionResult> AppendUploadChunk(Guid sessionId, [FromQuery] long offset)
+        {
+            try
+            {
+                var userId = _userContext.GetCurrentUserId();
+
+                var session = await _dbContext.UploadSessions
+                    .FirstOrDefaultAsync(s => s.Id == sessionId && s.UserId == userId);
+
+                if (session == null)
+                    return NotFound("Upload not found; it may have expired");
+
+                if (offset != session.ReceivedBytes)
+                    return Conflict(ToUploadSessionResponse(session));
+
+                FileStream stream;
+                try
+                {
+                    stream = new FileStream(session.TempFilePath, FileMode.Open, FileAccess.Write, FileShare.None);
+                }
+                catch (IOException ex) when (ex is not (FileNotFoundException or DirectoryNotFoundException))
+                {
+                    // Another request is still writing a chunk, e.g. the one this request retries; the client
+                    // resumes from whatever offset that one leaves
+                    return Conflict(ToUploadSessionResponse(session));
+                }
+
+                await using (stream)
+                {
+                    // Drops whatever an interrupted chunk left behind past the last acknowledged byte
+                    stream.SetLength(offset);
+                    stream.Seek(offset, SeekOrigin.Begin);
+                    await Request.Body.CopyToAsync(stream);
+
+                    if (stream.Length > session.TotalBytes)
+                    {
+                        stream.SetLength(offset);
+                        return BadRequest("The chunk runs past the end of the file");
+                    }
+
+                    session.ReceivedBytes = stream.Length;
+                }
+
+                session.UpdatedAt = DateTime.UtcNow;
+                await _dbContext.SaveChangesAsync();
+
+                return Ok(ToUploadSessionResponse(session));
+            }
+            catch (Exception ex)
+            {
+                return StatusCode(500, $"An error occurred while receiving the upload: {ex.Message}");
+            }
+        }
+
+        /// <summary>
+        /// Finishes a chunked upload once every byte has arrived: the file becomes a document and is queued
+        /// for ingestion, exactly as with a single-request upload.
+        /// </summary>
+        /// <param name="sessionId">The upload session ID</param>
+        /// <returns>200 OK with the document, whose IngestionStatus tracks the background ingestion</returns>
+        [HttpPost("uploads/{sessionId:guid}/complete")]
+        public async Task<IActionResult> CompleteUpload(Guid sessionId)
+        {
+            UploadSession? session = null;
+            string? storedFilePath = null;
+            Document? document = null;
+            try
+            {
+                var userId = _userContext.GetCurrentUserId();
+
+                session = await _dbContext.UploadSessions
+                    .Include(s => s.Conversation)
+                    .FirstOrDefaultAsync(s => s.Id == sessionId && s.UserId == userId);
+
+                if (session == null)
+                    return NotFound("Upload not found; it may have expired");
+
+                if (session.ReceivedBytes != session.TotalBytes)
+                    return Conflict(ToUploadSessionResponse(session));
+
+                if (IsArchive(session))
+                    return BadRequest("Archives are expanded with ImportArchive rather than stored as a document");
+
+                var extension = Path.GetExtension(session.OriginalFileName).ToLowerInvariant();
+                var storedFileName = $"{Guid.NewGuid():N}{extension}";
+                var filePath = Path.Combine(GetUploadDirectory(userId), storedFileName);
+                System.IO.File.Move(session.TempFilePath, filePath);
+                storedFilePath = filePath;
+
+                _dbContext.UploadSessions.Remove(session);
+
+                document = NewUploadedDocument(userId, session.Conversation, session.OriginalFileName,
+                    session.ContentType, session.TotalBytes, storedFileName, filePath, session.Description);
+                await SaveUploadedDocumentsAsync(userId, session.Conversation, new List<Document> { document });
+
+                return Ok(ToUploadResponse(document));
+            }
+            catch (Exception ex)
+            {
+                // Without a saved document the session is still there, so the file goes back to it and the
+                // upload can be completed again
+                var isDocumentSaved = document != null && document.Id != 0;
+                if (session != null && storedFilePath != null && !isDocumentSaved &&
+                    System.IO.File.Exists(storedFilePath))
+                    System.IO.File.Move(storedFilePath, session.TempFilePath);
+
+                return StatusCode(500, $"An error occurred while completing the upload: {ex.Message}");
+            }
+        }
+
+        /// <summary>
+        /// Finishes a chunked upload of a data-room ZIP by expanding it into one document per supported
+        /// file, all queued for ingestion. Each document keeps the folder it sat in, under the archive's
+        /// name, so the original tree can be shown. Unsupported, empty and oversized files are skipped
+        /// and reported; macOS metadata and hidden files are left out silently.
+        /// </summary>
+        /// <param name="sessionId">The upload session ID of the ZIP</param>
+        /// <returns>200 OK with the imported documents and the skipped files with the reason for each</returns>
+        [HttpPost("uploads/{sessionId:guid}/import-archive")]
+        public async Task<IActionResult> ImportArchive(Guid sessionId)
+        {
+            var extractedPaths = new List<string>();
+            try
+            {
+                var userId = _userContext.GetCurrentUserId();
+
+                var session = await _dbContext.UploadSessions
+                    .Include(s => s.Conversation)
+                    .FirstOrDefaultAsync(s => s.Id == sessionId && s.UserId == userId);
+
+                if (session == null)
+                    return NotFound("Upload not found; it may have expired");
+
+                if (session.ReceivedBytes != session.TotalBytes)
+                    return Conflict(ToUploadSessionResponse(session));
+
+                if (!IsArchive(session))
+                    return BadRequest("Only ZIP archives can be imported");
+
+                var archiveName = Path.GetFileNameWithoutExtension(session.OriginalFileName);
+                var uploadDirectory = GetUploadDirectory(userId);
+                var documents = new List<Document>();
+                var skipped = new List<object>();
+
+                using (var archive = ZipFile.OpenRead(session.TempFilePath))
+                {
+                    var entries = archive.Entries
+                        .Select(e => new { Entry = e, Path = e.FullName.Replace('\\', '/').Trim('/') })
+                        // Directories and the metadata macOS and Windows add to archives
+                        .Where(e => !string.IsNullOrEmpty(e.Entry.Name) &&
+                                    !e.Path.Split('/').Any(segment => segment.StartsWith('.') || segment == "__MACOSX") &&
+                                    !e.Entry.Name.Equals("Thumbs.db", StringComparison.OrdinalIgnoreCase))
+                        .ToList();
+
+                    if (entries.Count > MaxArchiveEntries)
+                        return BadRequest($"Archives can contain at most {MaxArchiveEntries} files");
+
+                    // A quick check against the sizes the entries declare; the archive controls those, so the
+                    // bytes actually extracted are capped again below
+                    if (entries.Sum(e => e.Entry.Length) > MaxArchiveExtractedBytes)
+                        return BadRequest(ArchiveTooLargeMessage);
+
+                    long extractedBytes = 0;
+                    foreach (var item in entries)
+                    {
+                        var extension = Path.GetExtension(item.Entry.Name);
+                        if (!UploadContentTypes.TryGetValue(extension, out var contentType))
+                        {
+                            skipped.Add(new { item.Path, Reason = "Unsupported file type" });
+                            continue;
+                        }
+
+                        if (item.Entry.Length == 0)
+                        {
+                            skipped.Add(new { item.Path, Reason = "Empty file" });
+                            continue;
+                        }
+
+                        if (item.Entry.Length > MaxChunkedUploadSizeBytes)
+                        {
+                            skipped.Add(new { item.Path, Reason = $"Larger than {MaxChunkedUploadSizeBytes / (1024 * 1024 * 1024)} GB" });
+                            continue;
+                        }
+
+                        // Stored under a generated name, so entry paths never reach the file system
+                        var storedFileName = $"{Guid.NewGuid():N}{extension.ToLowerInvariant()}";
+                        var filePath = Path.Combine(uploadDirectory, storedFileName);
+                        extractedPaths.Add(filePath);
+
+                        var remainingBytes = MaxArchiveExtractedBytes - extractedBytes;
+                        var maxEntryBytes = Math.Min(MaxChunkedUploadSizeBytes, remainingBytes);
+                        long? entryBytes;
+                        await using (var entryStream = item.Entry.Open())
+                        await using (var fileStream = System.IO.File.Create(filePath))
+                        {
+                            entryBytes = await CopyAtMostAsync(entryStream, fileStream, maxEntryBytes);
+                        }
+
+                        if (entryBytes == null && maxEntryBytes == remainingBytes)
+                        {
+                            DeleteExtractedFiles(extractedPaths);
+                            return BadRequest(ArchiveTooLargeMessage);
+                        }
+
+                        if (entryBytes is null or 0)
+                        {
+                            System.IO.File.Delete(filePath);
+                            extractedPaths.Remove(filePath);
+                            skipped.Add(new
+                            {
+                                item.Path,
+                                Reason = entryBytes == 0
+                                    ? "Empty file"
+                                    : $"Larger than {MaxChunkedUploadSizeBytes / (1024 * 1024 * 1024)} GB"
+                            });
+                            continue;
+                        }
+
+                        extractedBytes += entryBytes.Value;
+
+                        var folder = Path.GetDirectoryName(item.Path)?.Replace('\\', '/');
+                        var folderPath = string.IsNullOrEmpty(folder) ? archiveName : $"{archiveName}/{folder}";
+
+                        documents.Add(NewUploadedDocument(userId, session.Conversation, item.Entry.Name, contentType,
+                            entryBytes.Value, storedFileName, filePath, session.Description, folderPath));
+                    }
+                }
+
+                if (documents.Count == 0)
+                    return BadRequest("The archive contains no PDF, HTML or plain text files");
+
+                DeletePartialFile(session);
+                _dbContext.UploadSessions.Remove(session);
+
+                await SaveUploadedDocumentsAsync(userId, session.Conversation, documents);
+
+                return Ok(new
+                {
+                    ArchiveName = archiveName,
+                    Documents = documents.Select(ToUploadResponse),
+                    Skipped = skipped
+                });
+            }
+            catch (InvalidDataException ex)
+            {
+                DeleteExtractedFiles(extractedPaths);
+                return BadRequest($"The archive could not be read: {ex.Message}");
+            }
+            catch (Exception ex)
+            {
+                DeleteExtractedFiles(extractedPaths);
+                return StatusCode(500, $"An error occurred while importing the archive: {ex.Message}");
+            }
+        }
+
+        private static bool IsArchive(UploadSession session)
+        {
+            return Path.GetExtension(session.OriginalFileName).Equals(ArchiveExtension, StringComparison.OrdinalIgnoreCase);
+        }
+
+        /// <summary>
+        /// Copies a stream until it ends or more than maxBytes have been read. Unlike the sizes a ZIP entry
+        /// declares, this counts the bytes that actually decompress.
+        /// </summary>
+        /// <returns>The number of bytes copied, or null when the source holds more than maxBytes</returns>
+        private static async Task<long?> CopyAtMostAsync(Stream source, Stream destination, long maxBytes)
+        {
+            var buffer = new byte[81920];
+            long copied = 0;
+            int read;
+            while ((read = await source.ReadAsync(buffer)) > 0)
+            {
+                copied += read;
+                if (copied > maxBytes)
+                    return null;
+
+                await destination.WriteAsync(buffer.AsMemory(0, read));
+            }
+
+            return copied;
+        }
+
+        private static void DeleteExtractedFiles(List<string> filePaths)
+        {
+            foreach (var filePath in filePaths.Where(System.IO.File.Exists))
+                System.IO.File.Delete(filePath);
+        }
+
+        /// <summary>
+        /// Abandons a chunked upload and deletes what was received.
+        /// </summary>
+        /// <param name="sessionId">The upload session ID</param>
+        [HttpDelete("uploads/{sessionId:guid}")]
+        public async Task<IActionResult> CancelUpload(Guid sessionId)
+        {
+            try
+            {
+                var userId = _userContext.GetCurrentUserId();
+
+                var session = await _dbContext.UploadSessions
+                    .FirstOrDefaultAsync(s => s.Id == sessionId && s.UserId == userId);
+
+                if (session == null)
+                    return NotFound("Upload not found; it may have expired");
+
+                DeletePartialFile(session);
+                _dbContext.UploadSessions.Remove(session);
+                await _dbContext.SaveChangesAsync();
+
+                return NoContent();
+            }
+            catch (Exception ex)
+            {
+                return StatusCode(500, $"An error occurred while cancelling the upload: {ex.Message}");
+            }
+        }
+
+        /// <summary>
+        /// Removes the user's chunked uploads that were abandoned without being cancelled
+        /// </summary>
+        private async Task DiscardStaleUploadSessionsAsync(int userId)
+        {
+            var cutoff = DateTime.UtcNow - StaleUploadSessionAge;
+            var staleSessions = await _dbContext.UploadSessions
+                .Where(s => s.UserId == userId && s.UpdatedAt < cutoff)
+                .ToListAsync();
+
+            if (staleSessions.Count == 0)
+                return;
+
+            foreach (var session in staleSessions)
+                DeletePartialFile(session);
+
+            _dbContext.UploadSessions.RemoveRange(staleSessions);
+            await _dbContext.SaveChangesAsync();
+        }
+
+        private static void DeletePartialFile(UploadSession session)
+        {
+            if (System.IO.File.Exists(session.TempFilePath))
+                System.IO.File.Delete(session.TempFilePath);
+        }
+
+        /// <summary>
+        /// Lists the documents in the user's library (uploads that belong to no conversation), newest first,
+        /// with their ingestion state and the conversations they are attached to.
+        /// </summary>
+        [HttpGet("library")]
+        public async Task<IActionResult> GetLibraryDocuments()
+        {
+            try
+            {
+                var userId = _userContext.GetCurrentUserId();
+
+                var documents = await _dbContext.Documents
+                    .Where(d => d.UserId == userId && d.ConversationId == null)
+                    .OrderByDescending(d => d.UploadedAt)
+                    .Select(d => new
+                    {
+                        d.Id,
+                        Title = d.Title ?? d.OriginalFileName,
+                        d.OriginalFileName,
+                        d.ContentType,
+                        d.FileSize,
+                        d.UploadedAt,
+                        d.Description,
+                        d.FolderPath,
+                        d.IngestionStatus,
+                        d.IngestionError,
+                        Attachments = d.Attachments
+                            .OrderBy(a => a.AttachedAt)
+                            .Select(a => new
+                            {
+                                a.ConversationId,
+                                ConversationTitle = a.Conversation.Title,
+                                a.AttachedAt
+                            })
+                    })
+                    .ToListAsync();
+
+                return Ok(documents);
+            }
+            catch (Exception ex)
+            {
+                return StatusCode(500, $"An error occurred while retrieving your documents: {ex.Message}");
+            }
+        }
+
+        /// <summary>
+        /// Attaches a library document to a conversation so its questions retrieve from the document.
+        /// Attaching a document that is already attached is a no-op.
+        /// </summary>
+        /// <param name="id">The library document ID</param>
+        /// <param name="request">The conversation to attach it to</param>
+        /// <returns>200 OK with the attachment, or 404 if the document or conversation is not accessible</returns>
+        [HttpPost("{id}/attachments")]
+        public async Task<IActionResult> AttachDocument(int id, [FromBody] AttachDocumentRequest request)
+        {
+            try
+            {
+                var userId = _userContext.GetCurrentUserId();
+
+                var documentExists = await _dbContext.Documents
+                    .AnyAsync(d => d.Id == id && d.UserId == userId && d.ConversationId == null);
+
+                if (!documentExists)
+                    return NotFound("Document not found in your library");
+
+                var conversation = await _dbContext.Conversations
+                    .FirstOrDefaultAsync(c => c.Id == request.ConversationId && c.UserId == userId);
+
+                if (conversation == null)
+                    return NotFound("Conversation not found or you don't have access to it");
+
+                var attachment = await _dbContext.DocumentAttachments
+                    .FirstOrDefaultAsync(a => a.DocumentId == id && a.ConversationId == conversation.Id);
+
+                if (attachment == null)
+                {
+                    attachment = new DocumentAttachment
+                    {
+                        DocumentId = id,
+                        ConversationId = conversation.Id
+                    };
+                    _dbContext.DocumentAttachments.Add(attachment);
+                    conversation.UpdatedAt = DateTime.UtcNow;
+
+                    await _dbContext.SaveChangesAsync();
+                }
+
+                return Ok(new
+                {
+                    attachment.DocumentId,
+                    attachment.ConversationId,
+                    ConversationTitle = conversation.Title,
+                    attachment.AttachedAt
+                });
+            }
+            catch (Exception ex)
+            {
+                return StatusCode(500, $"An error occurred while attaching the document: {ex.Message}");
+            }
+        }
+
+        /// <summary>
+        /// Detaches a library document from a conversation. The document stays in the library.
+        /// </summary>
+        /// <param name="id">The library document ID</param>
+        /// <param name="conversationId">The conversation to detach it from</param>
+        /// <returns>204 No Content, or 404 if the document is not attached to the conversation</returns>
+        [HttpDelete("{id}/attachments/{conversationId}")]
+        public async Task<IActionResult> DetachDocument(int id, int conversationId)
+        {
+            try
+            {
+                var userId = _userContext.GetCurrentUserId();
+
+                var attachment = await _dbContext.DocumentAttachments
+                    .Include(a => a.Conversation)
+                    .FirstOrDefaultAsync(a => a.DocumentId == id &&
+                                              a.ConversationId == conversationId &&
+                                              a.Conversation.UserId == userId);
+
+                if (attachment == null)
+                    return NotFound("Document is not attached to this conversation");
+
+                _dbContext.DocumentAttachments.Remove(attachment);
+                attachment.Conversation.UpdatedAt = DateTime.UtcNow;
+
+                await _dbContext.SaveChangesAsync();
+
+                return NoContent();
+            }
+            catch (Exception ex)
+            {
+                return StatusCode(500, $"An error occurred while detaching the document: {ex.Message}");
+            }
         }
 
         [HttpGet("conversation/{conversationId}")]
@@ -51,8 +860,10 @@ namespace rag_experiment.Controllers
                 if (!conversationExists)
                     return NotFound("Conversation not found or you don't have access to it");
 
+                // The conversation's own filings and uploads plus the library documents attached to it
                 var documents = await _dbContext.Documents
-                    .Where(d => d.ConversationId == conversationId)
+                    .Where(d => d.ConversationId == conversationId ||
+                                d.Attachments.Any(a => a.ConversationId == conversationId))
                     .Select(d => new
                     {
                         d.Id,
@@ -79,9 +890,8 @@ namespace rag_experiment.Controllers
             {
                 var userId = _userContext.GetCurrentUserId();
 
-                var document = await _dbContext.Documents
-                    .Include(d => d.Conversation)
-                    .FirstOrDefaultAsync(d => d.Id == id && d.Conversation.UserId == userId);
+                var document = await AccessibleDocuments(userId)
+                    .FirstOrDefaultAsync(d => d.Id == id);
 
                 if (document == null)
                     return NotFound("Document not found or you don't have access to it");
@@ -103,6 +913,133 @@ namespace rag_experiment.Controllers
             }
         }
 
+        /// <summary>
+        /// Returns a cited chunk together with its neighbouring chunks so the client can show the passage in context.
+        /// </summary>
+        /// <param name="id">The document ID</param>
+        /// <param name="chunkIndex">Index of the cited chunk within the document</param>
+        /// <param name="window">Number of chunks to include before and after the cited chunk (max 5)</param>
+        /// <returns>200 OK with the chunks in document order, or 404 if the document is not accessible</returns>
+        [HttpGet("{id}/chunks/{chunkIndex}/context")]
+        public async Task<IActionResult> GetChunkContext(int id, int chunkIndex, [FromQuery] int window = 1)
+        {
+            try
+            {
+                var userId = _userContext.GetCurrentUserId();
+
+                var document = await AccessibleDocuments(userId)
+                    .FirstOrDefaultAsync(d => d.Id == id);
+
+                if (document == null)
+                    return NotFound("Document not found or you don't have access to it");
+
+                window = Math.Clamp(window, 0, MaxContextWindow);
+
+                var chunks = await _embeddingRepository.GetDocumentChunksAsync(
+                    document.Id.ToString(),
+                    document.ConversationId,
+                    chunkIndex - window,
+                    chunkIndex + window);
+
+                return Ok(new
+                {
+                    DocumentId = document.Id,
+                    ChunkIndex = chunkIndex,
+                    Chunks = chunks.Select(c => new
+                    {
+                        EmbeddingId = c.Id,
+                        c.ChunkIndex,
+                        c.Text,
+                        IsCited = c.ChunkIndex == chunkIndex
+                    })
+                });
+            }
+            catch (Exception ex)
+            {
+                return StatusCode(500, $"An error occurred while retrieving chunk context: {ex.Message}");
+            }
+        }
+
+        /// <summary>
+        /// Returns a document's readable text for the in-app viewer.
+        /// Uses the stored DocumentText when available, otherwise rebuilds the text from the document's chunks
+        /// (e.g. uploads ingested before DocumentText was populated).
+        /// </summary>
+        /// <param name="id">The document ID</param>
+        /// <returns>200 OK with document metadata and text, or 404 if the document is not accessible</returns>
+        [HttpGet("{id}/content")]
+        public async Task<IActionResult> GetDocumentContent(int id)
+        {
+            try
+            {
+                var userId = _userContext.GetCurrentUserId();
+
+                var document = await AccessibleDocuments(userId)
+                    .FirstOrDefaultAsync(d => d.Id == id);
+
+                if (document == null)
+                    return NotFound("Document not found or you don't have access to it");
+
+                var documentText = document.DocumentText;
+                if (string.IsNullOrEmpty(documentText))
+                {
+                    var chunks = await _embeddingRepository.GetDocumentChunksAsync(
+                        document.Id.ToString(),
+                        document.ConversationId,
+                        0,
+                        int.MaxValue);
+
+                    documentText = string.Join("\n\n", chunks.Select(c => c.Text));
+                }
+
+                return Ok(new
+                {
+                    document.Id,
+                    Title = document.Title ?? document.OriginalFileName,
+                    document.OriginalFileName,
+                    document.ContentType,
+                    document.Description,
+                    document.DocumentLink,
+                    document.ConversationId,
+                    HasOriginalFile = System.IO.File.Exists(document.FilePath),
+                    DocumentText = documentText
+                });
+            }
+            catch (Exception ex)
+            {
+                return StatusCode(500, $"An error occurred while retrieving document content: {ex.Message}");
+            }
+        }
+
+        /// <summary>
+        /// Streams the original stored file (e.g. the HTML filing or uploaded PDF) with its content type.
+        /// </summary>
+        /// <param name="id">The document ID</param>
+        /// <returns>The file contents, or 404 if the document or its file is not available</returns>
+        [HttpGet("{id}/file")]
+        public async Task<IActionResult> GetDocumentFile(int id)
+        {
+            try
+            {
+                var userId = _userContext.GetCurrentUserId();
+
+                var document = await AccessibleDocuments(userId)
+                    .FirstOrDefaultAsync(d => d.Id == id);
+
+                if (document == null)
+                    return NotFound("Document not found or you don't have access to it");
+
+                if (!System.IO.File.Exists(document.FilePath))
+                    return NotFound("The original file for this document is no longer available");
+
+                return PhysicalFile(Path.GetFullPath(document.FilePath), document.ContentType);
+            }
+            catch (Exception ex)
+            {
+                return StatusCode(500, $"An error occurred while retrieving the document file: {ex.Message}");
+            }
+        }
+
         [HttpDelete("{id}")]
         public async Task<IActionResult> DeleteDocument(int id)
         {
@@ -110,9 +1047,8 @@ namespace rag_experiment.Controllers
             {
                 var userId = _userContext.GetCurrentUserId();
 
-                var document = await _dbContext.Documents
-                    .Include(d => d.Conversation)
-                    .FirstOrDefaultAsync(d => d.Id == id && d.Conversation.UserId == userId);
+                var document = await AccessibleDocuments(userId)
+                    .FirstOrDefaultAsync(d => d.Id == id);
 
                 if (document == null)
                     return NotFound("Document not found or you don't have access to it");
@@ -123,7 +1059,8 @@ namespace rag_experiment.Controllers
                 }
 
                 _dbContext.Documents.Remove(document);
-                document.Conversation.UpdatedAt = DateTime.UtcNow;
+                if (document.Conversation != null)
+                    document.Conversation.UpdatedAt = DateTime.UtcNow;
 
                 await _dbContext.SaveChangesAsync();
 
@@ -144,9 +1081,7 @@ namespace rag_experiment.Controllers
             {
                 var userId = _userContext.GetCurrentUserId();
 
-                var documents = await _dbContext.Documents
-                    .Include(d => d.Conversation)
-                    .Where(d => d.Conversation.UserId == userId)
+                var documents = await AccessibleDocuments(userId)
                     .Select(d => new
                     {
                         d.Id,
@@ -156,7 +1091,7 @@ namespace rag_experiment.Controllers
                         d.UploadedAt,
                         d.Description,
                         d.ConversationId,
-                        ConversationTitle = d.Conversation.Title
+                        ConversationTitle = d.Conversation != null ? d.Conversation.Title : null
                     })
                     .ToListAsync();
 
@@ -312,4 +1247,63 @@ namespace rag_experiment.Controllers
             }
         }
     }
+
+    /// <summary>
+    /// Multipart request to upload a document.
+    /// </summary>
+    public class UploadDocumentRequest
+    {
+        /// <summary>
+        /// The PDF, HTML or plain text file to upload.
+        /// </summary>
+        public IFormFile? File { get; set; }
+
+        /// <summary>
+        /// Optional note about the document, e.g. where it came from.
+        /// </summary>
+        public string? Description { get; set; }
+
+        /// <summary>
+        /// The conversation to upload into. When null, the document goes to the user's library.
+        /// </summary>
+        public int? ConversationId { get; set; }
+    }
+
+    /// <summary>
+    /// Request to start a chunked upload.
+    /// </summary>
+    public class StartUploadRequest
+    {
+        /// <summary>
+        /// Name of the PDF, HTML or plain text file being uploaded.
+        /// </summary>
+        [Required]
+        public string FileName { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Size of the whole file in bytes.
+        /// </summary>
+        public long FileSize { get; set; }
+
+        /// <summary>
+        /// Optional note about the document, e.g. where it came from.
+        /// </summary>
+        public string? Description { get; set; }
+
+        /// <summary>
+        /// The conversation to upload into. When null, the document goes to the user's library.
+        /// </summary>
+        public int? ConversationId { get; set; }
+    }
+
+    /// <summary>
+    /// Request to attach a library document to a conversation.
+    /// </summary>
+    public class AttachDocumentRequest
+    {
+        /// <summary>
+        /// The conversation to attach the document to.
+        /// </summary>
+        public int ConversationId { get; set; }
+    }
 }
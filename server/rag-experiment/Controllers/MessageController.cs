@@ -4,6 +4,7 @@ using Microsoft.EntityFrameworkCore;
 using rag_experiment.Domain;
 using rag_experiment.Services;
 using rag_experiment.Services.Auth;
+using rag_experiment.Services.LlmClient.Models;
 using rag_experiment.Services.Query.Models;
 using System.ComponentModel.DataAnnotations;
 using Microsoft.Extensions.Logging;
@@ -12,6 +13,9 @@ using rag_experiment.Repositories.Documents;
 using rag_experiment.Repositories.Conversations;
 using rag_experiment.Services.Query;
 using System.Text;
+using System.Text.Json;
+using System.Text.Json.Nodes;
+using System.Text.Json.Serialization;
 using System.Linq;
 using Pgvector;
 using Pgvector.EntityFrameworkCore;
@@ -29,12 +33,18 @@ namespace rag_experiment.Controllers
         private readonly IEmbeddingGenerationService _embeddingGenerationService;
         private readonly IQueryPreprocessor _queryPreprocessor;
         private readonly ILlmService _llmService;
+        private readonly ILlmClientFactory _llmClientFactory;
         private readonly IDocumentRepository _documentRepository;
         private readonly IConversationRepository _conversationRepository;
         private readonly IQueryIntentClassifier _queryIntentClassifier;
         private readonly IAdaptiveRetrievalStrategy _adaptiveRetrievalStrategy;
         private readonly ILogger<MessageController> _logger;
 
+        private static readonly JsonSerializerOptions SseJsonOptions = new(JsonSerializerDefaults.Web)
+        {
+            Converters = { new JsonStringEnumConverter() }
+        };
+
         public MessageController(
             AppDbContext dbContext,
             IUserContext userContext,
@@ -42,6 +52,7 @@ namespace rag_experiment.Controllers
             IEmbeddingGenerationService embeddingGenerationService,
             IQueryPreprocessor queryPreprocessor,
             ILlmService llmService,
+            ILlmClientFactory llmClientFactory,
             IDocumentRepository documentRepository,
             IConversationRepository conversationRepository,
             IQueryIntentClassifier queryIntentClassifier,
@@ -54,6 +65,7 @@ namespace rag_experiment.Controllers
             _embeddingGenerationService = embeddingGenerationService;
             _queryPreprocessor = queryPreprocessor;
             _llmService = llmService;
+            _llmClientFactory = llmClientFactory;
             _documentRepository = documentRepository;
             _conversationRepository = conversationRepository;
             _queryIntentClassifier = queryIntentClassifier;
@@ -94,6 +106,480 @@ namespace rag_experiment.Controllers
             return conversationBuilder.ToString();
         }
 
+        /// <summary>
+        /// Runs the retrieval half of the RAG pipeline for a user question: intent classification, query
+        /// preprocessing, adaptive retrieval merged with referenced documents, and context assembly.
+        /// The returned query/context pair is ready to hand to the LLM, either buffered or streamed.
+        /// </summary>
+        /// <param name="conversationId">The ID of the conversation the question belongs to</param>
+        /// <param name="userMessageId">The saved question; only its own thread is used as conversation history</param>
+        /// <param name="userContent">The user's question</param>
+        /// <param name="referencedDocumentIds">Optional documents to include regardless of similarity</param>
+        /// <param name="options">Optional user overrides of the intent and retrieval thresholds</param>
+        /// <returns>The LLM query, its context, the detected intent, the numbered sources cited in the context and
+        /// diagnostics describing how the context was retrieved</returns>
+        private async Task<PreparedAnswer> PrepareAnswerAsync(int conversationId, int userMessageId,
+            string userContent, List<int>? referencedDocumentIds, RetrievalOptions? options)
+        {
+            // Get conversation history (including the message we just saved), leaving out other branches
+            var conversationMessages = await _conversationRepository.GetThreadAsync(conversationId, userMessageId);
+            var conversationHistory = FormatConversationHistory(conversationMessages);
+
+            // 1. Classify query intent for adaptive retrieval, unless the user chose one
+            QueryIntentResult intentResult;
+            if (options?.Intent is { } chosenIntent)
+            {
+                intentResult = new QueryIntentResult
+                {
+                    Intent = chosenIntent,
+                    Reasoning = "Chosen by the user for this question"
+                };
+            }
+            else
+            {
+                intentResult = await _queryIntentClassifier.ClassifyQueryAsync(userContent);
+                _logger.LogInformation("Query intent classified as {Intent}: {Reasoning}",
+                    intentResult.Intent, intentResult.Reasoning);
+            }
+
+            // 2. Get retrieval configuration based on intent, with the user's thresholds taking precedence
+            var retrievalConfig = _adaptiveRetrievalStrategy.GetConfigForIntent(intentResult.Intent, userContent);
+
+            var maxK = options?.MaxK ?? retrievalConfig.MaxK;
+            var minSimilarity = options?.MinSimilarity ?? retrievalConfig.MinSimilarity;
+
+            // 3. Pre-process the query with conversation context
+            string processedQuery = string.IsNullOrEmpty(conversationHistory)
+                ? await _queryPreprocessor.ProcessQueryAsync(userContent)
+                : await _queryPreprocessor.ProcessQueryAsync(userContent, conversationHistory);
+
+            // 4. Generate embedding for the processed query
+            var queryEmbedding = await _embeddingGenerationService.GenerateEmbeddingAsync(processedQuery);
+
+            // 5. Get embeddings for referenced documents (if provided)
+            var referencedEmbeddings = new List<RetrievedChunk>();
+            if (referencedDocumentIds != null && referencedDocumentIds.Any())
+            {
+                var referencedDocIds = referencedDocumentIds.Select(id => id.ToString()).ToList();
+                var queryVector = new Vector(queryEmbedding);
+
+                // Get all embeddings for the referenced documents from UserDocument
+                // Use pgvector's native cosine distance for similarity calculation
+                var referencedEmbeddingResults = await _dbContext.Embeddings
+                    .Where(e => referencedDocIds.Contains(e.DocumentId) &&
+                               e.Owner == EmbeddingOwner.UserDocument)
+                    .Select(e => new
+                    {
+                        e.Id,
+                        e.Text,
+                        e.DocumentId,
+                        e.DocumentTitle,
+                        e.ChunkIndex,
+                        Distance = e.EmbeddingData.CosineDistance(queryVector)
+                    })
+                    .ToListAsync();
+
+                // Convert cosine distance to similarity (similarity = 1 - distance)
+                referencedEmbeddings = referencedEmbeddingResults
+                    .Select(e => new RetrievedChunk
+                    {
+                        EmbeddingId = e.Id,
+                        Text = e.Text,
+                        DocumentId = e.DocumentId,
+                        DocumentTitle = e.DocumentTitle,
+                        ChunkIndex = e.ChunkIndex,
+                        Similarity = 1f - (float)e.Distance
+                    })
+                    .ToList();
+
+                _logger.LogInformation("Retrieved {Count} embeddings from {DocCount} referenced documents",
+                    referencedEmbeddings.Count, referencedDocumentIds.Count);
+            }
+
+            // 6. Adaptive retrieval with threshold, over the conversation's own and attached documents. When the
+            // conversation compares several companies, retrieve per company so one company's filings can't crowd
+            // the others out of the context.
+            var conversationDocumentIds = await GetConversationDocumentIdsAsync(conversationId);
+            var comparedCompanies = await GetComparedCompaniesAsync(conversationId);
+            List<RetrievedChunk> topKSimilarEmbeddings;
+            if (comparedCompanies.Count > 1)
+            {
+                topKSimilarEmbeddings = new List<RetrievedChunk>();
+                foreach (var company in comparedCompanies)
+                {
+                    topKSimilarEmbeddings.AddRange(await _embeddingRepository.FindSimilarChunksAdaptiveAsync(
+                        queryEmbedding,
+                        maxK,
+                        minSimilarity,
+                        company.DocumentIds));
+                }
+
+                // Uploads, attached library documents and filings ingested before they had Document rows belong
+                // to no company, so they get their own share
+                var companyDocumentIds = comparedCompanies.SelectMany(c => c.DocumentIds).ToHashSet();
+                var otherDocumentIds = conversationDocumentIds.Where(id => !companyDocumentIds.Contains(id)).ToList();
+                topKSimilarEmbeddings.AddRange(await _embeddingRepository.FindSimilarChunksAdaptiveAsync(
+                    queryEmbedding,
+                    maxK,
+                    minSimilarity,
+                    otherDocumentIds,
+                    conversationId));
+            }
+            else
+            {
+                topKSimilarEmbeddings = await _embeddingRepository.FindSimilarChunksAdaptiveAsync(
+                    queryEmbedding,
+                    maxK,
+                    minSimilarity,
+                    conversationDocumentIds,
+                    conversationId);
+            }
+
+            _logger.LogInformation("Retrieved {Count} embeddings with threshold {Threshold}",
+                topKSimilarEmbeddings.Count, minSimilarity);
+
+            // 7. Merge referenced embeddings with adaptive retrieval results
+            // Create a dictionary to track chunks by embedding ID to avoid duplicates
+            var mergedEmbeddingsDict = new Dictionary<int, RetrievedChunk>();
+
+            // Add adaptive retrieval results first
+            foreach (var embedding in topKSimilarEmbeddings)
+            {
+                var key = embedding.EmbeddingId;
+                if (!mergedEmbeddingsDict.ContainsKey(key) || mergedEmbeddingsDict[key].Similarity < embedding.Similarity)
+                {
+                    mergedEmbeddingsDict[key] = embedding;
+                }
+            }
+
+            // Add referenced embeddings (overwrite if duplicate)
+            foreach (var embedding in referencedEmbeddings)
+            {
+                var key = embedding.EmbeddingId;
+                // Always include referenced embeddings, overwriting adaptive results if duplicate
+                mergedEmbeddingsDict[key] = embedding;
+            }
+
+            // Convert back to list and order by similarity
+            var mergedEmbeddings = mergedEmbeddingsDict.Values
+                .OrderByDescending(e => e.Similarity)
+                .ToList();
+
+            _logger.LogInformation("Merged embeddings: {TotalCount} total (Adaptive: {AdaptiveCount}, Referenced: {ReferencedCount})",
+                mergedEmbeddings.Count, topKSimilarEmbeddings.Count, referencedEmbeddings.Count);
+
+            // 8. Aggregate by document for source tracking (using merged embeddings)
+            // DocumentId is the string form of the Document's int ID for filings and uploads
+            var documentContributions = mergedEmbeddings
+                .GroupBy(doc => doc.DocumentId)
+                .Select(g => new DocumentContribution(
+                    g.Key,
+                    g.First().DocumentTitle,
+                    g.Count(),
+                    g.Average(d => d.Similarity),
+                    g.Max(d => d.Similarity),
+                    g.ToList()))
+                .OrderByDescending(d => d.MaxSimilarity)
+                .ToList();
+
+            // Sources are numbered in citation order so the LLM's inline [n] markers line up with
+            // the source list the client renders under the answer
+            var sources = await ResolveMessageSourcesAsync(conversationId, documentContributions);
+            var citationNumbers = sources.ToDictionary(s => s.DocumentId.ToString(), s => s.Order + 1);
+
+            // 9. Format the retrieved passages (using merged embeddings)
+            var retrievedResults = mergedEmbeddings.Select(doc => new
+            {
+                fullDocumentText = doc.Text,
+                documentId = doc.DocumentId,
+                documentTitle = doc.DocumentTitle,
+                similarity = doc.Similarity
+            }).ToList();
+
+            var diagnostics = new RetrievalDiagnostics
+            {
+                OriginalQuery = userContent,
+                ProcessedQuery = processedQuery,
+                Intent = intentResult.Intent,
+                IntentReasoning = intentResult.Reasoning,
+                MaxK = maxK == int.MaxValue ? null : maxK,
+                MinSimilarity = minSimilarity,
+                ConfigDescription = retrievalConfig.Description,
+                IntentOverridden = options?.Intent != null,
+                ThresholdsOverridden = options?.MaxK != null || options?.MinSimilarity != null,
+                ModelTier = options?.ModelTier,
+                TotalChunks = mergedEmbeddings.Count,
+                ReferencedChunks = referencedEmbeddings.Count,
+                UniqueDocuments = documentContributions.Count,
+                SimilarityHistogram = RetrievalDiagnostics.BuildHistogram(mergedEmbeddings.Select(e => e.Similarity))
+            };
+
+            // 10. Handle exhaustive mode differently - skip LLM context building
+            if (intentResult.Intent == QueryIntent.Exhaustive)
+            {
+                // Count unique documents found
+                var documentCount = documentContributions.Count;
+
+                // Generate LLM response without document chunks in context
+                // The LLM will generate a natural response about finding X documents
+                var exhaustivePrompt = $"The user asked: \"{userContent}\". Generate a brief, natural response informing them that you found {documentCount} documents related to their query. Do not mention specific document details, just acknowledge that {documentCount} documents were found and will be provided as sources.";
+
+                _logger.LogInformation("Exhaustive mode: Prepared response for {DocumentCount} documents without context", documentCount);
+
+                return new PreparedAnswer(exhaustivePrompt, conversationHistory ?? "", intentResult.Intent,
+                    sources, diagnostics);
+            }
+
+            // Regular mode: Combine conversation history and document chunks into a single context string
+            var contextBuilder = new StringBuilder();
+
+            // Add conversation history first
+            if (!string.IsNullOrEmpty(conversationHistory))
+            {
+                contextBuilder.AppendLine(conversationHistory);
+            }
+
+            // Add retrieved document chunks
+            contextBuilder.AppendLine("=== KNOWLEDGE BASE DOCUMENTS ===");
+            if (citationNumbers.Any())
+            {
+                contextBuilder.AppendLine(
+                    "Passages marked with a source number like [1] are citable. After each claim drawn from such a passage, cite it inline with its number, e.g. [1] or [1][2]. Never invent source numbers.");
+                contextBuilder.AppendLine();
+            }
+
+            var isComparison = comparedCompanies.Count > 1;
+            if (isComparison)
+            {
+                var companyList = string.Join(", ", comparedCompanies.Select(c => $"{c.CompanyName} ({c.Ticker})"));
+                contextBuilder.AppendLine(
+                    $"This conversation compares {companyList}. Passages are grouped by company: attribute every figure to its company, and say so when a company has no supporting passage.");
+                contextBuilder.AppendLine();
+            }
+
+            var companyByDocumentId = comparedCompanies
+                .SelectMany(c => c.DocumentIds.Select(documentId => (DocumentId: documentId, Company: c)))
+                .ToDictionary(x => x.DocumentId, x => x.Company);
+
+            // Passages from documents that don't belong to a compared company (e.g. uploads) go last
+            var passageGroups = retrievedResults
+                .GroupBy(doc => companyByDocumentId.GetValueOrDefault(doc.documentId))
+                .OrderBy(g => g.Key == null ? int.MaxValue : comparedCompanies.IndexOf(g.Key));
+
+            foreach (var group in passageGroups)
+            {
+                if (isComparison)
+                {
+                    contextBuilder.AppendLine(group.Key == null
+                        ? "=== OTHER DOCUMENTS ==="
+                        : $"=== {group.Key.CompanyName} ({group.Key.Ticker}) ===");
+                }
+
+                foreach (var doc in group)
+                {
+                    var citationLabel = citationNumbers.TryGetValue(doc.documentId, out var citationNumber)
+                        ? $"[{citationNumber}] "
+                        : "";
+                    contextBuilder.AppendLine($"--- {citationLabel}{doc.documentTitle} ---");
+                    contextBuilder.AppendLine(doc.fullDocumentText ?? "");
+                    contextBuilder.AppendLine();
+                }
+            }
+
+            string combinedContext = contextBuilder.ToString();
+
+            _logger.LogInformation("Combined context: {Length} chars, Estimated tokens: {Tokens}",
+                combinedContext.Length, combinedContext.Length / 4);
+
+            return new PreparedAnswer(userContent, combinedContext, intentResult.Intent, sources, diagnostics);
+        }
+
+        /// <summary>
+        /// Loads the conversation's companies that have ingested filings, with the logical document ids
+        /// of those filings, in the order the companies were added.
+        /// </summary>
+        /// <param name="conversationId">The conversation to load companies for</param>
+        /// <returns>Companies with at least one ingested document</returns>
+        private async Task<List<ComparedCompany>> GetComparedCompaniesAsync(int conversationId)
+        {
+            var companies = await _dbContext.ConversationCompanies
+                .Where(c => c.ConversationId == conversationId)
+                .OrderBy(c => c.Id)
+                .Select(c => new
+                {
+                    c.CompanyName,
+                    c.Ticker,
+                    DocumentIds = c.Documents.Select(d => d.Id).ToList()
+                })
+                .ToListAsync();
+
+            return companies
+                .Where(c => c.DocumentIds.Any())
+                .Select(c => new ComparedCompany(
+                    c.CompanyName,
+                    c.Ticker,
+                    c.DocumentIds.Select(id => id.ToString()).ToList()))
+                .ToList();
+        }
+
+        /// <summary>
+        /// IDs of the documents a conversation's questions retrieve from: its own filings and uploads plus the
+        /// library documents attached to it
+        /// </summary>
+        /// <param name="conversationId">The conversation being asked</param>
+        /// <returns>Logical document ids, in the string form stored on embeddings</returns>
+        private async Task<List<string>> GetConversationDocumentIdsAsync(int conversationId)
+        {
+            var documentIds = await _dbContext.Documents
+                .Where(d => d.ConversationId == conversationId ||
+                            d.Attachments.Any(a => a.ConversationId == conversationId))
+                .Select(d => d.Id)
+                .ToListAsync();
+
+            return documentIds.Select(id => id.ToString()).ToList();
+        }
+
+        /// <summary>
+        /// Maps per-document retrieval contributions onto MessageSource rows. Only contributions whose
+        /// DocumentId refers to a Document in this conversation, or attached to it, can be persisted, since
+        /// MessageSource requires an int FK. Each source keeps references to the chunks it contributed.
+        /// </summary>
+        /// <param name="conversationId">The conversation the assistant message belongs to</param>
+        /// <param name="contributions">Per-document contributions, most relevant first</param>
+        /// <returns>Unsaved MessageSource entities in citation order</returns>
+        private async Task<List<MessageSource>> ResolveMessageSourcesAsync(int conversationId,
+            List<DocumentContribution> contributions)
+        {
+            var candidateIds = contributions
+                .Select(c => int.TryParse(c.DocumentId, out var id) ? id : (int?)null)
+                .Where(id => id.HasValue)
+                .Select(id => id!.Value)
+                .Distinct()
+                .ToList();
+
+            if (!candidateIds.Any())
+                return new List<MessageSource>();
+
+            var knownIds = await _dbContext.Documents
+                .Where(d => candidateIds.Contains(d.Id) &&
+                            (d.ConversationId == conversationId ||
+                             d.Attachments.Any(a => a.ConversationId == conversationId)))
+                .Select(d => d.Id)
+                .ToListAsync();
+
+            var sources = new List<MessageSource>();
+            foreach (var contribution in contributions)
+            {
+                if (!int.TryParse(contribution.DocumentId, out var documentId) ||
+                    !knownIds.Contains(documentId) ||
+                    sources.Any(s => s.DocumentId == documentId))
+                    continue;
+
+                sources.Add(new MessageSource
+                {
+                    DocumentId = documentId,
+                    RelevanceScore = contribution.MaxSimilarity,
+                    ChunksUsed = contribution.ChunksUsed,
+                    Order = sources.Count,
+                    Chunks = contribution.Chunks
+                        .OrderByDescending(c => c.Similarity)
+                        .Select((chunk, index) => new MessageSourceChunk
+                        {
+                            EmbeddingId = chunk.EmbeddingId,
+                            ChunkIndex = chunk.ChunkIndex,
+                            Similarity = chunk.Similarity,
+                            Order = index
+                        })
+                        .ToList()
+                });
+            }
+
+            return sources;
+        }
+
+        /// <summary>
+        /// Projects saved sources into the same shape GetMessages returns, so streamed and fetched
+        /// messages render identically on the client.
+        /// </summary>
+        private async Task<List<object>> ProjectSourcesAsync(List<MessageSource> sources)
+        {
+            if (!sources.Any())
+                return new List<object>();
+
+            var documentIds = sources.Select(s => s.DocumentId).ToList();
+            var documents = await _dbContext.Documents
+                .Include(d => d.ConversationCompany)
+                .Where(d => documentIds.Contains(d.Id))
+                .ToDictionaryAsync(d => d.Id);
+
+            return sources
+                .OrderBy(s => s.Order)
+                .Where(s => documents.ContainsKey(s.DocumentId))
+                .Select(s => (object)new
+                {
+                    s.DocumentId,
+                    DocumentTitle = documents[s.DocumentId].Title ?? documents[s.DocumentId].OriginalFileName,
+                    DocumentLink = documents[s.DocumentId].DocumentLink,
+                    FileName = documents[s.DocumentId].FileName,
+                    CompanyName = documents[s.DocumentId].ConversationCompany?.CompanyName,
+                    CompanyTicker = documents[s.DocumentId].ConversationCompany?.Ticker,
+                    s.RelevanceScore,
+                    s.ChunksUsed
+                })
+                .ToList();
+        }
+
+        /// <summary>
+        /// Works out which message a new User message follows. An edited question branches off alongside
+        /// the message it rewrites; otherwise the requested parent is used, falling back to the latest
+        /// message in the conversation so clients that don't track branches keep appending to one thread.
+        /// </summary>
+        /// <param name="conversationId">The conversation the message is added to</param>
+        /// <param name="request">The message request</param>
+        /// <returns>Whether the referenced message was found, and the parent ID (null for a first message)</returns>
+        private async Task<(bool Found, int? ParentMessageId)> ResolveParentMessageIdAsync(int conversationId,
+            AddMessageRequest request)
+        {
+            if (request.EditedMessageId.HasValue)
+            {
+                var editedMessage = await _dbContext.Messages
+                    .Where(m => m.Id == request.EditedMessageId.Value &&
+                                m.ConversationId == conversationId &&
+                                m.Role == MessageRole.User)
+                    .Select(m => new { m.ParentMessageId })
+                    .FirstOrDefaultAsync();
+
+                return editedMessage == null ? (false, null) : (true, editedMessage.ParentMessageId);
+            }
+
+            if (request.ParentMessageId.HasValue)
+            {
+                var parentExists = await _dbContext.Messages
+                    .AnyAsync(m => m.Id == request.ParentMessageId.Value && m.ConversationId == conversationId);
+
+                return (parentExists, request.ParentMessageId);
+            }
+
+            var latestMessageId = await _dbContext.Messages
+                .Where(m => m.ConversationId == conversationId)
+                .OrderByDescending(m => m.Timestamp)
+                .ThenByDescending(m => m.Id)
+                .Select(m => (int?)m.Id)
+                .FirstOrDefaultAsync();
+
+            return (true, latestMessageId);
+        }
+
+        /// <summary>
+        /// Writes a single server-sent event to the response and flushes it immediately.
+        /// </summary>
+        private async Task WriteSseEventAsync(string eventName, object payload, CancellationToken cancellationToken)
+        {
+            var json = JsonSerializer.Serialize(payload, SseJsonOptions);
+            await Response.WriteAsync($"event: {eventName}\ndata: {json}\n\n", cancellationToken);
+            await Response.Body.FlushAsync(cancellationToken);
+        }
+
         /// <summary>
         /// Adds a message to a conversation. For User messages, automatically queries the knowledge base
         /// and saves the assistant response with sources. For other roles, only saves the message.
@@ -149,16 +635,24 @@ namespace rag_experiment.Controllers
 
                 var userContent = request.Content;
 
+                var (parentFound, parentMessageId) = await ResolveParentMessageIdAsync(conversationId, request);
+                if (!parentFound)
+                    return BadRequest("Parent message not found");
+
                 // Save the user message
                 var message = new Message
                 {
                     ConversationId = conversationId,
+                    ParentMessageId = parentMessageId,
                     Role = request.Role,
                     Content = userContent,
                     Metadata = request.Metadata,
                     Timestamp = DateTime.UtcNow
                 };
 
+                if (request.Role == MessageRole.User)
+                    RecordRetrievalRequest(message, request.Retrieval, request.ReferencedDocumentIds);
+
                 _dbContext.Messages.Add(message);
 
                 // Update conversation's UpdatedAt timestamp
@@ -177,180 +671,24 @@ namespace rag_experiment.Controllers
 
                     try
                     {
-                        // Get conversation history (including the message we just saved)
-                        var conversationMessages = await _conversationRepository.GetMessagesAsync(conversationId);
-                        var conversationHistory = FormatConversationHistory(conversationMessages);
-
-                        // 1. Classify query intent for adaptive retrieval
-                        var intentResult = await _queryIntentClassifier.ClassifyQueryAsync(userContent);
-                        _logger.LogInformation("Query intent classified as {Intent}: {Reasoning}",
-                            intentResult.Intent, intentResult.Reasoning);
-
-                        // 2. Get retrieval configuration based on intent
-                        var retrievalConfig = _adaptiveRetrievalStrategy.GetConfigForIntent(intentResult.Intent, userContent);
-
-                        var maxK = retrievalConfig.MaxK;
-                        var minSimilarity = retrievalConfig.MinSimilarity;
-
-                        // 3. Pre-process the query with conversation context
-                        string processedQuery = string.IsNullOrEmpty(conversationHistory)
-                            ? await _queryPreprocessor.ProcessQueryAsync(userContent)
-                            : await _queryPreprocessor.ProcessQueryAsync(userContent, conversationHistory);
-
-                        // 4. Generate embedding for the processed query
-                        var queryEmbedding = await _embeddingGenerationService.GenerateEmbeddingAsync(processedQuery);
-
-                        // 5. Get embeddings for referenced documents (if provided)
-                        var referencedEmbeddings = new List<(string Text, string DocumentId, string DocumentTitle, float Similarity)>();
-                        if (request.ReferencedDocumentIds != null && request.ReferencedDocumentIds.Any())
-                        {
-                            var referencedDocIds = request.ReferencedDocumentIds.Select(id => id.ToString()).ToList();
-                            var queryVector = new Vector(queryEmbedding);
-
-                            // Get all embeddings for the referenced documents from UserDocument
-                            // Use pgvector's native cosine distance for similarity calculation
-                            var referencedEmbeddingResults = await _dbContext.Embeddings
-                                .Where(e => referencedDocIds.Contains(e.DocumentId) &&
-                                           e.Owner == EmbeddingOwner.UserDocument)
-                                .Select(e => new
-                                {
-                                    e.Text,
-                                    e.DocumentId,
-                                    e.DocumentTitle,
-                                    Distance = e.EmbeddingData.CosineDistance(queryVector)
-                                })
-                                .ToListAsync();
-
-                            // Convert cosine distance to similarity (similarity = 1 - distance)
-                            referencedEmbeddings = referencedEmbeddingResults
-                                .Select(e => (e.Text, e.DocumentId, e.DocumentTitle, Similarity: 1f - (float)e.Distance))
-                                .ToList();
-
-                            _logger.LogInformation("Retrieved {Count} embeddings from {DocCount} referenced documents",
-                                referencedEmbeddings.Count, request.ReferencedDocumentIds.Count);
-                        }
-
-                        // 6. Adaptive retrieval with threshold
-                        var topKSimilarEmbeddings = await _embeddingRepository.FindSimilarEmbeddingsAdaptiveAsync(
-                            queryEmbedding,
-                            maxK,
-                            minSimilarity);
-
-                        _logger.LogInformation("Retrieved {Count} embeddings with threshold {Threshold}",
-                            topKSimilarEmbeddings.Count, minSimilarity);
-
-                        // 7. Merge referenced embeddings with adaptive retrieval results
-                        // Create a dictionary to track chunks by document+text to avoid duplicates
-                        var mergedEmbeddingsDict = new Dictionary<string, (string Text, string DocumentId, string DocumentTitle, float Similarity)>();
-
-                        // Add adaptive retrieval results first
-                        foreach (var embedding in topKSimilarEmbeddings)
-                        {
-                            var key = $"{embedding.DocumentId}|{embedding.Text}";
-                            if (!mergedEmbeddingsDict.ContainsKey(key) || mergedEmbeddingsDict[key].Similarity < embedding.Similarity)
-                            {
-                                mergedEmbeddingsDict[key] = embedding;
-                            }
-                        }
-
-                        // Add referenced embeddings (overwrite if duplicate)
-                        foreach (var embedding in referencedEmbeddings)
-                        {
-                            var key = $"{embedding.DocumentId}|{embedding.Text}";
-                            // Always include referenced embeddings, overwriting adaptive results if duplicate
-                            mergedEmbeddingsDict[key] = embedding;
-                        }
-
-                        // Convert back to list and order by similarity
-                        var mergedEmbeddings = mergedEmbeddingsDict.Values
-                            .OrderByDescending(e => e.Similarity)
-                            .ToList();
-
-                        _logger.LogInformation("Merged embeddings: {TotalCount} total (Adaptive: {AdaptiveCount}, Referenced: {ReferencedCount})",
-                            mergedEmbeddings.Count, topKSimilarEmbeddings.Count, referencedEmbeddings.Count);
-
-                        // 8. Aggregate by document for source tracking (using merged embeddings)
-                        // DocumentId is a string (SEC filing ID like '10-K_0000320193-23-000106')
-                        var documentContributions = mergedEmbeddings
-                            .GroupBy(doc => doc.DocumentId)
-                            .Select(g => new
-                            {
-                                DocumentId = g.Key,
-                                ChunksUsed = g.Count(),
-                                AvgSimilarity = g.Average(d => d.Similarity),
-                                MaxSimilarity = g.Max(d => d.Similarity),
-                                DocumentTitle = g.First().DocumentTitle,
-                                Chunks = g.ToList()
-                            })
-                            .OrderByDescending(d => d.MaxSimilarity)
-                            .ToList();
-
-                        // 9. Format the retrieved passages (using merged embeddings)
-                        var retrievedResults = mergedEmbeddings.Select(doc => new
-                        {
-                            fullDocumentText = doc.Text,
-                            documentId = doc.DocumentId,
-                            documentTitle = doc.DocumentTitle,
-                            similarity = doc.Similarity
-                        }).ToList();
-
-                        string llmResponse;
-
-                        // 10. Handle exhaustive mode differently - skip LLM context building
-                        if (intentResult.Intent == QueryIntent.Exhaustive)
-                        {
-                            // Count unique documents found
-                            var documentCount = documentContributions.Count;
-
-                            // Generate LLM response without document chunks in context
-                            // The LLM will generate a natural response about finding X documents
-                            var exhaustivePrompt = $"The user asked: \"{userContent}\". Generate a brief, natural response informing them that you found {documentCount} documents related to their query. Do not mention specific document details, just acknowledge that {documentCount} documents were found and will be provided as sources.";
-
-                            llmResponse = await _llmService.GenerateResponseAsync(exhaustivePrompt, conversationHistory ?? "");
-
-                            _logger.LogInformation("Exhaustive mode: Generated response for {DocumentCount} documents without context", documentCount);
-                        }
-                        else
-                        {
-                            // Regular mode: Combine conversation history and document chunks into a single context string
-                            var contextBuilder = new StringBuilder();
-
-                            // Add conversation history first
-                            if (!string.IsNullOrEmpty(conversationHistory))
-                            {
-                                contextBuilder.AppendLine(conversationHistory);
-                            }
-
-                            // Add retrieved document chunks
-                            contextBuilder.AppendLine("=== KNOWLEDGE BASE DOCUMENTS ===");
-                            foreach (var doc in retrievedResults)
-                            {
-                                contextBuilder.AppendLine($"--- {doc.documentTitle} ---");
-                                contextBuilder.AppendLine(doc.fullDocumentText ?? "");
-                                contextBuilder.AppendLine();
-                            }
-
-                            string combinedContext = contextBuilder.ToString();
-
-                            _logger.LogInformation("Combined context: {Length} chars, Estimated tokens: {Tokens}",
-                                combinedContext.Length, combinedContext.Length / 4);
+                        var preparedAnswer = await PrepareAnswerAsync(conversationId, message.Id, userContent,
+                            request.ReferencedDocumentIds, request.Retrieval);
 
-                            // Generate LLM response using the combined context (conversation + knowledge base)
-                            llmResponse = await _llmService.GenerateResponseAsync(userContent, combinedContext);
-                        }
+                        var llmResponse = await GetLlmService(request.Retrieval).GenerateResponseAsync(preparedAnswer.Query,
+                            preparedAnswer.Context);
 
-                        // 11. Save assistant message WITH source citations
+                        // Save assistant message WITH source citations
                         var assistantMessage = new Message
                         {
                             Role = MessageRole.Assistant,
                             Content = llmResponse,
                             ConversationId = conversationId,
-                            Timestamp = DateTime.UtcNow
+                            ParentMessageId = message.Id,
+                            Timestamp = DateTime.UtcNow,
+                            Metadata = CreateAnswerMetadata(preparedAnswer, false),
+                            Sources = preparedAnswer.Sources
                         };
 
-                        // Note: Source citations are skipped for now since DocumentIds are SEC filing strings,
-                        // not int FKs to the Document table. MessageSource requires int DocumentId.
-
                         // Save the assistant message with sources
                         await _conversationRepository.AddMessageAsync(assistantMessage);
 
@@ -377,7 +715,8 @@ namespace rag_experiment.Controllers
                     message.Content,
                     message.Timestamp,
                     message.Metadata,
-                    message.ConversationId
+                    message.ConversationId,
+                    message.ParentMessageId
                 });
             }
             catch (Exception ex)
@@ -387,6 +726,290 @@ namespace rag_experiment.Controllers
             }
         }
 
+        /// <summary>
+        /// Streams the assistant's answer to a User message as server-sent events. Emits "user-message" once the
+        /// question is saved, "token" for each generated text fragment, and "done" with the saved assistant message
+        /// and its sources. If the client disconnects mid-answer (stop generation), the partial answer is saved and
+        /// flagged as stopped in its metadata.
+        /// </summary>
+        /// <param name="conversationId">The ID of the conversation</param>
+        /// <param name="request">The message request; only the User role can be streamed</param>
+        /// <returns>A text/event-stream response, or an error status if the message cannot be accepted</returns>
+        [HttpPost("stream")]
+        public async Task<IActionResult> StreamMessage(int conversationId, [FromBody] AddMessageRequest request)
+        {
+            var cancellationToken = HttpContext.RequestAborted;
+
+            try
+            {
+                if (request.Role != MessageRole.User)
+                    return BadRequest("Only User messages can be streamed");
+
+                if (string.IsNullOrWhiteSpace(request.Content))
+                    return BadRequest("Content cannot be empty");
+
+                var userId = _userContext.GetCurrentUserId();
+
+                // Verify conversation exists and belongs to user
+                var conversation = await _dbContext.Conversations
+                    .FirstOrDefaultAsync(c => c.Id == conversationId && c.UserId == userId);
+
+                if (conversation == null)
+                    return NotFound("Conversation not found");
+
+                var (parentFound, parentMessageId) = await ResolveParentMessageIdAsync(conversationId, request);
+                if (!parentFound)
+                    return BadRequest("Parent message not found");
+
+                var userMessage = new Message
+                {
+                    ConversationId = conversationId,
+                    ParentMessageId = parentMessageId,
+                    Role = MessageRole.User,
+                    Content = request.Content,
+                    Metadata = request.Metadata,
+                    Timestamp = DateTime.UtcNow
+                };
+
+                RecordRetrievalRequest(userMessage, request.Retrieval, request.ReferencedDocumentIds);
+
+                _dbContext.Messages.Add(userMessage);
+                conversation.UpdatedAt = DateTime.UtcNow;
+                await _dbContext.SaveChangesAsync();
+
+                StartEventStream();
+
+                await WriteSseEventAsync("user-message", new
+                {
+                    userMessage.Id,
+                    userMessage.Role,
+                    userMessage.Content,
+                    userMessage.Timestamp,
+                    userMessage.Metadata,
+                    userMessage.ConversationId,
+                    userMessage.ParentMessageId
+                }, cancellationToken);
+
+                await StreamAnswerAsync(conversation, userMessage, cancellationToken);
+
+                return new EmptyResult();
+            }
+            catch (Exception ex)
+            {
+                return await HandleStreamErrorAsync(ex, cancellationToken);
+            }
+        }
+
+        /// <summary>
+        /// Generates a new answer to the question an assistant message responded to, streamed as server-sent
+        /// events like StreamMessage (without the "user-message" event). The earlier answer is kept: the new
+        /// one is saved as a sibling branch of it.
+        /// </summary>
+        /// <param name="conversationId">The ID of the conversation</param>
+        /// <param name="messageId">The ID of the assistant message to regenerate</param>
+        /// <returns>A text/event-stream response, or an error status if the message cannot be regenerated</returns>
+        [HttpPost("{messageId}/regenerate")]
+        public async Task<IActionResult> RegenerateMessage(int conversationId, int messageId)
+        {
+            var cancellationToken = HttpContext.RequestAborted;
+
+            try
+            {
+                var userId = _userContext.GetCurrentUserId();
+
+                var answer = await _dbContext.Messages
+                    .Include(m => m.Conversation)
+                    .Include(m => m.ParentMessage)
+                    .FirstOrDefaultAsync(m => m.Id == messageId &&
+                                              m.ConversationId == conversationId &&
+                                              m.Conversation.UserId == userId);
+
+                if (answer == null)
+                    return NotFound("Message not found");
+
+                if (answer.Role != MessageRole.Assistant || answer.ParentMessage?.Role != MessageRole.User)
+                    return BadRequest("Only answers to a question can be regenerated");
+
+                StartEventStream();
+
+                await StreamAnswerAsync(answer.Conversation, answer.ParentMessage, cancellationToken);
+
+                return new EmptyResult();
+            }
+            catch (Exception ex)
+            {
+                return await HandleStreamErrorAsync(ex, cancellationToken);
+            }
+        }
+
+        /// <summary>
+        /// Sets the response headers for a server-sent event stream.
+        /// </summary>
+        private void StartEventStream()
+        {
+            Response.ContentType = "text/event-stream";
+            Response.Headers.CacheControl = "no-cache";
+            Response.Headers["X-Accel-Buffering"] = "no";
+        }
+
+        /// <summary>
+        /// Runs the RAG pipeline for a saved User message and streams the answer: "token" events while it is
+        /// generated, then "done" with the saved assistant message. The answer is saved as a reply to the
+        /// question; a stopped answer keeps its partial text and is flagged in its metadata. Retrieval overrides
+        /// and referenced documents recorded on the question apply, so a regenerated answer is built the same
+        /// way as the original.
+        /// </summary>
+        private async Task StreamAnswerAsync(Conversation conversation, Message userMessage,
+            CancellationToken cancellationToken)
+        {
+            var options = ReadQuestionMetadata<RetrievalOptions>(userMessage, "retrievalOptions");
+            var referencedDocumentIds = ReadQuestionMetadata<List<int>>(userMessage, "referencedDocumentIds");
+            var preparedAnswer = await PrepareAnswerAsync(conversation.Id, userMessage.Id, userMessage.Content,
+                referencedDocumentIds, options);
+
+            var answerBuilder = new StringBuilder();
+            var stopped = false;
+
+            try
+            {
+                await foreach (var delta in GetLlmService(options).StreamResponseAsync(preparedAnswer.Query,
+                                   preparedAnswer.Context, cancellationToken))
+                {
+                    answerBuilder.Append(delta);
+                    await WriteSseEventAsync("token", new { text = delta }, cancellationToken);
+                }
+            }
+            catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+            {
+                stopped = true;
+                _logger.LogInformation("Client stopped generation for conversation {ConversationId} after {Length} chars",
+                    conversation.Id, answerBuilder.Length);
+            }
+
+            // Nothing worth keeping if the user stopped before the first token
+            if (answerBuilder.Length == 0 && stopped)
+                return;
+
+            var assistantMessage = new Message
+            {
+                Role = MessageRole.Assistant,
+                Content = answerBuilder.ToString(),
+                ConversationId = conversation.Id,
+                ParentMessageId = userMessage.Id,
+                Timestamp = DateTime.UtcNow,
+                Metadata = CreateAnswerMetadata(preparedAnswer, stopped),
+                Sources = preparedAnswer.Sources
+            };
+
+            await _conversationRepository.AddMessageAsync(assistantMessage);
+
+            conversation.UpdatedAt = DateTime.UtcNow;
+            await _dbContext.SaveChangesAsync();
+
+            _logger.LogInformation("Saved streamed assistant message with {SourceCount} source citations",
+                assistantMessage.Sources.Count);
+
+            if (!stopped)
+            {
+                await WriteSseEventAsync("done", new
+                {
+                    assistantMessage.Id,
+                    assistantMessage.Role,
+                    assistantMessage.Content,
+                    assistantMessage.Timestamp,
+                    assistantMessage.Metadata,
+                    assistantMessage.ConversationId,
+                    assistantMessage.ParentMessageId,
+                    Sources = await ProjectSourcesAsync(assistantMessage.Sources)
+                }, cancellationToken);
+            }
+        }
+
+        /// <summary>
+        /// Returns the client for the model tier the user chose, or the default client.
+        /// </summary>
+        private ILlmService GetLlmService(RetrievalOptions? options)
+        {
+            return options?.ModelTier is { } tier ? _llmClientFactory.CreateClient(tier) : _llmService;
+        }
+
+        /// <summary>
+        /// Records the user's retrieval overrides and referenced documents in a question's metadata, so its
+        /// answers can be regenerated the same way.
+        /// </summary>
+        private static void RecordRetrievalRequest(Message question, RetrievalOptions? options,
+            List<int>? referencedDocumentIds)
+        {
+            if (options != null && options.HasOverrides())
+            {
+                UpdateMetadata(question, metadata =>
+                    metadata["retrievalOptions"] = JsonSerializer.SerializeToNode(options, SseJsonOptions));
+            }
+
+            if (referencedDocumentIds is { Count: > 0 })
+            {
+                UpdateMetadata(question, metadata =>
+                    metadata["referencedDocumentIds"] = JsonSerializer.SerializeToNode(referencedDocumentIds,
+                        SseJsonOptions));
+            }
+        }
+
+        /// <summary>
+        /// Reads a value recorded in a question's metadata by RecordRetrievalRequest, if any.
+        /// </summary>
+        private static T? ReadQuestionMetadata<T>(Message question, string key) where T : class
+        {
+            if (string.IsNullOrWhiteSpace(question.Metadata))
+                return null;
+
+            try
+            {
+                return (JsonNode.Parse(question.Metadata) as JsonObject)?[key]?.Deserialize<T>(SseJsonOptions);
+            }
+            catch (JsonException)
+            {
+                return null;
+            }
+        }
+
+        /// <summary>
+        /// Builds the metadata saved with a new answer: its retrieval diagnostics, and whether the user stopped
+        /// generation before it finished.
+        /// </summary>
+        private static string CreateAnswerMetadata(PreparedAnswer preparedAnswer, bool stopped)
+        {
+            var metadata = new JsonObject
+            {
+                ["diagnostics"] = JsonSerializer.SerializeToNode(preparedAnswer.Diagnostics, SseJsonOptions)
+            };
+
+            if (stopped)
+                metadata["generationStopped"] = true;
+
+            return metadata.ToJsonString();
+        }
+
+        /// <summary>
+        /// Reports a streaming failure: as an error status if nothing has been sent yet, otherwise as an
+        /// "error" event on the open stream (unless the client already went away).
+        /// </summary>
+        private async Task<IActionResult> HandleStreamErrorAsync(Exception ex, CancellationToken cancellationToken)
+        {
+            _logger.LogError(ex, "Error occurred while streaming message");
+
+            if (!Response.HasStarted)
+                return StatusCode(500, $"An error occurred while adding the message: {ex.Message}");
+
+            if (!cancellationToken.IsCancellationRequested)
+            {
+                await WriteSseEventAsync("error",
+                    new { message = $"An error occurred while querying the knowledge base: {ex.Message}" },
+                    CancellationToken.None);
+            }
+
+            return new EmptyResult();
+        }
+
         [HttpGet]
         public async Task<IActionResult> GetMessages(int conversationId)
         {
@@ -413,12 +1036,19 @@ namespace rag_experiment.Controllers
                         m.Content,
                         m.Timestamp,
                         m.Metadata,
+                        m.ParentMessageId,
                         Sources = m.Sources.OrderBy(s => s.Order).Select(s => new
                         {
                             s.DocumentId,
                             DocumentTitle = s.Document.Title ?? s.Document.OriginalFileName,
                             DocumentLink = s.Document.DocumentLink,
                             FileName = s.Document.FileName,
+                            CompanyName = s.Document.ConversationCompany != null
+                                ? s.Document.ConversationCompany.CompanyName
+                                : null,
+                            CompanyTicker = s.Document.ConversationCompany != null
+                                ? s.Document.ConversationCompany.Ticker
+                                : null,
                             s.RelevanceScore,
                             s.ChunksUsed
                         })
@@ -433,6 +1063,160 @@ namespace rag_experiment.Controllers
             }
         }
 
+        /// <summary>
+        /// Returns the chunk-level evidence behind an assistant message: each cited document with the exact
+        /// chunks that were retrieved for it, most similar first.
+        /// </summary>
+        /// <param name="conversationId">The ID of the conversation</param>
+        /// <param name="messageId">The ID of the assistant message</param>
+        /// <returns>200 OK with sources and their chunks, or 404 if the message is not found</returns>
+        [HttpGet("{messageId}/evidence")]
+        public async Task<IActionResult> GetMessageEvidence(int conversationId, int messageId)
+        {
+            try
+            {
+                var userId = _userContext.GetCurrentUserId();
+
+                var messageExists = await _dbContext.Messages
+                    .AnyAsync(m => m.Id == messageId &&
+                                   m.ConversationId == conversationId &&
+                                   m.Conversation.UserId == userId);
+
+                if (!messageExists)
+                    return NotFound("Message not found");
+
+                var sources = await _dbContext.MessageSources
+                    .Where(s => s.MessageId == messageId)
+                    .OrderBy(s => s.Order)
+                    .Select(s => new
+                    {
+                        s.DocumentId,
+                        DocumentTitle = s.Document.Title ?? s.Document.OriginalFileName,
+                        s.RelevanceScore,
+                        Chunks = s.Chunks
+                            .OrderBy(c => c.Order)
+                            .Select(c => new
+                            {
+                                c.EmbeddingId,
+                                c.ChunkIndex,
+                                c.Similarity,
+                                c.Embedding.Text
+                            })
+                    })
+                    .ToListAsync();
+
+                return Ok(new { MessageId = messageId, Sources = sources });
+            }
+            catch (Exception ex)
+            {
+                return StatusCode(500, $"An error occurred while retrieving message evidence: {ex.Message}");
+            }
+        }
+
+        /// <summary>
+        /// Records the user's rating of an answer, with an optional comment, in the message's metadata so
+        /// answer quality can be reviewed later. A null rating clears the feedback.
+        /// </summary>
+        /// <param name="conversationId">The ID of the conversation</param>
+        /// <param name="messageId">The ID of the assistant message being rated</param>
+        /// <param name="request">The rating and optional comment</param>
+        /// <returns>200 OK with the updated metadata, or 404 if the message is not found</returns>
+        [HttpPut("{messageId}/feedback")]
+        public async Task<IActionResult> SetMessageFeedback(int conversationId, int messageId,
+            [FromBody] MessageFeedbackRequest request)
+        {
+            try
+            {
+                var userId = _userContext.GetCurrentUserId();
+
+                var message = await _dbContext.Messages
+                    .FirstOrDefaultAsync(m => m.Id == messageId &&
+                                              m.ConversationId == conversationId &&
+                                              m.Conversation.UserId == userId);
+
+                if (message == null)
+                    return NotFound("Message not found");
+
+                if (message.Role != MessageRole.Assistant)
+                    return BadRequest("Only answers can be rated");
+
+                UpdateMetadata(message, metadata =>
+                {
+                    if (request.Rating == null)
+                    {
+                        metadata.Remove("feedback");
+                        return;
+                    }
+
+                    metadata["feedback"] = new JsonObject
+                    {
+                        ["rating"] = request.Rating.Value.ToString(),
+                        ["comment"] = string.IsNullOrWhiteSpace(request.Comment) ? null : request.Comment.Trim(),
+                        ["submittedAt"] = DateTime.UtcNow
+                    };
+                });
+
+                await _dbContext.SaveChangesAsync();
+
+                _logger.LogInformation("Recorded {Rating} feedback for message {MessageId} in conversation {ConversationId}",
+                    request.Rating?.ToString() ?? "cleared", messageId, conversationId);
+
+                return Ok(new { message.Id, message.Metadata });
+            }
+            catch (Exception ex)
+            {
+                return StatusCode(500, $"An error occurred while saving feedback: {ex.Message}");
+            }
+        }
+
+        /// <summary>
+        /// Pins a message to (or unpins it from) the conversation's key findings. The flag lives in the
+        /// message's metadata, so the findings list is simply the conversation's pinned messages.
+        /// </summary>
+        /// <param name="conversationId">The ID of the conversation</param>
+        /// <param name="messageId">The ID of the message</param>
+        /// <param name="request">Whether the message should be pinned</param>
+        /// <returns>200 OK with the updated metadata, or 404 if the message is not found</returns>
+        [HttpPut("{messageId}/pin")]
+        public async Task<IActionResult> SetMessagePinned(int conversationId, int messageId,
+            [FromBody] PinMessageRequest request)
+        {
+            try
+            {
+                var userId = _userContext.GetCurrentUserId();
+
+                var message = await _dbContext.Messages
+                    .FirstOrDefaultAsync(m => m.Id == messageId &&
+                                              m.ConversationId == conversationId &&
+                                              m.Conversation.UserId == userId);
+
+                if (message == null)
+                    return NotFound("Message not found");
+
+                UpdateMetadata(message, metadata =>
+                {
+                    if (request.Pinned)
+                    {
+                        metadata["pinned"] = true;
+                        metadata["pinnedAt"] = DateTime.UtcNow;
+                    }
+                    else
+                    {
+                        metadata.Remove("pinned");
+                        metadata.Remove("pinnedAt");
+                    }
+                });
+
+                await _dbContext.SaveChangesAsync();
+
+                return Ok(new { message.Id, message.Metadata });
+            }
+            catch (Exception ex)
+            {
+                return StatusCode(500, $"An error occurred while pinning the message: {ex.Message}");
+            }
+        }
+
         [HttpDelete("{messageId}")]
         public async Task<IActionResult> DeleteMessage(int conversationId, int messageId)
         {
@@ -450,12 +1234,23 @@ namespace rag_experiment.Controllers
                 if (message == null)
                     return NotFound("Message not found");
 
+                // The re-parenting below commits on its own, so it shares a transaction with the delete
+                await using var transaction = await _dbContext.Database.BeginTransactionAsync();
+
+                // Keep the thread connected: replies move up to the deleted message's parent. Done in the
+                // database so the replies aren't tracked, otherwise EF would null their parent on Remove.
+                var newParentId = message.ParentMessageId;
+                await _dbContext.Messages
+                    .Where(m => m.ParentMessageId == messageId)
+                    .ExecuteUpdateAsync(setters => setters.SetProperty(m => m.ParentMessageId, newParentId));
+
                 _dbContext.Messages.Remove(message);
 
                 // Update conversation's UpdatedAt timestamp
                 message.Conversation.UpdatedAt = DateTime.UtcNow;
 
                 await _dbContext.SaveChangesAsync();
+                await transaction.CommitAsync();
 
                 return Ok(new { message = "Message deleted successfully" });
             }
@@ -464,6 +1259,48 @@ namespace rag_experiment.Controllers
                 return StatusCode(500, $"An error occurred while deleting the message: {ex.Message}");
             }
         }
+
+        /// <summary>
+        /// Applies a change to a message's JSON metadata, keeping whatever else is stored there. Metadata that
+        /// isn't a JSON object (clients may send free text) is kept under "text".
+        /// </summary>
+        private static void UpdateMetadata(Message message, Action<JsonObject> update)
+        {
+            JsonObject metadata;
+            try
+            {
+                metadata = string.IsNullOrWhiteSpace(message.Metadata)
+                    ? new JsonObject()
+                    : JsonNode.Parse(message.Metadata) as JsonObject ?? new JsonObject { ["text"] = message.Metadata };
+            }
+            catch (JsonException)
+            {
+                metadata = new JsonObject { ["text"] = message.Metadata };
+            }
+
+            update(metadata);
+            message.Metadata = metadata.Count > 0 ? metadata.ToJsonString() : null;
+        }
+
+        private sealed record PreparedAnswer(
+            string Query,
+            string Context,
+            QueryIntent Intent,
+            List<MessageSource> Sources,
+            RetrievalDiagnostics Diagnostics);
+
+        private sealed record ComparedCompany(
+            string CompanyName,
+            string Ticker,
+            List<string> DocumentIds);
+
+        private sealed record DocumentContribution(
+            string DocumentId,
+            string DocumentTitle,
+            int ChunksUsed,
+            float AvgSimilarity,
+            float MaxSimilarity,
+            List<RetrievedChunk> Chunks);
     }
 
     public class AddMessageRequest
@@ -481,5 +1318,47 @@ namespace rag_experiment.Controllers
         /// If provided, these documents will be included in the context regardless of similarity scores.
         /// </summary>
         public List<int>? ReferencedDocumentIds { get; set; }
+
+        /// <summary>
+        /// Optional message this one follows, e.g. the last message of the branch the user is viewing.
+        /// Defaults to the latest message in the conversation.
+        /// </summary>
+        public int? ParentMessageId { get; set; }
+
+        /// <summary>
+        /// Optional earlier User message this one is an edited version of. The new message is saved alongside
+        /// it as a new branch (same parent), so the original question and its answers are kept.
+        /// </summary>
+        public int? EditedMessageId { get; set; }
+
+        /// <summary>
+        /// Optional overrides of the intent, retrieval thresholds and model tier for this question only.
+        /// </summary>
+        public RetrievalOptions? Retrieval { get; set; }
+    }
+
+    public enum MessageFeedbackRating
+    {
+        Up,
+        Down
+    }
+
+    public class MessageFeedbackRequest
+    {
+        /// <summary>
+        /// Thumbs up or down; null clears earlier feedback
+        /// </summary>
+        public MessageFeedbackRating? Rating { get; set; }
+
+        /// <summary>
+        /// Optional explanation of the rating
+        /// </summary>
+        [MaxLength(2000, ErrorMessage = "Comment cannot exceed 2000 characters")]
+        public string? Comment { get; set; }
+    }
+
+    public class PinMessageRequest
+    {
+        public bool Pinned { get; set; }
     }
 }
\ No newline at end of file
@@ -1,5 +1,7 @@
+using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using rag_experiment.Services;
+using rag_experiment.Services.Auth;
 using rag_experiment.Domain;
 using rag_experiment.Services.Query.Models;
 using Microsoft.Extensions.Options;
@@ -23,6 +25,7 @@ namespace rag_experiment.Controllers
         private readonly IConversationRepository _conversationRepository;
         private readonly IQueryIntentClassifier _queryIntentClassifier;
         private readonly IAdaptiveRetrievalStrategy _adaptiveRetrievalStrategy;
+        private readonly IUserContext _userContext;
         private readonly ILogger<QueryController> _logger;
 
         public QueryController(
@@ -36,6 +39,7 @@ namespace rag_experiment.Controllers
             IConversationRepository conversationRepository,
             IQueryIntentClassifier queryIntentClassifier,
             IAdaptiveRetrievalStrategy adaptiveRetrievalStrategy,
+            IUserContext userContext,
             ILogger<QueryController> logger)
         {
             _embeddingRepository = embeddingRepository;
@@ -46,6 +50,7 @@ namespace rag_experiment.Controllers
             _conversationRepository = conversationRepository;
             _queryIntentClassifier = queryIntentClassifier;
             _adaptiveRetrievalStrategy = adaptiveRetrievalStrategy;
+            _userContext = userContext;
             _logger = logger;
         }
 
@@ -163,6 +168,118 @@ namespace rag_experiment.Controllers
             }
         }
 
+        /// <summary>
+        /// Answers a one-off question from the user's library documents alone, leaving out every conversation's
+        /// filings and uploads. Nothing is saved; the answer and its sources are returned directly.
+        /// </summary>
+        /// <param name="request">The question</param>
+        /// <returns>The answer with the library documents it drew on</returns>
+        [HttpPost("library")]
+        [Authorize]
+        public async Task<IActionResult> QueryLibrary([FromBody] QueryLibraryRequest request)
+        {
+            if (string.IsNullOrWhiteSpace(request.Query))
+            {
+                return BadRequest("Query is required");
+            }
+
+            try
+            {
+                var userId = _userContext.GetCurrentUserId();
+
+                // Only documents whose ingestion finished have embeddings to search
+                var libraryDocuments = await _documentRepository.GetLibraryAsync(userId);
+                var searchableDocumentIds = libraryDocuments
+                    .Where(d => d.IngestionStatus == DocumentIngestionStatus.Completed)
+                    .Select(d => d.Id.ToString())
+                    .ToList();
+
+                if (!searchableDocumentIds.Any())
+                {
+                    return BadRequest("None of your documents have finished processing yet");
+                }
+
+                // 1. Classify query intent for adaptive retrieval
+                var intentResult = await _queryIntentClassifier.ClassifyQueryAsync(request.Query);
+                _logger.LogInformation("Library query intent classified as {Intent}: {Reasoning}",
+                    intentResult.Intent, intentResult.Reasoning);
+
+                var retrievalConfig = _adaptiveRetrievalStrategy.GetConfigForIntent(intentResult.Intent, request.Query);
+
+                // 2. Adaptive retrieval over the library documents only
+                var queryEmbedding = await _openAiEmbeddingGenerationService.GenerateEmbeddingAsync(request.Query);
+                var retrievedChunks = await _embeddingRepository.FindSimilarChunksAdaptiveAsync(
+                    queryEmbedding,
+                    retrievalConfig.MaxK,
+                    retrievalConfig.MinSimilarity,
+                    searchableDocumentIds);
+
+                _logger.LogInformation("Retrieved {Count} library chunks with threshold {Threshold}",
+                    retrievedChunks.Count, retrievalConfig.MinSimilarity);
+
+                // 3. Aggregate by document for source tracking
+                var documentContributions = retrievedChunks
+                    .GroupBy(chunk => chunk.DocumentId)
+                    .Select(g => new
+                    {
+                        DocumentId = int.Parse(g.Key),
+                        DocumentTitle = g.First().DocumentTitle,
+                        ChunksUsed = g.Count(),
+                        MaxSimilarity = g.Max(chunk => chunk.Similarity)
+                    })
+                    .OrderByDescending(d => d.MaxSimilarity)
+                    .ToList();
+
+                string llmResponse;
+                if (!retrievedChunks.Any())
+                {
+                    llmResponse = "I couldn't find anything about that in your documents.";
+                }
+                else if (intentResult.Intent == QueryIntent.Exhaustive)
+                {
+                    // Exhaustive retrieval is unbounded, so describe the matches instead of passing them all as context
+                    var documentCount = documentContributions.Count;
+                    var exhaustivePrompt = $"The user asked: \"{request.Query}\". Generate a brief, natural response informing them that you found {documentCount} documents related to their query. Do not mention specific document details, just acknowledge that {documentCount} documents were found and will be provided as sources.";
+
+                    llmResponse = await _llmService.GenerateResponseAsync(exhaustivePrompt, "");
+                }
+                else
+                {
+                    var contextBuilder = new StringBuilder();
+                    contextBuilder.AppendLine("=== YOUR DOCUMENTS ===");
+                    foreach (var chunk in retrievedChunks)
+                    {
+                        contextBuilder.AppendLine($"--- {chunk.DocumentTitle} ---");
+                        contextBuilder.AppendLine(chunk.Text);
+                        contextBuilder.AppendLine();
+                    }
+
+                    llmResponse = await _llmService.GenerateResponseAsync(request.Query, contextBuilder.ToString());
+                }
+
+                return Ok(new
+                {
+                    originalQuery = request.Query,
+                    intent = intentResult.Intent.ToString(),
+                    llmResponse,
+                    sources = documentContributions.Select(d => new
+                    {
+                        documentId = d.DocumentId,
+                        documentTitle = d.DocumentTitle,
+                        relevanceScore = d.MaxSimilarity,
+                        chunksUsed = d.ChunksUsed
+                    }).ToList(),
+                    totalChunks = retrievedChunks.Count,
+                    uniqueDocuments = documentContributions.Count
+                });
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error occurred processing library query");
+                return StatusCode(500, $"An error occurred processing the query: {ex.Message}");
+            }
+        }
+
         [HttpPost("query-knowledge-base")]
         public async Task<IActionResult> QueryKnowledgeBase([FromBody] QueryRequest request)
         {
@@ -350,6 +467,11 @@ namespace rag_experiment.Controllers
         }
     }
 
+    public class QueryLibraryRequest
+    {
+        public required string Query { get; set; }
+    }
+
     public class QueryRequest
     {
         public required string Query { get; set; }
@@ -0,0 +1,315 @@
+using System.ComponentModel.DataAnnotations;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using rag_experiment.Domain;
+using rag_experiment.Services;
+using rag_experiment.Services.Auth;
+
+namespace rag_experiment.Controllers;
+
+/// <summary>
+/// Due-diligence reports built from a conversation's answers. A report is edited on the client and
+/// saved whole, so its blocks are replaced on every save rather than patched one by one.
+/// </summary>
+[ApiController]
+[Authorize]
+[Route("api/[controller]")]
+public class ReportController : ControllerBase
+{
+    private readonly AppDbContext _dbContext;
+    private readonly IUserContext _userContext;
+
+    /// <summary>
+    /// Upper bound on blocks in one report, to keep a runaway client from saving an unbounded list
+    /// </summary>
+    private const int MaxBlocksPerReport = 200;
+
+    public ReportController(AppDbContext dbContext, IUserContext userContext)
+    {
+        _dbContext = dbContext;
+        _userContext = userContext;
+    }
+
+    /// <summary>
+    /// Lists the reports built from a conversation, most recently edited first
+    /// </summary>
+    /// <param name="conversationId">The conversation the reports belong to</param>
+    /// <returns>Each report's title, timestamps and number of blocks</returns>
+    [HttpGet]
+    public async Task<IActionResult> GetReports([FromQuery] int conversationId)
+    {
+        try
+        {
+            var userId = _userContext.GetCurrentUserId();
+
+            var conversationExists = await _dbContext.Conversations
+                .AnyAsync(c => c.Id == conversationId && c.UserId == userId);
+            if (!conversationExists)
+                return NotFound("Conversation not found");
+
+            var reports = await _dbContext.Reports
+                .Where(r => r.ConversationId == conversationId)
+                .OrderByDescending(r => r.UpdatedAt)
+                .Select(r => new
+                {
+                    r.Id,
+                    r.ConversationId,
+                    r.Title,
+                    r.CreatedAt,
+                    r.UpdatedAt,
+                    BlockCount = r.Blocks.Count
+                })
+                .ToListAsync();
+
+            return Ok(reports);
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, $"An error occurred while retrieving the reports: {ex.Message}");
+        }
+    }
+
+    /// <summary>
+    /// Gets a report with its blocks
+    /// </summary>
+    /// <param name="id">The report ID</param>
+    /// <returns>The report, its blocks ordered by section and position</returns>
+    [HttpGet("{id}")]
+    public async Task<IActionResult> GetReport(int id)
+    {
+        try
+        {
+            var userId = _userContext.GetCurrentUserId();
+
+            var report = await _dbContext.Reports
+                .Include(r => r.Blocks)
+                .FirstOrDefaultAsync(r => r.Id == id && r.Conversation.UserId == userId);
+
+            if (report == null)
+                return NotFound("Report not found");
+
+            return Ok(ToReportResponse(report));
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, $"An error occurred while retrieving the report: {ex.Message}");
+        }
+    }
+
+    /// <summary>
+    /// Creates an empty report for a conversation
+    /// </summary>
+    /// <param name="request">The conversation and an optional title</param>
+    /// <returns>The created report</returns>
+    [HttpPost]
+    public async Task<IActionResult> CreateReport([FromBody] CreateReportRequest request)
+    {
+        try
+        {
+            var userId = _userContext.GetCurrentUserId();
+
+            var conversation = await _dbContext.Conversations
+                .FirstOrDefaultAsync(c => c.Id == request.ConversationId && c.UserId == userId);
+
+            if (conversation == null)
+                return NotFound("Conversation not found");
+
+            var title = string.IsNullOrWhiteSpace(request.Title)
+                ? $"{conversation.Title} — due diligence"
+                : request.Title.Trim();
+
+            var report = new Report
+            {
+                ConversationId = conversation.Id,
+                Title = title.Length > 200 ? title[..200] : title
+            };
+
+            _dbContext.Reports.Add(report);
+            await _dbContext.SaveChangesAsync();
+
+            return Ok(ToReportResponse(report));
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, $"An error occurred while creating the report: {ex.Message}");
+        }
+    }
+
+    /// <summary>
+    /// Saves a report's title and blocks, replacing the blocks it had
+    /// </summary>
+    /// <param name="id">The report ID</param>
+    /// <param name="request">The title and every block, in order within each section</param>
+    /// <returns>The saved report</returns>
+    [HttpPut("{id}")]
+    public async Task<IActionResult> UpdateReport(int id, [FromBody] UpdateReportRequest request)
+    {
+        try
+        {
+            var userId = _userContext.GetCurrentUserId();
+
+            if (string.IsNullOrWhiteSpace(request.Title))
+                return BadRequest("The report needs a title");
+            if (request.Blocks.Count > MaxBlocksPerReport)
+                return BadRequest($"A report can have at most {MaxBlocksPerReport} blocks");
+
+            var report = await _dbContext.Reports
+                .Include(r => r.Blocks)
+                .FirstOrDefaultAsync(r => r.Id == id && r.Conversation.UserId == userId);
+
+            if (report == null)
+                return NotFound("Report not found");
+
+            // Blocks may only point at answers from the report's own conversation
+            var requestedMessageIds = request.Blocks
+                .Where(b => b.SourceMessageId.HasValue)
+                .Select(b => b.SourceMessageId!.Value)
+                .Distinct()
+                .ToList();
+            var conversationMessageIds = (await _dbContext.Messages
+                .Where(m => m.ConversationId == report.ConversationId && requestedMessageIds.Contains(m.Id))
+                .Select(m => m.Id)
+                .ToListAsync())
+                .ToHashSet();
+
+            _dbContext.ReportBlocks.RemoveRange(report.Blocks);
+
+            report.Title = request.Title.Trim();
+            report.UpdatedAt = DateTime.UtcNow;
+            report.Blocks = request.Blocks
+                .GroupBy(b => b.Section)
+                .SelectMany(section => section.Select((block, position) => new ReportBlock
+                {
+                    Section = section.Key,
+                    Position = position,
+                    Content = block.Content,
+                    SourceMessageId = block.SourceMessageId.HasValue &&
+                                      conversationMessageIds.Contains(block.SourceMessageId.Value)
+                        ? block.SourceMessageId
+                        : null,
+                    Sources = block.Sources
+                }))
+                .ToList();
+
+            await _dbContext.SaveChangesAsync();
+
+            return Ok(ToReportResponse(report));
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, $"An error occurred while saving the report: {ex.Message}");
+        }
+    }
+
+    /// <summary>
+    /// Deletes a report; the answers it was built from are left untouched
+    /// </summary>
+    /// <param name="id">The report ID</param>
+    [HttpDelete("{id}")]
+    public async Task<IActionResult> DeleteReport(int id)
+    {
+        try
+        {
+            var userId = _userContext.GetCurrentUserId();
+
+            var report = await _dbContext.Reports
+                .FirstOrDefaultAsync(r => r.Id == id && r.Conversation.UserId == userId);
+
+            if (report == null)
+                return NotFound("Report not found");
+
+            // Blocks are removed by the cascade
+            _dbContext.Reports.Remove(report);
+            await _dbContext.SaveChangesAsync();
+
+            return Ok(new { message = "Report deleted successfully" });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, $"An error occurred while deleting the report: {ex.Message}");
+        }
+    }
+
+    private static object ToReportResponse(Report report) => new
+    {
+        report.Id,
+        report.ConversationId,
+        report.Title,
+        report.CreatedAt,
+        report.UpdatedAt,
+        Blocks = report.Blocks
+            .OrderBy(b => b.Section)
+            .ThenBy(b => b.Position)
+            .Select(b => new
+            {
+                b.Id,
+                b.Section,
+                b.Position,
+                b.Content,
+                b.SourceMessageId,
+                b.Sources
+            })
+    };
+}
+
+/// <summary>
+/// Request to create a report for a conversation.
+/// </summary>
+public class CreateReportRequest
+{
+    /// <summary>
+    /// Conversation whose answers the report is built from.
+    /// </summary>
+    public int ConversationId { get; set; }
+
+    /// <summary>
+    /// Title of the report. Defaults to one derived from the conversation's title.
+    /// </summary>
+    [MaxLength(200)]
+    public string? Title { get; set; }
+}
+
+/// <summary>
+/// Request to save a report's title and blocks.
+/// </summary>
+public class UpdateReportRequest
+{
+    /// <summary>
+    /// Title of the report.
+    /// </summary>
+    [MaxLength(200)]
+    public string Title { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Every block of the report. Blocks keep the order they are given in within their section.
+    /// </summary>
+    public List<ReportBlockRequest> Blocks { get; set; } = new();
+}
+
+/// <summary>
+/// One block of a report being saved.
+/// </summary>
+public class ReportBlockRequest
+{
+    /// <summary>
+    /// Section the block belongs to.
+    /// </summary>
+    public ReportSection Section { get; set; }
+
+    /// <summary>
+    /// Markdown of the block.
+    /// </summary>
+    [Required]
+    public string Content { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Answer the block was taken from, if any.
+    /// </summary>
+    public int? SourceMessageId { get; set; }
+
+    /// <summary>
+    /// JSON copy of the answer's document sources, stored as given.
+    /// </summary>
+    public string? Sources { get; set; }
+}
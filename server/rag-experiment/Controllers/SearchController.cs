@@ -0,0 +1,254 @@
+using System.ComponentModel.DataAnnotations;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using rag_experiment.Services;
+using rag_experiment.Services.Auth;
+using rag_experiment.Services.Ingestion.VectorStorage;
+
+namespace rag_experiment.Controllers;
+
+/// <summary>
+/// Research search across every conversation of the current user, so one question can be asked of
+/// all the companies and documents they have ingested.
+/// </summary>
+[ApiController]
+[Authorize]
+[Route("api/[controller]")]
+public class SearchController : ControllerBase
+{
+    private readonly AppDbContext _dbContext;
+    private readonly IUserContext _userContext;
+    private readonly IEmbeddingRepository _embeddingRepository;
+    private readonly IEmbeddingGenerationService _embeddingGenerationService;
+    private readonly ILogger<SearchController> _logger;
+
+    public SearchController(
+        AppDbContext dbContext,
+        IUserContext userContext,
+        IEmbeddingRepository embeddingRepository,
+        IEmbeddingGenerationService embeddingGenerationService,
+        ILogger<SearchController> logger)
+    {
+        _dbContext = dbContext;
+        _userContext = userContext;
+        _embeddingRepository = embeddingRepository;
+        _embeddingGenerationService = embeddingGenerationService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Finds the passages most similar to the query in all of the user's conversations, optionally
+    /// restricted to some conversations or company tickers.
+    /// </summary>
+    /// <param name="request">The query and its filters</param>
+    /// <returns>
+    /// Matching passages grouped by conversation, then company (null for uploaded documents), then
+    /// document; every level is ordered by its best similarity
+    /// </returns>
+    [HttpPost]
+    public async Task<IActionResult> Search([FromBody] SearchRequest request)
+    {
+        try
+        {
+            var userId = _userContext.GetCurrentUserId();
+            var query = request.Query.Trim();
+
+            // Tickers are resolved to the filings of those companies, in whichever conversation they were added.
+            // Filings ingested before they had Document rows are keyed by name instead, so those are matched
+            // through the conversations holding only that company.
+            List<string>? documentIds = null;
+            List<int>? legacyConversationIds = null;
+            if (request.Tickers is { Count: > 0 })
+            {
+                var tickers = request.Tickers.Select(t => t.Trim().ToUpperInvariant()).ToList();
+                documentIds = (await _dbContext.Documents
+                        .Where(d => d.ConversationCompany != null &&
+                                    d.ConversationCompany.Conversation.UserId == userId &&
+                                    tickers.Contains(d.ConversationCompany.Ticker.ToUpper()))
+                        .Select(d => d.Id)
+                        .ToListAsync())
+                    .Select(id => id.ToString())
+                    .ToList();
+
+                legacyConversationIds = await _dbContext.Conversations
+                    .Where(c => c.UserId == userId &&
+                                c.Companies.Count == 1 &&
+                                c.Companies.Any(company => tickers.Contains(company.Ticker.ToUpper())))
+                    .Select(c => c.Id)
+                    .ToListAsync();
+
+                if (documentIds.Count == 0 && legacyConversationIds.Count == 0)
+                {
+                    return Ok(new { query, totalPassages = 0, conversations = Array.Empty<object>() });
+                }
+            }
+
+            var conversationIds = request.ConversationIds is { Count: > 0 } ? request.ConversationIds : null;
+
+            var queryEmbedding = await _embeddingGenerationService.GenerateEmbeddingAsync(query);
+            var chunks = await _embeddingRepository.FindSimilarChunksAcrossConversationsAsync(
+                queryEmbedding,
+                request.Limit,
+                request.MinSimilarity,
+                conversationIds,
+                documentIds,
+                legacyConversationIds);
+
+            _logger.LogInformation("Cross-conversation search retrieved {Count} chunks (minSimilarity: {MinSimilarity})",
+                chunks.Count, request.MinSimilarity);
+
+            // DocumentId is the string form of the Document's int ID for filings and uploads
+            var matchedDocumentIds = chunks
+                .Select(c => int.TryParse(c.DocumentId, out var id) ? id : (int?)null)
+                .OfType<int>()
+                .Distinct()
+                .ToList();
+
+            var documents = await _dbContext.Documents
+                .Where(d => matchedDocumentIds.Contains(d.Id))
+                .Select(d => new SearchDocument(
+                    d.Id,
+                    d.Title ?? d.OriginalFileName,
+                    d.DocumentLink,
+                    d.ConversationCompanyId,
+                    d.ConversationCompany != null ? d.ConversationCompany.CompanyName : null,
+                    d.ConversationCompany != null ? d.ConversationCompany.Ticker : null))
+                .ToDictionaryAsync(d => d.Id!.Value.ToString());
+
+            var matchedConversationIds = chunks.Select(c => c.ConversationId).Distinct().ToList();
+            var conversations = await _dbContext.Conversations
+                .Where(c => c.UserId == userId && matchedConversationIds.Contains(c.Id))
+                .Select(c => new { c.Id, c.Title, c.UpdatedAt })
+                .ToDictionaryAsync(c => c.Id);
+
+            // Filings keyed by name have no Document to link to; they are shown under their conversation's
+            // company when it has only one, which is the company they were ingested for
+            var singleCompanies = await _dbContext.ConversationCompanies
+                .Where(c => matchedConversationIds.Contains(c.ConversationId) &&
+                            c.Conversation.Companies.Count == 1)
+                .ToDictionaryAsync(c => c.ConversationId);
+
+            SearchDocument? ResolveDocument(ConversationRetrievedChunk chunk)
+            {
+                if (int.TryParse(chunk.DocumentId, out _))
+                {
+                    return documents.GetValueOrDefault(chunk.DocumentId);
+                }
+
+                var company = singleCompanies.GetValueOrDefault(chunk.ConversationId);
+                return new SearchDocument(null, chunk.DocumentTitle, null, company?.Id, company?.CompanyName,
+                    company?.Ticker);
+            }
+
+            // Chunks of deleted documents or conversations can't be linked back, so they are left out
+            var resolvedChunks = chunks
+                .Select(c => (Chunk: c, Document: ResolveDocument(c)))
+                .Where(c => c.Document != null && conversations.ContainsKey(c.Chunk.ConversationId))
+                .Select(c => (c.Chunk, Document: c.Document!))
+                .ToList();
+
+            var results = resolvedChunks
+                .GroupBy(c => c.Chunk.ConversationId)
+                .Select(conversationGroup => new
+                {
+                    conversationId = conversationGroup.Key,
+                    title = conversations[conversationGroup.Key].Title,
+                    updatedAt = conversations[conversationGroup.Key].UpdatedAt,
+                    bestSimilarity = conversationGroup.Max(c => c.Chunk.Similarity),
+                    companies = conversationGroup
+                        .GroupBy(c => c.Document.ConversationCompanyId)
+                        .Select(companyGroup =>
+                        {
+                            var company = companyGroup.First().Document;
+                            return new
+                            {
+                                companyId = companyGroup.Key,
+                                companyName = company.CompanyName,
+                                ticker = company.Ticker,
+                                bestSimilarity = companyGroup.Max(c => c.Chunk.Similarity),
+                                documents = companyGroup
+                                    .GroupBy(c => c.Chunk.DocumentId)
+                                    .Select(documentGroup =>
+                                    {
+                                        var document = documentGroup.First().Document;
+                                        return new
+                                        {
+                                            documentId = document.Id,
+                                            title = document.Title,
+                                            documentLink = document.DocumentLink,
+                                            bestSimilarity = documentGroup.Max(c => c.Chunk.Similarity),
+                                            passages = documentGroup
+                                                .Select(c => c.Chunk)
+                                                .OrderByDescending(c => c.Similarity)
+                                                .Select(c => new
+                                                {
+                                                    embeddingId = c.EmbeddingId,
+                                                    chunkIndex = c.ChunkIndex,
+                                                    text = c.Text,
+                                                    similarity = c.Similarity
+                                                })
+                                                .ToList()
+                                        };
+                                    })
+                                    .OrderByDescending(d => d.bestSimilarity)
+                                    .ToList()
+                            };
+                        })
+                        .OrderByDescending(c => c.bestSimilarity)
+                        .ToList()
+                })
+                .OrderByDescending(c => c.bestSimilarity)
+                .ToList();
+
+            return Ok(new { query, totalPassages = resolvedChunks.Count, conversations = results });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, $"An error occurred while searching your conversations: {ex.Message}");
+        }
+    }
+
+    private sealed record SearchDocument(
+        int? Id,
+        string Title,
+        string? DocumentLink,
+        int? ConversationCompanyId,
+        string? CompanyName,
+        string? Ticker);
+}
+
+/// <summary>
+/// Request to search across all of the user's conversations.
+/// </summary>
+public class SearchRequest
+{
+    /// <summary>
+    /// The research question to search for.
+    /// </summary>
+    [Required]
+    [MinLength(1)]
+    public string Query { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Maximum number of passages to return.
+    /// </summary>
+    [Range(1, 200, ErrorMessage = "Limit must be between 1 and 200")]
+    public int Limit { get; set; } = 50;
+
+    /// <summary>
+    /// Minimum similarity a passage needs to be returned (0.0 to 1.0).
+    /// </summary>
+    [Range(0.0, 1.0, ErrorMessage = "MinSimilarity must be between 0 and 1")]
+    public float MinSimilarity { get; set; } = 0.5f;
+
+    /// <summary>
+    /// Only search these conversations. When empty, every conversation is searched.
+    /// </summary>
+    public List<int>? ConversationIds { get; set; }
+
+    /// <summary>
+    /// Only search the filings of these company tickers. When empty, every document is searched.
+    /// </summary>
+    public List<string>? Tickers { get; set; }
+}
@@ -29,10 +29,20 @@ namespace rag_experiment.Domain
         public List<Document> Documents { get; set; } = new();
         public List<Message> Messages { get; set; } = new();
 
+        /// <summary>
+        /// Library documents attached to this conversation
+        /// </summary>
+        public List<DocumentAttachment> DocumentAttachments { get; set; } = new();
+
         /// <summary>
         /// The companies being researched in this conversation
         /// </summary>
         public List<ConversationCompany> Companies { get; set; } = new();
+
+        /// <summary>
+        /// Due-diligence reports built from this conversation's answers
+        /// </summary>
+        public List<Report> Reports { get; set; } = new();
     }
 }
 
@@ -1,4 +1,5 @@
 using System.ComponentModel.DataAnnotations;
+using rag_experiment.Services.BackgroundJobs.Models;
 
 namespace rag_experiment.Domain
 {
@@ -24,10 +25,21 @@ namespace rag_experiment.Domain
         [MaxLength(20)]
         public string Ticker { get; set; } = string.Empty;
 
+        /// <summary>
+        /// The status of filing ingestion for this company.
+        /// Null if no ingestion has been started.
+        /// </summary>
+        public BatchProcessingStatus? IngestionStatus { get; set; }
+
         /// <summary>
         /// The conversation this company is associated with
         /// </summary>
         public int ConversationId { get; set; }
         public Conversation Conversation { get; set; }
+
+        /// <summary>
+        /// Filings ingested for this company
+        /// </summary>
+        public List<Document> Documents { get; set; } = new();
     }
 }
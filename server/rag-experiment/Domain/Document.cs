@@ -1,5 +1,16 @@
 namespace rag_experiment.Domain
 {
+    /// <summary>
+    /// Ingestion state of an uploaded document. Filings are tracked per company batch instead.
+    /// </summary>
+    public enum DocumentIngestionStatus
+    {
+        Pending,
+        Processing,
+        Completed,
+        Failed
+    }
+
     public class Document
     {
         public int Id { get; set; }
@@ -39,6 +50,41 @@ namespace rag_experiment.Domain
         public int? ConversationId { get; set; }
         public Conversation? Conversation { get; set; }
 
+        /// <summary>
+        /// The company this filing belongs to in multi-company conversations.
+        /// Null for user uploads and training data.
+        /// </summary>
+        public int? ConversationCompanyId { get; set; }
+        public ConversationCompany? ConversationCompany { get; set; }
+
+        /// <summary>
+        /// Folder the document sat in inside an imported data-room archive, starting with the archive's name
+        /// (e.g. "Project Falcon/01 Financials/Audited"). Null for documents that weren't imported from an archive.
+        /// </summary>
+        public string? FolderPath { get; set; }
+
+        /// <summary>
+        /// The user who uploaded the document. Set for uploads, including those in the user's document
+        /// library, which belong to no conversation; filings are owned through their conversation.
+        /// </summary>
+        public int? UserId { get; set; }
+        public User? User { get; set; }
+
+        /// <summary>
+        /// Ingestion state of an uploaded document; null for filings
+        /// </summary>
+        public DocumentIngestionStatus? IngestionStatus { get; set; }
+
+        /// <summary>
+        /// Why ingestion failed, when IngestionStatus is Failed
+        /// </summary>
+        public string? IngestionError { get; set; }
+
+        /// <summary>
+        /// Conversations a library document has been attached to, making it searchable in them
+        /// </summary>
+        public List<DocumentAttachment> Attachments { get; set; } = new();
+
         // Messages that cited this document as a source
         public List<MessageSource> CitedInMessages { get; set; } = new();
     }
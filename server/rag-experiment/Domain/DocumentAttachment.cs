@@ -0,0 +1,19 @@
+namespace rag_experiment.Domain
+{
+    /// <summary>
+    /// Attaches a document from the user's library to a conversation, so the conversation's questions
+    /// retrieve from it alongside the conversation's own filings and uploads
+    /// </summary>
+    public class DocumentAttachment
+    {
+        public int Id { get; set; }
+
+        public int DocumentId { get; set; }
+        public Document Document { get; set; }
+
+        public int ConversationId { get; set; }
+        public Conversation Conversation { get; set; }
+
+        public DateTime AttachedAt { get; set; } = DateTime.UtcNow;
+    }
+}
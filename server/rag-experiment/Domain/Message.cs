@@ -26,6 +26,13 @@ namespace rag_experiment.Domain
         public int ConversationId { get; set; }
         public Conversation Conversation { get; set; }
 
+        // Branching: the message this one follows in its thread (null for the first message). Edited
+        // questions and regenerated answers share a parent with the message they replace, so
+        // siblings are alternative branches the user can switch between.
+        public int? ParentMessageId { get; set; }
+        public Message? ParentMessage { get; set; }
+        public List<Message> Replies { get; set; } = new();
+
         // Source documents that contributed to this message (only populated for Assistant messages)
         public List<MessageSource> Sources { get; set; } = new();
     }
@@ -40,6 +40,9 @@ namespace rag_experiment.Domain
         // Navigation properties
         public Message Message { get; set; }
         public Document Document { get; set; }
+
+        // The retrieved chunks from this document that were used as evidence
+        public List<MessageSourceChunk> Chunks { get; set; } = new();
     }
 }
 
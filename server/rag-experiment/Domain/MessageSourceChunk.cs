@@ -0,0 +1,44 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace rag_experiment.Domain
+{
+    /// <summary>
+    /// Represents a single retrieved chunk that was used as evidence for a message source.
+    /// Lets the UI show exactly which passages of a cited document backed an assistant answer.
+    /// </summary>
+    public class MessageSourceChunk
+    {
+        public int Id { get; set; }
+
+        /// <summary>
+        /// Foreign key to the message source (cited document) this chunk belongs to
+        /// </summary>
+        [Required]
+        public int MessageSourceId { get; set; }
+
+        /// <summary>
+        /// Foreign key to the embedding row holding the chunk text
+        /// </summary>
+        [Required]
+        public int EmbeddingId { get; set; }
+
+        /// <summary>
+        /// Position of the chunk within its document, used to fetch surrounding context
+        /// </summary>
+        public int ChunkIndex { get; set; }
+
+        /// <summary>
+        /// The similarity score of this chunk to the query when it was retrieved (0.0 to 1.0)
+        /// </summary>
+        public float Similarity { get; set; }
+
+        /// <summary>
+        /// Display order within the source (most similar first)
+        /// </summary>
+        public int Order { get; set; }
+
+        // Navigation properties
+        public MessageSource MessageSource { get; set; }
+        public Embedding Embedding { get; set; }
+    }
+}
@@ -0,0 +1,24 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace rag_experiment.Domain
+{
+    /// <summary>
+    /// A due-diligence report assembled from a conversation's answers. It is saved apart from the
+    /// conversation's messages, so blocks can be edited freely and the report reopened and
+    /// re-exported later.
+    /// </summary>
+    public class Report
+    {
+        public int Id { get; set; }
+
+        [Required][MaxLength(200)] public string Title { get; set; }
+
+        public int ConversationId { get; set; }
+        public Conversation Conversation { get; set; }
+
+        public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+        public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
+
+        public List<ReportBlock> Blocks { get; set; } = new();
+    }
+}
@@ -0,0 +1,53 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace rag_experiment.Domain
+{
+    /// <summary>
+    /// The fixed sections of a due-diligence report, in the order they are printed
+    /// </summary>
+    public enum ReportSection
+    {
+        Business,
+        Financials,
+        Risks,
+        Management,
+        Valuation
+    }
+
+    /// <summary>
+    /// One block of text in a report section, usually an assistant answer the user dropped in and
+    /// then edited
+    /// </summary>
+    public class ReportBlock
+    {
+        public int Id { get; set; }
+
+        public int ReportId { get; set; }
+        public Report Report { get; set; }
+
+        [Required] public ReportSection Section { get; set; }
+
+        /// <summary>
+        /// Order of the block within its section
+        /// </summary>
+        public int Position { get; set; }
+
+        /// <summary>
+        /// The block's markdown, whose [n] citation markers refer to Sources
+        /// </summary>
+        [Required] public string Content { get; set; }
+
+        /// <summary>
+        /// The answer the block was taken from; null once that message is deleted, or for blocks
+        /// the user wrote themselves
+        /// </summary>
+        public int? SourceMessageId { get; set; }
+        public Message? SourceMessage { get; set; }
+
+        /// <summary>
+        /// JSON copy of the answer's document sources, so citations survive edits to the text and the
+        /// answer being deleted
+        /// </summary>
+        public string? Sources { get; set; }
+    }
+}
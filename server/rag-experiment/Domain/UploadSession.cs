@@ -0,0 +1,37 @@
+namespace rag_experiment.Domain
+{
+    /// <summary>
+    /// A chunked upload in progress. The file is appended to a temporary file chunk by chunk, so an
+    /// interrupted upload resumes from ReceivedBytes instead of starting over, and becomes a Document
+    /// once every byte has arrived.
+    /// </summary>
+    public class UploadSession
+    {
+        public Guid Id { get; set; }
+
+        public int UserId { get; set; }
+        public User User { get; set; }
+
+        /// <summary>
+        /// Conversation the finished document is uploaded into; null for the user's library
+        /// </summary>
+        public int? ConversationId { get; set; }
+        public Conversation? Conversation { get; set; }
+
+        public string OriginalFileName { get; set; }
+        public string ContentType { get; set; }
+        public string Description { get; set; }
+
+        public long TotalBytes { get; set; }
+
+        /// <summary>
+        /// Bytes appended so far, which is also the offset the next chunk must start at
+        /// </summary>
+        public long ReceivedBytes { get; set; }
+
+        public string TempFilePath { get; set; }
+
+        public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+        public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
+    }
+}
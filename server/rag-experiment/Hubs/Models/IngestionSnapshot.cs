@@ -0,0 +1,68 @@
+using rag_experiment.Services.BackgroundJobs.Models;
+
+namespace rag_experiment.Hubs.Models;
+
+/// <summary>
+/// Current ingestion state of every company in a conversation, read from the batch status files.
+/// Lets clients that connect mid-ingestion (page reloads, second tabs) show progress straight away
+/// and then continue with live hub notifications.
+/// </summary>
+public record IngestionSnapshot
+{
+    /// <summary>
+    /// One entry per company that has an ingestion batch
+    /// </summary>
+    public required IReadOnlyList<CompanyIngestionSnapshot> Companies { get; init; }
+
+    /// <summary>
+    /// When the snapshot was read; clients prefer live notifications newer than this
+    /// </summary>
+    public DateTime Timestamp { get; init; } = DateTime.UtcNow;
+}
+
+/// <summary>
+/// Ingestion state of a single company's batch.
+/// </summary>
+public record CompanyIngestionSnapshot
+{
+    /// <summary>
+    /// Company (ticker) the batch belongs to
+    /// </summary>
+    public required string CompanyIdentifier { get; init; }
+
+    /// <summary>
+    /// Current stage of the batch
+    /// </summary>
+    public required BatchProcessingStatus Stage { get; init; }
+
+    /// <summary>
+    /// Progress percentage (0-100) at the start of the current stage, matching the live updates;
+    /// null once the batch failed or was cancelled
+    /// </summary>
+    public int? ProgressPercent { get; init; }
+
+    /// <summary>
+    /// Human-readable description of the current stage
+    /// </summary>
+    public required string Message { get; init; }
+
+    /// <summary>
+    /// Why the batch failed, when Stage is Failed
+    /// </summary>
+    public string? ErrorMessage { get; init; }
+
+    /// <summary>
+    /// When the batch was created
+    /// </summary>
+    public DateTime StartedAt { get; init; }
+
+    /// <summary>
+    /// When the batch completed or was cancelled
+    /// </summary>
+    public DateTime? CompletedAt { get; init; }
+
+    /// <summary>
+    /// Status of every document in the batch
+    /// </summary>
+    public IReadOnlyList<ProcessingDocumentStatus> Documents { get; init; } = Array.Empty<ProcessingDocumentStatus>();
+}
@@ -33,6 +33,16 @@ public record DocumentProcessingUpdate
     /// </summary>
     public int? TotalDocuments { get; init; }
 
+    /// <summary>
+    /// Company (ticker) whose ingestion this notification belongs to, for conversations researching several companies
+    /// </summary>
+    public string? CompanyIdentifier { get; init; }
+
+    /// <summary>
+    /// Conversation this notification belongs to; set by the notifier so one connection can follow several conversations
+    /// </summary>
+    public string? ConversationId { get; init; }
+
     /// <summary>
     /// Timestamp when this update was generated
     /// </summary>
@@ -64,6 +74,21 @@ public record ProcessingCompleteResult
     /// </summary>
     public TimeSpan? Duration { get; init; }
 
+    /// <summary>
+    /// Final status of every document in the batch, including which ones failed and why
+    /// </summary>
+    public IReadOnlyList<ProcessingDocumentStatus> Documents { get; init; } = Array.Empty<ProcessingDocumentStatus>();
+
+    /// <summary>
+    /// Company (ticker) whose ingestion this notification belongs to, for conversations researching several companies
+    /// </summary>
+    public string? CompanyIdentifier { get; init; }
+
+    /// <summary>
+    /// Conversation this notification belongs to
+    /// </summary>
+    public string? ConversationId { get; init; }
+
     /// <summary>
     /// Timestamp when processing completed
     /// </summary>
@@ -90,8 +115,126 @@ public record ProcessingErrorResult
     /// </summary>
     public int? DocumentsProcessed { get; init; }
 
+    /// <summary>
+    /// Status of every document in the batch at the time of failure
+    /// </summary>
+    public IReadOnlyList<ProcessingDocumentStatus> Documents { get; init; } = Array.Empty<ProcessingDocumentStatus>();
+
+    /// <summary>
+    /// Company (ticker) whose ingestion this notification belongs to, for conversations researching several companies
+    /// </summary>
+    public string? CompanyIdentifier { get; init; }
+
+    /// <summary>
+    /// Conversation this notification belongs to
+    /// </summary>
+    public string? ConversationId { get; init; }
+
     /// <summary>
     /// Timestamp when the error occurred
     /// </summary>
     public DateTime Timestamp { get; init; } = DateTime.UtcNow;
 }
+
+/// <summary>
+/// Notification sent when a user cancels a company's ingestion.
+/// </summary>
+public record ProcessingCancelledResult
+{
+    /// <summary>
+    /// Status of every document in the batch after cancelling; filings still in flight are marked as failed
+    /// </summary>
+    public IReadOnlyList<ProcessingDocumentStatus> Documents { get; init; } = Array.Empty<ProcessingDocumentStatus>();
+
+    /// <summary>
+    /// Company (ticker) whose ingestion was cancelled
+    /// </summary>
+    public string? CompanyIdentifier { get; init; }
+
+    /// <summary>
+    /// Conversation this notification belongs to
+    /// </summary>
+    public string? ConversationId { get; init; }
+
+    /// <summary>
+    /// Timestamp when the ingestion was cancelled
+    /// </summary>
+    public DateTime Timestamp { get; init; } = DateTime.UtcNow;
+}
+
+/// <summary>
+/// Progress of a single document (filing) within a batch.
+/// </summary>
+public record ProcessingDocumentStatus
+{
+    /// <summary>
+    /// Stored file name of the filing
+    /// </summary>
+    public required string FileName { get; init; }
+
+    /// <summary>
+    /// SEC form type (e.g., "10-K")
+    /// </summary>
+    public required string FilingType { get; init; }
+
+    /// <summary>
+    /// SEC accession number; unique per filing
+    /// </summary>
+    public required string AccessionNumber { get; init; }
+
+    /// <summary>
+    /// Date the filing was submitted to the SEC
+    /// </summary>
+    public required DateOnly FilingDate { get; init; }
+
+    /// <summary>
+    /// Furthest stage the document has reached; when ErrorMessage is set, the stage it failed in
+    /// </summary>
+    public required BatchProcessingStatus Stage { get; init; }
+
+    /// <summary>
+    /// Why the document failed; null while it is still processing or once it has completed
+    /// </summary>
+    public string? ErrorMessage { get; init; }
+
+    /// <summary>
+    /// When the document entered the pipeline
+    /// </summary>
+    public DateTime? StartedAt { get; init; }
+
+    /// <summary>
+    /// When the document entered its current stage
+    /// </summary>
+    public DateTime? StageStartedAt { get; init; }
+
+    /// <summary>
+    /// When the document completed or failed
+    /// </summary>
+    public DateTime? CompletedAt { get; init; }
+}
+
+/// <summary>
+/// Per-document status notification. Carries only the documents whose status changed.
+/// </summary>
+public record DocumentStatusUpdate
+{
+    /// <summary>
+    /// Documents whose stage or error changed
+    /// </summary>
+    public required IReadOnlyList<ProcessingDocumentStatus> Documents { get; init; }
+
+    /// <summary>
+    /// Company (ticker) whose ingestion this notification belongs to, for conversations researching several companies
+    /// </summary>
+    public string? CompanyIdentifier { get; init; }
+
+    /// <summary>
+    /// Conversation this notification belongs to
+    /// </summary>
+    public string? ConversationId { get; init; }
+
+    /// <summary>
+    /// Timestamp when this update was generated
+    /// </summary>
+    public DateTime Timestamp { get; init; } = DateTime.UtcNow;
+}
@@ -16,6 +16,13 @@ public interface IDocumentProcessingNotifier
     /// <param name="update">The progress update data</param>
     Task SendProgressUpdateAsync(string conversationId, DocumentProcessingUpdate update);
 
+    /// <summary>
+    /// Send per-document status changes to all clients subscribed to a conversation.
+    /// </summary>
+    /// <param name="conversationId">The conversation ID to send the update to</param>
+    /// <param name="update">The documents whose status changed</param>
+    Task SendDocumentStatusAsync(string conversationId, DocumentStatusUpdate update);
+
     /// <summary>
     /// Send a completion notification to all clients subscribed to a conversation.
     /// </summary>
@@ -29,6 +36,13 @@ public interface IDocumentProcessingNotifier
     /// <param name="conversationId">The conversation ID to send the notification to</param>
     /// <param name="error">The error data</param>
     Task SendErrorAsync(string conversationId, ProcessingErrorResult error);
+
+    /// <summary>
+    /// Send a cancellation notification to all clients subscribed to a conversation.
+    /// </summary>
+    /// <param name="conversationId">The conversation ID to send the notification to</param>
+    /// <param name="result">The cancellation data</param>
+    Task SendCancelledAsync(string conversationId, ProcessingCancelledResult result);
 }
 
 /// <summary>
@@ -57,7 +71,19 @@ public class DocumentProcessingNotifier : IDocumentProcessingNotifier
 
         await _hubContext.Clients
             .Group(conversationId)
-            .SendAsync("ReceiveProcessingUpdate", update);
+            .SendAsync("ReceiveProcessingUpdate", update with { ConversationId = conversationId });
+    }
+
+    /// <inheritdoc />
+    public async Task SendDocumentStatusAsync(string conversationId, DocumentStatusUpdate update)
+    {
+        _logger.LogInformation(
+            "Sending document status to conversation {ConversationId}: {Count} document(s)",
+            conversationId, update.Documents.Count);
+
+        await _hubContext.Clients
+            .Group(conversationId)
+            .SendAsync("ReceiveDocumentStatus", update with { ConversationId = conversationId });
     }
 
     /// <inheritdoc />
@@ -69,7 +95,7 @@ public class DocumentProcessingNotifier : IDocumentProcessingNotifier
 
         await _hubContext.Clients
             .Group(conversationId)
-            .SendAsync("ReceiveProcessingComplete", result);
+            .SendAsync("ReceiveProcessingComplete", result with { ConversationId = conversationId });
     }
 
     /// <inheritdoc />
@@ -81,6 +107,18 @@ public class DocumentProcessingNotifier : IDocumentProcessingNotifier
 
         await _hubContext.Clients
             .Group(conversationId)
-            .SendAsync("ReceiveProcessingError", error);
+            .SendAsync("ReceiveProcessingError", error with { ConversationId = conversationId });
+    }
+
+    /// <inheritdoc />
+    public async Task SendCancelledAsync(string conversationId, ProcessingCancelledResult result)
+    {
+        _logger.LogInformation(
+            "Sending cancellation notification to conversation {ConversationId}: Company={Company}",
+            conversationId, result.CompanyIdentifier);
+
+        await _hubContext.Clients
+            .Group(conversationId)
+            .SendAsync("ReceiveProcessingCancelled", result with { ConversationId = conversationId });
     }
 }
@@ -0,0 +1,93 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+using Npgsql.EntityFrameworkCore.PostgreSQL.Metadata;
+
+#nullable disable
+
+namespace rag_experiment.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddMessageSourceChunks : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "MessageSourceChunks",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "integer", nullable: false)
+                        .Annotation("Npgsql:ValueGenerationStrategy", NpgsqlValueGenerationStrategy.IdentityByDefaultColumn),
+                    MessageSourceId = table.Column<int>(type: "integer", nullable: false),
+                    EmbeddingId = table.Column<int>(type: "integer", nullable: false),
+                    ChunkIndex = table.Column<int>(type: "integer", nullable: false),
+                    Similarity = table.Column<float>(type: "real", nullable: false),
+                    Order = table.Column<int>(type: "integer", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_MessageSourceChunks", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_MessageSourceChunks_Embeddings_EmbeddingId",
+                        column: x => x.EmbeddingId,
+                        principalTable: "Embeddings",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_MessageSourceChunks_MessageSources_MessageSourceId",
+                        column: x => x.MessageSourceId,
+                        principalTable: "MessageSources",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_MessageSourceChunks_EmbeddingId",
+                table: "MessageSourceChunks",
+                column: "EmbeddingId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_MessageSourceChunks_MessageSourceId",
+                table: "MessageSourceChunks",
+                column: "MessageSourceId");
+
+            // Filings ingested so far have no Document rows: their embeddings are keyed by the filing's name
+            // instead of a Document ID, so they couldn't be cited or opened. Each one gets a Document, whose
+            // text is rebuilt from its chunks since the downloaded files are only kept in the job's temp
+            // folder, and its embeddings are re-keyed to it.
+            migrationBuilder.Sql(
+                """
+                WITH legacy AS (
+                    SELECT "ConversationId",
+                           "DocumentId" AS "SourceDocument",
+                           MIN("DocumentTitle") AS "Title",
+                           string_agg("Text", E'\n\n' ORDER BY "ChunkIndex") AS "DocumentText"
+                    FROM "Embeddings"
+                    WHERE "ConversationId" IS NOT NULL
+                      AND "Owner" = 0
+                      AND "DocumentId" !~ '^[0-9]+$'
+                    GROUP BY "ConversationId", "DocumentId"
+                ),
+                inserted AS (
+                    INSERT INTO "Documents" ("FileName", "OriginalFileName", "ContentType", "FileSize", "FilePath",
+                                             "UploadedAt", "Description", "Title", "DocumentText", "ConversationId")
+                    SELECT "SourceDocument", "SourceDocument", 'text/plain', octet_length("DocumentText"), '',
+                           now(), 'SEC filing', "Title", "DocumentText", "ConversationId"
+                    FROM legacy
+                    RETURNING "Id", "ConversationId", "FileName"
+                )
+                UPDATE "Embeddings" AS e
+                SET "DocumentId" = inserted."Id"::text
+                FROM inserted
+                WHERE e."ConversationId" = inserted."ConversationId"
+                  AND e."DocumentId" = inserted."FileName";
+                """);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "MessageSourceChunks");
+        }
+    }
+}
@@ -0,0 +1,78 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace rag_experiment.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddCompanyIngestionStatus : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "IngestionStatus",
+                table: "ConversationCompanies",
+                type: "character varying(50)",
+                maxLength: 50,
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "ConversationCompanyId",
+                table: "Documents",
+                type: "integer",
+                nullable: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_Documents_ConversationCompanyId",
+                table: "Documents",
+                column: "ConversationCompanyId");
+
+            migrationBuilder.AddForeignKey(
+                name: "FK_Documents_ConversationCompanies_ConversationCompanyId",
+                table: "Documents",
+                column: "ConversationCompanyId",
+                principalTable: "ConversationCompanies",
+                principalColumn: "Id",
+                onDelete: ReferentialAction.SetNull);
+
+            // Ingestion was tracked per conversation until now, so each company takes its conversation's status,
+            // and the filings of conversations holding a single company are that company's
+            migrationBuilder.Sql(
+                """
+                UPDATE "ConversationCompanies" AS cc
+                SET "IngestionStatus" = c."IngestionStatus"
+                FROM "Conversations" AS c
+                WHERE cc."ConversationId" = c."Id";
+
+                UPDATE "Documents" AS d
+                SET "ConversationCompanyId" = cc."Id"
+                FROM "ConversationCompanies" AS cc
+                WHERE d."ConversationId" = cc."ConversationId"
+                  AND (d."Description" = 'SEC filing' OR d."Description" LIKE 'SEC % filing, accession %')
+                  AND (SELECT COUNT(*) FROM "ConversationCompanies" AS other
+                       WHERE other."ConversationId" = cc."ConversationId") = 1;
+                """);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropForeignKey(
+                name: "FK_Documents_ConversationCompanies_ConversationCompanyId",
+                table: "Documents");
+
+            migrationBuilder.DropIndex(
+                name: "IX_Documents_ConversationCompanyId",
+                table: "Documents");
+
+            migrationBuilder.DropColumn(
+                name: "ConversationCompanyId",
+                table: "Documents");
+
+            migrationBuilder.DropColumn(
+                name: "IngestionStatus",
+                table: "ConversationCompanies");
+        }
+    }
+}
@@ -0,0 +1,60 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace rag_experiment.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddMessageBranching : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "ParentMessageId",
+                table: "Messages",
+                type: "integer",
+                nullable: true);
+
+            // Existing conversations are a single thread: each message follows the one before it
+            migrationBuilder.Sql(
+                """
+                UPDATE "Messages" AS m
+                SET "ParentMessageId" = previous."PreviousId"
+                FROM (
+                    SELECT "Id", LAG("Id") OVER (PARTITION BY "ConversationId" ORDER BY "Timestamp", "Id") AS "PreviousId"
+                    FROM "Messages"
+                ) AS previous
+                WHERE m."Id" = previous."Id" AND previous."PreviousId" IS NOT NULL;
+                """);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_Messages_ParentMessageId",
+                table: "Messages",
+                column: "ParentMessageId");
+
+            migrationBuilder.AddForeignKey(
+                name: "FK_Messages_Messages_ParentMessageId",
+                table: "Messages",
+                column: "ParentMessageId",
+                principalTable: "Messages",
+                principalColumn: "Id");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropForeignKey(
+                name: "FK_Messages_Messages_ParentMessageId",
+                table: "Messages");
+
+            migrationBuilder.DropIndex(
+                name: "IX_Messages_ParentMessageId",
+                table: "Messages");
+
+            migrationBuilder.DropColumn(
+                name: "ParentMessageId",
+                table: "Messages");
+        }
+    }
+}
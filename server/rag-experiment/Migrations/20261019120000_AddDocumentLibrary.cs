@@ -0,0 +1,113 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+using Npgsql.EntityFrameworkCore.PostgreSQL.Metadata;
+
+#nullable disable
+
+namespace rag_experiment.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddDocumentLibrary : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "IngestionError",
+                table: "Documents",
+                type: "text",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "IngestionStatus",
+                table: "Documents",
+                type: "character varying(50)",
+                maxLength: 50,
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "UserId",
+                table: "Documents",
+                type: "integer",
+                nullable: true);
+
+            migrationBuilder.CreateTable(
+                name: "DocumentAttachments",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "integer", nullable: false)
+                        .Annotation("Npgsql:ValueGenerationStrategy", NpgsqlValueGenerationStrategy.IdentityByDefaultColumn),
+                    DocumentId = table.Column<int>(type: "integer", nullable: false),
+                    ConversationId = table.Column<int>(type: "integer", nullable: false),
+                    AttachedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_DocumentAttachments", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_DocumentAttachments_Conversations_ConversationId",
+                        column: x => x.ConversationId,
+                        principalTable: "Conversations",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_DocumentAttachments_Documents_DocumentId",
+                        column: x => x.DocumentId,
+                        principalTable: "Documents",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_Documents_UserId",
+                table: "Documents",
+                column: "UserId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_DocumentAttachments_ConversationId_DocumentId",
+                table: "DocumentAttachments",
+                columns: new[] { "ConversationId", "DocumentId" },
+                unique: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_DocumentAttachments_DocumentId",
+                table: "DocumentAttachments",
+                column: "DocumentId");
+
+            migrationBuilder.AddForeignKey(
+                name: "FK_Documents_Users_UserId",
+                table: "Documents",
+                column: "UserId",
+                principalTable: "Users",
+                principalColumn: "Id",
+                onDelete: ReferentialAction.Cascade);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropForeignKey(
+                name: "FK_Documents_Users_UserId",
+                table: "Documents");
+
+            migrationBuilder.DropTable(
+                name: "DocumentAttachments");
+
+            migrationBuilder.DropIndex(
+                name: "IX_Documents_UserId",
+                table: "Documents");
+
+            migrationBuilder.DropColumn(
+                name: "IngestionError",
+                table: "Documents");
+
+            migrationBuilder.DropColumn(
+                name: "IngestionStatus",
+                table: "Documents");
+
+            migrationBuilder.DropColumn(
+                name: "UserId",
+                table: "Documents");
+        }
+    }
+}
@@ -47,6 +47,28 @@ namespace rag_experiment.Repositories.Conversations
             return messages;
         }
 
+        /// <summary>
+        /// Retrieves the thread leading to a message by walking parent links up from it
+        /// </summary>
+        /// <param name="conversationId">The ID of the conversation</param>
+        /// <param name="messageId">The last message of the thread</param>
+        /// <returns>Messages ordered from the first to the given one, or empty list if either is not found</returns>
+        public async Task<List<Message>> GetThreadAsync(int conversationId, int messageId)
+        {
+            var messagesById = (await GetMessagesAsync(conversationId)).ToDictionary(m => m.Id);
+
+            var thread = new List<Message>();
+            var currentId = (int?)messageId;
+            while (currentId.HasValue && messagesById.TryGetValue(currentId.Value, out var message))
+            {
+                thread.Add(message);
+                currentId = message.ParentMessageId;
+            }
+
+            thread.Reverse();
+            return thread;
+        }
+
         /// <summary>
         /// Adds a new message to a conversation
         /// </summary>
@@ -78,5 +100,65 @@ namespace rag_experiment.Repositories.Conversations
             await _dbContext.SaveChangesAsync();
             return true;
         }
+
+        /// <summary>
+        /// Updates the ingestion status of one company in a conversation and recomputes the
+        /// conversation's overall status: in progress while any company is still running,
+        /// otherwise Failed if any company failed, otherwise Completed unless every company was cancelled.
+        /// </summary>
+        /// <param name="conversationId">The conversation the company belongs to.</param>
+        /// <param name="ticker">The company's ticker (the ingestion company identifier).</param>
+        /// <param name="status">The new ingestion status for the company.</param>
+        /// <returns>True if the company was found and updated, false otherwise.</returns>
+        public async Task<bool> UpdateCompanyIngestionStatusAsync(int conversationId, string ticker,
+            BatchProcessingStatus status)
+        {
+            var conversation = await _dbContext.Conversations
+                .Include(c => c.Companies)
+                .FirstOrDefaultAsync(c => c.Id == conversationId);
+
+            var company = conversation?.Companies
+                .FirstOrDefault(c => string.Equals(c.Ticker, ticker, StringComparison.OrdinalIgnoreCase));
+
+            if (conversation == null || company == null)
+                return false;
+
+            company.IngestionStatus = status;
+
+            var companyStatuses = conversation.Companies
+                .Select(c => c.IngestionStatus ?? BatchProcessingStatus.Pending)
+                .ToList();
+            var inProgress = companyStatuses
+                .Where(s => s != BatchProcessingStatus.Completed && s != BatchProcessingStatus.Failed
+                            && s != BatchProcessingStatus.Cancelled)
+                .ToList();
+
+            conversation.IngestionStatus = inProgress.Any()
+                ? inProgress.Min()
+                : companyStatuses.Contains(BatchProcessingStatus.Failed)
+                    ? BatchProcessingStatus.Failed
+                    : companyStatuses.All(s => s == BatchProcessingStatus.Cancelled)
+                        ? BatchProcessingStatus.Cancelled
+                        : BatchProcessingStatus.Completed;
+            conversation.UpdatedAt = DateTime.UtcNow;
+
+            await _dbContext.SaveChangesAsync();
+            return true;
+        }
+
+        /// <summary>
+        /// Retrieves a company in a conversation by its ticker
+        /// </summary>
+        /// <param name="conversationId">The conversation the company belongs to</param>
+        /// <param name="ticker">The company's ticker (case-insensitive)</param>
+        /// <returns>The company if found, null otherwise</returns>
+        public async Task<ConversationCompany?> GetCompanyAsync(int conversationId, string ticker)
+        {
+            var normalizedTicker = ticker.Trim().ToUpper();
+
+            return await _dbContext.ConversationCompanies
+                .FirstOrDefaultAsync(c => c.ConversationId == conversationId &&
+                                          c.Ticker.ToUpper() == normalizedTicker);
+        }
     }
 }
\ No newline at end of file
@@ -15,6 +15,15 @@ namespace rag_experiment.Repositories.Conversations
         /// <returns>List of messages ordered by timestamp, or empty list if conversation not found</returns>
         Task<List<Message>> GetMessagesAsync(int conversationId);
 
+        /// <summary>
+        /// Retrieves the thread leading to a message: every message from the start of the conversation
+        /// down to (and including) the given one, following parent links so other branches are left out
+        /// </summary>
+        /// <param name="conversationId">The ID of the conversation</param>
+        /// <param name="messageId">The last message of the thread</param>
+        /// <returns>Messages ordered from the first to the given one, or empty list if either is not found</returns>
+        Task<List<Message>> GetThreadAsync(int conversationId, int messageId);
+
         /// <summary>
         /// Adds a new message to a conversation
         /// </summary>
@@ -29,5 +38,23 @@ namespace rag_experiment.Repositories.Conversations
         /// <param name="status">The new ingestion status.</param>
         /// <returns>True if the conversation was found and updated, false otherwise.</returns>
         Task<bool> UpdateIngestionStatusAsync(int conversationId, BatchProcessingStatus status);
+
+        /// <summary>
+        /// Updates the ingestion status of one company in a conversation and recomputes the
+        /// conversation's overall status from all of its companies.
+        /// </summary>
+        /// <param name="conversationId">The conversation the company belongs to.</param>
+        /// <param name="ticker">The company's ticker (the ingestion company identifier).</param>
+        /// <param name="status">The new ingestion status for the company.</param>
+        /// <returns>True if the company was found and updated, false otherwise.</returns>
+        Task<bool> UpdateCompanyIngestionStatusAsync(int conversationId, string ticker, BatchProcessingStatus status);
+
+        /// <summary>
+        /// Retrieves a company in a conversation by its ticker
+        /// </summary>
+        /// <param name="conversationId">The conversation the company belongs to</param>
+        /// <param name="ticker">The company's ticker (case-insensitive)</param>
+        /// <returns>The company if found, null otherwise</returns>
+        Task<ConversationCompany?> GetCompanyAsync(int conversationId, string ticker);
     }
 }
\ No newline at end of file
@@ -58,7 +58,7 @@ namespace rag_experiment.Repositories.Documents
         }
 
         /// <summary>
-        /// Retrieves a document by ID with authorization check (user ownership through conversation)
+        /// Retrieves a document by ID with authorization check (uploaded by the user, or owned through their conversation)
         /// </summary>
         /// <param name="documentId">The document ID to retrieve</param>
         /// <param name="userId">The user ID for authorization</param>
@@ -67,7 +67,21 @@ namespace rag_experiment.Repositories.Documents
         {
             return await _dbContext.Documents
                 .Include(d => d.Conversation)
-                .FirstOrDefaultAsync(d => d.Id == documentId && d.Conversation.UserId == userId);
+                .FirstOrDefaultAsync(d => d.Id == documentId &&
+                                          (d.UserId == userId || d.Conversation.UserId == userId));
+        }
+
+        /// <summary>
+        /// Retrieves the documents in a user's library: their uploads that belong to no conversation
+        /// </summary>
+        /// <param name="userId">The user ID</param>
+        /// <returns>The library documents, newest first</returns>
+        public async Task<List<Document>> GetLibraryAsync(int userId)
+        {
+            return await _dbContext.Documents
+                .Where(d => d.UserId == userId && d.ConversationId == null)
+                .OrderByDescending(d => d.UploadedAt)
+                .ToListAsync();
         }
 
         /// <summary>
@@ -78,5 +92,45 @@ namespace rag_experiment.Repositories.Documents
         {
             return await _dbContext.Documents.ToListAsync();
         }
+
+        /// <summary>
+        /// Retrieves a conversation's document by its stored file name
+        /// </summary>
+        /// <param name="conversationId">The conversation ID</param>
+        /// <param name="fileName">The stored file name</param>
+        /// <returns>The document if found, null otherwise</returns>
+        public async Task<Document?> GetByConversationAndFileNameAsync(int conversationId, string fileName)
+        {
+            return await _dbContext.Documents
+                .FirstOrDefaultAsync(d => d.ConversationId == conversationId && d.FileName == fileName);
+        }
+
+        /// <summary>
+        /// Adds a new document
+        /// </summary>
+        /// <param name="document">The document to add</param>
+        /// <returns>The added document with its generated ID</returns>
+        public async Task<Document> AddAsync(Document document)
+        {
+            _dbContext.Documents.Add(document);
+            await _dbContext.SaveChangesAsync();
+            return document;
+        }
+
+        /// <summary>
+        /// Records the ingestion state of an uploaded document
+        /// </summary>
+        /// <param name="documentId">The document ID</param>
+        /// <param name="status">The new ingestion status</param>
+        /// <param name="errorMessage">Why ingestion failed; cleared for any other status</param>
+        public async Task UpdateIngestionStatusAsync(int documentId, DocumentIngestionStatus status,
+            string? errorMessage = null)
+        {
+            await _dbContext.Documents
+                .Where(d => d.Id == documentId)
+                .ExecuteUpdateAsync(setters => setters
+                    .SetProperty(d => d.IngestionStatus, status)
+                    .SetProperty(d => d.IngestionError, errorMessage));
+        }
     }
 }
\ No newline at end of file
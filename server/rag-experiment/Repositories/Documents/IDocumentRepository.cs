@@ -29,17 +29,47 @@ namespace rag_experiment.Repositories.Documents
         Task<IEnumerable<Document>> GetByConversationIdAsync(int conversationId);
 
         /// <summary>
-        /// Retrieves a document by ID with authorization check (user ownership through conversation)
+        /// Retrieves a document by ID with authorization check (uploaded by the user, or owned through their conversation)
         /// </summary>
         /// <param name="documentId">The document ID to retrieve</param>
         /// <param name="userId">The user ID for authorization</param>
         /// <returns>The document if found and accessible, null otherwise</returns>
         Task<Document?> GetByIdWithAuthorizationAsync(int documentId, int userId);
 
+        /// <summary>
+        /// Retrieves the documents in a user's library: their uploads that belong to no conversation
+        /// </summary>
+        /// <param name="userId">The user ID</param>
+        /// <returns>The library documents, newest first</returns>
+        Task<List<Document>> GetLibraryAsync(int userId);
+
         /// <summary>
         /// Retrieves all documents from the database
         /// </summary>
         /// <returns>Collection of all documents</returns>
         Task<List<Document>> GetAllAsync();
+
+        /// <summary>
+        /// Retrieves a conversation's document by its stored file name
+        /// </summary>
+        /// <param name="conversationId">The conversation ID</param>
+        /// <param name="fileName">The stored file name (e.g., "10-K_0000320193-23-000077.htm")</param>
+        /// <returns>The document if found, null otherwise</returns>
+        Task<Document?> GetByConversationAndFileNameAsync(int conversationId, string fileName);
+
+        /// <summary>
+        /// Adds a new document
+        /// </summary>
+        /// <param name="document">The document to add</param>
+        /// <returns>The added document with its generated ID</returns>
+        Task<Document> AddAsync(Document document);
+
+        /// <summary>
+        /// Records the ingestion state of an uploaded document
+        /// </summary>
+        /// <param name="documentId">The document ID</param>
+        /// <param name="status">The new ingestion status</param>
+        /// <param name="errorMessage">Why ingestion failed; cleared for any other status</param>
+        Task UpdateIngestionStatusAsync(int documentId, DocumentIngestionStatus status, string? errorMessage = null);
     }
 }
\ No newline at end of file
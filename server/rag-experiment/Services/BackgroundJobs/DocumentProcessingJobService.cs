@@ -7,8 +7,10 @@ using rag_experiment.Domain;
 using rag_experiment.Hubs.Models;
 using rag_experiment.Hubs.Services;
 using rag_experiment.Repositories.Conversations;
+using rag_experiment.Repositories.Documents;
 using rag_experiment.Services.BackgroundJobs.Models;
 using rag_experiment.Services.FilingDownloader;
+using rag_experiment.Services.FilingDownloader.Models;
 using rag_experiment.Services.Ingestion.TextExtraction;
 using rag_experiment.Services.Ingestion.VectorStorage;
 
@@ -29,6 +31,8 @@ public class DocumentProcessingJobService : IDocumentProcessingJobService
     private readonly IEmbeddingRepository _embeddingRepository;
     private readonly IDocumentProcessingNotifier _notifier;
     private readonly IConversationRepository _conversationRepository;
+    private readonly IDocumentRepository _documentRepository;
+    private readonly IDocumentIngestionService _documentIngestionService;
     private readonly string _baseDirectory;
 
     public DocumentProcessingJobService(
@@ -40,6 +44,8 @@ public class DocumentProcessingJobService : IDocumentProcessingJobService
         IEmbeddingRepository embeddingRepository,
         IDocumentProcessingNotifier notifier,
         IConversationRepository conversationRepository,
+        IDocumentRepository documentRepository,
+        IDocumentIngestionService documentIngestionService,
         IWebHostEnvironment env)
     {
         _filingDownloader = filingDownloader;
@@ -50,6 +56,8 @@ public class DocumentProcessingJobService : IDocumentProcessingJobService
         _embeddingRepository = embeddingRepository;
         _notifier = notifier;
         _conversationRepository = conversationRepository;
+        _documentRepository = documentRepository;
+        _documentIngestionService = documentIngestionService;
         _baseDirectory = Path.Combine(env.ContentRootPath, "Temp", "ingestion-jobs");
     }
 
@@ -60,13 +68,17 @@ public class DocumentProcessingJobService : IDocumentProcessingJobService
     /// <param name="filingTypes">List of filing types to download (e.g., ["10-K", "10-Q", "8-K"]).</param>
     /// <param name="userId">The user who initiated the ingestion.</param>
     /// <param name="conversationId">The conversation to associate the documents with.</param>
+    /// <param name="accessionNumbers">Optional exact filings to ingest; when null the most recent filings of each type are used.</param>
     /// <returns>The job ID of the final job in the chain, for tracking purposes.</returns>
     public async Task<string> SetupFilingIngestionPipeline(
         string companyIdentifier,
         List<string> filingTypes,
         int userId,
-        int conversationId)
+        int conversationId,
+        List<string>? accessionNumbers)
     {
+        var batchKey = GetBatchKey(conversationId, companyIdentifier);
+
         // Initialize batch state
         var state = new BatchProcessingState
         {
@@ -74,77 +86,351 @@ public class DocumentProcessingJobService : IDocumentProcessingJobService
             UserId = userId.ToString(),
             CompanyIdentifier = companyIdentifier,
             FilingTypes = filingTypes,
+            AccessionNumbers = accessionNumbers,
             Status = BatchProcessingStatus.Pending
         };
-        await SaveBatchStateAsync(conversationId.ToString(), state);
+        await SaveBatchStateAsync(batchKey, state);
+
+        return await EnqueuePipelineAsync(batchKey, state, conversationId, userId, accessionNumbers);
+    }
+
+    /// <summary>
+    /// Cancels a company's ingestion: deletes its queued and running jobs (running jobs observe this
+    /// through their cancellation token) and marks the filings still in flight as cancelled.
+    /// Filings that already completed stay searchable.
+    /// </summary>
+    /// <param name="conversationId">The conversation the company belongs to.</param>
+    /// <param name="companyIdentifier">The company ticker symbol or CIK number.</param>
+    /// <returns>False when there is no ingestion for the company or it has already finished.</returns>
+    public async Task<bool> CancelIngestionAsync(int conversationId, string companyIdentifier)
+    {
+        var batchKey = await GetExistingBatchKeyAsync(conversationId, companyIdentifier);
+        if (!BatchStateExists(batchKey))
+        {
+            return false;
+        }
+
+        var state = await GetBatchStateAsync(batchKey);
+        if (state.Status is BatchProcessingStatus.Completed or BatchProcessingStatus.Cancelled)
+        {
+            return false;
+        }
+
+        DeletePipelineJobs(state);
+
+        var now = DateTime.UtcNow;
+        foreach (var document in GetActiveDocuments(state))
+        {
+            document.ErrorMessage = "Ingestion cancelled";
+            document.CompletedAt = now;
+        }
+
+        state.Status = BatchProcessingStatus.Cancelled;
+        state.ErrorMessage = null;
+        state.CompletedAt = now;
+        await SaveBatchStateAsync(batchKey, state);
+
+        // Filings completed by an earlier run stay searchable
+        var status = state.Documents.Any(d => d.Stage == BatchProcessingStatus.Completed)
+            ? BatchProcessingStatus.Completed
+            : BatchProcessingStatus.Cancelled;
+        await UpdateConversationIngestionStatusAsync(conversationId, companyIdentifier, status);
+
+        await _notifier.SendCancelledAsync(conversationId.ToString(), new ProcessingCancelledResult
+        {
+            CompanyIdentifier = companyIdentifier,
+            Documents = state.Documents.Select(ToDocumentStatus).ToList()
+        });
+
+        return true;
+    }
+
+    /// <summary>
+    /// Re-runs the pipeline for a company's failed (or cancelled) filings. Filings that already
+    /// completed are left alone. When the batch failed before any filing was recorded, the original
+    /// request is run again.
+    /// </summary>
+    /// <param name="conversationId">The conversation the company belongs to.</param>
+    /// <param name="companyIdentifier">The company ticker symbol or CIK number.</param>
+    /// <param name="accessionNumbers">Failed filings to retry; null retries all of them.</param>
+    /// <returns>The job ID of the final job in the new chain, or null when there is nothing to retry.</returns>
+    public async Task<string?> RetryIngestionAsync(int conversationId, string companyIdentifier,
+        IReadOnlyCollection<string>? accessionNumbers = null)
+    {
+        var batchKey = await GetExistingBatchKeyAsync(conversationId, companyIdentifier);
+        if (!BatchStateExists(batchKey))
+        {
+            return null;
+        }
+
+        var state = await GetBatchStateAsync(batchKey);
+        if (state.Status is not (BatchProcessingStatus.Completed or BatchProcessingStatus.Failed
+            or BatchProcessingStatus.Cancelled))
+        {
+            return null;
+        }
+
+        List<string>? retryAccessionNumbers;
+        if (state.Documents.Count == 0)
+        {
+            retryAccessionNumbers = state.AccessionNumbers;
+        }
+        else
+        {
+            var retryDocuments = state.Documents
+                .Where(d => d.ErrorMessage != null)
+                .Where(d => accessionNumbers == null ||
+                            accessionNumbers.Contains(d.AccessionNumber, StringComparer.OrdinalIgnoreCase))
+                .ToList();
+            if (retryDocuments.Count == 0)
+            {
+                return null;
+            }
+
+            foreach (var document in retryDocuments)
+            {
+                document.Stage = BatchProcessingStatus.Pending;
+                document.ErrorMessage = null;
+                document.StartedAt = null;
+                document.StageStartedAt = null;
+                document.CompletedAt = null;
+            }
+
+            retryAccessionNumbers = retryDocuments.Select(d => d.AccessionNumber).ToList();
+        }
+
+        // Stop pending Hangfire retries of the failed run so the two chains don't overlap
+        DeletePipelineJobs(state);
+
+        // Chunks and embeddings cover the whole run; regenerate them for the retried filings only
+        DeleteFileIfExists(Path.Combine(GetDirectory(batchKey, "chunks"), "chunks.json"));
+        DeleteFileIfExists(Path.Combine(GetDirectory(batchKey, "embeddings"), "embeddings.json"));
+
+        state.Status = BatchProcessingStatus.Pending;
+        state.ErrorMessage = null;
+        state.CompletedAt = null;
+        await SaveBatchStateAsync(batchKey, state);
+
+        await UpdateConversationIngestionStatusAsync(conversationId, companyIdentifier,
+            BatchProcessingStatus.Pending);
+
+        return await EnqueuePipelineAsync(batchKey, state, conversationId, int.Parse(state.UserId),
+            retryAccessionNumbers);
+    }
+
+    /// <summary>
+    /// Reads the current state of each company's batch, for clients that connect mid-ingestion.
+    /// </summary>
+    /// <param name="conversationId">The conversation whose ingestion to read.</param>
+    /// <param name="companyIdentifiers">The conversation's companies; those without a batch are skipped.</param>
+    /// <returns>The snapshot of every company that has a batch.</returns>
+    public async Task<IngestionSnapshot> GetIngestionSnapshotAsync(int conversationId,
+        IEnumerable<string> companyIdentifiers)
+    {
+        var companies = new List<CompanyIngestionSnapshot>();
+        foreach (var companyIdentifier in companyIdentifiers)
+        {
+            var batchKey = await GetExistingBatchKeyAsync(conversationId, companyIdentifier);
+            if (!BatchStateExists(batchKey))
+            {
+                continue;
+            }
+
+            var state = await GetBatchStateAsync(batchKey);
+            companies.Add(new CompanyIngestionSnapshot
+            {
+                CompanyIdentifier = companyIdentifier,
+                Stage = state.Status,
+                ProgressPercent = GetStageProgressPercent(state.Status),
+                Message = GetStageMessage(state.Status),
+                ErrorMessage = state.ErrorMessage,
+                StartedAt = state.CreatedAt,
+                CompletedAt = state.CompletedAt,
+                Documents = state.Documents.Select(ToDocumentStatus).ToList()
+            });
+        }
+
+        return new IngestionSnapshot { Companies = companies };
+    }
+
+    /// <summary>
+    /// Enqueues ingestion of an uploaded document as a single background job.
+    /// </summary>
+    /// <param name="documentId">The uploaded document.</param>
+    /// <param name="userId">The user who uploaded it.</param>
+    /// <returns>The job ID, for tracking purposes.</returns>
+    public string EnqueueUploadIngestion(int documentId, int userId)
+    {
+        return BackgroundJob.Enqueue<DocumentProcessingJobService>(x =>
+            x.IngestUploadedDocument(documentId, userId, CancellationToken.None));
+    }
+
+    /// <summary>
+    /// Progress reported when a stage starts; keep in step with the ProgressPercent values sent by the jobs.
+    /// </summary>
+    private static int? GetStageProgressPercent(BatchProcessingStatus status)
+    {
+        return status switch
+        {
+            BatchProcessingStatus.Pending => 0,
+            BatchProcessingStatus.Downloading => 10,
+            BatchProcessingStatus.Extracting => 30,
+            BatchProcessingStatus.Chunking => 50,
+            BatchProcessingStatus.GeneratingEmbeddings => 70,
+            BatchProcessingStatus.PersistingEmbeddings => 90,
+            BatchProcessingStatus.Completed => 100,
+            _ => null
+        };
+    }
+
+    private static string GetStageMessage(BatchProcessingStatus status)
+    {
+        return status switch
+        {
+            BatchProcessingStatus.Pending => "Waiting to start...",
+            BatchProcessingStatus.Downloading => "Downloading filings...",
+            BatchProcessingStatus.Extracting => "Extracting text from documents...",
+            BatchProcessingStatus.Chunking => "Chunking text for embedding generation...",
+            BatchProcessingStatus.GeneratingEmbeddings => "Generating embeddings using OpenAI...",
+            BatchProcessingStatus.PersistingEmbeddings => "Saving embeddings to database...",
+            BatchProcessingStatus.Completed => "Processing complete",
+            BatchProcessingStatus.Cancelled => "Ingestion cancelled",
+            _ => "Processing failed"
+        };
+    }
+
+    /// <summary>
+    /// Enqueues the chain of background jobs for a batch and records their IDs in its state.
+    /// </summary>
+    private async Task<string> EnqueuePipelineAsync(string batchKey, BatchProcessingState state,
+        int conversationId, int userId, List<string>? accessionNumbers)
+    {
+        var companyIdentifier = state.CompanyIdentifier;
+        var filingTypes = state.FilingTypes;
 
-        // Set up the entire job chain
+        // Set up the entire job chain; Hangfire supplies the cancellation tokens
         var job0 = BackgroundJob.Enqueue<DocumentProcessingJobService>(x =>
-            x.DownloadFilings(companyIdentifier, filingTypes, conversationId));
+            x.DownloadFilings(companyIdentifier, filingTypes, conversationId, accessionNumbers,
+                CancellationToken.None));
 
         var job1 = BackgroundJob.ContinueJobWith<DocumentProcessingJobService>(
-            job0, x => x.ExtractTextBatch(conversationId));
+            job0, x => x.ExtractTextBatch(conversationId, companyIdentifier, CancellationToken.None));
 
         var job2 = BackgroundJob.ContinueJobWith<DocumentProcessingJobService>(
-            job1, x => x.ProcessChunksBatch(conversationId));
+            job1, x => x.ProcessChunksBatch(conversationId, companyIdentifier, CancellationToken.None));
 
         var job3 = BackgroundJob.ContinueJobWith<DocumentProcessingJobService>(
-            job2, x => x.GenerateEmbeddingsBatch(conversationId));
+            job2, x => x.GenerateEmbeddingsBatch(conversationId, companyIdentifier, CancellationToken.None));
 
         var job4 = BackgroundJob.ContinueJobWith<DocumentProcessingJobService>(
-            job3, x => x.PersistEmbeddingsBatch(conversationId, userId));
+            job3, x => x.PersistEmbeddingsBatch(conversationId, companyIdentifier, userId, CancellationToken.None));
 
-        // Store the final job ID for tracking
+        // Store the final job ID for tracking, and every job so the chain can be cancelled
         state.JobId = job4;
-        await SaveBatchStateAsync(conversationId.ToString(), state);
+        state.JobIds = new List<string> { job0, job1, job2, job3, job4 };
+        await SaveBatchStateAsync(batchKey, state);
 
         return job4;
     }
 
+    private static void DeletePipelineJobs(BatchProcessingState state)
+    {
+        foreach (var jobId in state.JobIds)
+        {
+            BackgroundJob.Delete(jobId);
+        }
+    }
+
     #region Job 0: Download Filings
 
     /// <summary>
     /// Downloads SEC filings for a company and persists them to local storage.
     /// </summary>
     [AutomaticRetry(Attempts = 3, DelaysInSeconds = new[] { 30, 60, 120 })]
-    public async Task DownloadFilings(string companyIdentifier, List<string> filingTypes, int conversationId)
+    public async Task DownloadFilings(
+        string companyIdentifier,
+        List<string> filingTypes,
+        int conversationId,
+        List<string>? accessionNumbers,
+        CancellationToken cancellationToken)
     {
-        var state = await GetBatchStateAsync(conversationId.ToString());
+        var batchKey = GetBatchKey(conversationId, companyIdentifier);
+        var state = await GetBatchStateAsync(batchKey);
+        if (state.Status == BatchProcessingStatus.Cancelled) return;
         state.Status = BatchProcessingStatus.Downloading;
-        await SaveBatchStateAsync(conversationId.ToString(), state);
+        await SaveBatchStateAsync(batchKey, state);
 
         // Send initial progress update
         await _notifier.SendProgressUpdateAsync(conversationId.ToString(), new DocumentProcessingUpdate
         {
+            CompanyIdentifier = companyIdentifier,
             Stage = BatchProcessingStatus.Downloading,
-            Message = $"Downloading {string.Join(", ", filingTypes)} filings for {companyIdentifier}...",
+            Message = accessionNumbers is { Count: > 0 }
+                ? $"Downloading {accessionNumbers.Count} selected filing(s) for {companyIdentifier}..."
+                : $"Downloading {string.Join(", ", filingTypes)} filings for {companyIdentifier}...",
             ProgressPercent = 10
         });
 
         try
         {
-            var documents = await _filingDownloader.DownloadFilingsAsync(companyIdentifier, filingTypes);
+            var failures = new List<FilingDownloadFailure>();
+            var documents = await _filingDownloader.DownloadFilingsAsync(
+                companyIdentifier,
+                filingTypes,
+                accessionNumbers,
+                failures,
+                cancellationToken);
+
+            // Record failed downloads alongside the successful ones so the client can show which and why
+            // A retry only re-downloads some filings, so keep the entries for the rest
+            var downloadedAt = DateTime.UtcNow;
+            var attempted = documents.Select(d => d.AccessionNumber)
+                .Concat(failures.Select(f => f.AccessionNumber))
+                .ToHashSet(StringComparer.OrdinalIgnoreCase);
+            var downloadedDocuments = documents.Select(d => new BatchDocumentInfo
+            {
+                FileName = d.FileName,
+                FilingType = d.FilingType,
+                AccessionNumber = d.AccessionNumber,
+                FilingDate = d.FilingDate,
+                Stage = BatchProcessingStatus.Downloading,
+                StartedAt = downloadedAt,
+                StageStartedAt = downloadedAt
+            }).Concat(failures.Select(f => new BatchDocumentInfo
+            {
+                FileName = f.AccessionNumber,
+                FilingType = f.FilingType,
+                AccessionNumber = f.AccessionNumber,
+                FilingDate = f.FilingDate,
+                Stage = BatchProcessingStatus.Downloading,
+                ErrorMessage = f.ErrorMessage,
+                StartedAt = downloadedAt,
+                StageStartedAt = downloadedAt,
+                CompletedAt = downloadedAt
+            })).ToList();
+            state.Documents = state.Documents
+                .Where(d => !attempted.Contains(d.AccessionNumber))
+                .Concat(downloadedDocuments)
+                .ToList();
+            await SaveBatchStateAsync(batchKey, state);
+
+            await _notifier.SendDocumentStatusAsync(conversationId.ToString(), new DocumentStatusUpdate
+            {
+                CompanyIdentifier = companyIdentifier,
+                Documents = downloadedDocuments.Select(ToDocumentStatus).ToList()
+            });
 
             if (documents.Count == 0)
             {
                 throw new InvalidOperationException($"No filings found for company {companyIdentifier}");
             }
 
-            await _filingPersistor.PersistFilingsAsync(documents, conversationId.ToString());
-
-            // Update state with document info
-            state.Documents = documents.Select(d => new BatchDocumentInfo
-            {
-                FileName = d.FileName,
-                FilingType = d.FilingType,
-                AccessionNumber = d.AccessionNumber,
-                FilingDate = d.FilingDate
-            }).ToList();
-            await SaveBatchStateAsync(conversationId.ToString(), state);
+            await _filingPersistor.PersistFilingsAsync(documents, batchKey);
 
             // Send completion update for this stage
             await _notifier.SendProgressUpdateAsync(conversationId.ToString(), new DocumentProcessingUpdate
             {
+                CompanyIdentifier = companyIdentifier,
                 Stage = BatchProcessingStatus.Downloading,
                 Message = $"Downloaded {documents.Count} document(s)",
                 ProgressPercent = 20,
@@ -152,17 +438,28 @@ public class DocumentProcessingJobService : IDocumentProcessingJobService
                 TotalDocuments = documents.Count
             });
         }
+        catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+        {
+            // Deleted by CancelIngestionAsync (which records the outcome) or the server is shutting down
+            throw;
+        }
         catch (Exception ex)
         {
             state.Status = BatchProcessingStatus.Failed;
             state.ErrorMessage = ex.Message;
-            await SaveBatchStateAsync(conversationId.ToString(), state);
+            await SaveBatchStateAsync(batchKey, state);
+            await FailDocumentsAsync(conversationId, companyIdentifier, batchKey, state,
+                GetActiveDocuments(state), ex.Message);
+            await UpdateConversationIngestionStatusAsync(conversationId, companyIdentifier,
+                GetFailedIngestionStatus(state));
 
             // Send error notification
             await _notifier.SendErrorAsync(conversationId.ToString(), new ProcessingErrorResult
             {
+                CompanyIdentifier = companyIdentifier,
                 ErrorMessage = ex.Message,
-                Stage = BatchProcessingStatus.Downloading
+                Stage = BatchProcessingStatus.Downloading,
+                Documents = state.Documents.Select(ToDocumentStatus).ToList()
             });
 
             throw;
@@ -178,16 +475,18 @@ public class DocumentProcessingJobService : IDocumentProcessingJobService
     /// Reads from /raw/, writes to /extracted/.
     /// </summary>
     [AutomaticRetry(Attempts = 3)]
-    public async Task ExtractTextBatch(int conversationId)
+    public async Task ExtractTextBatch(int conversationId, string companyIdentifier, CancellationToken cancellationToken)
     {
-        var state = await GetBatchStateAsync(conversationId.ToString());
+        var batchKey = GetBatchKey(conversationId, companyIdentifier);
+        var state = await GetBatchStateAsync(batchKey);
+        if (state.Status == BatchProcessingStatus.Cancelled) return;
         state.Status = BatchProcessingStatus.Extracting;
-        await SaveBatchStateAsync(conversationId.ToString(), state);
+        await SaveBatchStateAsync(batchKey, state);
 
         try
         {
-            var rawDir = GetDirectory(conversationId.ToString(), "raw");
-            var extractedDir = GetDirectory(conversationId.ToString(), "extracted");
+            var rawDir = GetDirectory(batchKey, "raw");
+            var extractedDir = GetDirectory(batchKey, "extracted");
             EnsureDirectoryExists(extractedDir);
 
             var files = Directory.GetFiles(rawDir);
@@ -196,9 +495,13 @@ public class DocumentProcessingJobService : IDocumentProcessingJobService
                 ? state.Documents.Count
                 : files.Length;
 
+            await BeginDocumentStageAsync(conversationId, companyIdentifier, batchKey, state,
+                BatchProcessingStatus.Extracting);
+
             // Send progress update
             await _notifier.SendProgressUpdateAsync(conversationId.ToString(), new DocumentProcessingUpdate
             {
+                CompanyIdentifier = companyIdentifier,
                 Stage = BatchProcessingStatus.Extracting,
                 Message = "Extracting text from documents...",
                 ProgressPercent = 30,
@@ -208,6 +511,8 @@ public class DocumentProcessingJobService : IDocumentProcessingJobService
 
             foreach (var filePath in files)
             {
+                cancellationToken.ThrowIfCancellationRequested();
+
                 var fileName = Path.GetFileName(filePath);
                 var outputPath = Path.Combine(extractedDir, Path.ChangeExtension(fileName, ".txt"));
 
@@ -218,15 +523,32 @@ public class DocumentProcessingJobService : IDocumentProcessingJobService
                     continue;
                 }
 
-                var extractedText = await _textExtractor.ExtractTextAsync(filePath);
-                await WriteFileAtomicallyAsync(outputPath, extractedText);
+                // One unreadable filing shouldn't sink the batch; record it and move on
+                var document = FindDocument(state, Path.GetFileNameWithoutExtension(fileName));
+                try
+                {
+                    var extractedText = await _textExtractor.ExtractTextAsync(filePath);
+                    await WriteFileAtomicallyAsync(outputPath, extractedText);
+                }
+                catch (Exception ex) when (document != null)
+                {
+                    await FailDocumentsAsync(conversationId, companyIdentifier, batchKey, state,
+                        new[] { document }, $"Text extraction failed: {ex.Message}");
+                    continue;
+                }
 
                 processedCount++;
             }
 
+            if (processedCount == 0)
+            {
+                throw new InvalidOperationException("Text extraction failed for every document");
+            }
+
             // Send completion update for this stage
             await _notifier.SendProgressUpdateAsync(conversationId.ToString(), new DocumentProcessingUpdate
             {
+                CompanyIdentifier = companyIdentifier,
                 Stage = BatchProcessingStatus.Extracting,
                 Message = $"Extracted text from {processedCount} document(s)",
                 ProgressPercent = 40,
@@ -234,17 +556,28 @@ public class DocumentProcessingJobService : IDocumentProcessingJobService
                 TotalDocuments = totalDocuments
             });
         }
+        catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+        {
+            // Deleted by CancelIngestionAsync (which records the outcome) or the server is shutting down
+            throw;
+        }
         catch (Exception ex)
         {
             state.Status = BatchProcessingStatus.Failed;
             state.ErrorMessage = ex.Message;
-            await SaveBatchStateAsync(conversationId.ToString(), state);
+            await SaveBatchStateAsync(batchKey, state);
+            await FailDocumentsAsync(conversationId, companyIdentifier, batchKey, state,
+                GetActiveDocuments(state), ex.Message);
+            await UpdateConversationIngestionStatusAsync(conversationId, companyIdentifier,
+                GetFailedIngestionStatus(state));
 
             // Send error notification
             await _notifier.SendErrorAsync(conversationId.ToString(), new ProcessingErrorResult
             {
+                CompanyIdentifier = companyIdentifier,
                 ErrorMessage = ex.Message,
-                Stage = BatchProcessingStatus.Extracting
+                Stage = BatchProcessingStatus.Extracting,
+                Documents = state.Documents.Select(ToDocumentStatus).ToList()
             });
 
             throw;
@@ -260,16 +593,18 @@ public class DocumentProcessingJobService : IDocumentProcessingJobService
     /// Reads from /extracted/, writes to /chunks/chunks.json.
     /// </summary>
     [AutomaticRetry(Attempts = 3)]
-    public async Task ProcessChunksBatch(int conversationId)
+    public async Task ProcessChunksBatch(int conversationId, string companyIdentifier, CancellationToken cancellationToken)
     {
-        var state = await GetBatchStateAsync(conversationId.ToString());
+        var batchKey = GetBatchKey(conversationId, companyIdentifier);
+        var state = await GetBatchStateAsync(batchKey);
+        if (state.Status == BatchProcessingStatus.Cancelled) return;
         state.Status = BatchProcessingStatus.Chunking;
-        await SaveBatchStateAsync(conversationId.ToString(), state);
+        await SaveBatchStateAsync(batchKey, state);
 
         try
         {
-            var extractedDir = GetDirectory(conversationId.ToString(), "extracted");
-            var chunksDir = GetDirectory(conversationId.ToString(), "chunks");
+            var extractedDir = GetDirectory(batchKey, "extracted");
+            var chunksDir = GetDirectory(batchKey, "chunks");
             EnsureDirectoryExists(chunksDir);
 
             var chunksPath = Path.Combine(chunksDir, "chunks.json");
@@ -278,11 +613,15 @@ public class DocumentProcessingJobService : IDocumentProcessingJobService
                 ? state.Documents.Count
                 : files.Length;
 
+            await BeginDocumentStageAsync(conversationId, companyIdentifier, batchKey, state,
+                BatchProcessingStatus.Chunking);
+
             // Skip if already chunked (idempotency)
             if (File.Exists(chunksPath))
             {
                 await _notifier.SendProgressUpdateAsync(conversationId.ToString(), new DocumentProcessingUpdate
                 {
+                    CompanyIdentifier = companyIdentifier,
                     Stage = BatchProcessingStatus.Chunking,
                     Message = "Chunks already generated. Skipping.",
                     ProgressPercent = 60,
@@ -295,6 +634,7 @@ public class DocumentProcessingJobService : IDocumentProcessingJobService
             // Send progress update
             await _notifier.SendProgressUpdateAsync(conversationId.ToString(), new DocumentProcessingUpdate
             {
+                CompanyIdentifier = companyIdentifier,
                 Stage = BatchProcessingStatus.Chunking,
                 Message = "Chunking text for embedding generation...",
                 ProgressPercent = 50,
@@ -305,11 +645,35 @@ public class DocumentProcessingJobService : IDocumentProcessingJobService
             var allChunks = new List<DocumentChunk>();
             foreach (var filePath in files)
             {
+                cancellationToken.ThrowIfCancellationRequested();
+
                 var fileName = Path.GetFileName(filePath);
                 var sourceDocName = Path.GetFileNameWithoutExtension(fileName);
-                var text = await File.ReadAllTextAsync(filePath);
 
-                var chunks = _textChunker.ChunkText(text);
+                // Filings finished by an earlier run are already searchable; a retry only redoes the rest
+                var document = FindDocument(state, sourceDocName);
+                if (document != null && (document.ErrorMessage != null || document.Stage == BatchProcessingStatus.Completed))
+                {
+                    continue;
+                }
+
+                var text = await File.ReadAllTextAsync(filePath, cancellationToken);
+                List<string> chunks;
+                try
+                {
+                    chunks = _textChunker.ChunkText(text);
+                    if (chunks.Count == 0)
+                    {
+                        throw new InvalidOperationException("no text to chunk");
+                    }
+                }
+                catch (Exception ex) when (document != null)
+                {
+                    await FailDocumentsAsync(conversationId, companyIdentifier, batchKey, state,
+                        new[] { document }, $"Chunking failed: {ex.Message}");
+                    continue;
+                }
+
                 var currentOffset = 0;
 
                 for (int i = 0; i < chunks.Count; i++)
@@ -334,12 +698,18 @@ public class DocumentProcessingJobService : IDocumentProcessingJobService
                 }
             }
 
+            if (allChunks.Count == 0)
+            {
+                throw new InvalidOperationException("Chunking failed for every document");
+            }
+
             var json = JsonSerializer.Serialize(allChunks, new JsonSerializerOptions { WriteIndented = true });
             await WriteFileAtomicallyAsync(chunksPath, json);
 
             // Send completion update for this stage
             await _notifier.SendProgressUpdateAsync(conversationId.ToString(), new DocumentProcessingUpdate
             {
+                CompanyIdentifier = companyIdentifier,
                 Stage = BatchProcessingStatus.Chunking,
                 Message = $"Created {allChunks.Count} chunk(s) from {files.Length} document(s)",
                 ProgressPercent = 60,
@@ -347,17 +717,28 @@ public class DocumentProcessingJobService : IDocumentProcessingJobService
                 TotalDocuments = totalDocuments
             });
         }
+        catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+        {
+            // Deleted by CancelIngestionAsync (which records the outcome) or the server is shutting down
+            throw;
+        }
         catch (Exception ex)
         {
             state.Status = BatchProcessingStatus.Failed;
             state.ErrorMessage = ex.Message;
-            await SaveBatchStateAsync(conversationId.ToString(), state);
+            await SaveBatchStateAsync(batchKey, state);
+            await FailDocumentsAsync(conversationId, companyIdentifier, batchKey, state,
+                GetActiveDocuments(state), ex.Message);
+            await UpdateConversationIngestionStatusAsync(conversationId, companyIdentifier,
+                GetFailedIngestionStatus(state));
 
             // Send error notification
             await _notifier.SendErrorAsync(conversationId.ToString(), new ProcessingErrorResult
             {
+                CompanyIdentifier = companyIdentifier,
                 ErrorMessage = ex.Message,
-                Stage = BatchProcessingStatus.Chunking
+                Stage = BatchProcessingStatus.Chunking,
+                Documents = state.Documents.Select(ToDocumentStatus).ToList()
             });
 
             throw;
@@ -373,32 +754,38 @@ public class DocumentProcessingJobService : IDocumentProcessingJobService
     /// Reads from /chunks/chunks.json, writes to /embeddings/embeddings.json.
     /// </summary>
     [AutomaticRetry(Attempts = 5, DelaysInSeconds = new[] { 10, 30, 60, 120 })]
-    public async Task GenerateEmbeddingsBatch(int conversationId)
+    public async Task GenerateEmbeddingsBatch(int conversationId, string companyIdentifier, CancellationToken cancellationToken)
     {
-        var state = await GetBatchStateAsync(conversationId.ToString());
+        var batchKey = GetBatchKey(conversationId, companyIdentifier);
+        var state = await GetBatchStateAsync(batchKey);
+        if (state.Status == BatchProcessingStatus.Cancelled) return;
         state.Status = BatchProcessingStatus.GeneratingEmbeddings;
-        await SaveBatchStateAsync(conversationId.ToString(), state);
+        await SaveBatchStateAsync(batchKey, state);
 
         try
         {
-            var chunksDir = GetDirectory(conversationId.ToString(), "chunks");
-            var embeddingsDir = GetDirectory(conversationId.ToString(), "embeddings");
+            var chunksDir = GetDirectory(batchKey, "chunks");
+            var embeddingsDir = GetDirectory(batchKey, "embeddings");
             EnsureDirectoryExists(embeddingsDir);
 
             var chunksPath = Path.Combine(chunksDir, "chunks.json");
             var embeddingsPath = Path.Combine(embeddingsDir, "embeddings.json");
             int totalDocuments;
 
+            await BeginDocumentStageAsync(conversationId, companyIdentifier, batchKey, state,
+                BatchProcessingStatus.GeneratingEmbeddings);
+
             // Skip if already generated (idempotency)
             if (File.Exists(embeddingsPath))
             {
-                var extractedDir = GetDirectory(conversationId.ToString(), "extracted");
+                var extractedDir = GetDirectory(batchKey, "extracted");
                 totalDocuments = state.Documents.Count > 0
                     ? state.Documents.Count
                     : Directory.GetFiles(extractedDir, "*.txt").Length;
 
                 await _notifier.SendProgressUpdateAsync(conversationId.ToString(), new DocumentProcessingUpdate
                 {
+                    CompanyIdentifier = companyIdentifier,
                     Stage = BatchProcessingStatus.GeneratingEmbeddings,
                     Message = "Embeddings already generated. Skipping.",
                     ProgressPercent = 80,
@@ -418,6 +805,7 @@ public class DocumentProcessingJobService : IDocumentProcessingJobService
             // Send progress update
             await _notifier.SendProgressUpdateAsync(conversationId.ToString(), new DocumentProcessingUpdate
             {
+                CompanyIdentifier = companyIdentifier,
                 Stage = BatchProcessingStatus.GeneratingEmbeddings,
                 Message = "Generating embeddings using OpenAI...",
                 ProgressPercent = 70,
@@ -428,6 +816,7 @@ public class DocumentProcessingJobService : IDocumentProcessingJobService
             // Generate embeddings for all chunk texts
             var chunkTexts = chunks.Select(c => c.Text).ToList();
             var embeddingsDict = await _embeddingService.GenerateEmbeddingsAsync(chunkTexts);
+            cancellationToken.ThrowIfCancellationRequested();
 
             // Build chunk embeddings with metadata
             var chunkEmbeddings = chunks.Select(chunk => new ChunkEmbedding
@@ -446,6 +835,7 @@ public class DocumentProcessingJobService : IDocumentProcessingJobService
             // Send completion update for this stage
             await _notifier.SendProgressUpdateAsync(conversationId.ToString(), new DocumentProcessingUpdate
             {
+                CompanyIdentifier = companyIdentifier,
                 Stage = BatchProcessingStatus.GeneratingEmbeddings,
                 Message = $"Generated embeddings for {chunkEmbeddings.Count} chunk(s)",
                 ProgressPercent = 80,
@@ -453,17 +843,28 @@ public class DocumentProcessingJobService : IDocumentProcessingJobService
                 TotalDocuments = totalDocuments
             });
         }
+        catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+        {
+            // Deleted by CancelIngestionAsync (which records the outcome) or the server is shutting down
+            throw;
+        }
         catch (Exception ex)
         {
             state.Status = BatchProcessingStatus.Failed;
             state.ErrorMessage = ex.Message;
-            await SaveBatchStateAsync(conversationId.ToString(), state);
+            await SaveBatchStateAsync(batchKey, state);
+            await FailDocumentsAsync(conversationId, companyIdentifier, batchKey, state,
+                GetActiveDocuments(state), ex.Message);
+            await UpdateConversationIngestionStatusAsync(conversationId, companyIdentifier,
+                GetFailedIngestionStatus(state));
 
             // Send error notification
             await _notifier.SendErrorAsync(conversationId.ToString(), new ProcessingErrorResult
             {
+                CompanyIdentifier = companyIdentifier,
                 ErrorMessage = ex.Message,
-                Stage = BatchProcessingStatus.GeneratingEmbeddings
+                Stage = BatchProcessingStatus.GeneratingEmbeddings,
+                Documents = state.Documents.Select(ToDocumentStatus).ToList()
             });
 
             throw;
@@ -480,15 +881,17 @@ public class DocumentProcessingJobService : IDocumentProcessingJobService
     /// </summary>
     [AutomaticRetry(Attempts = 3)]
     [DisableConcurrentExecution(300)]
-    public async Task PersistEmbeddingsBatch(int conversationId, int userId)
+    public async Task PersistEmbeddingsBatch(int conversationId, string companyIdentifier, int userId, CancellationToken cancellationToken)
     {
-        var state = await GetBatchStateAsync(conversationId.ToString());
+        var batchKey = GetBatchKey(conversationId, companyIdentifier);
+        var state = await GetBatchStateAsync(batchKey);
+        if (state.Status == BatchProcessingStatus.Cancelled) return;
         state.Status = BatchProcessingStatus.PersistingEmbeddings;
-        await SaveBatchStateAsync(conversationId.ToString(), state);
+        await SaveBatchStateAsync(batchKey, state);
 
         try
         {
-            var embeddingsDir = GetDirectory(conversationId.ToString(), "embeddings");
+            var embeddingsDir = GetDirectory(batchKey, "embeddings");
             var embeddingsPath = Path.Combine(embeddingsDir, "embeddings.json");
 
             var embeddingsJson = await File.ReadAllTextAsync(embeddingsPath);
@@ -501,6 +904,7 @@ public class DocumentProcessingJobService : IDocumentProcessingJobService
             // Send progress update
             await _notifier.SendProgressUpdateAsync(conversationId.ToString(), new DocumentProcessingUpdate
             {
+                CompanyIdentifier = companyIdentifier,
                 Stage = BatchProcessingStatus.PersistingEmbeddings,
                 Message = "Saving embeddings to database...",
                 ProgressPercent = 90,
@@ -508,54 +912,81 @@ public class DocumentProcessingJobService : IDocumentProcessingJobService
                 TotalDocuments = totalDocuments
             });
 
+            var persistingDocuments = await BeginDocumentStageAsync(conversationId, companyIdentifier, batchKey,
+                state, BatchProcessingStatus.PersistingEmbeddings);
+
+            // Register each filing as a Document so answers can cite it and the viewer can open it
+            var filingDocuments = await EnsureFilingDocumentsAsync(conversationId, batchKey, state,
+                chunkEmbeddings.Select(ce => ce.SourceDocument).Distinct());
+
             // Build upsert items
             var items = chunkEmbeddings.Select(ce => new EmbeddingUpsertItem
             {
                 Text = ce.Text,
                 Vector = ce.Embedding,
-                DocumentId = ce.SourceDocument,
+                DocumentId = filingDocuments[ce.SourceDocument].Id.ToString(),
                 UserId = userId,
                 ConversationId = conversationId,
-                DocumentTitle = ce.SourceDocument,
+                DocumentTitle = filingDocuments[ce.SourceDocument].Title ?? ce.SourceDocument,
                 ChunkIndex = ce.ChunkIndex,
                 ChunkHash = ComputeSha256(ce.Text),
                 Owner = EmbeddingOwner.UserDocument
             }).ToList();
 
+            cancellationToken.ThrowIfCancellationRequested();
             await _embeddingRepository.UpsertEmbeddingsAsync(items);
 
+            await SetDocumentStageAsync(conversationId, companyIdentifier, batchKey, state,
+                persistingDocuments, BatchProcessingStatus.Completed);
+
             // Mark as completed
             state.Status = BatchProcessingStatus.Completed;
             state.CompletedAt = DateTime.UtcNow;
-            await SaveBatchStateAsync(conversationId.ToString(), state);
+            await SaveBatchStateAsync(batchKey, state);
 
             // Persist ingestion status to database
-            await UpdateConversationIngestionStatusAsync(conversationId, BatchProcessingStatus.Completed);
+            await UpdateConversationIngestionStatusAsync(conversationId, companyIdentifier,
+                BatchProcessingStatus.Completed);
 
             // Send final completion notification
             var duration = state.CompletedAt.Value - state.CreatedAt;
             await _notifier.SendCompletionAsync(conversationId.ToString(), new ProcessingCompleteResult
             {
-                TotalDocuments = totalDocuments,
-                SuccessfulDocuments = totalDocuments,
-                FailedDocuments = 0,
-                Duration = duration
+                CompanyIdentifier = companyIdentifier,
+                TotalDocuments = state.Documents.Count > 0 ? state.Documents.Count : totalDocuments,
+                SuccessfulDocuments = state.Documents.Count > 0
+                    ? state.Documents.Count(d => d.Stage == BatchProcessingStatus.Completed)
+                    : totalDocuments,
+                FailedDocuments = state.Documents.Count(d => d.ErrorMessage != null),
+                Duration = duration,
+                Documents = state.Documents.Select(ToDocumentStatus).ToList()
             });
         }
+        catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+        {
+            // Deleted by CancelIngestionAsync (which records the outcome) or the server is shutting down
+            throw;
+        }
         catch (Exception ex)
         {
             state.Status = BatchProcessingStatus.Failed;
             state.ErrorMessage = ex.Message;
-            await SaveBatchStateAsync(conversationId.ToString(), state);
+            await SaveBatchStateAsync(batchKey, state);
+
+            await FailDocumentsAsync(conversationId, companyIdentifier, batchKey, state,
+                GetActiveDocuments(state), ex.Message);
 
             // Persist failed status to database
-            await UpdateConversationIngestionStatusAsync(conversationId, BatchProcessingStatus.Failed);
+            await UpdateConversationIngestionStatusAsync(conversationId, companyIdentifier,
+                GetFailedIngestionStatus(state));
 
             // Send error notification
             await _notifier.SendErrorAsync(conversationId.ToString(), new ProcessingErrorResult
             {
+                CompanyIdentifier = companyIdentifier,
                 ErrorMessage = ex.Message,
-                Stage = BatchProcessingStatus.PersistingEmbeddings
+                Stage = BatchProcessingStatus.PersistingEmbeddings,
+                Documents = state.Documents.Select(ToDocumentStatus).ToList()
             });
 
             throw;
@@ -564,11 +995,248 @@ public class DocumentProcessingJobService : IDocumentProcessingJobService
 
     #endregion
 
+    #region Uploaded Documents
+
+    /// <summary>
+    /// Extracts, chunks, embeds and persists an uploaded document, recording progress on its IngestionStatus.
+    /// Uploads are single files, so the steps run in one job rather than the batch pipeline used for filings.
+    /// </summary>
+    [AutomaticRetry(Attempts = 3)]
+    public async Task IngestUploadedDocument(int documentId, int userId, CancellationToken cancellationToken)
+    {
+        var document = await _documentRepository.GetByIdAsync(documentId);
+        if (document == null) return; // Deleted before the job ran
+
+        await _documentRepository.UpdateIngestionStatusAsync(documentId, DocumentIngestionStatus.Processing);
+
+        try
+        {
+            cancellationToken.ThrowIfCancellationRequested();
+
+            // A retry starts over, so drop whatever a failed attempt managed to persist
+            _embeddingRepository.DeleteEmbeddingsByDocumentId(documentId.ToString());
+
+            await _documentIngestionService.IngestDocumentAsync(documentId, userId, document.ConversationId);
+
+            await _documentRepository.UpdateIngestionStatusAsync(documentId, DocumentIngestionStatus.Completed);
+        }
+        catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+        {
+            // The server is shutting down; Hangfire re-runs the job on restart
+            throw;
+        }
+        catch (Exception ex)
+        {
+            await _documentRepository.UpdateIngestionStatusAsync(documentId, DocumentIngestionStatus.Failed,
+                ex.Message);
+            throw;
+        }
+    }
+
+    #endregion
+
     #region Helper Methods
 
-    private string GetDirectory(string conversationId, string subFolder)
+    /// <summary>
+    /// Storage key for one company's batch within a conversation: {conversationId}/{TICKER}.
+    /// Each company researched in a conversation gets its own working folders and status.json.
+    /// </summary>
+    private static string GetBatchKey(int conversationId, string companyIdentifier)
+    {
+        var companyKey = string.Concat(companyIdentifier.Trim().ToUpperInvariant()
+            .Where(c => !Path.GetInvalidFileNameChars().Contains(c)));
+
+        return Path.Combine(conversationId.ToString(), companyKey);
+    }
+
+    /// <summary>
+    /// Storage key of a company's existing batch. Batches started before each company got its own folder
+    /// were kept directly under {conversationId}; such a batch is moved into its company's folder the first
+    /// time it is read, so it can still be retried, cancelled and reported.
+    /// </summary>
+    private async Task<string> GetExistingBatchKeyAsync(int conversationId, string companyIdentifier)
+    {
+        var batchKey = GetBatchKey(conversationId, companyIdentifier);
+        var legacyKey = conversationId.ToString();
+        if (BatchStateExists(batchKey) || !BatchStateExists(legacyKey))
+        {
+            return batchKey;
+        }
+
+        var state = await GetBatchStateAsync(legacyKey);
+        if (GetBatchKey(conversationId, state.CompanyIdentifier) != batchKey)
+        {
+            return batchKey;
+        }
+
+        var legacyDir = GetDirectory(legacyKey, "");
+        var batchDir = GetDirectory(batchKey, "");
+        EnsureDirectoryExists(batchDir);
+        foreach (var subFolder in new[] { "raw", "extracted", "chunks", "embeddings" })
+        {
+            var source = Path.Combine(legacyDir, subFolder);
+            var target = Path.Combine(batchDir, subFolder);
+            if (Directory.Exists(source) && !Directory.Exists(target))
+            {
+                Directory.Move(source, target);
+            }
+        }
+
+        // Filings had no stage of their own back then, so they take the batch's outcome, which lets a
+        // failed batch be retried
+        foreach (var document in state.Documents.Where(d => d.Stage == BatchProcessingStatus.Pending))
+        {
+            if (state.Status == BatchProcessingStatus.Completed)
+            {
+                document.Stage = BatchProcessingStatus.Completed;
+            }
+            else if (state.Status is BatchProcessingStatus.Failed or BatchProcessingStatus.Cancelled)
+            {
+                document.ErrorMessage ??= state.ErrorMessage ?? "Ingestion failed";
+                document.CompletedAt ??= state.CompletedAt;
+            }
+        }
+
+        // status.json goes last, so a move that was interrupted is finished on the next read
+        await SaveBatchStateAsync(batchKey, state);
+        File.Delete(Path.Combine(legacyDir, "status.json"));
+
+        return batchKey;
+    }
+
+    /// <summary>
+    /// Documents still moving through the pipeline: not failed and not yet completed.
+    /// </summary>
+    private static List<BatchDocumentInfo> GetActiveDocuments(BatchProcessingState state)
+    {
+        return state.Documents
+            .Where(d => d.ErrorMessage == null && d.Stage != BatchProcessingStatus.Completed)
+            .ToList();
+    }
+
+    /// <summary>
+    /// Ingestion status to record when a run fails. Filings completed by an earlier run stay
+    /// searchable, so the company remains Completed in that case.
+    /// </summary>
+    private static BatchProcessingStatus GetFailedIngestionStatus(BatchProcessingState state)
     {
-        return Path.Combine(_baseDirectory, conversationId, subFolder);
+        return state.Documents.Any(d => d.Stage == BatchProcessingStatus.Completed)
+            ? BatchProcessingStatus.Completed
+            : BatchProcessingStatus.Failed;
+    }
+
+    /// <summary>
+    /// Finds a document by its source name (file name without extension), as used in chunk files.
+    /// </summary>
+    private static BatchDocumentInfo? FindDocument(BatchProcessingState state, string sourceDocument)
+    {
+        return state.Documents.FirstOrDefault(d =>
+            Path.GetFileNameWithoutExtension(d.FileName) == sourceDocument);
+    }
+
+    /// <summary>
+    /// Moves every active document into a stage. Documents that failed in this same stage on a previous
+    /// attempt are picked up again first, so Hangfire retries of the stage also retry them.
+    /// </summary>
+    /// <returns>The documents now in the stage.</returns>
+    private async Task<List<BatchDocumentInfo>> BeginDocumentStageAsync(int conversationId,
+        string companyIdentifier, string batchKey, BatchProcessingState state, BatchProcessingStatus stage)
+    {
+        foreach (var document in state.Documents.Where(d => d.ErrorMessage != null && d.Stage == stage))
+        {
+            document.ErrorMessage = null;
+            document.CompletedAt = null;
+        }
+
+        var documents = GetActiveDocuments(state);
+        await SetDocumentStageAsync(conversationId, companyIdentifier, batchKey, state, documents, stage);
+        return documents;
+    }
+
+    /// <summary>
+    /// Records that documents reached a stage, saves the batch state and pushes the change to clients.
+    /// </summary>
+    private async Task SetDocumentStageAsync(int conversationId, string companyIdentifier, string batchKey,
+        BatchProcessingState state, IReadOnlyCollection<BatchDocumentInfo> documents, BatchProcessingStatus stage)
+    {
+        if (documents.Count == 0)
+        {
+            return;
+        }
+
+        var now = DateTime.UtcNow;
+        foreach (var document in documents)
+        {
+            document.Stage = stage;
+            document.StartedAt ??= now;
+            document.StageStartedAt = now;
+            if (stage == BatchProcessingStatus.Completed)
+            {
+                document.CompletedAt = now;
+            }
+        }
+
+        await SaveBatchStateAsync(batchKey, state);
+        await _notifier.SendDocumentStatusAsync(conversationId.ToString(), new DocumentStatusUpdate
+        {
+            CompanyIdentifier = companyIdentifier,
+            Documents = documents.Select(ToDocumentStatus).ToList()
+        });
+    }
+
+    /// <summary>
+    /// Marks documents as failed in their current stage, saves the batch state and pushes the change to clients.
+    /// </summary>
+    private async Task FailDocumentsAsync(int conversationId, string companyIdentifier, string batchKey,
+        BatchProcessingState state, IReadOnlyCollection<BatchDocumentInfo> documents, string errorMessage)
+    {
+        if (documents.Count == 0)
+        {
+            return;
+        }
+
+        var now = DateTime.UtcNow;
+        foreach (var document in documents)
+        {
+            document.ErrorMessage = errorMessage;
+            document.CompletedAt = now;
+        }
+
+        await SaveBatchStateAsync(batchKey, state);
+        await _notifier.SendDocumentStatusAsync(conversationId.ToString(), new DocumentStatusUpdate
+        {
+            CompanyIdentifier = companyIdentifier,
+            Documents = documents.Select(ToDocumentStatus).ToList()
+        });
+    }
+
+    private static ProcessingDocumentStatus ToDocumentStatus(BatchDocumentInfo document)
+    {
+        return new ProcessingDocumentStatus
+        {
+            FileName = document.FileName,
+            FilingType = document.FilingType,
+            AccessionNumber = document.AccessionNumber,
+            FilingDate = document.FilingDate,
+            Stage = document.Stage,
+            ErrorMessage = document.ErrorMessage,
+            StartedAt = document.StartedAt,
+            StageStartedAt = document.StageStartedAt,
+            CompletedAt = document.CompletedAt
+        };
+    }
+
+    private string GetDirectory(string batchKey, string subFolder)
+    {
+        return Path.Combine(_baseDirectory, batchKey, subFolder);
+    }
+
+    private static void DeleteFileIfExists(string path)
+    {
+        if (File.Exists(path))
+        {
+            File.Delete(path);
+        }
     }
 
     private static void EnsureDirectoryExists(string path)
@@ -612,9 +1280,9 @@ public class DocumentProcessingJobService : IDocumentProcessingJobService
         return SHA256.HashData(bytes);
     }
 
-    private async Task<BatchProcessingState> GetBatchStateAsync(string conversationId)
+    private async Task<BatchProcessingState> GetBatchStateAsync(string batchKey)
     {
-        var stateDir = GetDirectory(conversationId, "");
+        var stateDir = GetDirectory(batchKey, "");
         var statePath = Path.Combine(stateDir, "status.json");
 
         if (File.Exists(statePath))
@@ -624,27 +1292,126 @@ public class DocumentProcessingJobService : IDocumentProcessingJobService
                    ?? throw new InvalidOperationException("Failed to deserialize batch state");
         }
 
-        throw new InvalidOperationException($"Batch state not found for conversation {conversationId}");
+        throw new InvalidOperationException($"Batch state not found for {batchKey}");
     }
 
-    private async Task SaveBatchStateAsync(string conversationId, BatchProcessingState state)
+    private bool BatchStateExists(string batchKey)
     {
-        var stateDir = GetDirectory(conversationId, "");
+        return File.Exists(Path.Combine(GetDirectory(batchKey, ""), "status.json"));
+    }
+
+    private async Task SaveBatchStateAsync(string batchKey, BatchProcessingState state)
+    {
+        var stateDir = GetDirectory(batchKey, "");
         EnsureDirectoryExists(stateDir);
 
         var statePath = Path.Combine(stateDir, "status.json");
+
+        // A job can still be running for a few seconds after it is cancelled. Once cancelled, the batch
+        // only changes again when it is retried (reset to Pending), so drop writes from that job.
+        if (state.Status is not (BatchProcessingStatus.Pending or BatchProcessingStatus.Cancelled)
+            && File.Exists(statePath))
+        {
+            var saved = JsonSerializer.Deserialize<BatchProcessingState>(await File.ReadAllTextAsync(statePath));
+            if (saved?.Status == BatchProcessingStatus.Cancelled)
+            {
+                return;
+            }
+        }
         var json = JsonSerializer.Serialize(state, new JsonSerializerOptions { WriteIndented = true });
         await WriteFileAtomicallyAsync(statePath, json);
     }
 
     /// <summary>
-    /// Updates the ingestion status on the Conversation entity in the database.
+    /// Finds or creates the Document row for each filing in the batch, keyed by the source document name
+    /// used in chunk files (filename without extension). Idempotent across job retries.
+    /// </summary>
+    /// <param name="conversationId">The conversation the filings belong to.</param>
+    /// <param name="batchKey">Storage key of the company's batch within the conversation.</param>
+    /// <param name="state">The batch state holding per-filing metadata.</param>
+    /// <param name="sourceDocuments">Source document names referenced by the chunk embeddings.</param>
+    /// <returns>Documents keyed by source document name.</returns>
+    private async Task<Dictionary<string, Document>> EnsureFilingDocumentsAsync(
+        int conversationId,
+        string batchKey,
+        BatchProcessingState state,
+        IEnumerable<string> sourceDocuments)
+    {
+        var company = await _conversationRepository.GetCompanyAsync(conversationId, state.CompanyIdentifier);
+        var rawDir = GetDirectory(batchKey, "raw");
+        var extractedDir = GetDirectory(batchKey, "extracted");
+        var documents = new Dictionary<string, Document>();
+
+        foreach (var sourceDocument in sourceDocuments)
+        {
+            var info = state.Documents.FirstOrDefault(d =>
+                Path.GetFileNameWithoutExtension(d.FileName) == sourceDocument);
+            var fileName = info?.FileName
+                           ?? Directory.GetFiles(rawDir, $"{sourceDocument}.*").Select(Path.GetFileName)
+                               .FirstOrDefault()
+                           ?? sourceDocument;
+
+            var document = await _documentRepository.GetByConversationAndFileNameAsync(conversationId, fileName);
+            if (document == null)
+            {
+                var rawPath = Path.Combine(rawDir, fileName);
+                var extractedPath = Path.Combine(extractedDir, $"{sourceDocument}.txt");
+
+                document = await _documentRepository.AddAsync(new Document
+                {
+                    FileName = fileName,
+                    OriginalFileName = fileName,
+                    ContentType = GetFilingContentType(fileName),
+                    FileSize = File.Exists(rawPath) ? new FileInfo(rawPath).Length : 0,
+                    FilePath = rawPath,
+                    Title = info != null
+                        ? $"{state.CompanyIdentifier} {info.FilingType} ({info.FilingDate:yyyy-MM-dd})"
+                        : sourceDocument,
+                    Description = info != null
+                        ? $"SEC {info.FilingType} filing, accession {info.AccessionNumber}"
+                        : "SEC filing",
+                    DocumentText = File.Exists(extractedPath) ? await File.ReadAllTextAsync(extractedPath) : null,
+                    ConversationId = conversationId,
+                    ConversationCompanyId = company?.Id
+                });
+            }
+
+            documents[sourceDocument] = document;
+        }
+
+        return documents;
+    }
+
+    private static string GetFilingContentType(string fileName)
+    {
+        return Path.GetExtension(fileName).ToLowerInvariant() switch
+        {
+            ".htm" or ".html" => "text/html",
+            ".txt" => "text/plain",
+            ".pdf" => "application/pdf",
+            ".xml" => "application/xml",
+            _ => "application/octet-stream"
+        };
+    }
+
+    /// <summary>
+    /// Updates the company's ingestion status in the database, which also rolls up into the
+    /// Conversation's overall status.
     /// </summary>
     /// <param name="conversationId">The conversation to update.</param>
+    /// <param name="companyIdentifier">The company whose batch changed status.</param>
     /// <param name="status">The new ingestion status.</param>
-    private async Task UpdateConversationIngestionStatusAsync(int conversationId, BatchProcessingStatus status)
+    private async Task UpdateConversationIngestionStatusAsync(int conversationId, string companyIdentifier,
+        BatchProcessingStatus status)
     {
-        await _conversationRepository.UpdateIngestionStatusAsync(conversationId, status);
+        var updated = await _conversationRepository.UpdateCompanyIngestionStatusAsync(
+            conversationId, companyIdentifier, status);
+
+        // Conversations whose company row was replaced mid-run still get their overall status
+        if (!updated)
+        {
+            await _conversationRepository.UpdateIngestionStatusAsync(conversationId, status);
+        }
     }
 
     #endregion
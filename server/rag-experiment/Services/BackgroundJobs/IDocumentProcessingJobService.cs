@@ -1,3 +1,5 @@
+using rag_experiment.Hubs.Models;
+
 namespace rag_experiment.Services.BackgroundJobs;
 
 public interface IDocumentProcessingJobService
@@ -11,10 +13,48 @@ public interface IDocumentProcessingJobService
     /// <param name="filingTypes">List of filing types to download (e.g., ["10-K", "10-Q", "8-K"]).</param>
     /// <param name="userId">The user who initiated the ingestion.</param>
     /// <param name="conversationId">The conversation to associate the documents with.</param>
+    /// <param name="accessionNumbers">Optional exact filings to ingest; when null the most recent filings of each type are used.</param>
     /// <returns>The job ID of the final job in the chain, for tracking purposes.</returns>
     Task<string> SetupFilingIngestionPipeline(
         string companyIdentifier,
         List<string> filingTypes,
         int userId,
-        int conversationId);
+        int conversationId,
+        List<string>? accessionNumbers = null);
+
+    /// <summary>
+    /// Enqueues ingestion of an uploaded document: text extraction, chunking, embedding and persistence
+    /// run in the background while the document's IngestionStatus records progress.
+    /// </summary>
+    /// <param name="documentId">The uploaded document.</param>
+    /// <param name="userId">The user who uploaded it.</param>
+    /// <returns>The job ID, for tracking purposes.</returns>
+    string EnqueueUploadIngestion(int documentId, int userId);
+
+    /// <summary>
+    /// Cancels a company's ingestion, stopping its queued and running jobs.
+    /// Filings that already completed stay searchable.
+    /// </summary>
+    /// <param name="conversationId">The conversation the company belongs to.</param>
+    /// <param name="companyIdentifier">The company ticker symbol or CIK number.</param>
+    /// <returns>False when there is no ingestion for the company or it has already finished.</returns>
+    Task<bool> CancelIngestionAsync(int conversationId, string companyIdentifier);
+
+    /// <summary>
+    /// Re-runs the pipeline for a company's failed or cancelled filings.
+    /// </summary>
+    /// <param name="conversationId">The conversation the company belongs to.</param>
+    /// <param name="companyIdentifier">The company ticker symbol or CIK number.</param>
+    /// <param name="accessionNumbers">Failed filings to retry; null retries all of them.</param>
+    /// <returns>The job ID of the final job in the new chain, or null when there is nothing to retry.</returns>
+    Task<string?> RetryIngestionAsync(int conversationId, string companyIdentifier,
+        IReadOnlyCollection<string>? accessionNumbers = null);
+
+    /// <summary>
+    /// Reads the current state of each company's batch, for clients that connect mid-ingestion.
+    /// </summary>
+    /// <param name="conversationId">The conversation whose ingestion to read.</param>
+    /// <param name="companyIdentifiers">The conversation's companies; those without a batch are skipped.</param>
+    /// <returns>The snapshot of every company that has a batch.</returns>
+    Task<IngestionSnapshot> GetIngestionSnapshotAsync(int conversationId, IEnumerable<string> companyIdentifiers);
 }
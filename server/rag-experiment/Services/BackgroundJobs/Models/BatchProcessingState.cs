@@ -10,8 +10,18 @@ public class BatchProcessingState
     public required string UserId { get; set; }
     public required string CompanyIdentifier { get; set; }
     public required List<string> FilingTypes { get; set; }
+
+    /// <summary>
+    /// Exact filings requested for this batch. Null when the latest filings of each type are ingested.
+    /// </summary>
+    public List<string>? AccessionNumbers { get; set; }
     public BatchProcessingStatus Status { get; set; } = BatchProcessingStatus.Pending;
     public string? JobId { get; set; }
+
+    /// <summary>
+    /// Every Hangfire job in the current chain, so cancelling or retrying can delete them.
+    /// </summary>
+    public List<string> JobIds { get; set; } = new();
     public string? ErrorMessage { get; set; }
     public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
     public DateTime? CompletedAt { get; set; }
@@ -31,6 +41,20 @@ public class BatchDocumentInfo
     public required string FilingType { get; set; }
     public required string AccessionNumber { get; set; }
     public required DateOnly FilingDate { get; set; }
+
+    /// <summary>
+    /// Furthest pipeline stage this document has reached; when ErrorMessage is set, the stage it failed in.
+    /// </summary>
+    public BatchProcessingStatus Stage { get; set; } = BatchProcessingStatus.Pending;
+
+    /// <summary>
+    /// Why this document failed. Null while it is still processing or once it has completed.
+    /// </summary>
+    public string? ErrorMessage { get; set; }
+
+    public DateTime? StartedAt { get; set; }
+    public DateTime? StageStartedAt { get; set; }
+    public DateTime? CompletedAt { get; set; }
 }
 
 /// <summary>
@@ -87,6 +111,7 @@ public enum BatchProcessingStatus
     GeneratingEmbeddings,
     PersistingEmbeddings,
     Completed,
-    Failed
+    Failed,
+    Cancelled
 }
 
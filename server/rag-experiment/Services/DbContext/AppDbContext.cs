@@ -16,7 +16,12 @@ namespace rag_experiment.Services
         public DbSet<Conversation> Conversations { get; set; }
         public DbSet<Message> Messages { get; set; }
         public DbSet<MessageSource> MessageSources { get; set; }
+        public DbSet<MessageSourceChunk> MessageSourceChunks { get; set; }
         public DbSet<ConversationCompany> ConversationCompanies { get; set; }
+        public DbSet<DocumentAttachment> DocumentAttachments { get; set; }
+        public DbSet<UploadSession> UploadSessions { get; set; }
+        public DbSet<Report> Reports { get; set; }
+        public DbSet<ReportBlock> ReportBlocks { get; set; }
 
         public AppDbContext(DbContextOptions<AppDbContext> options) : base(options)
         {
@@ -69,6 +74,9 @@ namespace rag_experiment.Services
                 entity.HasKey(e => e.Id);
                 entity.Property(e => e.CompanyName).IsRequired().HasMaxLength(200);
                 entity.Property(e => e.Ticker).IsRequired().HasMaxLength(20);
+                entity.Property(e => e.IngestionStatus)
+                    .HasConversion<string>()
+                    .HasMaxLength(50);
                 entity.HasOne(e => e.Conversation)
                     .WithMany(c => c.Companies)
                     .HasForeignKey(e => e.ConversationId)
@@ -88,6 +96,80 @@ namespace rag_experiment.Services
                     .HasForeignKey(e => e.ConversationId)
                     .OnDelete(DeleteBehavior.SetNull)
                     .IsRequired(false); // Make the relationship optional
+                entity.HasOne(e => e.ConversationCompany)
+                    .WithMany(c => c.Documents)
+                    .HasForeignKey(e => e.ConversationCompanyId)
+                    .OnDelete(DeleteBehavior.SetNull)
+                    .IsRequired(false);
+                entity.Property(e => e.IngestionStatus)
+                    .HasConversion<string>()
+                    .HasMaxLength(50);
+                entity.HasOne(e => e.User)
+                    .WithMany()
+                    .HasForeignKey(e => e.UserId)
+                    .OnDelete(DeleteBehavior.Cascade)
+                    .IsRequired(false);
+            });
+
+            // Configure DocumentAttachment entity
+            modelBuilder.Entity<DocumentAttachment>(entity =>
+            {
+                entity.HasKey(e => e.Id);
+                entity.HasOne(e => e.Document)
+                    .WithMany(d => d.Attachments)
+                    .HasForeignKey(e => e.DocumentId)
+                    .OnDelete(DeleteBehavior.Cascade);
+                entity.HasOne(e => e.Conversation)
+                    .WithMany(c => c.DocumentAttachments)
+                    .HasForeignKey(e => e.ConversationId)
+                    .OnDelete(DeleteBehavior.Cascade);
+                entity.HasIndex(e => new { e.ConversationId, e.DocumentId }).IsUnique();
+            });
+
+            // Configure UploadSession entity
+            modelBuilder.Entity<UploadSession>(entity =>
+            {
+                entity.HasKey(e => e.Id);
+                entity.HasOne(e => e.User)
+                    .WithMany()
+                    .HasForeignKey(e => e.UserId)
+                    .OnDelete(DeleteBehavior.Cascade);
+                entity.HasOne(e => e.Conversation)
+                    .WithMany()
+                    .HasForeignKey(e => e.ConversationId)
+                    .OnDelete(DeleteBehavior.Cascade)
+                    .IsRequired(false);
+            });
+
+            // Configure Report entity
+            modelBuilder.Entity<Report>(entity =>
+            {
+                entity.HasKey(e => e.Id);
+                entity.Property(e => e.Title).IsRequired().HasMaxLength(200);
+                entity.HasOne(e => e.Conversation)
+                    .WithMany(c => c.Reports)
+                    .HasForeignKey(e => e.ConversationId)
+                    .OnDelete(DeleteBehavior.Cascade);
+            });
+
+            // Configure ReportBlock entity
+            modelBuilder.Entity<ReportBlock>(entity =>
+            {
+                entity.HasKey(e => e.Id);
+                entity.Property(e => e.Content).IsRequired();
+                entity.Property(e => e.Section)
+                    .HasConversion<string>()
+                    .HasMaxLength(50);
+                entity.HasOne(e => e.Report)
+                    .WithMany(r => r.Blocks)
+                    .HasForeignKey(e => e.ReportId)
+                    .OnDelete(DeleteBehavior.Cascade);
+                // Blocks keep their text and citations when the answer they came from is deleted
+                entity.HasOne(e => e.SourceMessage)
+                    .WithMany()
+                    .HasForeignKey(e => e.SourceMessageId)
+                    .OnDelete(DeleteBehavior.SetNull)
+                    .IsRequired(false);
             });
 
             // Configure Message entity
@@ -100,6 +182,13 @@ namespace rag_experiment.Services
                     .WithMany(c => c.Messages)
                     .HasForeignKey(e => e.ConversationId)
                     .OnDelete(DeleteBehavior.Cascade);
+                // Replies are re-parented by hand when a message is deleted; the database only has to
+                // tolerate whole threads disappearing with their conversation
+                entity.HasOne(e => e.ParentMessage)
+                    .WithMany(m => m.Replies)
+                    .HasForeignKey(e => e.ParentMessageId)
+                    .OnDelete(DeleteBehavior.ClientSetNull)
+                    .IsRequired(false);
             });
 
             // Configure MessageSource entity
@@ -129,6 +218,28 @@ namespace rag_experiment.Services
                 entity.HasIndex(e => e.DocumentId);
             });
 
+            // Configure MessageSourceChunk entity
+            modelBuilder.Entity<MessageSourceChunk>(entity =>
+            {
+                entity.HasKey(e => e.Id);
+                entity.Property(e => e.MessageSourceId).IsRequired();
+                entity.Property(e => e.EmbeddingId).IsRequired();
+
+                entity.HasOne(e => e.MessageSource)
+                    .WithMany(s => s.Chunks)
+                    .HasForeignKey(e => e.MessageSourceId)
+                    .OnDelete(DeleteBehavior.Cascade);
+
+                // Re-ingesting or deleting a document drops its embeddings, and with them the evidence links
+                entity.HasOne(e => e.Embedding)
+                    .WithMany()
+                    .HasForeignKey(e => e.EmbeddingId)
+                    .OnDelete(DeleteBehavior.Cascade);
+
+                entity.HasIndex(e => e.MessageSourceId);
+                entity.HasIndex(e => e.EmbeddingId);
+            });
+
             // Configure Embedding entity
             modelBuilder.Entity<Embedding>(entity =>
             {
@@ -8,4 +8,16 @@ namespace rag_experiment.Services.FilingDownloader;
 public interface ICompanyDirectoryService
 {
     Task<IReadOnlyList<SecCompanyInfo>> GetCompaniesAsync(CancellationToken ct = default);
+
+    /// <summary>
+    /// Searches the full SEC directory (not just the curated list) by name, ticker or CIK.
+    /// Exact ticker and CIK matches rank first, then prefix matches, then name matches.
+    /// </summary>
+    /// <param name="query">Free-text search term.</param>
+    /// <param name="limit">Maximum number of results to return.</param>
+    /// <param name="ct">Cancellation token.</param>
+    Task<IReadOnlyList<SecCompanyInfo>> SearchCompaniesAsync(
+        string query,
+        int limit,
+        CancellationToken ct = default);
 }
@@ -14,10 +14,17 @@ public interface IFilingDownloader
     /// </summary>
     /// <param name="companyIdentifier">The company ticker symbol or CIK number.</param>
     /// <param name="filingTypes">List of filing types to download (e.g., ["10-K", "10-Q", "8-K"]).</param>
+    /// <param name="accessionNumbers">
+    /// Optional exact filings to download. When provided, only these accession numbers are downloaded
+    /// and the configured maximum filing count does not apply.
+    /// </param>
+    /// <param name="failures">Optional collection that receives filings which could not be downloaded.</param>
     /// <param name="ct">Cancellation token for aborting the operation.</param>
     /// <returns>A list of downloaded filing documents with their content and metadata.</returns>
     Task<List<FilingDocument>> DownloadFilingsAsync(
         string companyIdentifier,
         List<string> filingTypes,
+        IReadOnlyCollection<string>? accessionNumbers = null,
+        ICollection<FilingDownloadFailure>? failures = null,
         CancellationToken ct = default);
 }
\ No newline at end of file
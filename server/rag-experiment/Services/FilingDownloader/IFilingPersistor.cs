@@ -14,11 +14,11 @@ public interface IFilingPersistor
     /// should not create duplicates (upsert behavior).
     /// </summary>
     /// <param name="documents">The filing documents to persist.</param>
-    /// <param name="conversationId">The conversation ID used to organize storage (e.g., folder path).</param>
+    /// <param name="batchKey">The batch key used to organize storage, e.g. "{conversationId}/{ticker}" as a folder path.</param>
     /// <param name="ct">Cancellation token for aborting the operation.</param>
     Task PersistFilingsAsync(
         List<FilingDocument> documents,
-        string conversationId,
+        string batchKey,
         CancellationToken ct = default);
 }
 
@@ -12,7 +12,7 @@ public class LocalFilingPersistor : IFilingPersistor
 {
     /// <summary>
     /// Base directory for storing ingestion job artifacts.
-    /// Files are stored at: {_baseDirectory}/{conversationId}/raw/{filename}
+    /// Files are stored at: {_baseDirectory}/{batchKey}/raw/{filename}, where batchKey is {conversationId}/{ticker}
     /// </summary>
     private readonly string _baseDirectory;
 
@@ -24,7 +24,7 @@ public class LocalFilingPersistor : IFilingPersistor
     /// <inheritdoc />
     public async Task PersistFilingsAsync(
         List<FilingDocument> documents,
-        string conversationId,
+        string batchKey,
         CancellationToken ct = default)
     {
         if (documents.Count == 0)
@@ -32,7 +32,7 @@ public class LocalFilingPersistor : IFilingPersistor
             return;
         }
 
-        var rawDirectory = GetRawDirectory(conversationId);
+        var rawDirectory = GetRawDirectory(batchKey);
         EnsureDirectoryExists(rawDirectory);
 
         foreach (var document in documents)
@@ -83,11 +83,11 @@ public class LocalFilingPersistor : IFilingPersistor
     }
 
     /// <summary>
-    /// Gets the raw documents directory path for a conversation.
+    /// Gets the raw documents directory path for a batch.
     /// </summary>
-    private string GetRawDirectory(string conversationId)
+    private string GetRawDirectory(string batchKey)
     {
-        return Path.Combine(_baseDirectory, conversationId, "raw");
+        return Path.Combine(_baseDirectory, batchKey, "raw");
     }
 
     /// <summary>
@@ -0,0 +1,28 @@
+namespace rag_experiment.Services.FilingDownloader.Models;
+
+/// <summary>
+/// A filing that was selected for download but could not be fetched.
+/// Reported alongside the successful downloads so the pipeline can show which filings failed and why.
+/// </summary>
+public class FilingDownloadFailure
+{
+    /// <summary>
+    /// The type of SEC filing (e.g., "10-K", "10-Q", "8-K"), or "Unknown" when the filing could not be found.
+    /// </summary>
+    public required string FilingType { get; init; }
+
+    /// <summary>
+    /// The SEC accession number of the filing that failed.
+    /// </summary>
+    public required string AccessionNumber { get; init; }
+
+    /// <summary>
+    /// The date the filing was submitted to the SEC, or DateOnly.MinValue when the filing could not be found.
+    /// </summary>
+    public required DateOnly FilingDate { get; init; }
+
+    /// <summary>
+    /// Why the download failed.
+    /// </summary>
+    public required string ErrorMessage { get; init; }
+}
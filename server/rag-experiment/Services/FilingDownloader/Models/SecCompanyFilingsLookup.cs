@@ -12,6 +12,11 @@ public class SecCompanyFilingsLookup
 
     public IReadOnlyList<SecAvailableFilingType> AvailableFilingTypes { get; init; } =
         Array.Empty<SecAvailableFilingType>();
+
+    /// <summary>
+    /// Individual recent filings, newest first, so callers can pick exact accession numbers.
+    /// </summary>
+    public IReadOnlyList<SecAvailableFiling> Filings { get; init; } = Array.Empty<SecAvailableFiling>();
 }
 
 public class SecAvailableFilingType
@@ -22,3 +27,17 @@ public class SecAvailableFilingType
 
     public DateOnly? LatestFilingDate { get; init; }
 }
+
+public class SecAvailableFiling
+{
+    public required string AccessionNumber { get; init; }
+
+    public required string FormType { get; init; }
+
+    public required DateOnly FilingDate { get; init; }
+
+    /// <summary>
+    /// End of the period the filing reports on (e.g. fiscal year end for a 10-K). Not every form has one.
+    /// </summary>
+    public DateOnly? ReportDate { get; init; }
+}
@@ -5,13 +5,15 @@ using rag_experiment.Services.FilingDownloader.Models;
 namespace rag_experiment.Services.FilingDownloader;
 
 /// <summary>
-/// Reads the SEC company directory feed and caches the filtered result.
+/// Reads the SEC company directory feed and caches both the full directory (for search)
+/// and the filtered result.
 /// </summary>
 public class SecCompanyDirectoryClient : ICompanyDirectoryService
 {
     private const string EdgarBaseUrl = "https://www.sec.gov";
     private const string CompanyDirectoryUrl = $"{EdgarBaseUrl}/files/company_tickers_exchange.json";
     private const string CacheKey = "sec-company-directory";
+    private const string FullDirectoryCacheKey = "sec-company-directory-full";
     private static readonly TimeSpan CacheDuration = TimeSpan.FromHours(12);
 
     private readonly HttpClient _httpClient;
@@ -33,6 +35,87 @@ public class SecCompanyDirectoryClient : ICompanyDirectoryService
             return cachedCompanies;
         }
 
+        var directory = await GetFullDirectoryAsync(ct);
+        var companies = directory
+            .Where(company => Fortune500CompanyFilter.IsIncluded(company.Name))
+            .ToList()
+            .AsReadOnly();
+
+        _cache.Set(CacheKey, companies, CacheDuration);
+
+        return companies;
+    }
+
+    public async Task<IReadOnlyList<SecCompanyInfo>> SearchCompaniesAsync(
+        string query,
+        int limit,
+        CancellationToken ct = default)
+    {
+        var term = query.Trim();
+        if (string.IsNullOrEmpty(term) || limit <= 0)
+        {
+            return Array.Empty<SecCompanyInfo>();
+        }
+
+        var directory = await GetFullDirectoryAsync(ct);
+        long.TryParse(term, out var cikTerm);
+
+        return directory
+            .Select(company => new { company, rank = GetSearchRank(company, term, cikTerm) })
+            .Where(x => x.rank.HasValue)
+            .OrderBy(x => x.rank)
+            .ThenBy(x => x.company.Name, StringComparer.OrdinalIgnoreCase)
+            .Take(limit)
+            .Select(x => x.company)
+            .ToList()
+            .AsReadOnly();
+    }
+
+    /// <summary>
+    /// Lower is better; null means no match.
+    /// </summary>
+    private static int? GetSearchRank(SecCompanyInfo company, string term, long cikTerm)
+    {
+        var ticker = company.Ticker ?? string.Empty;
+
+        if (string.Equals(ticker, term, StringComparison.OrdinalIgnoreCase) ||
+            (cikTerm > 0 && company.CikNumber == cikTerm))
+        {
+            return 0;
+        }
+
+        if (ticker.StartsWith(term, StringComparison.OrdinalIgnoreCase))
+        {
+            return 1;
+        }
+
+        if (company.Name.StartsWith(term, StringComparison.OrdinalIgnoreCase))
+        {
+            return 2;
+        }
+
+        if (company.Name.Contains($" {term}", StringComparison.OrdinalIgnoreCase))
+        {
+            return 3;
+        }
+
+        if (company.Name.Contains(term, StringComparison.OrdinalIgnoreCase) ||
+            (cikTerm > 0 && company.Cik.Contains(term, StringComparison.Ordinal)))
+        {
+            return 4;
+        }
+
+        return null;
+    }
+
+    private async Task<IReadOnlyList<SecCompanyInfo>> GetFullDirectoryAsync(CancellationToken ct)
+    {
+        if (_cache.TryGetValue<IReadOnlyList<SecCompanyInfo>>(FullDirectoryCacheKey, out var cachedDirectory) &&
+            cachedDirectory != null)
+        {
+            return cachedDirectory;
+        }
+
         var response = await _httpClient.GetAsync(CompanyDirectoryUrl, ct);
         response.EnsureSuccessStatusCode();
 
@@ -52,13 +135,12 @@ public class SecCompanyDirectoryClient : ICompanyDirectoryService
             .Select(entry => MapCompany(entry, fieldIndex))
             .Where(company =>
                 !string.IsNullOrWhiteSpace(company.Name) &&
-                !string.IsNullOrWhiteSpace(company.Ticker) &&
-                Fortune500CompanyFilter.IsIncluded(company.Name))
+                !string.IsNullOrWhiteSpace(company.Ticker))
             .OrderBy(company => company.Name, StringComparer.OrdinalIgnoreCase)
             .ToList()
             .AsReadOnly();
 
-        _cache.Set(CacheKey, companies, CacheDuration);
+        _cache.Set(FullDirectoryCacheKey, companies, CacheDuration);
 
         return companies;
     }
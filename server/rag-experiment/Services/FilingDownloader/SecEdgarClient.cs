@@ -32,6 +32,8 @@ public class SecEdgarClient : IFilingDownloader, ICompanyFilingsService
     public async Task<List<FilingDocument>> DownloadFilingsAsync(
         string companyIdentifier,
         List<string> filingTypes,
+        IReadOnlyCollection<string>? accessionNumbers = null,
+        ICollection<FilingDownloadFailure>? failures = null,
         CancellationToken ct = default)
     {
         var documents = new List<FilingDocument>();
@@ -41,7 +43,24 @@ public class SecEdgarClient : IFilingDownloader, ICompanyFilingsService
             return documents;
         }
 
-        var filings = await GetCompanyFilingsAsync(cik, filingTypes, _maxFilingsToDownload, ct);
+        // An explicit filing selection is honoured as-is rather than capped
+        var maxFilings = accessionNumbers is { Count: > 0 } ? 0 : _maxFilingsToDownload;
+        var filings = await GetCompanyFilingsAsync(cik, filingTypes, accessionNumbers, maxFilings, ct);
+
+        if (failures != null && accessionNumbers is { Count: > 0 })
+        {
+            foreach (var missing in accessionNumbers.Where(accession =>
+                         !filings.Any(f => string.Equals(f.AccessionNumber, accession, StringComparison.OrdinalIgnoreCase))))
+            {
+                failures.Add(new FilingDownloadFailure
+                {
+                    FilingType = "Unknown",
+                    AccessionNumber = missing,
+                    FilingDate = DateOnly.MinValue,
+                    ErrorMessage = "Filing not found in the company's recent SEC submissions"
+                });
+            }
+        }
         foreach (var filing in filings)
         {
             ct.ThrowIfCancellationRequested();
@@ -53,10 +72,15 @@ public class SecEdgarClient : IFilingDownloader, ICompanyFilingsService
                 {
                     documents.Add(document);
                 }
+                else
+                {
+                    failures?.Add(ToFailure(filing, "SEC EDGAR did not return the filing document"));
+                }
             }
-            catch (Exception)
+            catch (Exception ex) when (ex is not OperationCanceledException)
             {
                 // Continue with remaining filings if one fails
+                failures?.Add(ToFailure(filing, ex.Message));
             }
         }
 
@@ -87,7 +111,8 @@ public class SecEdgarClient : IFilingDownloader, ICompanyFilingsService
                 : null,
             Tickers = GetStringArray(doc.RootElement, "tickers"),
             Exchanges = GetStringArray(doc.RootElement, "exchanges"),
-            AvailableFilingTypes = GetAvailableFilingTypes(doc.RootElement)
+            AvailableFilingTypes = GetAvailableFilingTypes(doc.RootElement),
+            Filings = GetAvailableFilings(doc.RootElement)
         };
     }
 
@@ -152,6 +177,7 @@ public class SecEdgarClient : IFilingDownloader, ICompanyFilingsService
     private async Task<List<FilingInfo>> GetCompanyFilingsAsync(
         string cik,
         List<string> filingTypes,
+        IReadOnlyCollection<string>? accessionNumbers,
         int maxFilings,
         CancellationToken ct)
     {
@@ -171,7 +197,7 @@ public class SecEdgarClient : IFilingDownloader, ICompanyFilingsService
             }
 
             var forms = recentElement.GetProperty("form").EnumerateArray().ToList();
-            var accessionNumbers = recentElement.GetProperty("accessionNumber").EnumerateArray().ToList();
+            var accessionNumberElements = recentElement.GetProperty("accessionNumber").EnumerateArray().ToList();
             var filingDates = recentElement.GetProperty("filingDate").EnumerateArray().ToList();
             var primaryDocuments = recentElement.GetProperty("primaryDocument").EnumerateArray().ToList();
 
@@ -183,7 +209,13 @@ public class SecEdgarClient : IFilingDownloader, ICompanyFilingsService
                     continue;
                 }
 
-                var accessionNumber = accessionNumbers[i].GetString() ?? string.Empty;
+                var accessionNumber = accessionNumberElements[i].GetString() ?? string.Empty;
+                if (accessionNumbers is { Count: > 0 } &&
+                    !accessionNumbers.Contains(accessionNumber, StringComparer.OrdinalIgnoreCase))
+                {
+                    continue;
+                }
+
                 var filingDateStr = filingDates[i].GetString();
                 var primaryDoc = primaryDocuments[i].GetString() ?? string.Empty;
 
@@ -246,6 +278,17 @@ public class SecEdgarClient : IFilingDownloader, ICompanyFilingsService
         };
     }
 
+    private static FilingDownloadFailure ToFailure(FilingInfo filing, string errorMessage)
+    {
+        return new FilingDownloadFailure
+        {
+            FilingType = filing.Form,
+            AccessionNumber = filing.AccessionNumber,
+            FilingDate = filing.FilingDate,
+            ErrorMessage = errorMessage
+        };
+    }
+
     private static IReadOnlyList<SecAvailableFilingType> GetAvailableFilingTypes(JsonElement root)
     {
         if (!root.TryGetProperty("filings", out var filingsElement) ||
@@ -295,6 +338,57 @@ public class SecEdgarClient : IFilingDownloader, ICompanyFilingsService
             .AsReadOnly();
     }
 
+    private static IReadOnlyList<SecAvailableFiling> GetAvailableFilings(JsonElement root)
+    {
+        if (!root.TryGetProperty("filings", out var filingsElement) ||
+            !filingsElement.TryGetProperty("recent", out var recentElement) ||
+            !recentElement.TryGetProperty("form", out var formsElement) ||
+            !recentElement.TryGetProperty("accessionNumber", out var accessionElement) ||
+            !recentElement.TryGetProperty("filingDate", out var datesElement))
+        {
+            return Array.Empty<SecAvailableFiling>();
+        }
+
+        var forms = formsElement.EnumerateArray().ToList();
+        var accessionNumbers = accessionElement.EnumerateArray().ToList();
+        var filingDates = datesElement.EnumerateArray().ToList();
+        var reportDates = recentElement.TryGetProperty("reportDate", out var reportDatesElement)
+            ? reportDatesElement.EnumerateArray().ToList()
+            : new List<JsonElement>();
+
+        var filings = new List<SecAvailableFiling>();
+
+        for (var i = 0; i < forms.Count && i < accessionNumbers.Count && i < filingDates.Count; i++)
+        {
+            var form = forms[i].GetString();
+            var accessionNumber = accessionNumbers[i].GetString();
+            if (string.IsNullOrWhiteSpace(form) ||
+                string.IsNullOrWhiteSpace(accessionNumber) ||
+                !DateOnly.TryParse(filingDates[i].GetString(), out var filingDate))
+            {
+                continue;
+            }
+
+            DateOnly? reportDate = i < reportDates.Count &&
+                                   DateOnly.TryParse(reportDates[i].GetString(), out var parsedReportDate)
+                ? parsedReportDate
+                : null;
+
+            filings.Add(new SecAvailableFiling
+            {
+                AccessionNumber = accessionNumber,
+                FormType = form,
+                FilingDate = filingDate,
+                ReportDate = reportDate
+            });
+        }
+
+        return filings
+            .OrderByDescending(filing => filing.FilingDate)
+            .ToList()
+            .AsReadOnly();
+    }
+
     private static IReadOnlyList<string> GetStringArray(JsonElement root, string propertyName)
     {
         if (!root.TryGetProperty(propertyName, out var property) ||
@@ -36,7 +36,7 @@ namespace rag_experiment.Services
             _dbContext = dbContext;
         }
 
-        public async Task<List<DocumentEmbedding>> IngestDocumentAsync(int documentId, int userId, int conversationId)
+        public async Task<List<DocumentEmbedding>> IngestDocumentAsync(int documentId, int userId, int? conversationId)
         {
             int maxChunkSize = _textChunkingSettings.ChunkSize;
             int overlap = _textChunkingSettings.ChunkOverlap;
@@ -47,20 +47,13 @@ namespace rag_experiment.Services
                 throw new ArgumentException($"Document with ID {documentId} not found");
             }
 
-            // Extract text based on file type
-            string text;
-            if (document.ContentType == "application/pdf")
-            {
-                var pdfContents = await _textExtractor.ExtractTextAsync(Path.GetDirectoryName(document.FilePath));
-                text = pdfContents;
-            }
-            else
-            {
-                throw new NotSupportedException($"Document type {document.ContentType} is not supported");
-            }
+            // Extract text based on the file's extension (PDF, HTML or plain text)
+            var text = await _textExtractor.ExtractTextAsync(document.FilePath);
 
-            // Process the text
+            // Process the text, keeping it on the document for the in-app viewer
             var processedText = _textProcessor.ProcessText(text);
+            document.DocumentText = processedText;
+            var documentTitle = document.Title ?? document.OriginalFileName;
 
             // Split into chunks using configured settings
             var chunks = _textChunker.ChunkText(processedText);
@@ -86,9 +79,9 @@ namespace rag_experiment.Services
                         { "chunk_index", i.ToString() },
                         { "source_type", "uploaded_document" },
                         { "document_id", document.Id.ToString() },
-                        { "document_title", document.OriginalFileName },
+                        { "document_title", documentTitle },
                         { "user_id", userId.ToString() },
-                        { "conversation_id", conversationId.ToString() }
+                        { "conversation_id", conversationId?.ToString() ?? string.Empty }
                     }
                 };
 
@@ -105,7 +98,7 @@ namespace rag_experiment.Services
                     documentId: document.Id.ToString(),
                     userId: userId,
                     conversationId: conversationId,
-                    documentTitle: document.OriginalFileName,
+                    documentTitle: documentTitle,
                     owner: EmbeddingOwner.UserDocument,
                     chunkIndex: i,
                     chunkHash: chunkHash
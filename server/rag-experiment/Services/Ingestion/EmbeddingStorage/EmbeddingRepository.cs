@@ -5,6 +5,7 @@ using System.Collections.Generic;
 using System.Threading;
 using System.Threading.Tasks;
 using System.Linq;
+using System.Text.RegularExpressions;
 using Pgvector;
 using Pgvector.EntityFrameworkCore;
 
@@ -271,6 +272,177 @@ namespace rag_experiment.Services.Ingestion.VectorStorage
                 .ToList();
         }
 
+        /// <summary>
+        /// Adaptive retrieval that mirrors FindSimilarEmbeddingsAdaptiveAsync but also returns the embedding ID
+        /// and chunk index of each result, so answers can cite the exact chunks they were built from.
+        /// Uses pgvector's native cosine distance for efficient similarity search.
+        /// </summary>
+        /// <param name="queryEmbedding">The query embedding vector</param>
+        /// <param name="maxK">Maximum number of results to return. Use int.MaxValue for unlimited results.</param>
+        /// <param name="minSimilarity">Minimum similarity threshold (0.0 to 1.0)</param>
+        /// <param name="documentIds">Optional logical document ids to restrict the search to (e.g. one company's filings)</param>
+        /// <param name="legacyConversationId">Optional conversation whose filings keyed by name, rather than by
+        /// Document ID, are searched as well</param>
+        /// <returns>Task containing the retrieved chunks, ordered by similarity</returns>
+        public async Task<List<RetrievedChunk>> FindSimilarChunksAdaptiveAsync(
+            float[] queryEmbedding,
+            int maxK = 10,
+            float minSimilarity = 0.70f,
+            IReadOnlyCollection<string>? documentIds = null,
+            int? legacyConversationId = null)
+        {
+            var queryVector = new Vector(queryEmbedding);
+
+            // Convert similarity threshold to distance threshold (distance = 1 - similarity)
+            var maxDistance = 1.0 - minSimilarity;
+
+            var scopedQuery = _context.Embeddings
+                .Where(e => e.Owner == EmbeddingOwner.UserDocument);
+
+            if (documentIds != null)
+            {
+                // Filings ingested before they had Document rows are keyed by their name, which other
+                // conversations may share, so those are only matched within their own conversation
+                scopedQuery = legacyConversationId.HasValue
+                    ? scopedQuery.Where(e => documentIds.Contains(e.DocumentId) ||
+                                             (e.ConversationId == legacyConversationId &&
+                                              !Regex.IsMatch(e.DocumentId, "^[0-9]+$")))
+                    : scopedQuery.Where(e => documentIds.Contains(e.DocumentId));
+            }
+
+            var query = scopedQuery
+                .Where(e => e.EmbeddingData.CosineDistance(queryVector) <= maxDistance)
+                .OrderBy(e => e.EmbeddingData.CosineDistance(queryVector));
+
+            // Apply limit if not unlimited
+            var limitedQuery = maxK == int.MaxValue
+                ? query
+                : query.Take(maxK);
+
+            var results = await limitedQuery
+                .Select(e => new
+                {
+                    e.Id,
+                    e.Text,
+                    e.DocumentId,
+                    e.DocumentTitle,
+                    e.ChunkIndex,
+                    Distance = e.EmbeddingData.CosineDistance(queryVector)
+                })
+                .ToListAsync();
+
+            // Convert cosine distance to similarity (similarity = 1 - distance)
+            return results
+                .Select(r => new RetrievedChunk
+                {
+                    EmbeddingId = r.Id,
+                    Text = r.Text,
+                    DocumentId = r.DocumentId,
+                    DocumentTitle = r.DocumentTitle,
+                    ChunkIndex = r.ChunkIndex,
+                    Similarity = 1f - (float)r.Distance
+                })
+                .ToList();
+        }
+
+        /// <summary>
+        /// Adaptive retrieval across all of the current user's conversations, for searching every company they
+        /// have ingested at once. Only chunks that belong to a conversation are returned, each with its
+        /// conversation ID. Uses pgvector's native cosine distance for efficient similarity search.
+        /// </summary>
+        /// <param name="queryEmbedding">The query embedding vector</param>
+        /// <param name="maxK">Maximum number of results to return</param>
+        /// <param name="minSimilarity">Minimum similarity threshold (0.0 to 1.0)</param>
+        /// <param name="conversationIds">Optional conversations to restrict the search to</param>
+        /// <param name="documentIds">Optional logical document ids to restrict the search to (e.g. one company's filings)</param>
+        /// <param name="legacyConversationIds">Optional conversations whose filings keyed by name, rather than by
+        /// Document ID, are searched as well when restricting to documentIds</param>
+        /// <returns>Task containing the retrieved chunks, ordered by similarity</returns>
+        public async Task<List<ConversationRetrievedChunk>> FindSimilarChunksAcrossConversationsAsync(
+            float[] queryEmbedding,
+            int maxK,
+            float minSimilarity,
+            IReadOnlyCollection<int>? conversationIds = null,
+            IReadOnlyCollection<string>? documentIds = null,
+            IReadOnlyCollection<int>? legacyConversationIds = null)
+        {
+            var userId = _userContext.GetCurrentUserId();
+            var queryVector = new Vector(queryEmbedding);
+
+            // Convert similarity threshold to distance threshold (distance = 1 - similarity)
+            var maxDistance = 1.0 - minSimilarity;
+
+            var scopedQuery = _context.Embeddings
+                .Where(e => e.UserId == userId &&
+                            e.Owner == EmbeddingOwner.UserDocument &&
+                            e.ConversationId != null);
+
+            if (conversationIds != null)
+            {
+                scopedQuery = scopedQuery.Where(e => conversationIds.Contains(e.ConversationId!.Value));
+            }
+
+            if (documentIds != null)
+            {
+                // Filings keyed by name are matched through their conversation, as in FindSimilarChunksAdaptiveAsync
+                scopedQuery = legacyConversationIds != null
+                    ? scopedQuery.Where(e => documentIds.Contains(e.DocumentId) ||
+                                             (legacyConversationIds.Contains(e.ConversationId!.Value) &&
+                                              !Regex.IsMatch(e.DocumentId, "^[0-9]+$")))
+                    : scopedQuery.Where(e => documentIds.Contains(e.DocumentId));
+            }
+
+            var results = await scopedQuery
+                .Where(e => e.EmbeddingData.CosineDistance(queryVector) <= maxDistance)
+                .OrderBy(e => e.EmbeddingData.CosineDistance(queryVector))
+                .Take(maxK)
+                .Select(e => new
+                {
+                    e.Id,
+                    e.Text,
+                    e.DocumentId,
+                    e.DocumentTitle,
+                    e.ChunkIndex,
+                    ConversationId = e.ConversationId!.Value,
+                    Distance = e.EmbeddingData.CosineDistance(queryVector)
+                })
+                .ToListAsync();
+
+            // Convert cosine distance to similarity (similarity = 1 - distance)
+            return results
+                .Select(r => new ConversationRetrievedChunk
+                {
+                    EmbeddingId = r.Id,
+                    Text = r.Text,
+                    DocumentId = r.DocumentId,
+                    DocumentTitle = r.DocumentTitle,
+                    ChunkIndex = r.ChunkIndex,
+                    ConversationId = r.ConversationId,
+                    Similarity = 1f - (float)r.Distance
+                })
+                .ToList();
+        }
+
+        /// <summary>
+        /// Retrieves a contiguous range of chunks for a document, ordered by chunk index.
+        /// </summary>
+        /// <param name="documentId">The logical document id the embeddings were stored under</param>
+        /// <param name="conversationId">The conversation the document belongs to</param>
+        /// <param name="fromChunkIndex">First chunk index to include</param>
+        /// <param name="toChunkIndex">Last chunk index to include</param>
+        /// <returns>Task containing the chunks in document order</returns>
+        public async Task<List<Embedding>> GetDocumentChunksAsync(string documentId, int? conversationId,
+            int fromChunkIndex, int toChunkIndex)
+        {
+            return await _context.Embeddings
+                .Where(e => e.DocumentId == documentId &&
+                            e.ConversationId == conversationId &&
+                            e.ChunkIndex >= fromChunkIndex &&
+                            e.ChunkIndex <= toChunkIndex)
+                .OrderBy(e => e.ChunkIndex)
+                .ToListAsync();
+        }
+
         /// <summary>
         /// Adaptive retrieval for user's documents scoped to a conversation.
         /// Uses both similarity threshold and maxK limit for flexible retrieval.
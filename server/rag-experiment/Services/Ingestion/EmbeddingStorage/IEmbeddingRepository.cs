@@ -71,6 +71,27 @@ namespace rag_experiment.Services.Ingestion.VectorStorage
         public required Dictionary<string, string> Metadata { get; init; }
     }
 
+    /// <summary>
+    /// A retrieved chunk with the identifiers needed to cite it and fetch its surrounding context
+    /// </summary>
+    public record RetrievedChunk
+    {
+        public required int EmbeddingId { get; init; }
+        public required string Text { get; init; }
+        public required string DocumentId { get; init; }
+        public required string DocumentTitle { get; init; }
+        public required int ChunkIndex { get; init; }
+        public required float Similarity { get; init; }
+    }
+
+    /// <summary>
+    /// A retrieved chunk together with the conversation its document was ingested into.
+    /// </summary>
+    public record ConversationRetrievedChunk : RetrievedChunk
+    {
+        public required int ConversationId { get; init; }
+    }
+
     public interface IEmbeddingRepository
     {
         /// <summary>
@@ -150,6 +171,49 @@ namespace rag_experiment.Services.Ingestion.VectorStorage
         Task<List<(string Text, string DocumentId, string DocumentTitle, float Similarity)>> FindSimilarEmbeddingsAsync(
             float[] queryEmbedding, int topK = 10);
 
+        /// <summary>
+        /// Adaptive retrieval that returns all UserDocument chunks above the similarity threshold, up to maxK,
+        /// including the embedding ID and chunk index so callers can persist chunk-level citations.
+        /// </summary>
+        /// <param name="queryEmbedding">The query embedding vector</param>
+        /// <param name="maxK">Maximum number of results to return. Use int.MaxValue for unlimited results.</param>
+        /// <param name="minSimilarity">Minimum similarity threshold (0.0 to 1.0)</param>
+        /// <param name="documentIds">Optional logical document ids to restrict the search to</param>
+        /// <param name="legacyConversationId">Optional conversation whose filings keyed by name, rather than by
+        /// Document ID, are searched as well</param>
+        /// <returns>Task containing the retrieved chunks, ordered by similarity</returns>
+        Task<List<RetrievedChunk>> FindSimilarChunksAdaptiveAsync(float[] queryEmbedding, int maxK = 10,
+            float minSimilarity = 0.70f, IReadOnlyCollection<string>? documentIds = null,
+            int? legacyConversationId = null);
+
+        /// <summary>
+        /// Adaptive retrieval across every conversation of the current user: returns their UserDocument chunks
+        /// above the similarity threshold, up to maxK, each with the conversation it belongs to.
+        /// </summary>
+        /// <param name="queryEmbedding">The query embedding vector</param>
+        /// <param name="maxK">Maximum number of results to return</param>
+        /// <param name="minSimilarity">Minimum similarity threshold (0.0 to 1.0)</param>
+        /// <param name="conversationIds">Optional conversations to restrict the search to</param>
+        /// <param name="documentIds">Optional logical document ids to restrict the search to</param>
+        /// <param name="legacyConversationIds">Optional conversations whose filings keyed by name, rather than by
+        /// Document ID, are searched as well when restricting to documentIds</param>
+        /// <returns>Task containing the retrieved chunks, ordered by similarity</returns>
+        Task<List<ConversationRetrievedChunk>> FindSimilarChunksAcrossConversationsAsync(float[] queryEmbedding,
+            int maxK, float minSimilarity, IReadOnlyCollection<int>? conversationIds = null,
+            IReadOnlyCollection<string>? documentIds = null, IReadOnlyCollection<int>? legacyConversationIds = null);
+
+        /// <summary>
+        /// Retrieves a contiguous range of chunks for a document, ordered by chunk index.
+        /// Used to show the context surrounding a cited chunk.
+        /// </summary>
+        /// <param name="documentId">The logical document id the embeddings were stored under</param>
+        /// <param name="conversationId">The conversation the document belongs to</param>
+        /// <param name="fromChunkIndex">First chunk index to include</param>
+        /// <param name="toChunkIndex">Last chunk index to include</param>
+        /// <returns>Task containing the chunks in document order</returns>
+        Task<List<Embedding>> GetDocumentChunksAsync(string documentId, int? conversationId, int fromChunkIndex,
+            int toChunkIndex);
+
         /// <summary>
         /// Upserts a batch of embeddings using a stable uniqueness key such as (UserId, ConversationId, DocumentId, ChunkIndex).
         /// Implementations should insert missing rows and update existing rows only when content (e.g., ChunkHash or Vector) changed.
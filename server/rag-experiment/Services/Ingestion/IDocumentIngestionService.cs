@@ -9,8 +9,9 @@ namespace rag_experiment.Services
         /// </summary>
         /// <param name="documentId">The ID of the document to process</param>
         /// <param name="userId">The ID of the user who is ingesting the document</param>
-        /// <param name="conversationId">The ID of the conversation the document belongs to</param>
+        /// <param name="conversationId">The ID of the conversation the document belongs to; null for documents in
+        /// the user's library</param>
         /// <returns>List of document embeddings generated from the document</returns>
-        Task<List<DocumentEmbedding>> IngestDocumentAsync(int documentId, int userId, int conversationId);
+        Task<List<DocumentEmbedding>> IngestDocumentAsync(int documentId, int userId, int? conversationId);
     }
 }
\ No newline at end of file
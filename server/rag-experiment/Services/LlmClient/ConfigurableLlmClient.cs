@@ -1,3 +1,4 @@
+using System.Runtime.CompilerServices;
 using System.Text;
 using System.Text.Json;
 using System.Text.Json.Serialization;
@@ -74,27 +75,7 @@ namespace rag_experiment.Services
 
             try
             {
-                var chatMessage = new ChatMessage
-                {
-                    Messages = new List<Message>
-                    {
-                        new Message
-                        {
-                            Role = "system",
-                            Content =
-                                "You are a helpful assistant that answers questions based ONLY on the provided context. Do not use any prior knowledge or information that is not explicitly provided in the context. If the context doesn't contain an answer to the question, admit that you don't know rather than making up an answer."
-                        },
-                        new Message
-                        {
-                            Role = "user",
-                            Content =
-                                $"Here is the context information to use for answering my question:\n\n{context}\n\nMy question is: {query}\n\nAnswer my question strictly using only the information in the provided context. Do not add any information from outside sources or your own knowledge."
-                        }
-                    },
-                    Model = _configuration.ModelName,
-                    MaxTokens = _configuration.MaxTokens,
-                    Temperature = _configuration.Temperature
-                };
+                var chatMessage = BuildChatMessage(query, context);
 
                 var jsonContent = JsonSerializer.Serialize(chatMessage);
                 var content = new StringContent(jsonContent, Encoding.UTF8, "application/json");
@@ -140,6 +121,94 @@ namespace rag_experiment.Services
             }
         }
 
+        /// <summary>
+        /// Streams an AI response to a user query using the configured model, based only on the provided context.
+        /// </summary>
+        /// <param name="query">The user's question to answer</param>
+        /// <param name="context">The retrieved document context to base the answer on</param>
+        /// <param name="cancellationToken">Cancels the upstream OpenAI request</param>
+        /// <returns>Async sequence of response text deltas</returns>
+        public async IAsyncEnumerable<string> StreamResponseAsync(string query, string context,
+            [EnumeratorCancellation] CancellationToken cancellationToken = default)
+        {
+            if (string.IsNullOrWhiteSpace(query))
+            {
+                _logger?.LogWarning("Empty query provided to StreamResponseAsync");
+                yield return "No query provided.";
+                yield break;
+            }
+
+            if (string.IsNullOrWhiteSpace(context))
+            {
+                _logger?.LogWarning("Empty context provided for streamed query: {Query}", query);
+                yield return "No relevant information found to answer this query.";
+                yield break;
+            }
+
+            var chatMessage = BuildChatMessage(query, context);
+            chatMessage.Stream = true;
+
+            var jsonContent = JsonSerializer.Serialize(chatMessage);
+            using var request = new HttpRequestMessage(HttpMethod.Post, "https://api.openai.com/v1/chat/completions")
+            {
+                Content = new StringContent(jsonContent, Encoding.UTF8, "application/json")
+            };
+
+            _logger?.LogDebug(
+                "Streaming request to OpenAI with model: {ModelName}, MaxTokens: {MaxTokens}",
+                _configuration.ModelName,
+                _configuration.MaxTokens);
+
+            // ResponseHeadersRead lets us consume the server-sent events as they arrive
+            using var response = await _httpClient.SendAsync(request, HttpCompletionOption.ResponseHeadersRead,
+                cancellationToken);
+            response.EnsureSuccessStatusCode();
+
+            await using var stream = await response.Content.ReadAsStreamAsync(cancellationToken);
+            using var reader = new StreamReader(stream);
+
+            while (await reader.ReadLineAsync(cancellationToken) is { } line)
+            {
+                if (!line.StartsWith("data: "))
+                    continue;
+
+                var data = line["data: ".Length..];
+                if (data == "[DONE]")
+                    yield break;
+
+                var chunk = JsonSerializer.Deserialize<ChatStreamChunk>(data);
+                var delta = chunk?.Choices?.FirstOrDefault()?.Delta?.Content;
+
+                if (!string.IsNullOrEmpty(delta))
+                    yield return delta;
+            }
+        }
+
+        private ChatMessage BuildChatMessage(string query, string context)
+        {
+            return new ChatMessage
+            {
+                Messages = new List<Message>
+                {
+                    new Message
+                    {
+                        Role = "system",
+                        Content =
+                            "You are a helpful assistant that answers questions based ONLY on the provided context. Do not use any prior knowledge or information that is not explicitly provided in the context. If the context doesn't contain an answer to the question, admit that you don't know rather than making up an answer."
+                    },
+                    new Message
+                    {
+                        Role = "user",
+                        Content =
+                            $"Here is the context information to use for answering my question:\n\n{context}\n\nMy question is: {query}\n\nAnswer my question strictly using only the information in the provided context. Do not add any information from outside sources or your own knowledge."
+                    }
+                },
+                Model = _configuration.ModelName,
+                MaxTokens = _configuration.MaxTokens,
+                Temperature = _configuration.Temperature
+            };
+        }
+
         /// <summary>
         /// Estimates the cost of a request based on input and output token counts.
         /// </summary>
@@ -169,6 +238,8 @@ namespace rag_experiment.Services
             [JsonPropertyName("max_tokens")] public int MaxTokens { get; set; }
 
             [JsonPropertyName("temperature")] public double Temperature { get; set; }
+
+            [JsonPropertyName("stream")] public bool Stream { get; set; }
         }
 
         private class Message
@@ -188,6 +259,16 @@ namespace rag_experiment.Services
             [JsonPropertyName("message")] public Message? Message { get; set; }
         }
 
+        private class ChatStreamChunk
+        {
+            [JsonPropertyName("choices")] public List<StreamChoice>? Choices { get; set; }
+        }
+
+        private class StreamChoice
+        {
+            [JsonPropertyName("delta")] public Message? Delta { get; set; }
+        }
+
         #endregion
     }
 }
\ No newline at end of file
@@ -0,0 +1,105 @@
+using rag_experiment.Services.LlmClient.Models;
+
+namespace rag_experiment.Services.Query.Models
+{
+    /// <summary>
+    /// How an answer's context was retrieved: the rewritten query, the classified intent and the
+    /// thresholds it selected, and how similar the candidate chunks were. Stored in the answer's
+    /// metadata so it can be shown next to the answer.
+    /// </summary>
+    public class RetrievalDiagnostics
+    {
+        /// <summary>
+        /// Width of each similarity histogram bucket
+        /// </summary>
+        public const float HistogramBucketWidth = 0.05f;
+
+        /// <summary>
+        /// The question as the user asked it
+        /// </summary>
+        public string OriginalQuery { get; set; } = string.Empty;
+
+        /// <summary>
+        /// The question rewritten with conversation context, as used for the embedding search
+        /// </summary>
+        public string ProcessedQuery { get; set; } = string.Empty;
+
+        public QueryIntent Intent { get; set; }
+
+        /// <summary>
+        /// The classifier's explanation of the intent
+        /// </summary>
+        public string? IntentReasoning { get; set; }
+
+        /// <summary>
+        /// Maximum number of chunks retrieved (per company when comparing companies); null when unlimited
+        /// </summary>
+        public int? MaxK { get; set; }
+
+        /// <summary>
+        /// Minimum similarity a chunk needed to be retrieved (0.0 to 1.0)
+        /// </summary>
+        public float MinSimilarity { get; set; }
+
+        /// <summary>
+        /// Human-readable description of the retrieval configuration
+        /// </summary>
+        public string? ConfigDescription { get; set; }
+
+        /// <summary>
+        /// Whether the user chose the intent instead of the classifier
+        /// </summary>
+        public bool IntentOverridden { get; set; }
+
+        /// <summary>
+        /// Whether the user set MaxK or MinSimilarity instead of the intent's defaults
+        /// </summary>
+        public bool ThresholdsOverridden { get; set; }
+
+        /// <summary>
+        /// Model tier the user chose for the answer; null when the default model was used
+        /// </summary>
+        public LlmModelTier? ModelTier { get; set; }
+
+        /// <summary>
+        /// Chunks in the context, including those from explicitly referenced documents
+        /// </summary>
+        public int TotalChunks { get; set; }
+
+        /// <summary>
+        /// Chunks included because their document was referenced, regardless of similarity
+        /// </summary>
+        public int ReferencedChunks { get; set; }
+
+        /// <summary>
+        /// Distinct documents the chunks came from
+        /// </summary>
+        public int UniqueDocuments { get; set; }
+
+        /// <summary>
+        /// Candidate chunk counts per similarity bucket, lowest first; bucket i covers
+        /// [i * HistogramBucketWidth, (i + 1) * HistogramBucketWidth)
+        /// </summary>
+        public List<int> SimilarityHistogram { get; set; } = new();
+
+        /// <summary>
+        /// Counts similarities into equal-width buckets from 0 to 1. Values outside that range are
+        /// clamped into the first or last bucket.
+        /// </summary>
+        /// <param name="similarities">Similarity of each candidate chunk</param>
+        /// <returns>The count of each bucket, lowest first</returns>
+        public static List<int> BuildHistogram(IEnumerable<float> similarities)
+        {
+            var bucketCount = (int)Math.Round(1f / HistogramBucketWidth);
+            var histogram = new int[bucketCount];
+
+            foreach (var similarity in similarities)
+            {
+                var bucket = (int)Math.Floor(similarity / HistogramBucketWidth);
+                histogram[Math.Clamp(bucket, 0, bucketCount - 1)]++;
+            }
+
+            return histogram.ToList();
+        }
+    }
+}
@@ -0,0 +1,40 @@
+using System.ComponentModel.DataAnnotations;
+using rag_experiment.Services.LlmClient.Models;
+
+namespace rag_experiment.Services.Query.Models
+{
+    /// <summary>
+    /// Per-question overrides of the adaptive retrieval pipeline, chosen by the user when the intent
+    /// classifier's defaults don't fit. Unset values fall back to the classified intent's configuration.
+    /// Recorded in the question's metadata so its answers can be regenerated the same way.
+    /// </summary>
+    public class RetrievalOptions
+    {
+        /// <summary>
+        /// Forces the intent instead of classifying the question
+        /// </summary>
+        public QueryIntent? Intent { get; set; }
+
+        /// <summary>
+        /// Overrides the maximum number of chunks retrieved
+        /// </summary>
+        [Range(1, 1000, ErrorMessage = "MaxK must be between 1 and 1000")]
+        public int? MaxK { get; set; }
+
+        /// <summary>
+        /// Overrides the minimum similarity a chunk needs to be retrieved (0.0 to 1.0)
+        /// </summary>
+        [Range(0.0, 1.0, ErrorMessage = "MinSimilarity must be between 0 and 1")]
+        public float? MinSimilarity { get; set; }
+
+        /// <summary>
+        /// Generates the answer with this model tier instead of the default model
+        /// </summary>
+        public LlmModelTier? ModelTier { get; set; }
+
+        /// <summary>
+        /// Whether any override is set
+        /// </summary>
+        public bool HasOverrides() => Intent != null || MaxK != null || MinSimilarity != null || ModelTier != null;
+    }
+}
@@ -9,5 +9,15 @@ namespace rag_experiment.Services
         /// <param name="context">The retrieved context chunks</param>
         /// <returns>Generated response from the LLM</returns>
         Task<string> GenerateResponseAsync(string query, string context);
+
+        /// <summary>
+        /// Streams a response to a query using retrieved context chunks, yielding text deltas as the LLM produces them
+        /// </summary>
+        /// <param name="query">The original user query</param>
+        /// <param name="context">The retrieved context chunks</param>
+        /// <param name="cancellationToken">Cancels generation, e.g. when the client stops the stream</param>
+        /// <returns>Async sequence of response text fragments, in order</returns>
+        IAsyncEnumerable<string> StreamResponseAsync(string query, string context,
+            CancellationToken cancellationToken = default);
     }
-}
\ No newline at end of file
+}